@@ -25,31 +25,57 @@ import * as TLE from "./src/TLE";
 import * as basic from "./src/Tokenizer";
 import * as Utilities from "./src/Utilities";
 
+export { ApiProfileMetadata, ApiProfilesMetadata } from "./src/ApiProfilesMetadata";
 export * from './src/AzureRMAssets';
 export { AzureRMAssets } from "./src/AzureRMAssets";
 export { activateInternal, deactivateInternal } from './src/AzureRMTools'; // Export activate/deactivate for main.js
 export { CachedPromise } from "./src/CachedPromise";
 export { CachedValue } from "./src/CachedValue";
 export { CaseInsensitiveMap } from "./src/CaseInsensitiveMap";
+export { createJsonReport, createSarifLog, IJsonReport, IReportRange, ISarifLog, ISarifResult, jsonReportVersion, sarifSchemaUri } from "./src/cli/diagnosticReports";
+export { expandFilePatterns, globToRegExp, IExpandedFilePatterns, isGlobPattern } from "./src/cli/expandFilePatterns";
+export { runLintCommand } from "./src/cli/runLintCommand";
+export { formatLintDiagnostic, getLintDiagnostics, ILintDiagnostic, ILintFileResult, ILintResults, lintFiles, lintTemplate, LintSeverity } from "./src/cli/TemplateLinter";
+export { getReferenceCodeLenses, ReferenceCodeLens } from "./src/CodeLenses";
 export * from "./src/Completion";
 export { configKeys, configPrefix, diagnosticsCompletePrefix, expressionsDiagnosticsSource, languageId as armDeploymentLanguageId, languageId, languageServerStateSource, templateKeys } from "./src/constants";
 export { __debugMarkPositionInString, __debugMarkSubstring } from "./src/debugMarkStrings";
+export { DependencyKind, getDependencyGraph, IDependencyGraph, IDependencyGraphEdge, IDependencyGraphNode, toDot, toMermaid } from "./src/dependencyGraph/dependencyGraph";
+export { getDependencyGraphHtml, goToResourceCommand, IDependencyGraphLayout, INodeLayout, layoutDependencyGraph } from "./src/dependencyGraph/dependencyGraphView";
 export { DeploymentTemplate } from "./src/DeploymentTemplate";
+export { getDocumentSymbols, TemplateSymbol, TemplateSymbolKind } from "./src/DocumentSymbols";
 export { Duration } from './src/Duration';
-export { ExpressionType } from "./src/ExpressionType";
+export { CannotEvaluateReason, EvaluatedValue, EvaluationResult, ExpressionEvaluator, IParameterValues } from "./src/ExpressionEvaluator";
+export { ExpressionType, getExpressionTypeFromJsonValue, isExpressionTypeAssignable } from "./src/ExpressionType";
 export { ext } from './src/extensionVariables';
 export { Histogram } from "./src/Histogram";
 export { HoverInfo } from "./src/Hover";
 export { httpGet } from './src/httpGet';
 export { DefinitionKind, INamedDefinition } from "./src/INamedDefinition";
 export { IncorrectArgumentsCountIssue } from "./src/IncorrectArgumentsCountIssue";
+export { InvalidFunctionContextIssue } from "./src/InvalidFunctionContextIssue";
 export { IParameterDefinition } from "./src/IParameterDefinition";
 export * from "./src/Language";
 export { LanguageServerState } from "./src/languageclient/startArmLanguageServer";
+export { getLinkedTemplates, LinkedTemplate } from "./src/LinkedTemplate";
+export { getLinkedParameterDefinition, getLinkedTemplateErrors, ILinkedParameterDefinition, loadLinkedTemplate, OpenedTemplateProvider } from "./src/LinkedTemplateLoader";
+export { getInnerScopedNestedDeployments, NestedDeployment } from "./src/NestedDeployment";
+export { isTemplateOutputDefinition, OutputDefinition, TemplateOutputDefinition } from "./src/OutputDefinition";
 export { ParameterDefinition } from "./src/ParameterDefinition";
+export { DeploymentParameters } from "./src/parameterFiles/DeploymentParameters";
+export { getTemplateFileCandidates, isParameterFileName } from "./src/parameterFiles/parameterFiles";
+export { ParameterValueDefinition } from "./src/parameterFiles/ParameterValueDefinition";
 export { IReferenceSite, PositionContext } from "./src/PositionContext";
+export { getQuickFixes, QuickFix } from "./src/QuickFixes";
+export { getExtractRefactorings, getInlineRefactorings, Refactoring, RefactoringKind } from "./src/Refactorings";
+export { ReferenceIndex } from "./src/ReferenceIndex";
 export { ReferenceList } from "./src/ReferenceList";
-export { containsArmSchema, getPreferredSchema, isArmSchema } from './src/schemas';
+export { flattenResourceDefinitions, getResourceDefinitions, ResourceDefinition } from "./src/ResourceDefinition";
+export { IResourceDependency, IResourceReference, ResourceDependencyGraph } from "./src/ResourceDependencies";
+export { ResourceProvidersMetadata, ResourceTypeMetadata } from "./src/ResourceProvidersMetadata";
+export { ResourceReferenceIssue } from "./src/ResourceReferenceIssue";
+export { containsArmSchema, DeploymentScope, getDeploymentScope, getDeploymentScopeDisplayName, getPreferredSchema, isArmSchema } from './src/schemas';
+export { getStaleApiVersionIssues, getStaleApiVersionMessage, getStaleApiVersions, groupStaleApiVersionsByType, isPreviewApiVersion, IStaleApiVersion, IStaleApiVersionGroup, StaleApiVersionReason } from "./src/StaleApiVersions";
 export { ScopeContext, TemplateScope } from "./src/TemplateScope";
 export { FunctionSignatureHelp } from "./src/TLE";
 export { JsonOutlineProvider, shortenTreeLabel } from "./src/Treeview";
@@ -57,13 +83,20 @@ export { UnrecognizedBuiltinFunctionIssue, UnrecognizedUserFunctionIssue, Unreco
 export { UserFunctionMetadata } from "./src/UserFunctionMetadata";
 export { UserFunctionNamespaceDefinition } from "./src/UserFunctionNamespaceDefinition";
 export { UserFunctionParameterDefinition } from "./src/UserFunctionParameterDefinition";
+export { getInsertPropertyEdit, getRemovePropertyEdit, reindentText, TextEdit } from "./src/util/jsonEdits";
 export { mapJsonObjectValue } from "./src/util/mapJsonObjectValue";
+export { uniqueString } from "./src/util/uniqueString";
 export { getVSCodePositionFromPosition } from "./src/util/vscodePosition";
 export { isVariableDefinition, IVariableDefinition } from "./src/VariableDefinition";
-export { FindReferencesVisitor } from "./src/visitors/FindReferencesVisitor";
+export { getIndexedSymbols, IIndexedSymbol, IOpenTemplate, matchesSymbolQuery, WorkspaceTemplateIndex } from "./src/WorkspaceTemplateIndex";
+export { CopyLoopKind, CopyLoopVisitor, ICopyLoop } from "./src/visitors/CopyLoopVisitor";
+export { DeploymentScopeVisitor } from "./src/visitors/DeploymentScopeVisitor";
 export { FunctionCountVisitor } from "./src/visitors/FunctionCountVisitor";
 export { IncorrectFunctionArgumentCountVisitor } from "./src/visitors/IncorrectFunctionArgumentCountVisitor";
+export { ReferenceIndexVisitor } from "./src/visitors/ReferenceIndexVisitor";
 export { ReferenceInVariableDefinitionsVisitor } from "./src/visitors/ReferenceInVariableDefinitionsVisitor";
+export { getDeclaredResources, IDeclaredResource, ResourceReferenceVisitor } from "./src/visitors/ResourceReferenceVisitor";
+export { TypeInferenceVisitor } from "./src/visitors/TypeInferenceVisitor";
 export { UndefinedParameterAndVariableVisitor } from "./src/visitors/UndefinedParameterAndVariableVisitor";
 export { UndefinedVariablePropertyVisitor } from "./src/visitors/UndefinedVariablePropertyVisitor";
 export { UnrecognizedFunctionVisitor } from "./src/visitors/UnrecognizedFunctionVisitor";
@@ -17,6 +17,7 @@ import * as shelljs from 'shelljs';
 import { gulp_installAzureAccount, gulp_webpack } from 'vscode-azureextensiondev';
 import { languageServerFolderName as languageServerRelativeFolderPath } from './src/constants';
 import { assert } from './src/fixed_assert';
+import { httpGet } from './src/httpGet';
 import { getTempFilePath } from './test/support/getTempFilePath';
 
 // tslint:disable-next-line:no-require-imports
@@ -57,6 +58,13 @@ const tleGrammarBuiltPath: string = path.resolve('dist', 'grammars', 'arm-expres
 const armConfigurationSourcePath: string = path.resolve('grammars', 'jsonc.arm.language-configuration.json');
 const armConfigurationDestPath: string = path.resolve('dist', 'grammars', 'jsonc.arm.language-configuration.json');
 
+const resourceProvidersPath: string = path.resolve('assets', 'ResourceProviders.json');
+// The published lists of all resource schemas referenced by the deployment template schema
+const resourceSchemaListUrls: string[] = [
+    'https://schema.management.azure.com/schemas/common/autogeneratedResources.json',
+    'https://schema.management.azure.com/schemas/common/manuallyAddedResources.json'
+];
+
 interface IGrammar {
     preprocess?: {
         "builtin-functions": string;
@@ -142,6 +150,73 @@ async function buildGrammars(): Promise<void> {
     console.log(`Copied ${armConfigurationDestPath}`);
 }
 
+/**
+ * Regenerates assets/ResourceProviders.json from the resource schemas published at schema.management.azure.com,
+ * recording where the catalog came from and when
+ */
+async function generateResourceProviders(): Promise<void> {
+    // e.g. https://schema.management.azure.com/schemas/2019-06-01/Microsoft.Storage.json#/resourceDefinitions/storageAccounts
+    const resourceRefRegex = /https:\/\/schema\.management\.azure\.com\/schemas\/(\d{4}-\d{2}-\d{2}(?:-[a-z0-9]+)?)\/([a-z0-9.]+)\.json#\/resourceDefinitions\/([a-z0-9_]+)/gi;
+
+    // Schema URL -> resource definition names
+    const schemaDefinitions = new Map<string, { apiVersion: string; definitionNames: Set<string> }>();
+    for (const listUrl of resourceSchemaListUrls) {
+        console.log(`Reading ${listUrl}`);
+        const list: string = await httpGet(listUrl);
+        for (let match = resourceRefRegex.exec(list); match; match = resourceRefRegex.exec(list)) {
+            const schemaUrl = `https://schema.management.azure.com/schemas/${match[1]}/${match[2]}.json`;
+            let schema = schemaDefinitions.get(schemaUrl);
+            if (!schema) {
+                schema = { apiVersion: match[1], definitionNames: new Set<string>() };
+                schemaDefinitions.set(schemaUrl, schema);
+            }
+            schema.definitionNames.add(match[3]);
+        }
+    }
+
+    // Resource type -> apiVersions
+    const resourceTypes = new Map<string, Set<string>>();
+    for (const [schemaUrl, schema] of schemaDefinitions) {
+        console.log(`Reading ${schemaUrl}`);
+        // tslint:disable-next-line: strict-boolean-expressions
+        const resourceDefinitions = JSON.parse(await httpGet(schemaUrl)).resourceDefinitions || {};
+        for (const definitionName of schema.definitionNames) {
+            const definition = resourceDefinitions[definitionName];
+            const typeEnum: unknown = definition && definition.properties && definition.properties.type && definition.properties.type.enum;
+            const resourceType: unknown = Array.isArray(typeEnum) ? typeEnum[0] : undefined;
+            if (typeof resourceType === 'string') {
+                // Types differing only in case are the same type
+                const existingType: string | undefined = Array.from(resourceTypes.keys()).find(t => t.toLowerCase() === resourceType.toLowerCase());
+                const typeName: string = existingType !== undefined ? existingType : resourceType;
+                const apiVersions: Set<string> | undefined = resourceTypes.get(typeName);
+                if (apiVersions) {
+                    apiVersions.add(schema.apiVersion);
+                } else {
+                    resourceTypes.set(typeName, new Set<string>([schema.apiVersion]));
+                }
+            }
+        }
+    }
+
+    const lines: string[] = Array.from(resourceTypes.keys())
+        .sort((a, b) => a.localeCompare(b))
+        // tslint:disable-next-line: no-non-null-assertion
+        .map(resourceType => `        ${JSON.stringify(resourceType)}: [${Array.from(resourceTypes.get(resourceType)!).sort().map(v => JSON.stringify(v)).join(', ')}]`);
+    const contents: string = [
+        '{',
+        '    "$schema": "./ResourceProviders.schema.json",',
+        `    "version": "${new Date().toISOString().substr(0, 10)}",`,
+        `    "source": ${JSON.stringify(`Generated by 'npm run generate-resource-providers' from ${resourceSchemaListUrls.join(' and ')}`)},`,
+        '    "resourceTypes": {',
+        lines.join(',' + os.EOL),
+        '    }',
+        '}',
+        ''
+    ].join(os.EOL);
+    await fse.writeFile(resourceProvidersPath, contents);
+    console.log(`Wrote ${resourceTypes.size} resource types to ${resourceProvidersPath}`);
+}
+
 function executeInShell(command: string): void {
     console.log(command);
     const result = shelljs.exec(command);
@@ -339,6 +414,7 @@ exports.test = gulp.series(gulp_installAzureAccount, test);
 exports['build-grammars'] = buildGrammars;
 exports['watch-grammars'] = (): unknown => gulp.watch('grammars/**', buildGrammars);
 exports['get-language-server'] = getLanguageServer;
+exports['generate-resource-providers'] = generateResourceProviders;
 exports.package = packageVsix;
 exports['error-vsce-package'] = (): never => { throw new Error(`Please do not run vsce package, instead use 'npm run package`); };
 exports['verify-test-uses-extension-bundle'] = (): Promise<void> => verifyTestReferencesOnlyExtensionBundle(path.resolve("test"));
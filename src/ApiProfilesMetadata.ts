@@ -0,0 +1,103 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+/**
+ * Metadata for the API profiles in the bundled catalog (e.g. the Azure Stack "2018-03-01-hybrid" profile),
+ * which can be selected with a template's "apiProfile" property
+ */
+export class ApiProfilesMetadata {
+    private readonly _profilesByLowerCaseName: Map<string, ApiProfileMetadata> = new Map<string, ApiProfileMetadata>();
+
+    public constructor(public readonly profiles: ApiProfileMetadata[]) {
+        for (const profile of profiles) {
+            this._profilesByLowerCaseName.set(profile.name.toLowerCase(), profile);
+        }
+    }
+
+    /**
+     * Finds a profile by its name, e.g. "2018-03-01-hybrid" (case-insensitive)
+     */
+    public findProfile(name: string): ApiProfileMetadata | undefined {
+        return this._profilesByLowerCaseName.get(name.toLowerCase());
+    }
+
+    public static fromString(metadataString: string): ApiProfilesMetadata {
+        let metadataJSON: ApiProfilesMetadataContract;
+        try {
+            metadataJSON = <ApiProfilesMetadataContract>JSON.parse(metadataString);
+        } catch (e) {
+            metadataJSON = { profiles: {} };
+        }
+        return ApiProfilesMetadata.fromJSON(metadataJSON);
+    }
+
+    public static fromJSON(metadataJSON: ApiProfilesMetadataContract): ApiProfilesMetadata {
+        const profiles: ApiProfileMetadata[] = [];
+
+        // tslint:disable-next-line: strict-boolean-expressions
+        if (metadataJSON && metadataJSON.profiles) {
+            for (const name of Object.getOwnPropertyNames(metadataJSON.profiles)) {
+                const profile: ApiProfileContract = metadataJSON.profiles[name];
+                // tslint:disable-next-line: strict-boolean-expressions
+                if (profile && profile.resourceTypes) {
+                    const apiVersions: [string, string][] = [];
+                    for (const resourceType of Object.getOwnPropertyNames(profile.resourceTypes)) {
+                        const apiVersion: unknown = profile.resourceTypes[resourceType];
+                        if (typeof apiVersion === "string") {
+                            apiVersions.push([resourceType, apiVersion]);
+                        }
+                    }
+
+                    // tslint:disable-next-line: strict-boolean-expressions
+                    profiles.push(new ApiProfileMetadata(name, profile.description || "", apiVersions));
+                }
+            }
+        }
+
+        profiles.sort((a, b) => a.name.localeCompare(b.name));
+        return new ApiProfilesMetadata(profiles);
+    }
+}
+
+/**
+ * An API profile, which gives the apiVersion to use for each of the resource types it supports
+ */
+export class ApiProfileMetadata {
+    private readonly _apiVersionsByLowerCaseType: Map<string, string> = new Map<string, string>();
+
+    public constructor(
+        public readonly name: string,
+        public readonly description: string,
+        /**
+         * The apiVersion of each supported resource type, as [resource type, apiVersion]
+         */
+        public readonly apiVersions: [string, string][]
+    ) {
+        for (const [resourceType, apiVersion] of apiVersions) {
+            this._apiVersionsByLowerCaseType.set(resourceType.toLowerCase(), apiVersion);
+        }
+    }
+
+    /**
+     * Gets the apiVersion that the profile uses for a resource type (case-insensitive), or undefined if the
+     * profile doesn't support the type
+     */
+    public getApiVersion(resourceType: string): string | undefined {
+        return this._apiVersionsByLowerCaseType.get(resourceType.toLowerCase());
+    }
+}
+
+interface ApiProfilesMetadataContract {
+    // These are validated via the ApiProfiles.schema.json file when editing ApiProfiles.json
+    profiles: {
+        [profileName: string]: ApiProfileContract;
+    };
+}
+
+interface ApiProfileContract {
+    description?: string;
+    resourceTypes: {
+        [resourceType: string]: string;
+    };
+}
@@ -4,12 +4,15 @@
 
 import * as fse from 'fs-extra';
 import * as path from "path";
+import { ApiProfilesMetadata } from './ApiProfilesMetadata';
 import { assetsPath } from './constants';
-import { ExpressionType } from './ExpressionType';
+import { ExpressionType, toValidExpressionType } from './ExpressionType';
 import { IUsageInfo } from './Hover';
 import { IFunctionMetadata, IFunctionParameterMetadata } from './IFunctionMetadata';
 import { DefinitionKind, INamedDefinition } from './INamedDefinition';
 import { StringValue } from './JSON';
+import { ResourceProvidersMetadata } from './ResourceProvidersMetadata';
+import { DeploymentScope } from './schemas';
 
 export function isBuiltinFunctionDefinition(definition: INamedDefinition): definition is BuiltinFunctionMetadata {
     return definition.definitionKind === DefinitionKind.BuiltinFunction;
@@ -21,6 +24,8 @@ export function isBuiltinFunctionDefinition(definition: INamedDefinition): defin
 // tslint:disable-next-line:no-unnecessary-class // Grandfathered in
 export class AzureRMAssets {
     private static _functionsMetadata: FunctionsMetadata | undefined;
+    private static _resourceProvidersMetadata: ResourceProvidersMetadata | undefined;
+    private static _apiProfilesMetadata: ApiProfilesMetadata | undefined;
 
     // For test dependency injection only
     public static setFunctionsMetadata(metadataString: string | undefined): void {
@@ -52,6 +57,46 @@ export class AzureRMAssets {
         return this.getFunctionsMetadata().filterByPrefix(functionNamePrefix);
     }
 
+    // For test dependency injection only
+    public static setResourceProvidersMetadata(metadataString: string | undefined): void {
+        if (!metadataString) {
+            // Reset so next call to getResourceProvidersMetadata will retrieve real data
+            AzureRMAssets._resourceProvidersMetadata = undefined;
+        } else {
+            AzureRMAssets._resourceProvidersMetadata = ResourceProvidersMetadata.fromString(metadataString);
+        }
+    }
+
+    public static getResourceProvidersMetadata(): ResourceProvidersMetadata {
+        if (!AzureRMAssets._resourceProvidersMetadata) {
+            let uri = AzureRMAssets.getLocalAssetUri("ResourceProviders.json");
+            let contents = AzureRMAssets.readFile(uri);
+            AzureRMAssets._resourceProvidersMetadata = ResourceProvidersMetadata.fromString(contents);
+        }
+
+        return AzureRMAssets._resourceProvidersMetadata;
+    }
+
+    // For test dependency injection only
+    public static setApiProfilesMetadata(metadataString: string | undefined): void {
+        if (!metadataString) {
+            // Reset so next call to getApiProfilesMetadata will retrieve real data
+            AzureRMAssets._apiProfilesMetadata = undefined;
+        } else {
+            AzureRMAssets._apiProfilesMetadata = ApiProfilesMetadata.fromString(metadataString);
+        }
+    }
+
+    public static getApiProfilesMetadata(): ApiProfilesMetadata {
+        if (!AzureRMAssets._apiProfilesMetadata) {
+            let uri = AzureRMAssets.getLocalAssetUri("ApiProfiles.json");
+            let contents = AzureRMAssets.readFile(uri);
+            AzureRMAssets._apiProfilesMetadata = ApiProfilesMetadata.fromString(contents);
+        }
+
+        return AzureRMAssets._apiProfilesMetadata;
+    }
+
     /**
      * Get the URI to the file where the function metadata is stored.
      */
@@ -105,15 +150,25 @@ export class BuiltinFunctionMetadata implements IFunctionMetadata, INamedDefinit
         private readonly _description: string,
         private readonly _minimumArguments: number,
         private readonly _maximumArguments: number,
-        private readonly _returnValueMembers: string[]
+        private readonly _returnValueMembers: string[],
+        returnType?: ExpressionType | null,
+        /**
+         * The types allowed for each argument (null if any type is allowed). The last entry applies to
+         * any remaining arguments.
+         */
+        private readonly _parameterTypes: (ExpressionType[] | null)[] = [],
+        /**
+         * The deployment scopes the function can be used at (undefined if it can be used at all scopes)
+         */
+        private readonly _scopes?: DeploymentScope[]
     ) {
         // tslint:disable-next-line: strict-boolean-expressions
         this._name = name || '';
         this._lowerCaseName = this._name.toLowerCase();
 
-        // CONSIDER: Our metadata doesn't currently give the return type
-        // ... Except if it has value members, it must be an object
-        this._returnType = this.returnValueMembers.length > 0 ? 'object' : null;
+        // If the metadata doesn't give the return type but it has value members, it must be an object
+        // tslint:disable-next-line: strict-boolean-expressions
+        this._returnType = returnType || (this.returnValueMembers.length > 0 ? 'object' : null);
     }
 
     public get fullName(): string {
@@ -149,7 +204,8 @@ export class BuiltinFunctionMetadata implements IFunctionMetadata, INamedDefinit
         const result: IFunctionParameterMetadata[] = [];
         if (parametersSubstring) {
             for (const parameter of parametersSubstring.split(",")) {
-                result.push({ name: parameter.trim(), type: null }); // CONSIDER: Our metadata doesn't currently give the parameter types
+                // Parameters of built-in functions may allow more than one type, see getParameterTypes()
+                result.push({ name: parameter.trim(), type: null });
             }
         }
 
@@ -176,6 +232,26 @@ export class BuiltinFunctionMetadata implements IFunctionMetadata, INamedDefinit
         return this._returnValueMembers;
     }
 
+    public get scopes(): DeploymentScope[] | undefined {
+        return this._scopes;
+    }
+
+    public isAvailableAtScope(scope: DeploymentScope): boolean {
+        return !this._scopes || this._scopes.includes(scope);
+    }
+
+    /**
+     * Gets the types allowed for the argument at the given index, or null if any type is allowed (or
+     * the metadata doesn't say)
+     */
+    public getParameterTypes(argumentIndex: number): ExpressionType[] | null {
+        if (this._parameterTypes.length === 0) {
+            return null;
+        }
+
+        return this._parameterTypes[Math.min(argumentIndex, this._parameterTypes.length - 1)];
+    }
+
     public static fromString(metadataString: string): BuiltinFunctionMetadata[] {
         let metadataJSON: FunctionMetadataContract;
         try {
@@ -202,13 +278,23 @@ export class BuiltinFunctionMetadata implements IFunctionMetadata, INamedDefinit
                     }
                     returnValueMembers.sort();
 
+                    const parameterTypes: (ExpressionType[] | null)[] = [];
+                    if (functionMetadata.parameterTypes) {
+                        for (const parameterType of functionMetadata.parameterTypes) {
+                            parameterTypes.push(getValidExpressionTypes(parameterType));
+                        }
+                    }
+
                     result.push(new BuiltinFunctionMetadata(
                         functionMetadata.name,
                         functionMetadata.expectedUsage,
                         functionMetadata.description,
                         functionMetadata.minimumArguments,
                         functionMetadata.maximumArguments,
-                        returnValueMembers));
+                        returnValueMembers,
+                        toValidExpressionType(functionMetadata.returnType),
+                        parameterTypes,
+                        getValidDeploymentScopes(functionMetadata.scopes)));
                 }
             }
         }
@@ -225,8 +311,33 @@ interface FunctionMetadataContract {
         description: string;
         minimumArguments: number;
         maximumArguments: number;
+        returnType?: string;
+        parameterTypes?: (string | string[] | null)[];
         returnValueMembers?: {
             name: string;
         }[];
+        scopes?: string[];
     }[];
 }
+
+function getValidExpressionTypes(typeNames: string | string[] | null): ExpressionType[] | null {
+    const validTypes: ExpressionType[] = [];
+    // tslint:disable-next-line: strict-boolean-expressions
+    for (const typeName of typeof typeNames === "string" ? [typeNames] : (typeNames || [])) {
+        const validType: ExpressionType | null = toValidExpressionType(typeName);
+        if (validType) {
+            validTypes.push(validType);
+        }
+    }
+
+    return validTypes.length > 0 ? validTypes : null;
+}
+
+function getValidDeploymentScopes(scopeNames: string[] | undefined): DeploymentScope[] | undefined {
+    if (!scopeNames) {
+        return undefined;
+    }
+
+    const validScopes: string[] = Object.values(DeploymentScope);
+    return <DeploymentScope[]>scopeNames.filter(scopeName => validScopes.includes(scopeName));
+}
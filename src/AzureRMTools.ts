@@ -6,13 +6,18 @@
 // tslint:disable:promise-function-async max-line-length // Grandfathered in
 
 import * as assert from "assert";
+import * as fse from 'fs-extra';
 import * as path from 'path';
 import * as vscode from "vscode";
-import { AzureUserInput, callWithTelemetryAndErrorHandling, callWithTelemetryAndErrorHandlingSync, createAzExtOutputChannel, createTelemetryReporter, IActionContext, registerCommand, registerUIExtensionVariables, TelemetryProperties } from "vscode-azureextensionui";
+import { AzureUserInput, callWithTelemetryAndErrorHandling, callWithTelemetryAndErrorHandlingSync, createAzExtOutputChannel, createTelemetryReporter, IActionContext, IAzureQuickPickItem, registerCommand, registerUIExtensionVariables, TelemetryProperties } from "vscode-azureextensionui";
 import { uninstallDotnet } from "./acquisition/dotnetAcquisition";
+import { getReferenceCodeLenses, ReferenceCodeLens } from "./CodeLenses";
 import * as Completion from "./Completion";
-import { configKeys, configPrefix, expressionsDiagnosticsCompletionMessage, expressionsDiagnosticsSource, languageId, outputWindowName, storageKeys } from "./constants";
+import { configKeys, configPrefix, diagnosticsDelayInMilliseconds, expressionsDiagnosticsCompletionMessage, expressionsDiagnosticsSource, languageId, outputWindowName, storageKeys } from "./constants";
+import { getDependencyGraph, IDependencyGraph, toDot, toMermaid } from "./dependencyGraph/dependencyGraph";
+import { DependencyGraphPanel } from "./dependencyGraph/DependencyGraphPanel";
 import { DeploymentTemplate } from "./DeploymentTemplate";
+import { getDocumentSymbols, TemplateSymbol, TemplateSymbolKind } from "./DocumentSymbols";
 import { ext } from "./extensionVariables";
 import { Histogram } from "./Histogram";
 import * as Hover from './Hover';
@@ -21,16 +26,25 @@ import { IncorrectArgumentsCountIssue } from "./IncorrectArgumentsCountIssue";
 import * as Json from "./JSON";
 import * as language from "./Language";
 import { startArmLanguageServer, stopArmLanguageServer } from "./languageclient/startArmLanguageServer";
+import { getLinkedParameterDefinition, getLinkedTemplateErrors, ILinkedParameterDefinition } from "./LinkedTemplateLoader";
+import { DeploymentParameters } from "./parameterFiles/DeploymentParameters";
+import { arePathsEqual, findTemplateForParameterFile, mightBeParameterFile } from "./parameterFiles/parameterFiles";
 import { IReferenceSite, PositionContext } from "./PositionContext";
+import { getQuickFixes } from "./QuickFixes";
+import { getExtractRefactorings, getInlineRefactorings, Refactoring } from "./Refactorings";
 import { ReferenceList } from "./ReferenceList";
+import { ResourceDefinition } from "./ResourceDefinition";
 import { getPreferredSchema } from "./schemas";
 import { getFunctionParamUsage } from "./signatureFormatting";
+import { getStaleApiVersionIssues, getStaleApiVersions, groupStaleApiVersionsByType, IStaleApiVersion } from "./StaleApiVersions";
 import { Stopwatch } from "./Stopwatch";
-import { armDeploymentDocumentSelector, mightBeDeploymentTemplate } from "./supported";
+import { armDeploymentDocumentSelector, mightBeDeploymentTemplate, parameterFileDocumentSelector } from "./supported";
 import * as TLE from "./TLE";
 import { JsonOutlineProvider } from "./Treeview";
 import { UnrecognizedBuiltinFunctionIssue } from "./UnrecognizedFunctionIssues";
-import { getVSCodeRangeFromSpan } from "./util/vscodePosition";
+import { assertNever } from "./util/assertNever";
+import { getSpanFromVSCodeRange, getVSCodePositionFromPosition, getVSCodeRangeFromSpan } from "./util/vscodePosition";
+import { IIndexedSymbol, IOpenTemplate, WorkspaceTemplateIndex } from "./WorkspaceTemplateIndex";
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -58,9 +72,21 @@ export function deactivateInternal(): void {
 export class AzureRMTools {
     private readonly _diagnosticsCollection: vscode.DiagnosticCollection;
     private readonly _deploymentTemplates: Map<string, DeploymentTemplate> = new Map<string, DeploymentTemplate>();
+    private readonly _deploymentParameters: Map<string, DeploymentParameters> = new Map<string, DeploymentParameters>();
+    // Maps from parameter file URI to the URI of its associated template
+    private readonly _parameterFileTemplates: Map<string, string> = new Map<string, string>();
+    // Templates of parameter files that aren't open themselves, parsed from disk and keyed by template URI
+    private readonly _parameterFileTemplatesOnDisk: Map<string, { mtime: number; template: DeploymentTemplate }> = new Map<string, { mtime: number; template: DeploymentTemplate }>();
     private readonly _filesAskedToUpdateSchema: Set<string> = new Set<string>();
+    // Symbols of all the templates in the workspace, whether or not they're open
+    private readonly _workspaceTemplateIndex: WorkspaceTemplateIndex = new WorkspaceTemplateIndex();
     private _areDeploymentTemplateEventsHookedUp: boolean = false;
+    private _areParameterFileEventsHookedUp: boolean = false;
     private _diagnosticsVersion: number = 0;
+    // The diagnostics version of the latest diagnostics calculation for each template, keyed by document URI
+    private readonly _latestDiagnosticsVersions: Map<string, number> = new Map<string, number>();
+    // Diagnostics updates waiting for edits to a template to pause, keyed by document URI
+    private readonly _pendingDiagnosticsUpdates: Map<string, NodeJS.Timer> = new Map<string, NodeJS.Timer>();
 
     // More information can be found about this definition at https://code.visualstudio.com/docs/extensionAPI/vscode-api#DecorationRenderOptions
     // Several of these properties are CSS properties. More information about those can be found at https://www.w3.org/wiki/CSS/Properties
@@ -83,10 +109,35 @@ export class AzureRMTools {
         context.subscriptions.push(vscode.window.registerTreeDataProvider("azurerm-vscode-tools.template-outline", jsonOutline));
 
         registerCommand("azurerm-vscode-tools.treeview.goto", (_actionContext: IActionContext, range: vscode.Range) => jsonOutline.goToDefinition(range));
+        registerCommand("azurerm-vscode-tools.refactoringUnavailable", async (_actionContext: IActionContext, message: string) => {
+            await vscode.window.showWarningMessage(message);
+        });
         registerCommand('azurerm-vscode-tools.uninstallDotnet', async () => {
             await stopArmLanguageServer();
             await uninstallDotnet();
         });
+        registerCommand("azurerm-vscode-tools.showDependencyGraph", (_actionContext: IActionContext) => {
+            const editor: vscode.TextEditor = this.getActiveDeploymentTemplateEditor();
+            // tslint:disable-next-line: no-non-null-assertion // Checked by getActiveDeploymentTemplateEditor
+            DependencyGraphPanel.show(editor.document, this.getDeploymentTemplate(editor.document)!);
+        });
+        registerCommand("azurerm-vscode-tools.exportDependencyGraphDot", async (_actionContext: IActionContext) => {
+            await this.exportDependencyGraph(toDot, "dot");
+        });
+        registerCommand("azurerm-vscode-tools.exportDependencyGraphMermaid", async (_actionContext: IActionContext) => {
+            await this.exportDependencyGraph(toMermaid, "mmd");
+        });
+        registerCommand("azurerm-vscode-tools.updateApiVersions", async (actionContext: IActionContext) => {
+            await this.updateApiVersions(actionContext);
+        });
+
+        context.subscriptions.push(this._workspaceTemplateIndex);
+        const workspaceSymbolProvider: vscode.WorkspaceSymbolProvider = {
+            provideWorkspaceSymbols: async (query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[] | undefined> => {
+                return await this.onProvideWorkspaceSymbols(query, token);
+            }
+        };
+        context.subscriptions.push(vscode.languages.registerWorkspaceSymbolProvider(workspaceSymbolProvider));
 
         vscode.window.onDidChangeActiveTextEditor(this.onActiveTextEditorChanged, this, context.subscriptions);
         vscode.workspace.onDidOpenTextDocument(this.onDocumentOpened, this, context.subscriptions);
@@ -97,7 +148,7 @@ export class AzureRMTools {
 
         const activeEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
         if (activeEditor) {
-            this.updateDeploymentTemplate(activeEditor.document);
+            this.updateDocument(activeEditor.document);
         }
     }
 
@@ -105,6 +156,11 @@ export class AzureRMTools {
         callWithTelemetryAndErrorHandlingSync('dispose', (actionContext: IActionContext): void => {
             actionContext.telemetry.properties.isActivationEvent = 'true';
             actionContext.errorHandling.suppressDisplay = true;
+
+            for (const timer of this._pendingDiagnosticsUpdates.values()) {
+                clearTimeout(timer);
+            }
+            this._pendingDiagnosticsUpdates.clear();
         });
     }
 
@@ -113,7 +169,23 @@ export class AzureRMTools {
         return this._deploymentTemplates.get(document.uri.toString());
     }
 
-    private updateDeploymentTemplate(document: vscode.TextDocument): void {
+    private getDeploymentParameters(document: vscode.TextDocument): DeploymentParameters | undefined {
+        assert(document);
+        return this._deploymentParameters.get(document.uri.toString());
+    }
+
+    /**
+     * @param contentChanges The edits that were made to the document, if it was updated because it changed
+     */
+    private updateDocument(document: vscode.TextDocument, contentChanges?: ReadonlyArray<vscode.TextDocumentContentChangeEvent>): void {
+        if (!mightBeDeploymentTemplate(document) && mightBeParameterFile(document)) {
+            this.updateDeploymentParameters(document);
+        } else {
+            this.updateDeploymentTemplate(document, contentChanges);
+        }
+    }
+
+    private updateDeploymentTemplate(document: vscode.TextDocument, contentChanges?: ReadonlyArray<vscode.TextDocumentContentChangeEvent>): void {
         callWithTelemetryAndErrorHandlingSync('updateDeploymentTemplate', (actionContext: IActionContext): void => {
             actionContext.errorHandling.suppressDisplay = true;
             actionContext.telemetry.suppressIfSuccessful = true;
@@ -143,8 +215,12 @@ export class AzureRMTools {
                     isNewlyOpened = true;
                 }
 
-                // Do a full parse
-                let deploymentTemplate: DeploymentTemplate = new DeploymentTemplate(document.getText(), documentUri);
+                // If we have the previous version of an edited template, only reparse what changed, otherwise do a full parse
+                const previousDeploymentTemplate: DeploymentTemplate | undefined = this._deploymentTemplates.get(documentUri);
+                const change: Json.ITextChange | undefined = contentChanges ? AzureRMTools.getTextChange(contentChanges) : undefined;
+                let deploymentTemplate: DeploymentTemplate = previousDeploymentTemplate && change ?
+                    previousDeploymentTemplate.applyChange(document.getText(), change) :
+                    new DeploymentTemplate(document.getText(), documentUri);
                 if (deploymentTemplate.hasArmSchemaUri()) {
                     treatAsDeploymentTemplate = true;
                 }
@@ -178,7 +254,12 @@ export class AzureRMTools {
                         }
                     }
 
-                    this.reportDeploymentTemplateErrors(document, deploymentTemplate);
+                    if (contentChanges) {
+                        // Wait for the user to stop typing before recalculating diagnostics
+                        this.scheduleDiagnosticsUpdate(document);
+                    } else {
+                        this.updateDiagnostics(document, deploymentTemplate);
+                    }
                 }
             }
 
@@ -196,6 +277,64 @@ export class AzureRMTools {
         });
     }
 
+    /**
+     * Combines the edits from a document change event into a single change covering all of them
+     */
+    private static getTextChange(contentChanges: ReadonlyArray<vscode.TextDocumentContentChangeEvent>): Json.ITextChange | undefined {
+        if (contentChanges.length === 0) {
+            return undefined;
+        }
+
+        // The ranges of the edits in a single event all refer to the document before any of them were made
+        let startIndex: number = Number.MAX_SAFE_INTEGER;
+        let afterEndIndex: number = 0;
+        let lengthDelta: number = 0;
+        for (const contentChange of contentChanges) {
+            startIndex = Math.min(startIndex, contentChange.rangeOffset);
+            afterEndIndex = Math.max(afterEndIndex, contentChange.rangeOffset + contentChange.rangeLength);
+            lengthDelta += contentChange.text.length - contentChange.rangeLength;
+        }
+
+        return {
+            span: new language.Span(startIndex, afterEndIndex - startIndex),
+            newLength: afterEndIndex - startIndex + lengthDelta
+        };
+    }
+
+    private updateDiagnostics(document: vscode.TextDocument, deploymentTemplate: DeploymentTemplate): void {
+        this.cancelDiagnosticsUpdate(document);
+        this.reportDeploymentTemplateErrors(document, deploymentTemplate);
+        this.revalidateParameterFilesForTemplate(document.uri.toString());
+        DependencyGraphPanel.refresh(document, deploymentTemplate);
+    }
+
+    private scheduleDiagnosticsUpdate(document: vscode.TextDocument): void {
+        this.cancelDiagnosticsUpdate(document);
+
+        const documentUri: string = document.uri.toString();
+        const timer: NodeJS.Timer = setTimeout(
+            () => {
+                this._pendingDiagnosticsUpdates.delete(documentUri);
+
+                // Use the latest version of the template, if it's still open
+                const deploymentTemplate: DeploymentTemplate | undefined = this._deploymentTemplates.get(documentUri);
+                if (deploymentTemplate) {
+                    this.updateDiagnostics(document, deploymentTemplate);
+                }
+            },
+            diagnosticsDelayInMilliseconds);
+        this._pendingDiagnosticsUpdates.set(documentUri, timer);
+    }
+
+    private cancelDiagnosticsUpdate(document: vscode.TextDocument): void {
+        const documentUri: string = document.uri.toString();
+        const timer: NodeJS.Timer | undefined = this._pendingDiagnosticsUpdates.get(documentUri);
+        if (timer) {
+            clearTimeout(timer);
+            this._pendingDiagnosticsUpdates.delete(documentUri);
+        }
+    }
+
     private static setLanguageToArm(document: vscode.TextDocument, actionContext: IActionContext): void {
         vscode.languages.setTextDocumentLanguage(document, languageId);
 
@@ -261,16 +400,29 @@ export class AzureRMTools {
         callWithTelemetryAndErrorHandling('reportDeploymentTemplateErrors', async (actionContext: IActionContext): Promise<void> => {
             actionContext.telemetry.suppressIfSuccessful = true;
 
-            ++this._diagnosticsVersion;
+            const documentUri: string = document.uri.toString();
+            const diagnosticsVersion: number = ++this._diagnosticsVersion;
+            this._latestDiagnosticsVersions.set(documentUri, diagnosticsVersion);
 
             let parseErrors: language.Issue[] = await deploymentTemplate.errorsPromise;
+            parseErrors = parseErrors.concat(await getLinkedTemplateErrors(deploymentTemplate, templatePath => this.getOpenedTemplateByPath(templatePath)));
+
+            // The template may have been changed or closed while we were reading its linked templates
+            if (this._latestDiagnosticsVersions.get(documentUri) !== diagnosticsVersion || !this._deploymentTemplates.has(documentUri)) {
+                return;
+            }
+
             const diagnostics: vscode.Diagnostic[] = [];
 
             for (const error of parseErrors) {
                 diagnostics.push(this.getVSCodeDiagnosticFromIssue(deploymentTemplate, error, vscode.DiagnosticSeverity.Error));
             }
 
-            for (const warning of deploymentTemplate.warnings) {
+            let warnings: language.Issue[] = deploymentTemplate.warnings;
+            if (vscode.workspace.getConfiguration(configPrefix).get<boolean>(configKeys.checkForStaleApiVersions)) {
+                warnings = warnings.concat(getStaleApiVersionIssues(deploymentTemplate, this.getApiVersionMaxAgeInMonths()));
+            }
+            for (const warning of warnings) {
                 diagnostics.push(this.getVSCodeDiagnosticFromIssue(deploymentTemplate, warning, vscode.DiagnosticSeverity.Warning));
             }
 
@@ -283,6 +435,127 @@ export class AzureRMTools {
         });
     }
 
+    private updateDeploymentParameters(document: vscode.TextDocument): void {
+        // Don't wait
+        // tslint:disable-next-line: no-floating-promises
+        callWithTelemetryAndErrorHandling('updateDeploymentParameters', async (actionContext: IActionContext): Promise<void> => {
+            actionContext.errorHandling.suppressDisplay = true;
+            actionContext.telemetry.suppressIfSuccessful = true;
+            actionContext.telemetry.properties.fileExt = path.extname(document.fileName);
+
+            const documentUri: string = document.uri.toString();
+            if (!this._deploymentParameters.has(documentUri)) {
+                actionContext.telemetry.properties.isNewlyOpened = 'true';
+            }
+
+            const deploymentParameters = new DeploymentParameters(document.getText(), documentUri);
+            this.ensureParameterFileEventsHookedUp();
+            this._deploymentParameters.set(documentUri, deploymentParameters);
+
+            const templateUri: vscode.Uri | undefined = await findTemplateForParameterFile(document.uri);
+            if (templateUri) {
+                this._parameterFileTemplates.set(documentUri, templateUri.toString());
+            } else {
+                this._parameterFileTemplates.delete(documentUri);
+            }
+            actionContext.telemetry.properties.hasTemplate = String(!!templateUri);
+
+            await this.reportDeploymentParametersErrors(document.uri, deploymentParameters);
+        });
+    }
+
+    /**
+     * Finds the template associated with a parameter file, whether or not it's currently opened
+     */
+    private async getTemplateForParameterFile(deploymentParameters: DeploymentParameters): Promise<DeploymentTemplate | undefined> {
+        const templateUri: string | undefined = this._parameterFileTemplates.get(deploymentParameters.documentId);
+        if (!templateUri) {
+            return undefined;
+        }
+
+        const openedTemplate: DeploymentTemplate | undefined = this._deploymentTemplates.get(templateUri);
+        if (openedTemplate) {
+            return openedTemplate;
+        }
+
+        const templatePath: string = vscode.Uri.parse(templateUri).fsPath;
+        if (!await fse.pathExists(templatePath)) {
+            this._parameterFileTemplatesOnDisk.delete(templateUri);
+            return undefined;
+        }
+
+        // Only re-read and re-parse the template if it has changed since we last did so
+        const mtime: number = (await fse.stat(templatePath)).mtimeMs;
+        const cached: { mtime: number; template: DeploymentTemplate } | undefined = this._parameterFileTemplatesOnDisk.get(templateUri);
+        if (cached && cached.mtime === mtime) {
+            return cached.template;
+        }
+
+        const template: DeploymentTemplate = new DeploymentTemplate(await fse.readFile(templatePath, 'utf8'), templateUri);
+        this._parameterFileTemplatesOnDisk.set(templateUri, { mtime, template });
+        return template;
+    }
+
+    private async reportDeploymentParametersErrors(documentUri: vscode.Uri, deploymentParameters: DeploymentParameters): Promise<void> {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        const template: DeploymentTemplate | undefined = await this.getTemplateForParameterFile(deploymentParameters);
+        if (template) {
+            for (const error of deploymentParameters.getErrors(template)) {
+                diagnostics.push(this.getVSCodeDiagnosticFromIssue(deploymentParameters, error, vscode.DiagnosticSeverity.Error));
+            }
+        }
+
+        // The parameter file might have been closed while we were reading the template
+        if (this._deploymentParameters.get(documentUri.toString()) === deploymentParameters) {
+            this._diagnosticsCollection.set(documentUri, diagnostics);
+        }
+    }
+
+    /**
+     * Validates any opened parameter files against the current contents of the given template
+     */
+    private revalidateParameterFilesForTemplate(templateUri: string): void {
+        for (const [parameterFileUri, associatedTemplateUri] of this._parameterFileTemplates) {
+            const deploymentParameters: DeploymentParameters | undefined = this._deploymentParameters.get(parameterFileUri);
+            if (deploymentParameters && associatedTemplateUri === templateUri) {
+                // Don't wait
+                // tslint:disable-next-line: no-floating-promises
+                callWithTelemetryAndErrorHandling('revalidateParameterFile', async (actionContext: IActionContext): Promise<void> => {
+                    actionContext.errorHandling.suppressDisplay = true;
+                    actionContext.telemetry.suppressIfSuccessful = true;
+                    await this.reportDeploymentParametersErrors(vscode.Uri.parse(parameterFileUri), deploymentParameters);
+                });
+            }
+        }
+    }
+
+    private getActiveDeploymentTemplateEditor(): vscode.TextEditor {
+        const editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+        if (!editor || !this.getDeploymentTemplate(editor.document)) {
+            throw new Error("Open a deployment template to see its resource dependencies.");
+        }
+
+        return editor;
+    }
+
+    /**
+     * Writes the active template's resource dependency graph to a file in a text format
+     */
+    private async exportDependencyGraph(format: (graph: IDependencyGraph) => string, fileExtension: string): Promise<void> {
+        const editor: vscode.TextEditor = this.getActiveDeploymentTemplateEditor();
+        // tslint:disable-next-line: no-non-null-assertion // Checked by getActiveDeploymentTemplateEditor
+        const deploymentTemplate: DeploymentTemplate = this.getDeploymentTemplate(editor.document)!;
+
+        const templatePath: string = editor.document.uri.fsPath;
+        const defaultPath: string = path.join(path.dirname(templatePath), `${path.basename(templatePath, path.extname(templatePath))}.dependencies.${fileExtension}`);
+        const uri: vscode.Uri | undefined = await vscode.window.showSaveDialog({ defaultUri: vscode.Uri.file(defaultPath) });
+        if (uri) {
+            await fse.writeFile(uri.fsPath, format(getDependencyGraph(deploymentTemplate)));
+            await vscode.window.showTextDocument(uri);
+        }
+    }
+
     private queryUseNewerSchema(editor: vscode.TextEditor, deploymentTemplate: DeploymentTemplate): void {
         const schemaValue: Json.StringValue | null = deploymentTemplate.schemaValue;
         // tslint:disable-next-line: strict-boolean-expressions
@@ -367,6 +640,66 @@ export class AzureRMTools {
         }
     }
 
+    private getApiVersionMaxAgeInMonths(): number {
+        const maxAgeInMonths: number | undefined = vscode.workspace.getConfiguration(configPrefix).get<number>(configKeys.apiVersionMaxAgeInMonths);
+        return typeof maxAgeInMonths === "number" && maxAgeInMonths > 0 ? maxAgeInMonths : 0;
+    }
+
+    private async updateApiVersions(actionContext: IActionContext): Promise<void> {
+        const editor: vscode.TextEditor = this.getActiveDeploymentTemplateEditor();
+        // tslint:disable-next-line: no-non-null-assertion // Checked by getActiveDeploymentTemplateEditor
+        const deploymentTemplate: DeploymentTemplate = this.getDeploymentTemplate(editor.document)!;
+
+        const staleApiVersions: IStaleApiVersion[] = getStaleApiVersions(deploymentTemplate, this.getApiVersionMaxAgeInMonths());
+        actionContext.telemetry.measurements.staleApiVersionsCount = staleApiVersions.length;
+        if (staleApiVersions.length === 0) {
+            await vscode.window.showInformationMessage(`The apiVersions in deployment template "${path.basename(editor.document.uri.path)}" are up to date.`);
+            return;
+        }
+
+        // Each resource type gets an item that selects all of its resources, followed by an item for each resource
+        const picks: IAzureQuickPickItem<IStaleApiVersion[]>[] = [];
+        for (const group of groupStaleApiVersionsByType(staleApiVersions)) {
+            picks.push({
+                label: group.resourceType,
+                description: `All ${group.staleApiVersions.length} resource${group.staleApiVersions.length === 1 ? "" : "s"} of this type`,
+                picked: false,
+                suppressPersistence: true,
+                data: group.staleApiVersions
+            });
+            for (const stale of group.staleApiVersions) {
+                picks.push({
+                    label: `\u00a0\u00a0\u00a0\u00a0${stale.resource.displayName}`,
+                    description: `${stale.apiVersion} \u2192 ${stale.newApiVersion}`,
+                    picked: true,
+                    suppressPersistence: true,
+                    data: [stale]
+                });
+            }
+        }
+        const selected: IAzureQuickPickItem<IStaleApiVersion[]>[] = await ext.ui.showQuickPick(picks, {
+            canPickMany: true,
+            placeHolder: "Select the resources whose apiVersion should be updated"
+        });
+        const selectedStaleApiVersions: IStaleApiVersion[] = staleApiVersions.filter(stale => selected.some(pick => pick.data.includes(stale)));
+        actionContext.telemetry.measurements.updatedApiVersionsCount = selectedStaleApiVersions.length;
+
+        await this.replaceApiVersions(editor.document, deploymentTemplate, selectedStaleApiVersions);
+    }
+
+    private async replaceApiVersions(document: vscode.TextDocument, deploymentTemplate: DeploymentTemplate, staleApiVersions: IStaleApiVersion[]): Promise<void> {
+        // The document might have changed while the user was choosing
+        if (document.getText() !== deploymentTemplate.documentText) {
+            throw new Error("The document has changed, the apiVersions were not updated.");
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const stale of staleApiVersions) {
+            edit.replace(document.uri, getVSCodeRangeFromSpan(deploymentTemplate, stale.apiVersionValue.unquotedSpan), stale.newApiVersion);
+        }
+        await vscode.workspace.applyEdit(edit);
+    }
+
     private getCompletedDiagnostic(): vscode.Diagnostic | undefined {
         if (ext.addCompletedDiagnostic) {
             // Add a diagnostic to indicate expression validation is done (for testing)
@@ -396,6 +729,14 @@ export class AzureRMTools {
 
         vscode.workspace.onDidCloseTextDocument(this.onDocumentClosed, this, ext.context.subscriptions);
 
+        // Linked templates are read from disk, so revalidate the templates linking to them when they change
+        const linkedTemplateWatcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher("**/*.{json,jsonc}");
+        ext.context.subscriptions.push(
+            linkedTemplateWatcher,
+            linkedTemplateWatcher.onDidCreate(this.onLinkedTemplateFileChanged, this),
+            linkedTemplateWatcher.onDidChange(this.onLinkedTemplateFileChanged, this),
+            linkedTemplateWatcher.onDidDelete(this.onLinkedTemplateFileChanged, this));
+
         const hoverProvider: vscode.HoverProvider = {
             provideHover: (document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.Hover | undefined => {
                 return this.onProvideHover(document, position, token);
@@ -411,8 +752,8 @@ export class AzureRMTools {
         ext.context.subscriptions.push(vscode.languages.registerCompletionItemProvider(armDeploymentDocumentSelector, completionProvider, "'", "[", "."));
 
         const definitionProvider: vscode.DefinitionProvider = {
-            provideDefinition: (document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.Definition | undefined => {
-                return this.onProvideDefinition(document, position, token);
+            provideDefinition: async (document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Definition | undefined> => {
+                return await this.onProvideDefinition(document, position, token);
             }
         };
         ext.context.subscriptions.push(vscode.languages.registerDefinitionProvider(armDeploymentDocumentSelector, definitionProvider));
@@ -438,10 +779,54 @@ export class AzureRMTools {
         };
         ext.context.subscriptions.push(vscode.languages.registerRenameProvider(armDeploymentDocumentSelector, renameProvider));
 
+        const codeActionProvider: vscode.CodeActionProvider = {
+            provideCodeActions: async (document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext, token: vscode.CancellationToken): Promise<vscode.CodeAction[] | undefined> => {
+                return await this.onProvideCodeActions(document, range, context, token);
+            }
+        };
+        ext.context.subscriptions.push(vscode.languages.registerCodeActionsProvider(
+            armDeploymentDocumentSelector,
+            codeActionProvider,
+            { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.RefactorExtract, vscode.CodeActionKind.RefactorInline] }));
+
+        const documentSymbolProvider: vscode.DocumentSymbolProvider = {
+            provideDocumentSymbols: (document: vscode.TextDocument, token: vscode.CancellationToken): vscode.DocumentSymbol[] | undefined => {
+                return this.onProvideDocumentSymbols(document, token);
+            }
+        };
+        ext.context.subscriptions.push(vscode.languages.registerDocumentSymbolProvider(armDeploymentDocumentSelector, documentSymbolProvider));
+
+        const codeLensProvider: vscode.CodeLensProvider = {
+            provideCodeLenses: (document: vscode.TextDocument, token: vscode.CancellationToken): vscode.CodeLens[] | undefined => {
+                return this.onProvideCodeLenses(document, token);
+            }
+        };
+        ext.context.subscriptions.push(vscode.languages.registerCodeLensProvider(armDeploymentDocumentSelector, codeLensProvider));
+
         // tslint:disable-next-line:no-floating-promises // Don't wait
         startArmLanguageServer();
     }
 
+    /**
+     * Hook up events related to deployment parameter files. This is only called when a parameter file
+     * is opened.
+     */
+    private ensureParameterFileEventsHookedUp(): void {
+        if (this._areParameterFileEventsHookedUp) {
+            return;
+        }
+        this._areParameterFileEventsHookedUp = true;
+
+        vscode.workspace.onDidCloseTextDocument(this.onParameterFileClosed, this, ext.context.subscriptions);
+
+        const completionProvider: vscode.CompletionItemProvider = {
+            provideCompletionItems: async (document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.CompletionList | undefined> => {
+                return await this.onProvideParameterFileCompletionItems(document, position, token);
+            }
+        };
+        ext.context.subscriptions.push(vscode.languages.registerCompletionItemProvider(parameterFileDocumentSelector, completionProvider, '"'));
+    }
+
     /**
      * Logs telemetry with information about the functions used in a template. Only meaningful if called
      * in a relatively stable state, such as after first opening
@@ -522,8 +907,8 @@ export class AzureRMTools {
         return JSON.stringify(array);
     }
 
-    private getVSCodeDiagnosticFromIssue(deploymentTemplate: DeploymentTemplate, issue: language.Issue, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
-        const range: vscode.Range = getVSCodeRangeFromSpan(deploymentTemplate, issue.span);
+    private getVSCodeDiagnosticFromIssue(document: DeploymentTemplate | DeploymentParameters, issue: language.Issue, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+        const range: vscode.Range = getVSCodeRangeFromSpan(document, issue.span);
         const message: string = issue.message;
         let diagnostic = new vscode.Diagnostic(range, message, severity);
         diagnostic.source = expressionsDiagnosticsSource;
@@ -533,9 +918,27 @@ export class AzureRMTools {
 
     private closeDeploymentTemplate(document: vscode.TextDocument): void {
         assert(document);
+        this.cancelDiagnosticsUpdate(document);
         this._diagnosticsCollection.delete(document.uri);
 
         this._deploymentTemplates.delete(document.uri.toString());
+        this._latestDiagnosticsVersions.delete(document.uri.toString());
+    }
+
+    private closeDeploymentParameters(document: vscode.TextDocument): void {
+        assert(document);
+        const documentUri: string = document.uri.toString();
+        if (this._deploymentParameters.has(documentUri)) {
+            this._diagnosticsCollection.delete(document.uri);
+            this._deploymentParameters.delete(documentUri);
+            const templateUri: string | undefined = this._parameterFileTemplates.get(documentUri);
+            this._parameterFileTemplates.delete(documentUri);
+
+            // Forget the template if no other open parameter file uses it
+            if (templateUri && !Array.from(this._parameterFileTemplates.values()).some(uri => uri === templateUri)) {
+                this._parameterFileTemplatesOnDisk.delete(templateUri);
+            }
+        }
     }
 
     private onProvideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.Hover | undefined {
@@ -572,36 +975,7 @@ export class AzureRMTools {
                 let completionItemArray: Completion.Item[] = context.getCompletionItems();
                 const completionItems: vscode.CompletionItem[] = [];
                 for (const completion of completionItemArray) {
-                    const insertRange: vscode.Range = getVSCodeRangeFromSpan(deploymentTemplate, completion.insertSpan);
-
-                    const completionToAdd = new vscode.CompletionItem(completion.name);
-                    completionToAdd.range = insertRange;
-                    completionToAdd.insertText = new vscode.SnippetString(completion.insertText);
-                    completionToAdd.detail = completion.detail;
-                    completionToAdd.documentation = completion.description ? completion.description : undefined;
-
-                    switch (completion.kind) {
-                        case Completion.CompletionKind.Function:
-                            completionToAdd.kind = vscode.CompletionItemKind.Function;
-                            break;
-
-                        case Completion.CompletionKind.Parameter:
-                        case Completion.CompletionKind.Variable:
-                            completionToAdd.kind = vscode.CompletionItemKind.Variable;
-                            break;
-
-                        case Completion.CompletionKind.Property:
-                            completionToAdd.kind = vscode.CompletionItemKind.Field;
-                            break;
-
-                        case Completion.CompletionKind.Namespace:
-                            completionToAdd.kind = vscode.CompletionItemKind.Unit;
-                            break;
-
-                        default:
-                            assert.fail(`Unrecognized Completion.Type: ${completion.kind}`);
-                            break;
-                    }
+                    const completionToAdd = this.getVSCodeCompletionItem(deploymentTemplate, completion);
 
                     // Add completion kind to telemetry
                     properties.completionKind = typeof completionToAdd.kind === "number" ? vscode.CompletionItemKind[completionToAdd.kind] : undefined;
@@ -613,21 +987,103 @@ export class AzureRMTools {
         }
     }
 
-    private onProvideDefinition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.Location | undefined {
+    private async onProvideParameterFileCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.CompletionList | undefined> {
+        const deploymentParameters = this.getDeploymentParameters(document);
+        if (deploymentParameters) {
+            return await callWithTelemetryAndErrorHandling('provideParameterFileCompletionItems', async (actionContext: IActionContext): Promise<vscode.CompletionList | undefined> => {
+                actionContext.telemetry.suppressIfSuccessful = true;
+                actionContext.errorHandling.suppressDisplay = true;
+
+                const template: DeploymentTemplate | undefined = await this.getTemplateForParameterFile(deploymentParameters);
+                if (!template) {
+                    return undefined;
+                }
+
+                const documentCharacterIndex: number = deploymentParameters.getDocumentCharacterIndex(position.line, position.character);
+                const completionItems: vscode.CompletionItem[] = deploymentParameters.getCompletionItems(documentCharacterIndex, template)
+                    .map(completion => this.getVSCodeCompletionItem(deploymentParameters, completion));
+                return new vscode.CompletionList(completionItems, true);
+            });
+        }
+    }
+
+    private getVSCodeCompletionItem(document: DeploymentTemplate | DeploymentParameters, completion: Completion.Item): vscode.CompletionItem {
+        const insertRange: vscode.Range = getVSCodeRangeFromSpan(document, completion.insertSpan);
+
+        const completionToAdd = new vscode.CompletionItem(completion.name);
+        completionToAdd.range = insertRange;
+        completionToAdd.insertText = new vscode.SnippetString(completion.insertText);
+        completionToAdd.detail = completion.detail;
+        completionToAdd.documentation = completion.description ? completion.description : undefined;
+        completionToAdd.sortText = completion.sortText;
+
+        switch (completion.kind) {
+            case Completion.CompletionKind.Function:
+                completionToAdd.kind = vscode.CompletionItemKind.Function;
+                break;
+
+            case Completion.CompletionKind.Parameter:
+            case Completion.CompletionKind.Variable:
+            case Completion.CompletionKind.CopyLoop:
+                completionToAdd.kind = vscode.CompletionItemKind.Variable;
+                break;
+
+            case Completion.CompletionKind.Property:
+                completionToAdd.kind = vscode.CompletionItemKind.Field;
+                break;
+
+            case Completion.CompletionKind.Namespace:
+                completionToAdd.kind = vscode.CompletionItemKind.Unit;
+                break;
+
+            case Completion.CompletionKind.ResourceType:
+                completionToAdd.kind = vscode.CompletionItemKind.Class;
+                break;
+
+            case Completion.CompletionKind.ApiVersion:
+            case Completion.CompletionKind.ApiProfile:
+                completionToAdd.kind = vscode.CompletionItemKind.Value;
+                break;
+
+            default:
+                assert.fail(`Unrecognized Completion.Type: ${completion.kind}`);
+                break;
+        }
+
+        return completionToAdd;
+    }
+
+    private async onProvideDefinition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Location | undefined> {
         const deploymentTemplate: DeploymentTemplate | undefined = this.getDeploymentTemplate(document);
         if (deploymentTemplate) {
-            return callWithTelemetryAndErrorHandlingSync('Go To Definition', (actionContext: IActionContext): vscode.Location | undefined => {
+            return await callWithTelemetryAndErrorHandling('Go To Definition', async (actionContext: IActionContext): Promise<vscode.Location | undefined> => {
                 let properties = <TelemetryProperties & { definitionType?: string }>actionContext.telemetry.properties;
                 actionContext.errorHandling.suppressDisplay = true;
 
                 const context: PositionContext = deploymentTemplate.getContextFromDocumentLineAndColumnIndexes(position.line, position.character);
                 const refInfo = context.getReferenceSiteInfo();
-                if (refInfo && refInfo.definition.nameValue) {
+                const nameValue: Json.StringValue | undefined = refInfo ? refInfo.definition.nameValue : undefined;
+                if (refInfo && nameValue) {
                     properties.definitionType = refInfo.definition.definitionKind;
 
+                    // Resources are identified by their type and name, so go to the whole resource object
+                    const definitionSpan: language.Span = refInfo.definition instanceof ResourceDefinition ?
+                        refInfo.definition.resourceObject.span : nameValue.span;
                     return new vscode.Location(
                         vscode.Uri.parse(deploymentTemplate.documentId),
-                        getVSCodeRangeFromSpan(deploymentTemplate, refInfo.definition.nameValue.span)
+                        getVSCodeRangeFromSpan(deploymentTemplate, definitionSpan)
+                    );
+                }
+
+                // Parameter values passed to a linked template
+                const linkedParameter: ILinkedParameterDefinition | undefined =
+                    await getLinkedParameterDefinition(deploymentTemplate, context.documentCharacterIndex, templatePath => this.getOpenedTemplateByPath(templatePath));
+                if (linkedParameter) {
+                    properties.definitionType = "linkedTemplateParameter";
+
+                    return new vscode.Location(
+                        vscode.Uri.parse(linkedParameter.linkedTemplate.documentId),
+                        getVSCodeRangeFromSpan(linkedParameter.linkedTemplate, linkedParameter.parameterDefinition.nameValue.span)
                     );
                 }
 
@@ -636,6 +1092,99 @@ export class AzureRMTools {
         }
     }
 
+    /**
+     * Gets the template at the given path if it's currently opened
+     */
+    /**
+     * Revalidates the open templates that link to the given file
+     */
+    private onLinkedTemplateFileChanged(uri: vscode.Uri): void {
+        for (const document of vscode.workspace.textDocuments) {
+            const deploymentTemplate: DeploymentTemplate | undefined = this._deploymentTemplates.get(document.uri.toString());
+            if (deploymentTemplate) {
+                const linksToFile: boolean = deploymentTemplate.linkedTemplates.some(linkedTemplate => {
+                    const linkedPath: string | undefined = linkedTemplate.getLinkedTemplatePath(deploymentTemplate.documentId);
+                    return !!linkedPath && arePathsEqual(linkedPath, uri.fsPath);
+                });
+                if (linksToFile) {
+                    this.reportDeploymentTemplateErrors(document, deploymentTemplate);
+                }
+            }
+        }
+    }
+
+    private getOpenedTemplateByPath(templatePath: string): DeploymentTemplate | undefined {
+        return this._deploymentTemplates.get(vscode.Uri.file(templatePath).toString());
+    }
+
+    private onProvideDocumentSymbols(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.DocumentSymbol[] | undefined {
+        const deploymentTemplate: DeploymentTemplate | undefined = this.getDeploymentTemplate(document);
+        if (deploymentTemplate) {
+            return callWithTelemetryAndErrorHandlingSync('provideDocumentSymbols', (actionContext: IActionContext): vscode.DocumentSymbol[] => {
+                actionContext.telemetry.suppressIfSuccessful = true;
+                actionContext.errorHandling.suppressDisplay = true;
+
+                const toDocumentSymbol = (templateSymbol: TemplateSymbol): vscode.DocumentSymbol => {
+                    const documentSymbol = new vscode.DocumentSymbol(
+                        templateSymbol.name,
+                        templateSymbol.detail,
+                        getVSCodeSymbolKind(templateSymbol.kind),
+                        getVSCodeRangeFromSpan(deploymentTemplate, templateSymbol.span),
+                        getVSCodeRangeFromSpan(deploymentTemplate, templateSymbol.selectionSpan));
+                    documentSymbol.children = templateSymbol.children.map(toDocumentSymbol);
+                    return documentSymbol;
+                };
+
+                return getDocumentSymbols(deploymentTemplate).map(toDocumentSymbol);
+            });
+        }
+    }
+
+    private onProvideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.CodeLens[] | undefined {
+        const deploymentTemplate: DeploymentTemplate | undefined = this.getDeploymentTemplate(document);
+        if (deploymentTemplate) {
+            return callWithTelemetryAndErrorHandlingSync('provideCodeLenses', (actionContext: IActionContext): vscode.CodeLens[] => {
+                actionContext.telemetry.suppressIfSuccessful = true;
+                actionContext.errorHandling.suppressDisplay = true;
+
+                return getReferenceCodeLenses(deploymentTemplate).map((lens: ReferenceCodeLens) => {
+                    const range: vscode.Range = getVSCodeRangeFromSpan(deploymentTemplate, lens.span);
+                    const locations: vscode.Location[] = lens.references.spans.map(span =>
+                        new vscode.Location(document.uri, getVSCodeRangeFromSpan(deploymentTemplate, span)));
+                    return new vscode.CodeLens(range, {
+                        title: lens.title,
+                        command: "editor.action.showReferences",
+                        arguments: [document.uri, range.start, locations]
+                    });
+                });
+            });
+        }
+    }
+
+    private async onProvideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[] | undefined> {
+        return await callWithTelemetryAndErrorHandling('provideWorkspaceSymbols', async (actionContext: IActionContext): Promise<vscode.SymbolInformation[]> => {
+            actionContext.telemetry.suppressIfSuccessful = true;
+            actionContext.errorHandling.suppressDisplay = true;
+
+            await this._workspaceTemplateIndex.initialize();
+            const openTemplates: IOpenTemplate[] = [];
+            for (const document of vscode.workspace.textDocuments) {
+                const deploymentTemplate: DeploymentTemplate | undefined = this._deploymentTemplates.get(document.uri.toString());
+                if (deploymentTemplate) {
+                    openTemplates.push({ deploymentTemplate, documentVersion: document.version });
+                }
+            }
+            const symbols: IIndexedSymbol[] = await this._workspaceTemplateIndex.findSymbols(query, openTemplates, token);
+            return symbols.map(indexedSymbol => new vscode.SymbolInformation(
+                indexedSymbol.name,
+                getVSCodeSymbolKind(indexedSymbol.kind),
+                indexedSymbol.containerName,
+                new vscode.Location(
+                    vscode.Uri.parse(indexedSymbol.documentUri),
+                    new vscode.Range(getVSCodePositionFromPosition(indexedSymbol.start), getVSCodePositionFromPosition(indexedSymbol.end)))));
+        });
+    }
+
     private onProvideReferences(document: vscode.TextDocument, position: vscode.Position, context: vscode.ReferenceContext, token: vscode.CancellationToken): vscode.Location[] | undefined {
         const deploymentTemplate: DeploymentTemplate | undefined = this.getDeploymentTemplate(document);
         if (deploymentTemplate) {
@@ -704,6 +1253,10 @@ export class AzureRMTools {
                 }
 
                 const referenceList: ReferenceList | null = context.getReferences();
+                if (referenceList && referenceList.kind === DefinitionKind.Resource) {
+                    throw new Error("Resources cannot be renamed.");
+                }
+
                 if (referenceList) {
                     // When trying to rename a parameter or variable reference inside of a TLE, the
                     // textbox that pops up when you press F2 contains more than just the variable
@@ -732,7 +1285,7 @@ export class AzureRMTools {
                         result.replace(documentUri, referenceRange, newName);
                     }
                 } else {
-                    throw new Error('Only parameters, variables, user namespaces and user functions can be renamed.');
+                    throw new Error('Only parameters, variables, outputs, user namespaces and user functions can be renamed.');
                 }
 
                 return result;
@@ -740,6 +1293,60 @@ export class AzureRMTools {
         }
     }
 
+    private async onProvideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext, token: vscode.CancellationToken): Promise<vscode.CodeAction[] | undefined> {
+        const deploymentTemplate: DeploymentTemplate | undefined = this.getDeploymentTemplate(document);
+        if (deploymentTemplate) {
+            return await callWithTelemetryAndErrorHandling('provideCodeActions', async (actionContext: IActionContext): Promise<vscode.CodeAction[]> => {
+                actionContext.telemetry.suppressIfSuccessful = true;
+                actionContext.errorHandling.suppressDisplay = true;
+
+                const actions: vscode.CodeAction[] = [];
+                const issues: language.Issue[] = (await deploymentTemplate.errorsPromise).concat(deploymentTemplate.warnings);
+                for (const issue of issues) {
+                    const issueRange: vscode.Range = getVSCodeRangeFromSpan(deploymentTemplate, issue.span);
+                    if (!issueRange.intersection(range)) {
+                        continue;
+                    }
+
+                    for (const quickFix of getQuickFixes(deploymentTemplate, issue)) {
+                        const action = new vscode.CodeAction(quickFix.title, vscode.CodeActionKind.QuickFix);
+                        action.edit = new vscode.WorkspaceEdit();
+                        for (const edit of quickFix.edits) {
+                            action.edit.replace(document.uri, getVSCodeRangeFromSpan(deploymentTemplate, edit.span), edit.newText);
+                        }
+                        action.diagnostics = context.diagnostics.filter(d => d.message === issue.message && d.range.isEqual(issueRange));
+                        action.isPreferred = quickFix.isPreferred;
+                        actions.push(action);
+
+                        actionContext.telemetry.properties.issueKind = issue.kind;
+                    }
+                }
+
+                if (!context.only || context.only.intersects(vscode.CodeActionKind.Refactor)) {
+                    const selection: language.Span = getSpanFromVSCodeRange(deploymentTemplate, range);
+                    const refactorings: Refactoring[] = range.isEmpty
+                        ? getInlineRefactorings(deploymentTemplate, selection.startIndex)
+                        : getExtractRefactorings(deploymentTemplate, selection);
+                    for (const refactoring of refactorings) {
+                        const action = new vscode.CodeAction(refactoring.title, vscode.CodeActionKind.Empty.append(refactoring.kind));
+                        if (refactoring.errorMessage) {
+                            // Explain why when it's chosen
+                            action.command = { title: refactoring.title, command: "azurerm-vscode-tools.refactoringUnavailable", arguments: [refactoring.errorMessage] };
+                        } else {
+                            action.edit = new vscode.WorkspaceEdit();
+                            for (const edit of refactoring.edits) {
+                                action.edit.replace(document.uri, getVSCodeRangeFromSpan(deploymentTemplate, edit.span), edit.newText);
+                            }
+                        }
+                        actions.push(action);
+                    }
+                }
+
+                return actions;
+            });
+        }
+    }
+
     private onActiveTextEditorChanged(editor: vscode.TextEditor | undefined): void {
         callWithTelemetryAndErrorHandlingSync('onActiveTextEditorChanged', (actionContext: IActionContext): void => {
             actionContext.telemetry.properties.isActivationEvent = 'true';
@@ -748,8 +1355,8 @@ export class AzureRMTools {
 
             if (editor) {
                 const document = editor.document;
-                if (!this.getDeploymentTemplate(document)) {
-                    this.updateDeploymentTemplate(document);
+                if (!this.getDeploymentTemplate(document) && !this.getDeploymentParameters(document)) {
+                    this.updateDocument(document);
                 }
             }
         });
@@ -782,11 +1389,11 @@ export class AzureRMTools {
     }
 
     private onDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
-        this.updateDeploymentTemplate(event.document);
+        this.updateDocument(event.document, event.contentChanges);
     }
 
     private onDocumentOpened(openedDocument: vscode.TextDocument): void {
-        this.updateDeploymentTemplate(openedDocument);
+        this.updateDocument(openedDocument);
     }
 
     private onDocumentClosed(closedDocument: vscode.TextDocument): void {
@@ -798,4 +1405,34 @@ export class AzureRMTools {
             this.closeDeploymentTemplate(closedDocument);
         });
     }
+
+    private onParameterFileClosed(closedDocument: vscode.TextDocument): void {
+        callWithTelemetryAndErrorHandlingSync('onParameterFileClosed', (actionContext: IActionContext): void => {
+            actionContext.telemetry.suppressIfSuccessful = true;
+            actionContext.errorHandling.suppressDisplay = true;
+
+            this.closeDeploymentParameters(closedDocument);
+        });
+    }
+}
+
+function getVSCodeSymbolKind(kind: TemplateSymbolKind): vscode.SymbolKind {
+    switch (kind) {
+        case TemplateSymbolKind.Section:
+            return vscode.SymbolKind.Module;
+        case TemplateSymbolKind.Parameter:
+            return vscode.SymbolKind.Property;
+        case TemplateSymbolKind.Variable:
+            return vscode.SymbolKind.Variable;
+        case TemplateSymbolKind.Namespace:
+            return vscode.SymbolKind.Namespace;
+        case TemplateSymbolKind.UserFunction:
+            return vscode.SymbolKind.Function;
+        case TemplateSymbolKind.Resource:
+            return vscode.SymbolKind.Object;
+        case TemplateSymbolKind.Output:
+            return vscode.SymbolKind.Field;
+        default:
+            return assertNever(kind);
+    }
 }
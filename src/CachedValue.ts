@@ -9,6 +9,10 @@ export class CachedValue<T> {
     private _isCached: boolean;
     private _value: T;
 
+    public get isCached(): boolean {
+        return !!this._isCached;
+    }
+
     public getOrCacheValue(calculateValue: () => T): T {
         if (!this._isCached) {
             this._value = calculateValue();
@@ -0,0 +1,56 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { DeploymentTemplate } from "./DeploymentTemplate";
+import { INamedDefinition } from "./INamedDefinition";
+import * as language from "./Language";
+import { ReferenceList } from "./ReferenceList";
+
+/**
+ * A code lens shown above a definition with the number of times it's referenced in the template
+ */
+export class ReferenceCodeLens {
+    constructor(
+        public readonly definition: INamedDefinition,
+        // The span of the definition's name
+        public readonly span: language.Span,
+        // The uses of the definition, not including the definition itself
+        public readonly references: ReferenceList
+    ) {
+    }
+
+    public get title(): string {
+        const count: number = this.references.length;
+        return count === 1 ? "1 reference" : `${count} references`;
+    }
+}
+
+/**
+ * Gets the reference count code lenses for the parameters, variables, user function namespaces,
+ * user functions and user function parameters in a deployment template
+ */
+export function getReferenceCodeLenses(deploymentTemplate: DeploymentTemplate): ReferenceCodeLens[] {
+    const definitions: INamedDefinition[] = [];
+    for (const scope of deploymentTemplate.allScopes) {
+        definitions.push(...scope.parameterDefinitions);
+        definitions.push(...scope.variableDefinitions);
+        for (const ns of scope.namespaceDefinitions) {
+            definitions.push(ns);
+            for (const member of ns.members) {
+                definitions.push(member);
+                definitions.push(...member.parameterDefinitions);
+            }
+        }
+    }
+
+    const lenses: ReferenceCodeLens[] = [];
+    for (const definition of definitions) {
+        if (definition.nameValue) {
+            lenses.push(new ReferenceCodeLens(definition, definition.nameValue.span, deploymentTemplate.referenceIndex.getReferences(definition)));
+        }
+    }
+
+    // Lenses are shown in document order
+    return lenses.sort((lhs, rhs) => lhs.span.startIndex - rhs.span.startIndex);
+}
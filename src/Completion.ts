@@ -2,11 +2,14 @@
 // Copyright (c) Microsoft Corporation.  All rights reserved.
 // ----------------------------------------------------------------------------
 
+import { ApiProfileMetadata } from "./ApiProfilesMetadata";
 import { IFunctionMetadata } from "./IFunctionMetadata";
 import { IParameterDefinition } from "./IParameterDefinition";
 import * as language from "./Language";
+import { ResourceTypeMetadata } from "./ResourceProvidersMetadata";
 import { UserFunctionNamespaceDefinition } from "./UserFunctionNamespaceDefinition";
 import { IVariableDefinition } from "./VariableDefinition";
+import { ICopyLoop } from "./visitors/CopyLoopVisitor";
 
 /**
  * A completion item in the list of completion suggestions that appear when a user invokes auto-completion (Ctrl + Space).
@@ -18,7 +21,11 @@ export class Item {
         private _insertSpan: language.Span,
         private _detail: string,
         private _description: string | null,
-        private _type: CompletionKind
+        private _type: CompletionKind,
+        /**
+         * Determines the order of the completions (by default they're sorted by name)
+         */
+        private _sortText?: string
     ) {
     }
 
@@ -91,6 +98,62 @@ export class Item {
             CompletionKind.Variable);
     }
 
+    /**
+     * The name of a copy loop, ordered with the innermost loop first
+     */
+    public static fromCopyLoop(loop: ICopyLoop, replaceSpan: language.Span, includeRightParenthesisInCompletion: boolean, index: number): Item {
+        const loopName: string = `'${loop.nameValue ? loop.nameValue.unquotedValue : ""}'`;
+        return new Item(
+            loopName,
+            `${loopName}${includeRightParenthesisInCompletion ? ")" : ""}$0`,
+            replaceSpan,
+            `(${loop.kind} copy loop)`, // detail
+            "", // description
+            CompletionKind.CopyLoop,
+            `0000${index}`.slice(-4));
+    }
+
+    /**
+     * A resource type from the resource providers catalog, inserted as either the full type or the type
+     * relative to a parent resource
+     */
+    public static fromResourceType(resourceType: ResourceTypeMetadata, name: string, replaceSpan: language.Span): Item {
+        return new Item(
+            name,
+            `${name}$0`,
+            replaceSpan,
+            "(resource type)", // detail
+            resourceType.name, // description
+            CompletionKind.ResourceType);
+    }
+
+    /**
+     * An API version of a resource type, ordered with the newest first
+     */
+    public static fromApiVersion(resourceType: ResourceTypeMetadata, apiVersion: string, index: number, replaceSpan: language.Span): Item {
+        return new Item(
+            apiVersion,
+            `${apiVersion}$0`,
+            replaceSpan,
+            "(apiVersion)", // detail
+            `API version of ${resourceType.name}`, // description
+            CompletionKind.ApiVersion,
+            `0000${index}`.slice(-4));
+    }
+
+    /**
+     * An API profile that can be used as the template's apiProfile
+     */
+    public static fromApiProfile(profile: ApiProfileMetadata, replaceSpan: language.Span): Item {
+        return new Item(
+            profile.name,
+            `${profile.name}$0`,
+            replaceSpan,
+            "(apiProfile)", // detail
+            profile.description, // description
+            CompletionKind.ApiProfile);
+    }
+
     public get name(): string {
         return this._name;
     }
@@ -114,6 +177,10 @@ export class Item {
     public get kind(): CompletionKind {
         return this._type;
     }
+
+    public get sortText(): string | undefined {
+        return this._sortText;
+    }
 }
 
 export enum CompletionKind {
@@ -121,5 +188,9 @@ export enum CompletionKind {
     Parameter = "Parameter",
     Variable = "Variable",
     Property = "Property",
-    Namespace = "Namespace"
+    Namespace = "Namespace",
+    ResourceType = "ResourceType",
+    ApiVersion = "ApiVersion",
+    ApiProfile = "ApiProfile",
+    CopyLoop = "CopyLoop"
 }
@@ -2,28 +2,42 @@
 // Copyright (c) Microsoft Corporation.  All rights reserved.
 // ----------------------------------------------------------------------------
 
+import { ApiProfileMetadata } from "./ApiProfilesMetadata";
 import { AzureRMAssets, FunctionsMetadata } from "./AzureRMAssets";
 import { CachedPromise } from "./CachedPromise";
 import { CachedValue } from "./CachedValue";
 import { templateKeys } from "./constants";
+import { EvaluationResult, ExpressionEvaluator } from "./ExpressionEvaluator";
+import { ExpressionType, getExpressionTypeFromJsonValue, isExpressionTypeAssignable } from "./ExpressionType";
 import { assert } from "./fixed_assert";
 import { Histogram } from "./Histogram";
 import { INamedDefinition } from "./INamedDefinition";
 import * as Json from "./JSON";
 import * as language from "./Language";
-import { ParameterDefinition } from "./ParameterDefinition";
+import { getLinkedTemplates, LinkedTemplate } from "./LinkedTemplate";
+import { getInnerScopedNestedDeployments, getNestedDeployments, NestedDeployment } from "./NestedDeployment";
+import { getTemplateOutputDefinitions, TemplateOutputDefinition } from "./OutputDefinition";
+import { getTemplateParameterDefinitions, ParameterDefinition } from "./ParameterDefinition";
 import { PositionContext } from "./PositionContext";
+import { ReferenceIndex } from "./ReferenceIndex";
 import { ReferenceList } from "./ReferenceList";
-import { isArmSchema } from "./schemas";
+import { flattenResourceDefinitions, getResourceDefinitions, ResourceDefinition } from "./ResourceDefinition";
+import { ResourceDependencyGraph } from "./ResourceDependencies";
+import { ResourceProvidersMetadata, ResourceTypeMetadata } from "./ResourceProvidersMetadata";
+import { DeploymentScope, getDeploymentScope, isArmSchema } from "./schemas";
 import { ScopeContext, TemplateScope } from "./TemplateScope";
 import * as TLE from "./TLE";
-import { UserFunctionNamespaceDefinition } from "./UserFunctionNamespaceDefinition";
-import { IVariableDefinition, TopLevelCopyBlockVariableDefinition, TopLevelVariableDefinition } from "./VariableDefinition";
-import { FindReferencesVisitor } from "./visitors/FindReferencesVisitor";
+import { getTemplateNamespaceDefinitions, UserFunctionNamespaceDefinition } from "./UserFunctionNamespaceDefinition";
+import { getTemplateVariableDefinitions, IVariableDefinition } from "./VariableDefinition";
+import { CopyLoopVisitor } from "./visitors/CopyLoopVisitor";
+import { DeploymentScopeVisitor } from "./visitors/DeploymentScopeVisitor";
 import { FunctionCountVisitor } from "./visitors/FunctionCountVisitor";
 import { GenericStringVisitor } from "./visitors/GenericStringVisitor";
 import * as IncorrectFunctionArgumentCountVisitor from "./visitors/IncorrectFunctionArgumentCountVisitor";
+import { ReferenceIndexVisitor } from "./visitors/ReferenceIndexVisitor";
 import { ReferenceInVariableDefinitionsVisitor } from "./visitors/ReferenceInVariableDefinitionsVisitor";
+import { getDeclaredResources, IDeclaredResource, ResourceReferenceVisitor } from "./visitors/ResourceReferenceVisitor";
+import { TypeInferenceVisitor } from "./visitors/TypeInferenceVisitor";
 import { UndefinedParameterAndVariableVisitor } from "./visitors/UndefinedParameterAndVariableVisitor";
 import * as UndefinedVariablePropertyVisitor from "./visitors/UndefinedVariablePropertyVisitor";
 import * as UnrecognizedFunctionVisitor from "./visitors/UnrecognizedFunctionVisitor";
@@ -41,6 +55,10 @@ export class DeploymentTemplate {
     // A map from all JSON string value nodes to their cached TLE parse results
     private _jsonStringValueToTleParseResultMap: CachedValue<Map<Json.StringValue, TLE.ParseResult>> = new CachedValue<Map<Json.StringValue, TLE.ParseResult>>();
 
+    // TLE parse results from the previous version of the document (see applyChange), keyed by their JSON string's
+    //   quoted value. Cleared once this template's own parse results have been created.
+    private _previousTleParseResults: Map<string, TLE.ParseResult> | undefined;
+
     // Cached errors and warnings in the template
     private _errors: CachedPromise<language.Issue[]> = new CachedPromise<language.Issue[]>();
     private _warnings: CachedValue<language.Issue[]> = new CachedValue<language.Issue[]>();
@@ -48,6 +66,15 @@ export class DeploymentTemplate {
     private _topLevelNamespaceDefinitions: CachedValue<UserFunctionNamespaceDefinition[]> = new CachedValue<UserFunctionNamespaceDefinition[]>();
     private _topLevelVariableDefinitions: CachedValue<IVariableDefinition[]> = new CachedValue<IVariableDefinition[]>();
     private _topLevelParameterDefinitions: CachedValue<ParameterDefinition[]> = new CachedValue<ParameterDefinition[]>();
+    private _topLevelOutputDefinitions: CachedValue<TemplateOutputDefinition[]> = new CachedValue<TemplateOutputDefinition[]>();
+    private _nestedDeployments: CachedValue<NestedDeployment[]> = new CachedValue<NestedDeployment[]>();
+    private _innerScopedNestedDeployments: CachedValue<NestedDeployment[]> = new CachedValue<NestedDeployment[]>();
+    private _linkedTemplates: CachedValue<LinkedTemplate[]> = new CachedValue<LinkedTemplate[]>();
+    private _resources: CachedValue<ResourceDefinition[]> = new CachedValue<ResourceDefinition[]>();
+    private _resourceDependencyGraph: CachedValue<ResourceDependencyGraph> = new CachedValue<ResourceDependencyGraph>();
+    private _copyLoops: CachedValue<CopyLoopVisitor> = new CachedValue<CopyLoopVisitor>();
+    private _referenceIndex: CachedValue<ReferenceIndex> = new CachedValue<ReferenceIndex>();
+    private _apiProfileApiVersions: CachedValue<Map<ResourceDefinition, string>> = new CachedValue<Map<ResourceDefinition, string>>();
 
     private _schema: CachedValue<Json.StringValue | null> = new CachedValue<Json.StringValue | null>();
 
@@ -56,13 +83,17 @@ export class DeploymentTemplate {
      *
      * @param _documentText The string text of the document.
      * @param _documentId A unique identifier for this document. Usually this will be a URI to the document.
+     * @param jsonParseResult The result of parsing the document's JSON, if it has already been parsed.
+     * @param previousTleParseResults TLE parse results from a previous version of the document, keyed by quoted string value.
      */
-    constructor(private _documentText: string, private _documentId: string) {
+    constructor(private _documentText: string, private _documentId: string, jsonParseResult?: Json.ParseResult, previousTleParseResults?: Map<string, TLE.ParseResult>) {
         assert(_documentText !== null);
         assert(_documentText !== undefined);
         assert(_documentId);
 
-        this._jsonParseResult = Json.parse(_documentText);
+        // tslint:disable-next-line: strict-boolean-expressions
+        this._jsonParseResult = jsonParseResult || Json.parse(_documentText);
+        this._previousTleParseResults = previousTleParseResults;
         this._topLevelValue = Json.asObjectValue(this._jsonParseResult.value);
 
         this._topLevelScope = new TemplateScope(
@@ -70,6 +101,8 @@ export class DeploymentTemplate {
             this.getTopLevelParameterDefinitions(),
             this.getTopLevelVariableDefinitions(),
             this.getTopLevelNamespaceDefinitions(),
+            this.getTopLevelOutputDefinitions(),
+            this.getNestedDeployments(),
             'Top-level scope');
     }
 
@@ -77,19 +110,143 @@ export class DeploymentTemplate {
         return this._topLevelScope;
     }
 
+    /**
+     * Creates the template for a new version of the document, given the change that was made to this version.
+     * Only the changed part of the JSON is re-tokenized, and the TLE parse results of strings that didn't change are reused.
+     */
+    public applyChange(documentText: string, change: Json.ITextChange): DeploymentTemplate {
+        const previousText: string = this._documentText;
+        const isChangeConsistent: boolean =
+            documentText.length === previousText.length - change.span.length + change.newLength
+            && documentText.substr(0, change.span.startIndex) === previousText.substr(0, change.span.startIndex)
+            && documentText.substr(change.span.startIndex + change.newLength) === previousText.substr(change.span.afterEndIndex);
+        if (!isChangeConsistent) {
+            // The change doesn't describe how to get from this version to the new one, so do a full parse
+            return new DeploymentTemplate(documentText, this._documentId);
+        }
+
+        let tleParseResults: Map<string, TLE.ParseResult> | undefined = this._previousTleParseResults;
+        if (this._jsonStringValueToTleParseResultMap.isCached) {
+            tleParseResults = new Map<string, TLE.ParseResult>();
+            for (const [jsonStringValue, tleParseResult] of this.quotedStringToTleParseResultMap) {
+                tleParseResults.set(jsonStringValue.quotedValue, tleParseResult);
+            }
+        }
+
+        return new DeploymentTemplate(documentText, this._documentId, Json.reparse(this._jsonParseResult, documentText, change), tleParseResults);
+    }
+
+    /**
+     * The top-level scope followed by the scopes of all nested templates that have their own (inner) scope.
+     * User function scopes are not included.
+     */
+    public get allScopes(): TemplateScope[] {
+        const scopes: TemplateScope[] = [this.topLevelScope];
+        for (const deployment of this.getInnerScopedNestedDeployments()) {
+            // tslint:disable-next-line: no-non-null-assertion // Guaranteed for deployments with inner scope
+            scopes.push(deployment.innerScope!);
+        }
+
+        return scopes;
+    }
+
+    /**
+     * Deployment resources that link to templates in other files
+     */
+    public get linkedTemplates(): LinkedTemplate[] {
+        return this._linkedTemplates.getOrCacheValue(() => {
+            const resources: Json.ArrayValue | null = this._topLevelValue ? Json.asArrayValue(this._topLevelValue.getPropertyValue(templateKeys.resources)) : null;
+            return getLinkedTemplates(resources);
+        });
+    }
+
+    /**
+     * The resources declared at the top level of the template (child resources are available from each
+     * resource's children)
+     */
+    public get resources(): ResourceDefinition[] {
+        return this._resources.getOrCacheValue(() => {
+            const resources: Json.ArrayValue | null = this._topLevelValue ? Json.asArrayValue(this._topLevelValue.getPropertyValue(templateKeys.resources)) : null;
+            return getResourceDefinitions(resources);
+        });
+    }
+
+    /**
+     * The copy loops in the template and the calls to copyIndex()
+     */
+    public get copyLoops(): CopyLoopVisitor {
+        return this._copyLoops.getOrCacheValue(() => CopyLoopVisitor.visit(this));
+    }
+
+    /**
+     * The references to all of the template's parameters, variables, user functions, namespaces, outputs
+     * and built-in functions
+     */
+    public get referenceIndex(): ReferenceIndex {
+        return this._referenceIndex.getOrCacheValue(() => {
+            const index = new ReferenceIndex();
+            const functions: FunctionsMetadata = AzureRMAssets.getFunctionsMetadata();
+            this.visitAllReachableStringValues(jsonStringValue => {
+                const tleParseResult: TLE.ParseResult = this.getTLEParseResultFromJsonStringValue(jsonStringValue);
+                ReferenceIndexVisitor.visit(tleParseResult.expression, index, functions, jsonStringValue.span.startIndex);
+            });
+            return index;
+        });
+    }
+
+    /**
+     * The dependencies between the template's resources
+     */
+    public get resourceDependencyGraph(): ResourceDependencyGraph {
+        return this._resourceDependencyGraph.getOrCacheValue(() => new ResourceDependencyGraph(this, this.resources));
+    }
+
     public hasArmSchemaUri(): boolean {
         return isArmSchema(this.schemaUri);
     }
 
     public get apiProfile(): string | null {
-        if (this._topLevelValue) {
-            const apiProfileValue = Json.asStringValue(this._topLevelValue.getPropertyValue(templateKeys.apiProfile));
-            if (apiProfileValue) {
-                return apiProfileValue.unquotedValue;
+        const apiProfileValue = this.apiProfileValue;
+        return apiProfileValue ? apiProfileValue.unquotedValue : null;
+    }
+
+    public get apiProfileValue(): Json.StringValue | null {
+        return this._topLevelValue ? Json.asStringValue(this._topLevelValue.getPropertyValue(templateKeys.apiProfile)) : null;
+    }
+
+    /**
+     * The template's apiProfile from the bundled API profiles catalog (undefined if the template doesn't
+     * have an apiProfile, or it isn't in the catalog)
+     */
+    public get apiProfileMetadata(): ApiProfileMetadata | undefined {
+        const apiProfile: string | null = this.apiProfile;
+        return apiProfile ? AzureRMAssets.getApiProfilesMetadata().findProfile(apiProfile) : undefined;
+    }
+
+    /**
+     * Gets the apiVersion that the template's apiProfile gives a resource that doesn't specify its own
+     * apiVersion (undefined if the resource has an apiVersion, or the profile doesn't support its type)
+     */
+    public getApiProfileApiVersion(resource: ResourceDefinition): string | undefined {
+        const apiVersions: Map<ResourceDefinition, string> = this._apiProfileApiVersions.getOrCacheValue(() => {
+            const map: Map<ResourceDefinition, string> = new Map<ResourceDefinition, string>();
+            const profile: ApiProfileMetadata | undefined = this.apiProfileMetadata;
+            if (profile) {
+                const resources: ResourceDefinition[] = flattenResourceDefinitions(this.resources);
+                const declaredResources: IDeclaredResource[] = getDeclaredResources(resources, new ExpressionEvaluator(this.topLevelScope));
+                resources.forEach((r, index) => {
+                    const resourceType: string | undefined = declaredResources[index].resourceType;
+                    const apiVersion: string | undefined = resourceType !== undefined ? profile.getApiVersion(resourceType) : undefined;
+                    if (apiVersion !== undefined && !r.resourceObject.getPropertyValue(templateKeys.resourceApiVersion)) {
+                        map.set(r, apiVersion);
+                    }
+                });
             }
-        }
 
-        return null;
+            return map;
+        });
+
+        return apiVersions.get(resource);
     }
 
     /**
@@ -102,8 +259,22 @@ export class DeploymentTemplate {
     private get quotedStringToTleParseResultMap(): Map<Json.StringValue, TLE.ParseResult> {
         return this._jsonStringValueToTleParseResultMap.getOrCacheValue(() => {
             const jsonStringValueToTleParseResultMap = new Map<Json.StringValue, TLE.ParseResult>();
+            const parse = (jsonStringValue: Json.StringValue, scope: TemplateScope): TLE.ParseResult => this.parseTleString(jsonStringValue, scope);
+
+            // First assign all strings under nested templates with inner scope their own scope, innermost
+            // templates first (each one's user functions before the rest of it)
+            for (const deployment of this.getInnerScopedNestedDeployments().slice().reverse()) {
+                // tslint:disable-next-line: no-non-null-assertion // Guaranteed for deployments with inner scope
+                const innerScope: TemplateScope = deployment.innerScope!;
+                for (let ns of innerScope.namespaceDefinitions) {
+                    for (let member of ns.members) {
+                        parseSubstrings(member.objectValue, member.scope);
+                    }
+                }
+                parseSubstrings(deployment.templateObject, innerScope);
+            }
 
-            // First assign all strings under user functions their own scope
+            // Then assign all strings under top-level user functions their own scope
             for (let ns of this.getTopLevelNamespaceDefinitions()) {
                 for (let member of ns.members) {
                     parseSubstrings(member.objectValue, member.scope);
@@ -115,11 +286,14 @@ export class DeploymentTemplate {
             this.visitAllReachableStringValues(jsonStringValue => {
                 if (!jsonStringValueToTleParseResultMap.has(jsonStringValue)) {
                     // Not parsed yet, parse with top-level scope
-                    let tleParseResult: TLE.ParseResult = TLE.Parser.parse(jsonStringValue.quotedValue, this.topLevelScope);
+                    let tleParseResult: TLE.ParseResult = parse(jsonStringValue, this.topLevelScope);
                     jsonStringValueToTleParseResultMap.set(jsonStringValue, tleParseResult);
                 }
             });
 
+            // The previous version's results are no longer needed
+            this._previousTleParseResults = undefined;
+
             return jsonStringValueToTleParseResultMap;
 
             // (local function) Parse all substrings of the given JSON value node
@@ -130,7 +304,7 @@ export class DeploymentTemplate {
                         jsonStringValue => {
                             if (!jsonStringValueToTleParseResultMap.has(jsonStringValue)) {
                                 // Parse the string as a possible TLE expression and cache
-                                let tleParseResult: TLE.ParseResult = TLE.Parser.parse(jsonStringValue.quotedValue, scope);
+                                let tleParseResult: TLE.ParseResult = parse(jsonStringValue, scope);
                                 jsonStringValueToTleParseResultMap.set(jsonStringValue, tleParseResult);
                             }
                         });
@@ -139,6 +313,15 @@ export class DeploymentTemplate {
         });
     }
 
+    /**
+     * Parses a JSON string as a possible TLE expression, reusing the previous version's parse result if the
+     * string hasn't changed
+     */
+    private parseTleString(jsonStringValue: Json.StringValue, scope: TemplateScope): TLE.ParseResult {
+        const previousResult: TLE.ParseResult | undefined = this._previousTleParseResults ? this._previousTleParseResults.get(jsonStringValue.quotedValue) : undefined;
+        return previousResult ? previousResult.withScope(scope) : TLE.Parser.parse(jsonStringValue.quotedValue, scope);
+    }
+
     /**
      * Get the document text as a string.
      */
@@ -172,12 +355,20 @@ export class DeploymentTemplate {
         });
     }
 
+    /**
+     * The scope the template is deployed at, according to its $schema (undefined if it isn't known)
+     */
+    public get deploymentScope(): DeploymentScope | undefined {
+        return getDeploymentScope(this.schemaUri);
+    }
+
     public get errorsPromise(): Promise<language.Issue[]> {
         return this._errors.getOrCachePromise(async () => {
             // tslint:disable-next-line:typedef
             return new Promise<language.Issue[]>(async (resolve, reject) => {
                 try {
                     let functions: FunctionsMetadata = AzureRMAssets.getFunctionsMetadata();
+                    const deploymentScope: DeploymentScope | undefined = this.deploymentScope;
                     const parseErrors: language.Issue[] = [];
 
                     // Loop through each reachable string in the template
@@ -220,6 +411,21 @@ export class DeploymentTemplate {
                         for (const error of tleUndefinedVariablePropertyVisitor.errors) {
                             parseErrors.push(error.translate(jsonTokenStartIndex));
                         }
+
+                        // Functions that aren't available at the deployment scope (nested templates with inner scope
+                        // can be deployed at a different scope)
+                        if (deploymentScope !== undefined && expressionScope.scopeContext !== ScopeContext.NestedDeploymentInnerScope) {
+                            const tleDeploymentScopeVisitor = DeploymentScopeVisitor.visit(tleExpression, deploymentScope, functions);
+                            for (const error of tleDeploymentScopeVisitor.errors) {
+                                parseErrors.push(error.translate(jsonTokenStartIndex));
+                            }
+                        }
+
+                        // Incorrect argument types
+                        const tleTypeInferenceVisitor = TypeInferenceVisitor.visit(tleExpression, functions);
+                        for (const error of tleTypeInferenceVisitor.errors) {
+                            parseErrors.push(error.translate(jsonTokenStartIndex));
+                        }
                     });
 
                     // ReferenceInVariableDefinitionsVisitor
@@ -238,6 +444,9 @@ export class DeploymentTemplate {
                         }
                     }
 
+                    // Copy loops and copyIndex()
+                    parseErrors.push(...this.copyLoops.getErrors());
+
                     resolve(parseErrors);
                 } catch (err) {
                     reject(err);
@@ -252,21 +461,27 @@ export class DeploymentTemplate {
             const unusedParams = this.findUnusedParameters();
             const unusedVars = this.findUnusedVariables();
             const unusedUserFuncs = this.findUnusedUserFunctions();
-            return unusedParams.concat(unusedVars).concat(unusedUserFuncs);
+            const duplicateOutputs = this.findDuplicateOutputs();
+            const outputTypeMismatches = this.findOutputTypeMismatches();
+            const dependencyIssues = this.resourceDependencyGraph.getIssues();
+            const resourceReferenceIssues = this.findResourceReferenceIssues();
+            const invalidApiVersions = this.findInvalidApiVersions();
+            const apiProfileIssues = this.findResourceTypesNotInApiProfile();
+            return unusedParams.concat(unusedVars).concat(unusedUserFuncs).concat(duplicateOutputs).concat(outputTypeMismatches).concat(dependencyIssues)
+                .concat(resourceReferenceIssues).concat(invalidApiVersions).concat(apiProfileIssues);
         });
     }
 
-    // CONSIDER: PERF: findUnused{Variables,Parameters,findUnusedNamespacesAndUserFunctions} are very inefficient}
-
     private findUnusedVariables(): language.Issue[] {
         const warnings: language.Issue[] = [];
 
-        for (const variableDefinition of this.getTopLevelVariableDefinitions()) {
-            // Variables are only supported at the top level
-            const variableReferences: ReferenceList = this.findReferences(variableDefinition);
-            if (variableReferences.length === 1) {
-                warnings.push(
-                    new language.Issue(variableDefinition.nameValue.span, `The variable '${variableDefinition.nameValue.toString()}' is never used.`, language.IssueKind.unusedVar));
+        // Variables are only supported at the top level of a template (including nested templates with inner scope)
+        for (const scope of this.allScopes) {
+            for (const variableDefinition of scope.variableDefinitions) {
+                if (this.referenceIndex.getReferenceCount(variableDefinition) === 0) {
+                    warnings.push(
+                        new language.Issue(variableDefinition.nameValue.span, `The variable '${variableDefinition.nameValue.toString()}' is never used.`, language.IssueKind.unusedVar));
+                }
             }
         }
 
@@ -276,31 +491,50 @@ export class DeploymentTemplate {
     private findUnusedParameters(): language.Issue[] {
         const warnings: language.Issue[] = [];
 
-        // Top-level parameters
-        for (const parameterDefinition of this.topLevelScope.parameterDefinitions) {
-            const parameterReferences: ReferenceList =
-                this.findReferences(parameterDefinition);
-            if (parameterReferences.length === 1) {
-                warnings.push(
-                    new language.Issue(
-                        parameterDefinition.nameValue.span,
-                        `The parameter '${parameterDefinition.nameValue.toString()}' is never used.`,
-                        language.IssueKind.unusedParam));
+        for (const scope of this.allScopes) {
+            // Top-level parameters (of the template or of a nested template with inner scope)
+            for (const parameterDefinition of scope.parameterDefinitions) {
+                if (this.referenceIndex.getReferenceCount(parameterDefinition) === 0) {
+                    warnings.push(
+                        new language.Issue(
+                            parameterDefinition.nameValue.span,
+                            `The parameter '${parameterDefinition.nameValue.toString()}' is never used.`,
+                            language.IssueKind.unusedParam));
+                }
+            }
+
+            // User function parameters
+            for (const ns of scope.namespaceDefinitions) {
+                for (const member of ns.members) {
+                    for (const parameterDefinition of member.parameterDefinitions) {
+                        if (this.referenceIndex.getReferenceCount(parameterDefinition) === 0) {
+                            warnings.push(
+                                new language.Issue(
+                                    parameterDefinition.nameValue.span,
+                                    `The parameter '${parameterDefinition.nameValue.toString()}' of function '${member.fullName}' is never used.`,
+                                    language.IssueKind.unusedUdfParam));
+                        }
+                    }
+                }
             }
         }
 
+        return warnings;
+    }
+
+    private findUnusedUserFunctions(): language.Issue[] {
+        const warnings: language.Issue[] = [];
+
         // User function parameters
-        for (const ns of this.topLevelScope.namespaceDefinitions) {
-            for (const member of ns.members) {
-                for (const parameterDefinition of member.parameterDefinitions) {
-                    const parameterReferences: ReferenceList =
-                        this.findReferences(parameterDefinition);
-                    if (parameterReferences.length === 1) {
+        for (const scope of this.allScopes) {
+            for (const ns of scope.namespaceDefinitions) {
+                for (const member of ns.members) {
+                    if (this.referenceIndex.getReferenceCount(member) === 0) {
                         warnings.push(
                             new language.Issue(
-                                parameterDefinition.nameValue.span,
-                                `The parameter '${parameterDefinition.nameValue.toString()}' of function '${member.fullName}' is never used.`,
-                                language.IssueKind.unusedUdfParam));
+                                member.nameValue.span,
+                                `The user-defined function '${member.fullName}' is never used.`,
+                                language.IssueKind.unusedUdf));
                     }
                 }
             }
@@ -309,27 +543,159 @@ export class DeploymentTemplate {
         return warnings;
     }
 
-    private findUnusedUserFunctions(): language.Issue[] {
+    private findDuplicateOutputs(): language.Issue[] {
         const warnings: language.Issue[] = [];
 
-        // User function parameters
-        for (const ns of this.topLevelScope.namespaceDefinitions) {
-            for (const member of ns.members) {
-                const userFuncReferences: ReferenceList =
-                    this.findReferences(member);
-                if (userFuncReferences.length === 1) {
+        // Top-level outputs and the outputs of each nested template
+        const outputLists: TemplateOutputDefinition[][] = [this.topLevelScope.outputDefinitions]
+            .concat(this.topLevelScope.nestedDeployments.map(deployment => deployment.outputDefinitions));
+        for (const outputs of outputLists) {
+            const namesSeen = new Set<string>();
+            for (const output of outputs) {
+                const outputNameLC = output.nameValue.unquotedValue.toLowerCase();
+                if (namesSeen.has(outputNameLC)) {
+                    warnings.push(
+                        new language.Issue(
+                            output.nameValue.span,
+                            `The output '${output.nameValue.unquotedValue}' is defined more than once.`,
+                            language.IssueKind.duplicateOutput));
+                }
+                namesSeen.add(outputNameLC);
+            }
+        }
+
+        return warnings;
+    }
+
+    private findOutputTypeMismatches(): language.Issue[] {
+        const warnings: language.Issue[] = [];
+
+        // Outputs of the template and of nested templates with inner scope
+        for (const scope of this.allScopes) {
+            for (const output of scope.outputDefinitions) {
+                const value: Json.Value | null = output.value;
+                const expectedType: ExpressionType | null = output.validOutputType;
+                const actualType: ExpressionType | null = value ? this.getValueType(value) : null;
+                if (value && expectedType && actualType && !isExpressionTypeAssignable(expectedType, actualType)) {
+                    warnings.push(
+                        new language.Issue(
+                            value.span,
+                            `The value of output '${output.nameValue.unquotedValue}' should be of type '${expectedType}', but is of type '${actualType}'.`,
+                            language.IssueKind.outputTypeMismatch));
+                }
+            }
+        }
+
+        return warnings;
+    }
+
+    /**
+     * Finds resourceId(), reference() and list*() calls that don't match the resources declared in the template
+     */
+    private findResourceReferenceIssues(): language.Issue[] {
+        const warnings: language.Issue[] = [];
+        const declaredResources: IDeclaredResource[] = getDeclaredResources(flattenResourceDefinitions(this.resources), new ExpressionEvaluator(this.topLevelScope));
+
+        this.visitAllReachableStringValues(jsonStringValue => {
+            const tleParseResult: TLE.ParseResult = this.getTLEParseResultFromJsonStringValue(jsonStringValue);
+            if (tleParseResult.expression && tleParseResult.scope === this.topLevelScope) {
+                // Nested templates with inner scope and user functions can't see the template's resources
+                const visitor = ResourceReferenceVisitor.visit(tleParseResult.expression, tleParseResult.scope, declaredResources);
+                for (const issue of visitor.issues) {
+                    warnings.push(issue.translate(jsonStringValue.span.startIndex));
+                }
+            }
+        });
+
+        return warnings;
+    }
+
+    /**
+     * Finds resources whose apiVersion isn't one of the versions of the resource's type in the resource
+     * providers catalog (types that aren't in the catalog can't be checked)
+     */
+    private findInvalidApiVersions(): language.Issue[] {
+        const warnings: language.Issue[] = [];
+        const resourceProviders: ResourceProvidersMetadata = AzureRMAssets.getResourceProvidersMetadata();
+        const resources: ResourceDefinition[] = flattenResourceDefinitions(this.resources);
+        const declaredResources: IDeclaredResource[] = getDeclaredResources(resources, new ExpressionEvaluator(this.topLevelScope));
+
+        resources.forEach((resource, index) => {
+            const apiVersionValue: Json.StringValue | null = resource.apiVersionValue;
+            const resourceType: string | undefined = declaredResources[index].resourceType;
+            if (apiVersionValue && resourceType !== undefined && !this.getTLEParseResultFromJsonStringValue(apiVersionValue).leftSquareBracketToken) {
+                const resourceTypeMetadata: ResourceTypeMetadata | undefined = resourceProviders.findResourceType(resourceType);
+                const apiVersion: string = apiVersionValue.unquotedValue;
+                if (resourceTypeMetadata && resourceProviders.isInvalidApiVersion(resourceTypeMetadata, apiVersion)) {
                     warnings.push(
                         new language.Issue(
-                            member.nameValue.span,
-                            `The user-defined function '${member.fullName}' is never used.`,
-                            language.IssueKind.unusedUdf));
+                            apiVersionValue.span,
+                            `The apiVersion '${apiVersion}' is not valid for resource type '${resourceTypeMetadata.name}'.`,
+                            language.IssueKind.invalidApiVersion));
                 }
             }
+        });
+
+        return warnings;
+    }
+
+    /**
+     * Finds resources whose type isn't supported by the template's apiProfile (only profiles in the bundled
+     * catalog and types that can be evaluated can be checked)
+     */
+    private findResourceTypesNotInApiProfile(): language.Issue[] {
+        const warnings: language.Issue[] = [];
+        const profile: ApiProfileMetadata | undefined = this.apiProfileMetadata;
+        if (!profile) {
+            return warnings;
         }
 
+        const resources: ResourceDefinition[] = flattenResourceDefinitions(this.resources);
+        const declaredResources: IDeclaredResource[] = getDeclaredResources(resources, new ExpressionEvaluator(this.topLevelScope));
+        resources.forEach((resource, index) => {
+            const typeValue: Json.StringValue | null = resource.typeValue;
+            const resourceType: string | undefined = declaredResources[index].resourceType;
+            // Resources with their own apiVersion don't need one from the profile
+            if (typeValue && !resource.apiVersionValue && resourceType !== undefined && profile.getApiVersion(resourceType) === undefined) {
+                warnings.push(
+                    new language.Issue(
+                        typeValue.span,
+                        `The resource type '${resourceType}' is not supported by apiProfile '${profile.name}'.`,
+                        language.IssueKind.resourceTypeNotInApiProfile));
+            }
+        });
+
         return warnings;
     }
 
+    /**
+     * Infers the type of a JSON value in the template (e.g. an output's value), including the result of an
+     * expression if possible (returns null if it can't be determined without deploying)
+     */
+    public getValueType(value: Json.Value): ExpressionType | null {
+        const stringValue: Json.StringValue | null = Json.asStringValue(value);
+        if (!stringValue) {
+            // Literal JSON value (even if it contains expressions, its kind is known)
+            return getExpressionTypeFromJsonValue(value);
+        }
+
+        const tleParseResult: TLE.ParseResult = this.getTLEParseResultFromJsonStringValue(stringValue);
+        if (tleParseResult.errors.length > 0) {
+            return null;
+        }
+
+        // A parameter's declared type is known even if its value isn't
+        const tleFunction: TLE.FunctionCallValue | null = TLE.asFunctionCallValue(tleParseResult.expression);
+        const parameterDefinition = tleFunction ? tleParseResult.scope.getParameterDefinitionFromFunctionCall(tleFunction) : null;
+        if (parameterDefinition) {
+            return parameterDefinition.validType;
+        }
+
+        const result: EvaluationResult = new ExpressionEvaluator(tleParseResult.scope).evaluateTleParseResult(tleParseResult);
+        // tslint:disable-next-line: strict-boolean-expressions
+        return result.valueType || null;
+    }
+
     /**
      * Gets info about TLE function usage, useful for telemetry
      */
@@ -455,109 +821,30 @@ export class DeploymentTemplate {
     }
 
     private getTopLevelParameterDefinitions(): ParameterDefinition[] {
-        return this._topLevelParameterDefinitions.getOrCacheValue(() => {
-            const parameterDefinitions: ParameterDefinition[] = [];
-
-            if (this._topLevelValue) {
-                const parameters: Json.ObjectValue | null = Json.asObjectValue(this._topLevelValue.getPropertyValue(templateKeys.parameters));
-                if (parameters) {
-                    for (const parameter of parameters.properties) {
-                        parameterDefinitions.push(new ParameterDefinition(parameter));
-                    }
-                }
-            }
-
-            return parameterDefinitions;
-        });
+        return this._topLevelParameterDefinitions.getOrCacheValue(() => getTemplateParameterDefinitions(this._topLevelValue));
     }
 
-    private getTopLevelVariableDefinitions(): IVariableDefinition[] {
-        return this._topLevelVariableDefinitions.getOrCacheValue(() => {
-            if (this._topLevelValue) {
-                const variables: Json.ObjectValue | null = Json.asObjectValue(this._topLevelValue.getPropertyValue(templateKeys.variables));
-                if (variables) {
-                    const varDefs: IVariableDefinition[] = [];
-                    for (let prop of variables.properties) {
-                        if (prop.nameValue.unquotedValue.toLowerCase() === templateKeys.loopVarCopy) {
-                            // We have a top-level copy block, e.g.:
-                            //
-                            // "copy": [
-                            //   {
-                            //     "name": "top-level-object-array",
-                            //     "count": 5,
-                            //     "input": {
-                            //       "name": "[concat('myDataDisk', copyIndex('top-level-object-array', 1))]",
-                            //       "diskSizeGB": "1",
-                            //       "diskIndex": "[copyIndex('top-level-object-array')]"
-                            //     }
-                            //   },
-                            // ]
-                            //
-                            // Each element of the array is a TopLevelCopyBlockVariableDefinition
-                            const varsArray: Json.ArrayValue | null = Json.asArrayValue(prop.value);
-                            // tslint:disable-next-line: strict-boolean-expressions
-                            for (let varElement of (varsArray && varsArray.elements) || []) {
-                                const def = TopLevelCopyBlockVariableDefinition.createIfValid(varElement);
-                                if (def) {
-                                    varDefs.push(def);
-                                }
-                            }
-                        } else {
-                            varDefs.push(new TopLevelVariableDefinition(prop));
-                        }
-                    }
+    private getTopLevelOutputDefinitions(): TemplateOutputDefinition[] {
+        return this._topLevelOutputDefinitions.getOrCacheValue(() => getTemplateOutputDefinitions(this._topLevelValue));
+    }
 
-                    return varDefs;
-                }
-            }
+    private getInnerScopedNestedDeployments(): NestedDeployment[] {
+        return this._innerScopedNestedDeployments.getOrCacheValue(() => getInnerScopedNestedDeployments(this._topLevelValue));
+    }
 
-            return [];
+    private getNestedDeployments(): NestedDeployment[] {
+        return this._nestedDeployments.getOrCacheValue(() => {
+            const resources: Json.ArrayValue | null = this._topLevelValue ? Json.asArrayValue(this._topLevelValue.getPropertyValue(templateKeys.resources)) : null;
+            return getNestedDeployments(resources);
         });
     }
 
-    private getTopLevelNamespaceDefinitions(): UserFunctionNamespaceDefinition[] {
-        return this._topLevelNamespaceDefinitions.getOrCacheValue(() => {
-            const namespaceDefinitions: UserFunctionNamespaceDefinition[] = [];
-
-            // Example of function definitions
-            //
-            // "functions": [
-            //     { << This is a UserFunctionNamespaceDefinition
-            //       "namespace": "<namespace-for-functions>",
-            //       "members": { << This is a UserFunctionDefinition
-            //         "<function-name>": {
-            //           "parameters": [
-            //             {
-            //               "name": "<parameter-name>",
-            //               "type": "<type-of-parameter-value>"
-            //             }
-            //           ],
-            //           "output": {
-            //             "type": "<type-of-output-value>",
-            //             "value": "<function-return-value>"
-            //           }
-            //         }
-            //       }
-            //     }
-            //   ],
-
-            if (this._topLevelValue) {
-                const functionNamespacesArray: Json.ArrayValue | null = Json.asArrayValue(this._topLevelValue.getPropertyValue("functions"));
-                if (functionNamespacesArray) {
-                    for (let namespaceElement of functionNamespacesArray.elements) {
-                        const namespaceObject = Json.asObjectValue(namespaceElement);
-                        if (namespaceObject) {
-                            let namespace = UserFunctionNamespaceDefinition.createIfValid(namespaceObject);
-                            if (namespace) {
-                                namespaceDefinitions.push(namespace);
-                            }
-                        }
-                    }
-                }
-            }
+    private getTopLevelVariableDefinitions(): IVariableDefinition[] {
+        return this._topLevelVariableDefinitions.getOrCacheValue(() => getTemplateVariableDefinitions(this._topLevelValue));
+    }
 
-            return namespaceDefinitions;
-        });
+    private getTopLevelNamespaceDefinitions(): UserFunctionNamespaceDefinition[] {
+        return this._topLevelNamespaceDefinitions.getOrCacheValue(() => getTemplateNamespaceDefinitions(this._topLevelValue));
     }
 
     public getDocumentCharacterIndex(documentLineIndex: number, documentColumnIndex: number): number {
@@ -605,22 +892,20 @@ export class DeploymentTemplate {
 
     public findReferences(definition: INamedDefinition): ReferenceList {
         const result: ReferenceList = new ReferenceList(definition.definitionKind);
-        const functions: FunctionsMetadata = AzureRMAssets.getFunctionsMetadata();
 
         // Add the definition of whatever's being referenced to the list
         if (definition.nameValue) {
             result.add(definition.nameValue.unquotedSpan);
         }
 
-        // Find and add references that match the definition we're looking for
-        this.visitAllReachableStringValues(jsonStringValue => {
-            const tleParseResult: TLE.ParseResult | null = this.getTLEParseResultFromJsonStringValue(jsonStringValue);
-            if (tleParseResult.expression) {
-                // tslint:disable-next-line:no-non-null-assertion // Guaranteed by if
-                const visitor = FindReferencesVisitor.visit(tleParseResult.expression, definition, functions);
-                result.addAll(visitor.references.translate(jsonStringValue.span.startIndex));
+        if (definition instanceof ResourceDefinition) {
+            // Resources are referred to by resourceId(), reference() and "dependsOn" rather than by name
+            for (const span of this.resourceDependencyGraph.findReferences(definition)) {
+                result.add(span);
             }
-        });
+        } else {
+            result.addAll(this.referenceIndex.getReferences(definition));
+        }
 
         return result;
     }
@@ -0,0 +1,156 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { templateKeys } from "./constants";
+import { DeploymentTemplate } from "./DeploymentTemplate";
+import * as Json from "./JSON";
+import * as language from "./Language";
+import { ResourceDefinition } from "./ResourceDefinition";
+import { TemplateScope } from "./TemplateScope";
+import { getObjectTreeLabel } from "./Treeview";
+import { TopLevelCopyBlockVariableDefinition } from "./VariableDefinition";
+
+export enum TemplateSymbolKind {
+    Section = "Section",
+    Parameter = "Parameter",
+    Variable = "Variable",
+    Namespace = "Namespace",
+    UserFunction = "UserFunction",
+    Resource = "Resource",
+    Output = "Output"
+}
+
+/**
+ * A named element of a deployment template, used for the outline, breadcrumbs and Go to Symbol
+ */
+export class TemplateSymbol {
+    constructor(
+        public readonly name: string,
+        public readonly detail: string,
+        public readonly kind: TemplateSymbolKind,
+        // The full extent of the element
+        public readonly span: language.Span,
+        // The part to select when navigating to the element, e.g. its name
+        public readonly selectionSpan: language.Span,
+        public readonly children: TemplateSymbol[] = []
+    ) {
+    }
+}
+
+/**
+ * Gets the symbols for the top-level sections of a deployment template and the parameters, variables,
+ * user functions, resources and outputs defined in them
+ */
+export function getDocumentSymbols(deploymentTemplate: DeploymentTemplate): TemplateSymbol[] {
+    const topLevelValue: Json.ObjectValue | null = Json.asObjectValue(deploymentTemplate.jsonParseResult.value);
+    if (!topLevelValue) {
+        return [];
+    }
+
+    const scope: TemplateScope = deploymentTemplate.topLevelScope;
+    const symbols: TemplateSymbol[] = [];
+
+    for (const section of topLevelValue.properties) {
+        let children: TemplateSymbol[] | undefined;
+        switch (section.nameValue.unquotedValue.toLowerCase()) {
+            case templateKeys.parameters:
+                children = scope.parameterDefinitions.map(parameter => new TemplateSymbol(
+                    getSymbolName(parameter.nameValue),
+                    // tslint:disable-next-line: strict-boolean-expressions
+                    parameter.validType || "",
+                    TemplateSymbolKind.Parameter,
+                    parameter.fullSpan,
+                    parameter.nameValue.span));
+                break;
+
+            case templateKeys.variables:
+                children = scope.variableDefinitions.map(variable => new TemplateSymbol(
+                    getSymbolName(variable.nameValue),
+                    variable instanceof TopLevelCopyBlockVariableDefinition ? templateKeys.loopVarCopy : "",
+                    TemplateSymbolKind.Variable,
+                    variable.span.union(variable.nameValue.span),
+                    variable.nameValue.span));
+                break;
+
+            case templateKeys.functions:
+                children = scope.namespaceDefinitions.map(ns => new TemplateSymbol(
+                    getSymbolName(ns.nameValue),
+                    "",
+                    TemplateSymbolKind.Namespace,
+                    ns.span,
+                    ns.nameValue.span,
+                    ns.members.map(member => {
+                        const output = member.output;
+                        return new TemplateSymbol(
+                            getSymbolName(member.nameValue),
+                            // tslint:disable-next-line: strict-boolean-expressions
+                            (output && output.validOutputType) || "",
+                            TemplateSymbolKind.UserFunction,
+                            member.nameValue.span.union(member.objectValue.span),
+                            member.nameValue.span);
+                    })));
+                break;
+
+            case templateKeys.resources:
+                children = getResourceSymbols(deploymentTemplate, deploymentTemplate.resources);
+                break;
+
+            case templateKeys.outputs:
+                children = scope.outputDefinitions.map(output => new TemplateSymbol(
+                    getSymbolName(output.nameValue),
+                    // tslint:disable-next-line: strict-boolean-expressions
+                    output.validOutputType || "",
+                    TemplateSymbolKind.Output,
+                    output.fullSpan,
+                    output.nameValue.span));
+                break;
+
+            default:
+                break;
+        }
+
+        if (children) {
+            symbols.push(new TemplateSymbol(
+                getSymbolName(section.nameValue),
+                "",
+                TemplateSymbolKind.Section,
+                section.span,
+                section.nameValue.span,
+                children));
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Gets the symbols for resources, including their child resources
+ */
+function getResourceSymbols(deploymentTemplate: DeploymentTemplate, resources: ResourceDefinition[]): TemplateSymbol[] {
+    return resources.map(resource => {
+        const typeValue: Json.StringValue | null = resource.typeValue;
+        const nameValue: Json.Value | null = resource.resourceObject.getPropertyValue(templateKeys.resourceName);
+        let detail: string = typeValue ? typeValue.unquotedValue : "";
+
+        // Show the apiVersion when it comes from the template's apiProfile, since it isn't in the resource itself
+        const apiProfileApiVersion: string | undefined = deploymentTemplate.getApiProfileApiVersion(resource);
+        if (apiProfileApiVersion !== undefined) {
+            detail = `${detail} (${apiProfileApiVersion} from apiProfile)`;
+        }
+
+        return new TemplateSymbol(
+            getObjectTreeLabel(resource.resourceObject),
+            detail,
+            TemplateSymbolKind.Resource,
+            resource.resourceObject.span,
+            nameValue ? nameValue.span : resource.resourceObject.span,
+            getResourceSymbols(deploymentTemplate, resource.children));
+    });
+}
+
+function getSymbolName(nameValue: Json.StringValue): string {
+    // Symbols must have a name
+    // tslint:disable-next-line: strict-boolean-expressions
+    return nameValue.unquotedValue || "(none)";
+}
@@ -0,0 +1,852 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:max-classes-per-file
+
+import { URL } from 'url';
+import { CaseInsensitiveMap } from './CaseInsensitiveMap';
+import { templateKeys } from './constants';
+import { ExpressionType } from './ExpressionType';
+import { INamedDefinition } from './INamedDefinition';
+import { IParameterDefinition } from './IParameterDefinition';
+import * as Json from "./JSON";
+import * as language from "./Language";
+import { TemplateScope } from './TemplateScope';
+import * as TLE from "./TLE";
+import { UserFunctionDefinition } from './UserFunctionDefinition';
+import { uniqueString } from './util/uniqueString';
+import * as Utilities from './Utilities';
+import { IVariableDefinition, TopLevelCopyBlockVariableDefinition } from './VariableDefinition';
+
+/**
+ * A value that results from evaluating a template expression (mirrors the JSON data model)
+ */
+export type EvaluatedValue = string | number | boolean | null | IEvaluatedArray | IEvaluatedObject;
+
+// tslint:disable-next-line: no-empty-interface
+export interface IEvaluatedArray extends Array<EvaluatedValue> {
+}
+
+export interface IEvaluatedObject {
+    [key: string]: EvaluatedValue;
+}
+
+/**
+ * Values to use for parameters when evaluating, keyed by parameter name (case-insensitive)
+ */
+export interface IParameterValues {
+    [parameterName: string]: EvaluatedValue;
+}
+
+export enum CannotEvaluateReason {
+    /**
+     * The expression depends on values that are only known during deployment (e.g. reference(), resourceGroup())
+     */
+    RequiresDeployment = "RequiresDeployment",
+    /**
+     * A parameter was referenced that has no supplied value and no default value
+     */
+    MissingParameterValue = "MissingParameterValue",
+    /**
+     * A parameter, variable or function was referenced that is not defined
+     */
+    UndefinedReference = "UndefinedReference",
+    /**
+     * The function is valid but not supported by the offline evaluator
+     */
+    UnsupportedFunction = "UnsupportedFunction",
+    /**
+     * The value comes from a copy loop
+     */
+    CopyLoop = "CopyLoop",
+    /**
+     * A variable or parameter refers back to itself
+     */
+    CircularReference = "CircularReference",
+    /**
+     * The expression has syntax errors
+     */
+    SyntaxError = "SyntaxError",
+    /**
+     * The expression would fail during deployment (e.g. wrong argument types, missing property)
+     */
+    EvaluationError = "EvaluationError"
+}
+
+/**
+ * The result of evaluating an expression: either a value or the reason it could not be evaluated
+ */
+export class EvaluationResult {
+    private constructor(
+        public readonly isEvaluated: boolean,
+        public readonly value: EvaluatedValue | undefined,
+        public readonly reason: CannotEvaluateReason | undefined,
+        public readonly message: string | undefined,
+        /**
+         * The span of the sub-expression responsible for the failure, relative to the start of the
+         * JSON string being evaluated (if known)
+         */
+        public readonly span: language.Span | undefined
+    ) {
+    }
+
+    public static fromValue(value: EvaluatedValue): EvaluationResult {
+        return new EvaluationResult(true, value, undefined, undefined, undefined);
+    }
+
+    public static cannotEvaluate(reason: CannotEvaluateReason, message: string, span?: language.Span): EvaluationResult {
+        return new EvaluationResult(false, undefined, reason, message, span);
+    }
+
+    /**
+     * The expression type of the evaluated value, or undefined if there is no value or it is null
+     */
+    public get valueType(): ExpressionType | undefined {
+        return this.isEvaluated ? getEvaluatedValueType(<EvaluatedValue>this.value) : undefined;
+    }
+}
+
+export function getEvaluatedValueType(value: EvaluatedValue): ExpressionType | undefined {
+    if (typeof value === "string") {
+        return "string";
+    } else if (typeof value === "number") {
+        return "int";
+    } else if (typeof value === "boolean") {
+        return "bool";
+    } else if (Array.isArray(value)) {
+        return "array";
+    } else if (value !== null) {
+        return "object";
+    }
+
+    return undefined;
+}
+
+/**
+ * Thrown internally to abandon evaluation
+ */
+class CannotEvaluateError extends Error {
+    constructor(public readonly reason: CannotEvaluateReason, message: string, public readonly span?: language.Span) {
+        super(message);
+    }
+}
+
+// Built-in functions whose values are only known at deployment time
+const deploymentTimeFunctions: string[] = [
+    "copyindex",
+    "deployment",
+    "environment",
+    "extensionresourceid",
+    "newguid",
+    "providers",
+    "reference",
+    "resourcegroup",
+    "resourceid",
+    "subscription",
+    "subscriptionresourceid",
+    "tenantresourceid",
+    "utcnow"
+];
+
+/**
+ * Evaluates template language expressions offline, i.e. without access to Azure. Parameter values
+ * are taken from the supplied values if given, otherwise from their default values.
+ */
+export class ExpressionEvaluator {
+    private readonly _parameterValues: CaseInsensitiveMap<string, EvaluatedValue> = new CaseInsensitiveMap<string, EvaluatedValue>();
+    private readonly _variableValues: Map<IVariableDefinition, EvaluatedValue> = new Map<IVariableDefinition, EvaluatedValue>();
+    private readonly _definitionsBeingEvaluated: Set<INamedDefinition> = new Set<INamedDefinition>();
+
+    constructor(private readonly _scope: TemplateScope, parameterValues?: IParameterValues) {
+        if (parameterValues) {
+            for (let name of Object.getOwnPropertyNames(parameterValues)) {
+                this._parameterValues.set(name, parameterValues[name]);
+            }
+        }
+    }
+
+    /**
+     * Evaluates a JSON value from the template. Strings are evaluated as expressions, and objects and
+     * arrays are evaluated recursively.
+     */
+    public evaluateJsonValue(value: Json.Value | null): EvaluationResult {
+        return this.tryEvaluate(() => this.evaluateJson(value));
+    }
+
+    /**
+     * Evaluates a parsed JSON string (which may or may not be an expression)
+     */
+    public evaluateTleParseResult(parseResult: TLE.ParseResult): EvaluationResult {
+        return this.tryEvaluate(() => this.evaluateParseResult(parseResult));
+    }
+
+    /**
+     * Evaluates a TLE value inside an expression
+     */
+    public evaluateTleValue(value: TLE.Value): EvaluationResult {
+        return this.tryEvaluate(() => this.evaluateTle(value));
+    }
+
+    private tryEvaluate(evaluate: () => EvaluatedValue): EvaluationResult {
+        try {
+            return EvaluationResult.fromValue(evaluate());
+        } catch (err) {
+            if (err instanceof CannotEvaluateError) {
+                return EvaluationResult.cannotEvaluate(err.reason, err.message, err.span);
+            }
+
+            throw err;
+        }
+    }
+
+    private evaluateJson(value: Json.Value | null): EvaluatedValue {
+        if (value instanceof Json.StringValue) {
+            return this.evaluateParseResult(TLE.Parser.parse(value.quotedValue, this._scope));
+        } else if (value instanceof Json.NumberValue) {
+            return Number(value.toString());
+        } else if (value instanceof Json.BooleanValue) {
+            return value.toBoolean();
+        } else if (value instanceof Json.ArrayValue) {
+            return value.elements.map(element => this.evaluateJson(element));
+        } else if (value instanceof Json.ObjectValue) {
+            const result: IEvaluatedObject = {};
+            for (let property of value.properties) {
+                result[property.nameValue.unquotedValue] = this.evaluateJson(property.value);
+            }
+            return result;
+        }
+
+        return null;
+    }
+
+    private evaluateParseResult(parseResult: TLE.ParseResult): EvaluatedValue {
+        if (parseResult.errors.length > 0) {
+            const error = parseResult.errors[0];
+            throw new CannotEvaluateError(CannotEvaluateReason.SyntaxError, error.message, error.span);
+        }
+
+        const expression = parseResult.expression;
+        if (!parseResult.leftSquareBracketToken) {
+            // Not an expression, just a string ("[[" at the start escapes a literal "[")
+            const text = expression ? TLE.asStringValue(expression) : null;
+            const unquoted = text ? unquoteJsonString(text.toString()) : "";
+            return unquoted.startsWith("[[") ? unquoted.substr(1) : unquoted;
+        }
+
+        if (!expression) {
+            throw new CannotEvaluateError(CannotEvaluateReason.SyntaxError, "Expected a function or property expression.");
+        }
+
+        return this.evaluateTle(expression);
+    }
+
+    private evaluateTle(value: TLE.Value | null): EvaluatedValue {
+        if (value instanceof TLE.StringValue) {
+            return unquoteTleString(value.toString());
+        } else if (value instanceof TLE.NumberValue) {
+            return Number(value.toString());
+        } else if (value instanceof TLE.FunctionCallValue) {
+            return this.evaluateFunctionCall(value);
+        } else if (value instanceof TLE.PropertyAccess) {
+            return this.evaluatePropertyAccess(value);
+        } else if (value instanceof TLE.ArrayAccessValue) {
+            return this.evaluateArrayAccess(value);
+        }
+
+        throw new CannotEvaluateError(CannotEvaluateReason.SyntaxError, "Expected an expression.");
+    }
+
+    private evaluatePropertyAccess(propertyAccess: TLE.PropertyAccess): EvaluatedValue {
+        const source = this.evaluateTle(propertyAccess.source);
+        const nameToken = propertyAccess.nameToken;
+        if (!nameToken) {
+            throw new CannotEvaluateError(CannotEvaluateReason.SyntaxError, "Expected a property name.", propertyAccess.getSpan());
+        }
+
+        return getPropertyValue(source, nameToken.stringValue, propertyAccess.getSpan());
+    }
+
+    private evaluateArrayAccess(arrayAccess: TLE.ArrayAccessValue): EvaluatedValue {
+        const source = this.evaluateTle(arrayAccess.source);
+        const index = this.evaluateTle(arrayAccess.indexValue);
+
+        if (Array.isArray(source) && typeof index === "number") {
+            if (!Number.isInteger(index) || index < 0 || index >= source.length) {
+                throw new CannotEvaluateError(
+                    CannotEvaluateReason.EvaluationError,
+                    `The index ${index} is out of range for an array of length ${source.length}.`,
+                    arrayAccess.getSpan());
+            }
+            return source[index];
+        } else if (typeof index === "string") {
+            return getPropertyValue(source, index, arrayAccess.getSpan());
+        }
+
+        throw new CannotEvaluateError(CannotEvaluateReason.EvaluationError, "Only arrays and objects can be indexed.", arrayAccess.getSpan());
+    }
+
+    private evaluateFunctionCall(call: TLE.FunctionCallValue): EvaluatedValue {
+        if (call.isUserDefinedFunction) {
+            return this.evaluateUserFunctionCall(call);
+        }
+
+        // tslint:disable-next-line: strict-boolean-expressions
+        const nameLC = (call.name || "").toLowerCase();
+
+        if (nameLC === templateKeys.parameters) {
+            return this.evaluateParameterReference(call);
+        } else if (nameLC === templateKeys.variables) {
+            return this.evaluateVariableReference(call);
+        } else if (nameLC === "if") {
+            // Only the branch that is chosen gets evaluated
+            const condition = this.evaluateArgument(call, 0);
+            if (typeof condition !== "boolean") {
+                throw new CannotEvaluateError(CannotEvaluateReason.EvaluationError, "The first argument to 'if' must be a boolean.", call.getSpan());
+            }
+            return this.evaluateArgument(call, condition ? 1 : 2);
+        }
+
+        if (deploymentTimeFunctions.indexOf(nameLC) >= 0 || nameLC.startsWith("list")) {
+            throw new CannotEvaluateError(
+                CannotEvaluateReason.RequiresDeployment,
+                `The value of '${call.name}' is only known during deployment.`,
+                call.getSpan());
+        }
+
+        const args = call.argumentExpressions.map((arg, index) => this.evaluateArgument(call, index));
+        try {
+            return callBuiltinFunction(nameLC, args, call);
+        } catch (err) {
+            if (err instanceof CannotEvaluateError) {
+                throw err;
+            }
+
+            // tslint:disable-next-line: strict-boolean-expressions no-unsafe-any
+            throw new CannotEvaluateError(CannotEvaluateReason.EvaluationError, (err && err.message) || String(err), call.getSpan());
+        }
+    }
+
+    private evaluateArgument(call: TLE.FunctionCallValue, index: number): EvaluatedValue {
+        const argument: TLE.Value | null | undefined = call.argumentExpressions[index];
+        if (!argument) {
+            throw new CannotEvaluateError(
+                CannotEvaluateReason.EvaluationError,
+                `The function '${call.fullName}' is missing an argument.`,
+                call.getSpan());
+        }
+
+        return this.evaluateTle(argument);
+    }
+
+    private evaluateParameterReference(call: TLE.FunctionCallValue): EvaluatedValue {
+        const name = this.evaluateArgument(call, 0);
+        const definition: IParameterDefinition | null = typeof name === "string" && name ? this._scope.getParameterDefinition(name) : null;
+        if (!definition) {
+            throw new CannotEvaluateError(CannotEvaluateReason.UndefinedReference, `Undefined parameter reference: ${String(name)}`, call.getSpan());
+        }
+
+        const parameterName = definition.nameValue.unquotedValue;
+        const suppliedValue = this._parameterValues.get(parameterName);
+        if (suppliedValue !== undefined) {
+            return suppliedValue;
+        }
+
+        if (!definition.defaultValue) {
+            throw new CannotEvaluateError(
+                CannotEvaluateReason.MissingParameterValue,
+                `No value was supplied for parameter '${parameterName}' and it has no default value.`,
+                call.getSpan());
+        }
+
+        return this.evaluateDefinitionValue(definition, definition.defaultValue, call);
+    }
+
+    private evaluateVariableReference(call: TLE.FunctionCallValue): EvaluatedValue {
+        const name = this.evaluateArgument(call, 0);
+        const definition: IVariableDefinition | null = typeof name === "string" && name ? this._scope.getVariableDefinition(name) : null;
+        if (!definition) {
+            throw new CannotEvaluateError(CannotEvaluateReason.UndefinedReference, `Undefined variable reference: ${String(name)}`, call.getSpan());
+        }
+
+        if (definition instanceof TopLevelCopyBlockVariableDefinition) {
+            throw new CannotEvaluateError(
+                CannotEvaluateReason.CopyLoop,
+                `The value of variable '${definition.nameValue.unquotedValue}' is created by a copy loop and cannot be evaluated.`,
+                call.getSpan());
+        }
+
+        let value = this._variableValues.get(definition);
+        if (value === undefined) {
+            value = this.evaluateDefinitionValue(definition, definition.value, call);
+            this._variableValues.set(definition, value);
+        }
+
+        return value;
+    }
+
+    private evaluateUserFunctionCall(call: TLE.FunctionCallValue): EvaluatedValue {
+        const definition: UserFunctionDefinition | null = call.namespace && call.name ? this._scope.getUserFunctionDefinition(call.namespace, call.name) : null;
+        if (!definition) {
+            throw new CannotEvaluateError(CannotEvaluateReason.UndefinedReference, `Unrecognized user-defined function '${call.fullName}'.`, call.getSpan());
+        }
+
+        const parameters = definition.parameterDefinitions;
+        if (parameters.length !== call.argumentExpressions.length) {
+            throw new CannotEvaluateError(
+                CannotEvaluateReason.EvaluationError,
+                `The function '${call.fullName}' takes ${parameters.length} ${parameters.length === 1 ? "argument" : "arguments"}.`,
+                call.getSpan());
+        }
+
+        const parameterValues: IParameterValues = {};
+        for (let i = 0; i < parameters.length; ++i) {
+            parameterValues[parameters[i].nameValue.unquotedValue] = this.evaluateArgument(call, i);
+        }
+
+        const output = definition.output;
+        const functionEvaluator = new ExpressionEvaluator(definition.scope, parameterValues);
+        return functionEvaluator.evaluateDefinitionValue(definition, output ? output.value : null, call);
+    }
+
+    /**
+     * Evaluates the value of a parameter, variable or user function, reporting failures at the site
+     * of the reference
+     */
+    private evaluateDefinitionValue(definition: INamedDefinition, value: Json.Value | null, referenceSite: TLE.FunctionCallValue): EvaluatedValue {
+        if (this._definitionsBeingEvaluated.has(definition)) {
+            throw new CannotEvaluateError(
+                CannotEvaluateReason.CircularReference,
+                `'${referenceSite.toString()}' refers to itself.`,
+                referenceSite.getSpan());
+        }
+
+        this._definitionsBeingEvaluated.add(definition);
+        try {
+            return this.evaluateJson(value);
+        } catch (err) {
+            if (err instanceof CannotEvaluateError) {
+                // The span of the original error is relative to a different string
+                throw new CannotEvaluateError(err.reason, err.message, referenceSite.getSpan());
+            }
+
+            throw err;
+        } finally {
+            this._definitionsBeingEvaluated.delete(definition);
+        }
+    }
+}
+
+function unquoteJsonString(quoted: string): string {
+    try {
+        // Handles escape sequences
+        return <string>JSON.parse(quoted);
+    } catch (err) {
+        return Utilities.unquote(quoted);
+    }
+}
+
+function unquoteTleString(quoted: string): string {
+    // Single quotes are escaped by doubling them
+    const unquoted: string = Utilities.unquote(quoted).replace(/''/g, "'");
+
+    // Expressions are parsed from the JSON text of the string, so JSON escape sequences are still present
+    return unquoteJsonString(`"${unquoted}"`);
+}
+
+function getPropertyValue(source: EvaluatedValue, propertyName: string, span: language.Span): EvaluatedValue {
+    if (isObject(source)) {
+        const propertyNameLC = propertyName.toLowerCase();
+        for (let key of Object.getOwnPropertyNames(source)) {
+            if (key.toLowerCase() === propertyNameLC) {
+                return source[key];
+            }
+        }
+
+        throw new CannotEvaluateError(CannotEvaluateReason.EvaluationError, `The object does not have a property named '${propertyName}'.`, span);
+    }
+
+    throw new CannotEvaluateError(CannotEvaluateReason.EvaluationError, `Cannot access property '${propertyName}' of a non-object value.`, span);
+}
+
+function isObject(value: EvaluatedValue): value is IEvaluatedObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toDisplayString(value: EvaluatedValue): string {
+    if (typeof value === "string") {
+        return value;
+    } else if (typeof value === "boolean") {
+        return value ? "True" : "False";
+    } else if (typeof value === "number") {
+        return String(value);
+    }
+
+    return JSON.stringify(value);
+}
+
+function deepEquals(left: EvaluatedValue, right: EvaluatedValue): boolean {
+    if (Array.isArray(left) && Array.isArray(right)) {
+        return left.length === right.length && left.every((item, i) => deepEquals(item, right[i]));
+    } else if (isObject(left) && isObject(right)) {
+        // Property order doesn't matter
+        const leftNames: string[] = Object.getOwnPropertyNames(left);
+        const rightNames: string[] = Object.getOwnPropertyNames(right);
+        return leftNames.length === rightNames.length
+            && leftNames.every(name => Object.prototype.hasOwnProperty.call(right, name) && deepEquals(left[name], right[name]));
+    }
+
+    return left === right;
+}
+
+function expectInt(call: TLE.FunctionCallValue, value: EvaluatedValue): number {
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+        throw new Error(`The function '${call.fullName}' expects integer arguments.`);
+    }
+    return value;
+}
+
+function expectString(call: TLE.FunctionCallValue, value: EvaluatedValue): string {
+    if (typeof value !== "string") {
+        throw new Error(`The function '${call.fullName}' expects string arguments.`);
+    }
+    return value;
+}
+
+function expectBool(call: TLE.FunctionCallValue, value: EvaluatedValue): boolean {
+    if (typeof value !== "boolean") {
+        throw new Error(`The function '${call.fullName}' expects boolean arguments.`);
+    }
+    return value;
+}
+
+function expectArray(call: TLE.FunctionCallValue, value: EvaluatedValue): EvaluatedValue[] {
+    if (!Array.isArray(value)) {
+        throw new Error(`The function '${call.fullName}' expects array arguments.`);
+    }
+    return value;
+}
+
+function compare(call: TLE.FunctionCallValue, args: EvaluatedValue[]): number {
+    const [left, right] = args;
+    if (typeof left === "number" && typeof right === "number") {
+        return left - right;
+    } else if (typeof left === "string" && typeof right === "string") {
+        return left < right ? -1 : left > right ? 1 : 0;
+    }
+
+    throw new Error(`The function '${call.fullName}' expects two integers or two strings.`);
+}
+
+function minMax(call: TLE.FunctionCallValue, args: EvaluatedValue[], pick: (values: number[]) => number): number {
+    const values: EvaluatedValue[] = args.length === 1 && Array.isArray(args[0]) ? <EvaluatedValue[]>args[0] : args;
+    if (values.length === 0) {
+        throw new Error(`The function '${call.fullName}' requires at least one value.`);
+    }
+    return pick(values.map(v => expectInt(call, v)));
+}
+
+function format(call: TLE.FunctionCallValue, args: EvaluatedValue[]): string {
+    const formatString = expectString(call, args[0]);
+    return formatString.replace(/\{\{|\}\}|\{(\d+)(,-?\d+)?(:[^}]*)?\}/g, (match: string, index: string, alignment: string, formatSpecifier: string) => {
+        if (match === "{{") {
+            return "{";
+        } else if (match === "}}") {
+            return "}";
+        }
+
+        // tslint:disable-next-line: strict-boolean-expressions
+        if (alignment || formatSpecifier) {
+            throw new CannotEvaluateError(
+                CannotEvaluateReason.UnsupportedFunction,
+                `The format item '${match}' is not supported for evaluation.`,
+                call.getSpan());
+        }
+
+        const argIndex = Number(index) + 1;
+        if (argIndex >= args.length) {
+            throw new Error(`The format item '${match}' does not refer to an argument.`);
+        }
+        return toDisplayString(args[argIndex]);
+    });
+}
+
+function union(call: TLE.FunctionCallValue, args: EvaluatedValue[]): EvaluatedValue {
+    if (args.every(isObject)) {
+        return <IEvaluatedObject>Object.assign({}, ...args);
+    }
+
+    const result: EvaluatedValue[] = [];
+    for (let arg of args) {
+        for (let element of expectArray(call, arg)) {
+            if (!result.some(existing => deepEquals(existing, element))) {
+                result.push(element);
+            }
+        }
+    }
+    return result;
+}
+
+function intersection(call: TLE.FunctionCallValue, args: EvaluatedValue[]): EvaluatedValue {
+    if (args.every(isObject)) {
+        const objects = <IEvaluatedObject[]>args;
+        const result: IEvaluatedObject = {};
+        for (let key of Object.getOwnPropertyNames(objects[0])) {
+            if (objects.every(o => o.hasOwnProperty(key) && deepEquals(o[key], objects[0][key]))) {
+                result[key] = objects[0][key];
+            }
+        }
+        return result;
+    }
+
+    const arrays = args.map(arg => expectArray(call, arg));
+    return arrays[0].filter(element => arrays.every(array => array.some(e => deepEquals(e, element))));
+}
+
+function contains(call: TLE.FunctionCallValue, container: EvaluatedValue, item: EvaluatedValue): boolean {
+    if (typeof container === "string") {
+        return container.indexOf(toDisplayString(item)) >= 0;
+    } else if (Array.isArray(container)) {
+        return container.some(element => deepEquals(element, item));
+    } else if (isObject(container)) {
+        const keyLC = expectString(call, item).toLowerCase();
+        return Object.getOwnPropertyNames(container).some(key => key.toLowerCase() === keyLC);
+    }
+
+    throw new Error(`The function '${call.fullName}' expects a string, array or object as its first argument.`);
+}
+
+function length(call: TLE.FunctionCallValue, value: EvaluatedValue): number {
+    if (typeof value === "string" || Array.isArray(value)) {
+        return value.length;
+    } else if (isObject(value)) {
+        return Object.getOwnPropertyNames(value).length;
+    }
+
+    throw new Error(`The function '${call.fullName}' expects a string, array or object.`);
+}
+
+function skipOrTake(call: TLE.FunctionCallValue, args: EvaluatedValue[], skip: boolean): EvaluatedValue {
+    const count = Math.max(0, expectInt(call, args[1]));
+    const value = args[0];
+    if (typeof value === "string" || Array.isArray(value)) {
+        return skip ? value.slice(count) : value.slice(0, count);
+    }
+
+    throw new Error(`The function '${call.fullName}' expects a string or array as its first argument.`);
+}
+
+function toInt(call: TLE.FunctionCallValue, value: EvaluatedValue): number {
+    const result = typeof value === "string" ? Number(value.trim()) : value;
+    if (typeof result !== "number" || !Number.isInteger(result)) {
+        throw new Error(`The value '${toDisplayString(value)}' cannot be converted to an integer.`);
+    }
+    return result;
+}
+
+function toBool(call: TLE.FunctionCallValue, value: EvaluatedValue): boolean {
+    if (typeof value === "boolean") {
+        return value;
+    } else if (typeof value === "number") {
+        return value !== 0;
+    } else if (typeof value === "string" && (value.toLowerCase() === "true" || value.toLowerCase() === "false")) {
+        return value.toLowerCase() === "true";
+    }
+
+    throw new Error(`The value '${toDisplayString(value)}' cannot be converted to a boolean.`);
+}
+
+function parseJson(call: TLE.FunctionCallValue, value: EvaluatedValue): EvaluatedValue {
+    try {
+        // tslint:disable-next-line: no-unsafe-any
+        return JSON.parse(expectString(call, value));
+    } catch (err) {
+        throw new Error(`The value '${toDisplayString(value)}' is not valid JSON.`);
+    }
+}
+
+// Implementations of the built-in functions that can be evaluated offline
+// tslint:disable-next-line: cyclomatic-complexity max-func-body-length
+function callBuiltinFunction(nameLC: string, args: EvaluatedValue[], call: TLE.FunctionCallValue): EvaluatedValue {
+    switch (nameLC) {
+        case "add":
+            return expectInt(call, args[0]) + expectInt(call, args[1]);
+        case "and":
+            return args.every(arg => expectBool(call, arg));
+        case "array":
+            return Array.isArray(args[0]) ? args[0] : [args[0]];
+        case "base64":
+            return Buffer.from(expectString(call, args[0]), "utf8").toString("base64");
+        case "base64tojson":
+            return parseJson(call, Buffer.from(expectString(call, args[0]), "base64").toString("utf8"));
+        case "base64tostring":
+            return Buffer.from(expectString(call, args[0]), "base64").toString("utf8");
+        case "bool":
+            return toBool(call, args[0]);
+        case "coalesce": {
+            const found = args.find(arg => arg !== null);
+            return found === undefined ? null : found;
+        }
+        case "concat": {
+            if (args.length > 0 && Array.isArray(args[0])) {
+                return (<EvaluatedValue[]>[]).concat(...args.map(arg => expectArray(call, arg)));
+            }
+            return args.map(toDisplayString).join("");
+        }
+        case "contains":
+            return contains(call, args[0], args[1]);
+        case "createarray":
+            return args;
+        case "datauri":
+            return `data:text/plain;charset=utf8;base64,${Buffer.from(toDisplayString(args[0]), "utf8").toString("base64")}`;
+        case "datauritostring": {
+            const dataUri = expectString(call, args[0]);
+            const match = dataUri.match(/^data:[^,]*?(;base64)?,(.*)$/);
+            if (!match) {
+                throw new Error(`The value '${dataUri}' is not a valid data URI.`);
+            }
+            // tslint:disable-next-line: strict-boolean-expressions
+            return match[1] ? Buffer.from(match[2], "base64").toString("utf8") : decodeURIComponent(match[2]);
+        }
+        case "div": {
+            const divisor = expectInt(call, args[1]);
+            if (divisor === 0) {
+                throw new Error("Attempted to divide by zero.");
+            }
+            return Math.trunc(expectInt(call, args[0]) / divisor);
+        }
+        case "empty":
+            return args[0] === null || length(call, args[0]) === 0;
+        case "endswith":
+            return expectString(call, args[0]).toLowerCase().endsWith(expectString(call, args[1]).toLowerCase());
+        case "equals":
+            return deepEquals(args[0], args[1]);
+        case "first": {
+            const value = args[0];
+            if (typeof value === "string" || Array.isArray(value)) {
+                return value.length > 0 ? value[0] : null;
+            }
+            throw new Error(`The function '${call.fullName}' expects a string or array.`);
+        }
+        case "float": {
+            const result = Number(args[0]);
+            if (typeof args[0] === "boolean" || isNaN(result)) {
+                throw new Error(`The value '${toDisplayString(args[0])}' cannot be converted to a floating point number.`);
+            }
+            return result;
+        }
+        case "false":
+            return false;
+        case "format":
+            return format(call, args);
+        case "greater":
+            return compare(call, args) > 0;
+        case "greaterorequals":
+            return compare(call, args) >= 0;
+        case "indexof":
+            return expectString(call, args[0]).toLowerCase().indexOf(expectString(call, args[1]).toLowerCase());
+        case "int":
+            return toInt(call, args[0]);
+        case "intersection":
+            return intersection(call, args);
+        case "json":
+            return parseJson(call, args[0]);
+        case "last": {
+            const value = args[0];
+            if (typeof value === "string" || Array.isArray(value)) {
+                return value.length > 0 ? value[value.length - 1] : null;
+            }
+            throw new Error(`The function '${call.fullName}' expects a string or array.`);
+        }
+        case "lastindexof":
+            return expectString(call, args[0]).toLowerCase().lastIndexOf(expectString(call, args[1]).toLowerCase());
+        case "length":
+            return length(call, args[0]);
+        case "less":
+            return compare(call, args) < 0;
+        case "lessorequals":
+            return compare(call, args) <= 0;
+        case "max":
+            return minMax(call, args, values => Math.max(...values));
+        case "min":
+            return minMax(call, args, values => Math.min(...values));
+        case "mod": {
+            const divisor = expectInt(call, args[1]);
+            if (divisor === 0) {
+                throw new Error("Attempted to divide by zero.");
+            }
+            return expectInt(call, args[0]) % divisor;
+        }
+        case "mul":
+            return expectInt(call, args[0]) * expectInt(call, args[1]);
+        case "not":
+            return !expectBool(call, args[0]);
+        case "or":
+            return args.some(arg => expectBool(call, arg));
+        case "padleft": {
+            const padding = args.length > 2 ? expectString(call, args[2]) : " ";
+            return toDisplayString(args[0]).padStart(expectInt(call, args[1]), padding);
+        }
+        case "range": {
+            const start = expectInt(call, args[0]);
+            const count = expectInt(call, args[1]);
+            const result: number[] = [];
+            for (let i = 0; i < count; ++i) {
+                result.push(start + i);
+            }
+            return result;
+        }
+        case "replace":
+            return expectString(call, args[0]).split(expectString(call, args[1])).join(expectString(call, args[2]));
+        case "skip":
+            return skipOrTake(call, args, true);
+        case "split": {
+            const delimiters: string[] = Array.isArray(args[1]) ? args[1].map(d => expectString(call, d)) : [expectString(call, args[1])];
+            let parts: string[] = [expectString(call, args[0])];
+            for (let delimiter of delimiters) {
+                parts = (<string[]>[]).concat(...parts.map(part => part.split(delimiter)));
+            }
+            return parts;
+        }
+        case "startswith":
+            return expectString(call, args[0]).toLowerCase().startsWith(expectString(call, args[1]).toLowerCase());
+        case "string":
+            return toDisplayString(args[0]);
+        case "sub":
+            return expectInt(call, args[0]) - expectInt(call, args[1]);
+        case "substring": {
+            const value = expectString(call, args[0]);
+            const start = expectInt(call, args[1]);
+            const count = args.length > 2 ? expectInt(call, args[2]) : value.length - start;
+            if (start < 0 || count < 0 || start + count > value.length) {
+                throw new Error("The start index and length must refer to a location within the string.");
+            }
+            return value.substr(start, count);
+        }
+        case "take":
+            return skipOrTake(call, args, false);
+        case "tolower":
+            return expectString(call, args[0]).toLowerCase();
+        case "toupper":
+            return expectString(call, args[0]).toUpperCase();
+        case "trim":
+            return expectString(call, args[0]).trim();
+        case "true":
+            return true;
+        case "union":
+            return union(call, args);
+        case "uniquestring":
+            return uniqueString(args.map(arg => expectString(call, arg)));
+        case "uri":
+            return new URL(expectString(call, args[1]), expectString(call, args[0])).toString();
+        case "uricomponent":
+            return encodeURIComponent(expectString(call, args[0]));
+        case "uricomponenttostring":
+            return decodeURIComponent(expectString(call, args[0]));
+        default:
+            throw new CannotEvaluateError(
+                CannotEvaluateReason.UnsupportedFunction,
+                `The function '${call.fullName}' is not supported for evaluation.`,
+                call.getSpan());
+    }
+}
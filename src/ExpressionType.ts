@@ -2,6 +2,8 @@
 // Copyright (c) Microsoft Corporation.  All rights reserved.
 // ----------------------------------------------------------------------------
 
+import * as Json from "./JSON";
+
 export type ExpressionType = "string" | "securestring" | "int" | "bool" | "object" | "secureobject" | "array";
 
 export function toValidExpressionType(typeName: string | null | undefined): ExpressionType | null {
@@ -22,3 +24,42 @@ export function toValidExpressionType(typeName: string | null | undefined): Expr
             return null;
     }
 }
+
+/**
+ * Gets the expression type corresponding to a literal JSON value (strings are assumed not to be expressions).
+ * Returns null for JSON null or unrecognized values.
+ */
+export function getExpressionTypeFromJsonValue(value: Json.Value | null): ExpressionType | null {
+    if (value instanceof Json.StringValue) {
+        return "string";
+    } else if (value instanceof Json.NumberValue) {
+        return "int";
+    } else if (value instanceof Json.BooleanValue) {
+        return "bool";
+    } else if (value instanceof Json.ObjectValue) {
+        return "object";
+    } else if (value instanceof Json.ArrayValue) {
+        return "array";
+    }
+
+    return null;
+}
+
+/**
+ * Whether a value of the given type can be used where the target type is expected (secure types are
+ * represented the same as their non-secure counterparts)
+ */
+export function isExpressionTypeAssignable(targetType: ExpressionType, valueType: ExpressionType): boolean {
+    return getNonSecureType(targetType) === getNonSecureType(valueType);
+}
+
+function getNonSecureType(expressionType: ExpressionType): ExpressionType {
+    switch (expressionType) {
+        case "securestring":
+            return "string";
+        case "secureobject":
+            return "object";
+        default:
+            return expressionType;
+    }
+}
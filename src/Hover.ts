@@ -17,7 +17,10 @@ export interface IUsageInfo {
  * The information that will be displayed when the cursor hovers over parts of a document.
  */
 export class HoverInfo {
-    constructor(private readonly _usageInfo: IUsageInfo, private readonly _referenceSpan: language.Span) {
+    /**
+     * @param _evaluatedValue The display text of the value that the expression at the hover evaluates to, if known
+     */
+    constructor(private readonly _usageInfo: IUsageInfo, private readonly _referenceSpan: language.Span, private readonly _evaluatedValue?: string) {
     }
 
     public getHoverText(): string {
@@ -26,6 +29,9 @@ export class HoverInfo {
         if (description) {
             info += os.EOL + os.EOL + description;
         }
+        if (this._evaluatedValue !== undefined) {
+            info += `${os.EOL}${os.EOL}Value: \`${this._evaluatedValue}\``;
+        }
 
         return info;
     }
@@ -47,6 +53,10 @@ export class HoverInfo {
         return this._usageInfo.description || undefined;
     }
 
+    public get evaluatedValue(): string | undefined {
+        return this._evaluatedValue;
+    }
+
     /**
      * Convenient way of seeing what this object represents in the debugger, shouldn't be used for production code
      */
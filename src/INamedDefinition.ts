@@ -11,6 +11,8 @@ export enum DefinitionKind {
     Namespace = "Namespace",
     UserFunction = "UserFunction",
     BuiltinFunction = "BuiltinFunction",
+    Output = "Output",
+    Resource = "Resource",
 }
 
 /**
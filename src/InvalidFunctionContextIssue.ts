@@ -4,9 +4,14 @@
 
 import * as language from "./Language";
 
+/**
+ * A call to a function that can't be used where it's called, e.g. a function that isn't available at the
+ * template's deployment scope
+ */
 export class InvalidFunctionContextIssue extends language.Issue {
-    constructor(span: language.Span, private _functionName: string, message: string) {
-        super(span, `Cannot use '${_functionName}' in this context.`, language.IssueKind.badFuncContext);
+    constructor(span: language.Span, private _functionName: string, message?: string) {
+        // tslint:disable-next-line: strict-boolean-expressions
+        super(span, message || `Cannot use '${_functionName}' in this context.`, language.IssueKind.badFuncContext);
     }
 
     public translate(movement: number): language.Issue {
@@ -102,6 +102,10 @@ export class Token extends Segment {
         return utilities.getCombinedText(this._basicTokens);
     }
 
+    public translate(movement: number): Token {
+        return movement === 0 ? this : new Token(this._type, this.span.startIndex + movement, this._basicTokens);
+    }
+
     /**
      * Convenient way of seeing what this token represents in the debugger, shouldn't be used for production code
      */
@@ -327,6 +331,7 @@ export class Tokenizer {
     private _currentTokenStartIndex: number;
     private _lineLengths: number[] = [0];
     private _commentsCount: number = 0;
+    private _tokens: Token[] = [];
 
     constructor(jsonDocumentText: string, startIndex: number = 0) {
         this._innerTokenizer = new basic.Tokenizer(jsonDocumentText);
@@ -349,6 +354,13 @@ export class Tokenizer {
         return this._commentsCount;
     }
 
+    /**
+     * All of the Tokens that have been read so far, including whitespace and comments
+     */
+    public get tokens(): Token[] {
+        return this._tokens;
+    }
+
     /**
      * Get the current basic token that the basic Tokenizer is pointing at.
      */
@@ -542,6 +554,44 @@ export class Tokenizer {
             }
         }
 
+        if (this._current) {
+            this._tokens.push(this._current);
+        }
+
+        return !!this.current;
+    }
+}
+
+/**
+ * A source of JSON Tokens for the parser
+ */
+interface ITokenSource {
+    current: Token | null;
+    hasStarted(): boolean;
+    moveNext(): boolean;
+}
+
+/**
+ * A token source over Tokens that have already been read, used when re-parsing a changed document
+ */
+class TokenArraySource implements ITokenSource {
+    private _index: number = -1;
+
+    constructor(private readonly _tokens: Token[]) {
+    }
+
+    public hasStarted(): boolean {
+        return this._index >= 0;
+    }
+
+    public get current(): Token | null {
+        return this._index >= 0 && this._index < this._tokens.length ? this._tokens[this._index] : null;
+    }
+
+    public moveNext(): boolean {
+        if (this._index < this._tokens.length) {
+            ++this._index;
+        }
         return !!this.current;
     }
 }
@@ -904,9 +954,18 @@ export class NullValue extends Value {
 export class ParseResult {
     private readonly _debugText: string; // Used only for debugging - copy of the original text being parsed
 
-    constructor(private _tokens: Token[], private _lineLengths: number[], private _value: Value | null, text: string, public readonly commentCount: number) {
+    constructor(
+        private _tokens: Token[],
+        // All of the tokens, including whitespace and comments
+        private _allTokens: Token[],
+        private _lineLengths: number[],
+        private _value: Value | null,
+        text: string,
+        public readonly commentCount: number
+    ) {
         assert(_tokens !== null);
         assert(_tokens !== undefined);
+        assert(_allTokens);
         assert(_lineLengths !== null);
         assert(_lineLengths !== undefined);
         assert(_value !== undefined);
@@ -923,6 +982,13 @@ export class ParseResult {
         return this._tokens;
     }
 
+    /**
+     * All of the tokens, including whitespace and comments
+     */
+    public get allTokens(): Token[] {
+        return this._allTokens;
+    }
+
     public get lineLengths(): number[] {
         return this._lineLengths;
     }
@@ -1098,14 +1164,119 @@ export function parse(stringValue: string): ParseResult {
 
     const tokens: Token[] = [];
     const jt = new Tokenizer(stringValue);
-    const value: Value | null = parseValue(jt, tokens);
+    const value: Value | null = parseTokens(jt, tokens);
+
+    return new ParseResult(tokens, jt.tokens, jt.lineLengths, value, stringValue, jt.commentsCount);
+}
 
-    // Read the rest of the Tokens so that they will be put into the tokens array.
-    while (jt.current) {
-        next(jt, tokens);
+/**
+ * A change to the text of a document
+ */
+export interface ITextChange {
+    // The span of the text that was replaced, in the previous text
+    span: language.Span;
+    // The length of the text that replaced it
+    newLength: number;
+}
+
+/**
+ * Parse a new version of a JSON string. Only the part of the string around the change is re-tokenized,
+ * the tokens before and after it are reused from the previous parse result.
+ */
+export function reparse(previous: ParseResult, stringValue: string, change: ITextChange): ParseResult {
+    assert(stringValue !== null);
+    assert(stringValue !== undefined);
+
+    const previousTokens: Token[] = previous.allTokens;
+    const movement: number = change.newLength - change.span.length;
+    const changeEndIndex: number = change.span.startIndex + change.newLength;
+
+    // A token can depend on the characters right after it (e.g. a "/" followed by another "/"), so start
+    // re-tokenizing from the token before the one touching the change
+    const firstChangedTokenIndex: number = Math.max(0, findTokenIndex(previousTokens, change.span.startIndex - 1) - 1);
+    const allTokens: Token[] = previousTokens.slice(0, firstChangedTokenIndex);
+    const tokenizerStartIndex: number = firstChangedTokenIndex < previousTokens.length ? previousTokens[firstChangedTokenIndex].span.startIndex : 0;
+
+    // Tokenizing doesn't depend on anything before a token's start, so once a new token after the change starts
+    // where a previous token started, the rest of the tokens are the same as before (just moved)
+    const jt = new Tokenizer(stringValue.substr(tokenizerStartIndex), tokenizerStartIndex);
+    let previousTokenIndex: number = firstChangedTokenIndex;
+    let isResynchronized: boolean = false;
+    while (!isResynchronized && jt.moveNext()) {
+        // tslint:disable-next-line: no-non-null-assertion // Guaranteed by jt.moveNext() returning true
+        const current: Token = jt.current!;
+        const startIndex: number = current.span.startIndex;
+        if (changeEndIndex <= startIndex) {
+            while (previousTokenIndex < previousTokens.length && previousTokens[previousTokenIndex].span.startIndex + movement < startIndex) {
+                ++previousTokenIndex;
+            }
+            isResynchronized = previousTokenIndex < previousTokens.length && previousTokens[previousTokenIndex].span.startIndex + movement === startIndex;
+        }
+
+        if (!isResynchronized) {
+            allTokens.push(current);
+        }
     }
 
-    return new ParseResult(tokens, jt.lineLengths, value, stringValue, jt.commentsCount);
+    if (isResynchronized) {
+        for (let i = previousTokenIndex; i < previousTokens.length; ++i) {
+            allTokens.push(previousTokens[i].translate(movement));
+        }
+    }
+
+    const tokens: Token[] = [];
+    const value: Value | null = parseTokens(new TokenArraySource(allTokens), tokens);
+    const commentCount: number = allTokens.filter(token => token.type === TokenType.Comment).length;
+
+    return new ParseResult(tokens, allTokens, getLineLengths(stringValue), value, stringValue, commentCount);
+}
+
+/**
+ * Gets the index of the token containing the given character index (or the last token that starts before it)
+ */
+function findTokenIndex(tokens: Token[], characterIndex: number): number {
+    let minTokenIndex = 0;
+    let maxTokenIndex = tokens.length - 1;
+    while (minTokenIndex < maxTokenIndex) {
+        const midTokenIndex = Math.ceil((minTokenIndex + maxTokenIndex) / 2);
+        if (tokens[midTokenIndex].span.startIndex <= characterIndex) {
+            minTokenIndex = midTokenIndex;
+        } else {
+            maxTokenIndex = midTokenIndex - 1;
+        }
+    }
+
+    return minTokenIndex;
+}
+
+/**
+ * Gets the length of each line in the string, including its line break (the same as Tokenizer.lineLengths)
+ */
+function getLineLengths(stringValue: string): number[] {
+    const lineLengths: number[] = [];
+    let lineStartIndex = 0;
+    let newLineIndex: number = stringValue.indexOf("\n");
+    while (newLineIndex >= 0) {
+        lineLengths.push(newLineIndex + 1 - lineStartIndex);
+        lineStartIndex = newLineIndex + 1;
+        newLineIndex = stringValue.indexOf("\n", lineStartIndex);
+    }
+    lineLengths.push(stringValue.length - lineStartIndex);
+
+    return lineLengths;
+}
+
+/**
+ * Read the top-level JSON value from the provided token source, followed by the rest of
+ * its Tokens so that they will be put into the tokens array.
+ */
+function parseTokens(tokenSource: ITokenSource, tokens: Token[]): Value | null {
+    const value: Value | null = parseValue(tokenSource, tokens);
+    while (tokenSource.current) {
+        next(tokenSource, tokens);
+    }
+
+    return value;
 }
 
 /**
@@ -1113,7 +1284,7 @@ export function parse(stringValue: string): ParseResult {
  * All of the Tokens that are read will be placed into the provided
  * tokens array.
  */
-function parseValue(tokenizer: Tokenizer, tokens: Token[]): Value | null {
+function parseValue(tokenizer: ITokenSource, tokens: Token[]): Value | null {
     let value: Value | null = null;
 
     if (!tokenizer.hasStarted()) {
@@ -1155,7 +1326,7 @@ function parseValue(tokenizer: Tokenizer, tokens: Token[]): Value | null {
     return value;
 }
 
-function parseObject(tokenizer: Tokenizer, tokens: Token[]): ObjectValue {
+function parseObject(tokenizer: ITokenSource, tokens: Token[]): ObjectValue {
     if (!tokenizer.current) {
         throw new Error("Precondition failed");
     }
@@ -1214,7 +1385,7 @@ function parseObject(tokenizer: Tokenizer, tokens: Token[]): ObjectValue {
     return new ObjectValue(objectSpan, properties);
 }
 
-function parseArray(tokenizer: Tokenizer, tokens: Token[]): ArrayValue {
+function parseArray(tokenizer: ITokenSource, tokens: Token[]): ArrayValue {
     if (!tokenizer.current) {
         throw new Error("Precondition failed");
     }
@@ -1253,7 +1424,7 @@ function parseArray(tokenizer: Tokenizer, tokens: Token[]): ArrayValue {
     return new ArrayValue(span, elements);
 }
 
-function next(tokenizer: Tokenizer, tokens: Token[]): void {
+function next(tokenizer: ITokenSource, tokens: Token[]): void {
     while (tokenizer.moveNext()) {
         // tslint:disable-next-line: no-non-null-assertion // Guaranteed by tokenizer.moveNext() returning true
         const current: Token = tokenizer.current!;
@@ -131,6 +131,7 @@ export enum IssueKind {
     unusedUdfParam = "unusedUdfParam",
     unusedUdf = "unusedUdf",
     badArgsCount = "badArgsCount",
+    badArgType = "badArgType",
     badFuncContext = "badFuncContext",
     undefinedFunc = "undefinedFunc",
     undefinedNs = "undefinedNs",
@@ -138,7 +139,37 @@ export enum IssueKind {
     undefinedParam = "undefinedParam",
     undefinedVar = "undefinedVar",
     varInUdf = "varInUdf",
-    undefinedVarProp = "undefinedVarProp"
+    undefinedVarProp = "undefinedVarProp",
+    duplicateOutput = "duplicateOutput",
+    outputTypeMismatch = "outputTypeMismatch",
+
+    // Copy loops
+    copyIndexOutsideLoop = "copyIndexOutsideLoop",
+    undefinedCopyLoop = "undefinedCopyLoop",
+    duplicateCopyName = "duplicateCopyName",
+    invalidCopyCount = "invalidCopyCount",
+
+    // Resource dependencies
+    unresolvedDependency = "unresolvedDependency",
+    redundantParentDependency = "redundantParentDependency",
+    dependencyCycle = "dependencyCycle",
+
+    // References to declared resources from resourceId(), reference() and list*()
+    resourceTypeCasing = "resourceTypeCasing",
+    resourceNameSegments = "resourceNameSegments",
+    undeclaredResource = "undeclaredResource",
+
+    // Resource types and apiVersions from the resource providers catalog
+    invalidApiVersion = "invalidApiVersion",
+    staleApiVersion = "staleApiVersion",
+
+    // API profiles
+    resourceTypeNotInApiProfile = "resourceTypeNotInApiProfile",
+
+    // Parameter files
+    missingRequiredParam = "missingRequiredParam",
+    unknownParamValue = "unknownParamValue",
+    paramValueTypeMismatch = "paramValueTypeMismatch"
 }
 
 /**
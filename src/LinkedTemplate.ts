@@ -0,0 +1,240 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import * as path from 'path';
+import { fileURLToPath, URL } from 'url';
+import { CachedValue } from './CachedValue';
+import { templateKeys } from './constants';
+import { ExpressionType, isExpressionTypeAssignable } from './ExpressionType';
+import { assert } from './fixed_assert';
+import { IParameterDefinition } from './IParameterDefinition';
+import * as Json from "./JSON";
+import * as language from "./Language";
+import { ParameterValueDefinition } from './parameterFiles/ParameterValueDefinition';
+import { TemplateScope } from './TemplateScope';
+
+/**
+ * This class represents a deployment resource that links to a template in a separate file, e.g.
+ *
+ *   {  << This is a LinkedTemplate
+ *     "type": "Microsoft.Resources/deployments",
+ *     "name": "linkedDeployment",
+ *     "properties": {
+ *       "templateLink": {
+ *         "relativePath": "nested/storage.json"  << or "uri"
+ *       },
+ *       "parameters": {
+ *         "storageName": {
+ *           "value": "mystorage"
+ *         }
+ *       }
+ *     }
+ *   }
+ *
+ * Only links given as literal strings (rather than expressions) can be followed.
+ */
+export class LinkedTemplate {
+    private _parameterValues: CachedValue<ParameterValueDefinition[]> = new CachedValue<ParameterValueDefinition[]>();
+
+    private constructor(
+        private readonly _resourceObject: Json.ObjectValue,
+        private readonly _propertiesObject: Json.ObjectValue,
+        public readonly linkValue: Json.StringValue,
+        public readonly isRelativePath: boolean
+    ) {
+        assert(_resourceObject);
+        assert(_propertiesObject);
+        assert(linkValue);
+    }
+
+    /**
+     * Creates a LinkedTemplate if the given resource is a deployment resource with a literal template link
+     */
+    public static createIfValid(resourceObject: Json.ObjectValue): LinkedTemplate | null {
+        const resourceType: Json.StringValue | null = Json.asStringValue(resourceObject.getPropertyValue(templateKeys.resourceType));
+        if (resourceType && resourceType.unquotedValue.toLowerCase() === templateKeys.nestedDeploymentResourceType.toLowerCase()) {
+            const properties: Json.ObjectValue | null = Json.asObjectValue(resourceObject.getPropertyValue(templateKeys.resourceProperties));
+            const templateLink: Json.ObjectValue | null = properties ? Json.asObjectValue(properties.getPropertyValue(templateKeys.linkedDeploymentTemplateLink)) : null;
+            if (properties && templateLink) {
+                const relativePath: Json.StringValue | null = Json.asStringValue(templateLink.getPropertyValue(templateKeys.linkedDeploymentRelativePath));
+                if (relativePath && !isExpression(relativePath)) {
+                    return new LinkedTemplate(resourceObject, properties, relativePath, true);
+                }
+
+                const uri: Json.StringValue | null = Json.asStringValue(templateLink.getPropertyValue(templateKeys.linkedDeploymentUri));
+                if (uri && !isExpression(uri)) {
+                    return new LinkedTemplate(resourceObject, properties, uri, false);
+                }
+            }
+        }
+
+        return null;
+    }
+
+    public get nameValue(): Json.StringValue | null {
+        return Json.asStringValue(this._resourceObject.getPropertyValue(templateKeys.resourceName));
+    }
+
+    /**
+     * The "parameters" object passed to the linked template, if any
+     */
+    public get parametersObjectValue(): Json.ObjectValue | null {
+        return Json.asObjectValue(this._propertiesObject.getPropertyValue(templateKeys.parameters));
+    }
+
+    /**
+     * Whether the parameter values come from a separate parameter file
+     */
+    public get hasParametersLink(): boolean {
+        return !!this._propertiesObject.getPropertyValue(templateKeys.linkedDeploymentParametersLink);
+    }
+
+    public get parameterValues(): ParameterValueDefinition[] {
+        return this._parameterValues.getOrCacheValue(() => {
+            const parameterValues: ParameterValueDefinition[] = [];
+
+            const parametersObject = this.parametersObjectValue;
+            if (parametersObject) {
+                for (const property of parametersObject.properties) {
+                    parameterValues.push(new ParameterValueDefinition(property));
+                }
+            }
+
+            return parameterValues;
+        });
+    }
+
+    // Search is case-insensitive
+    public getParameterValue(parameterName: string): ParameterValueDefinition | null {
+        const parameterNameLC = parameterName.toLowerCase();
+
+        // Find the last definition that matches, because that's what Azure does if there are matching names
+        for (let i = this.parameterValues.length - 1; i >= 0; --i) {
+            const pv = this.parameterValues[i];
+            if (pv.nameValue.unquotedValue.toLowerCase() === parameterNameLC) {
+                return pv;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Gets the path of the linked template file, resolved relative to the folder of the template containing
+     * the deployment, or undefined if it isn't a local file
+     */
+    public getLinkedTemplatePath(parentDocumentUri: string): string | undefined {
+        const parentPath: string | undefined = getLocalFilePath(parentDocumentUri);
+        const link: string = this.linkValue.unquotedValue;
+        if (!parentPath || !link) {
+            return undefined;
+        }
+
+        if (!this.isRelativePath) {
+            if (/^[a-z][a-z0-9+.-]+:/i.test(link)) {
+                // Absolute URI (a single letter before the colon would be a Windows drive)
+                return getLocalFilePath(link);
+            }
+        }
+
+        return path.resolve(path.dirname(parentPath), link);
+    }
+
+    /**
+     * Validates the parameter values passed to the linked template against its parameter definitions
+     *
+     * @param linkedTemplateScope The top-level scope of the linked template
+     * @param getValueType Infers the type of a parameter value, if it can be determined without deploying
+     */
+    public getParameterErrors(linkedTemplateScope: TemplateScope, getValueType: (value: Json.Value) => ExpressionType | null): language.Issue[] {
+        const errors: language.Issue[] = [];
+        if (this.hasParametersLink) {
+            // The values are in a separate parameter file
+            return errors;
+        }
+
+        // Parameters that are required by the linked template but have no value
+        const parametersObject = this.parametersObjectValue;
+        const missingSpan: language.Span = parametersObject ? parametersObject.span : this.linkValue.span;
+        for (const parameterDefinition of linkedTemplateScope.parameterDefinitions) {
+            const parameterName = parameterDefinition.nameValue.unquotedValue;
+            if (!parameterDefinition.defaultValue && !this.getParameterValue(parameterName)) {
+                errors.push(new language.Issue(
+                    missingSpan,
+                    `The linked template parameter '${parameterName}' requires a value, but none is given in this deployment.`,
+                    language.IssueKind.missingRequiredParam));
+            }
+        }
+
+        for (const parameterValue of this.parameterValues) {
+            const parameterName = parameterValue.nameValue.unquotedValue;
+            const parameterDefinition: IParameterDefinition | null = linkedTemplateScope.getParameterDefinition(parameterName);
+
+            if (!parameterDefinition) {
+                errors.push(new language.Issue(
+                    parameterValue.nameValue.span,
+                    `The parameter '${parameterName}' is not defined in the linked template.`,
+                    language.IssueKind.unknownParamValue));
+            } else {
+                const expectedType: ExpressionType | null = parameterDefinition.validType;
+                const value: Json.Value | null = parameterValue.value;
+                const actualType: ExpressionType | null = value ? getValueType(value) : null;
+                if (value && expectedType && actualType && !isExpressionTypeAssignable(expectedType, actualType)) {
+                    errors.push(new language.Issue(
+                        value.span,
+                        `The value of parameter '${parameterName}' should be of type '${expectedType}', but is of type '${actualType}'.`,
+                        language.IssueKind.paramValueTypeMismatch));
+                }
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Convenient way of seeing what this object represents in the debugger, shouldn't be used for production code
+     */
+    public get __debugDisplay(): string {
+        return this.linkValue.toString();
+    }
+}
+
+/**
+ * Finds all deployments with literal template links in the given resources array (including child resources)
+ */
+export function getLinkedTemplates(resources: Json.ArrayValue | null): LinkedTemplate[] {
+    const linkedTemplates: LinkedTemplate[] = [];
+
+    if (resources) {
+        for (const resource of resources.elements) {
+            const resourceObject: Json.ObjectValue | null = Json.asObjectValue(resource);
+            if (resourceObject) {
+                const linkedTemplate: LinkedTemplate | null = LinkedTemplate.createIfValid(resourceObject);
+                if (linkedTemplate) {
+                    linkedTemplates.push(linkedTemplate);
+                }
+
+                // Child resources
+                linkedTemplates.push(...getLinkedTemplates(Json.asArrayValue(resourceObject.getPropertyValue(templateKeys.resources))));
+            }
+        }
+    }
+
+    return linkedTemplates;
+}
+
+function isExpression(value: Json.StringValue): boolean {
+    // A leading "[[" is the escape for a literal "["
+    const unquoted: string = value.unquotedValue;
+    return unquoted.startsWith("[") && !unquoted.startsWith("[[");
+}
+
+function getLocalFilePath(uri: string): string | undefined {
+    try {
+        const url: URL = new URL(uri);
+        return url.protocol === "file:" ? fileURLToPath(url) : undefined;
+    } catch (err) {
+        return undefined;
+    }
+}
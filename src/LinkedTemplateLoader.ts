@@ -0,0 +1,92 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// Reads linked templates from disk. Nothing in here may depend on the vscode module, so that the
+// command-line linter can use it.
+
+import * as fse from 'fs-extra';
+import { pathToFileURL } from 'url';
+import { DeploymentTemplate } from "./DeploymentTemplate";
+import { IParameterDefinition } from "./IParameterDefinition";
+import * as language from "./Language";
+import { LinkedTemplate } from "./LinkedTemplate";
+
+/**
+ * Returns the current contents of a template if it's opened in an editor, so that unsaved changes are used
+ * instead of the file on disk
+ */
+export type OpenedTemplateProvider = (templatePath: string) => DeploymentTemplate | undefined;
+
+export interface ILinkedParameterDefinition {
+    linkedTemplate: DeploymentTemplate;
+    parameterDefinition: IParameterDefinition;
+}
+
+/**
+ * Loads and parses the template that a deployment links to, or returns undefined if the link doesn't
+ * resolve to a local file
+ */
+export async function loadLinkedTemplate(
+    parentTemplate: DeploymentTemplate,
+    linkedTemplate: LinkedTemplate,
+    getOpenedTemplate?: OpenedTemplateProvider
+): Promise<DeploymentTemplate | undefined> {
+    const templatePath: string | undefined = linkedTemplate.getLinkedTemplatePath(parentTemplate.documentId);
+    if (!templatePath) {
+        return undefined;
+    }
+
+    const openedTemplate: DeploymentTemplate | undefined = getOpenedTemplate ? getOpenedTemplate(templatePath) : undefined;
+    if (openedTemplate) {
+        return openedTemplate;
+    }
+
+    try {
+        return new DeploymentTemplate(await fse.readFile(templatePath, 'utf8'), pathToFileURL(templatePath).toString());
+    } catch (err) {
+        // The link may be to a file that's only staged at deployment time
+        return undefined;
+    }
+}
+
+/**
+ * Validates the parameter values passed to each linked template in the given template
+ */
+export async function getLinkedTemplateErrors(deploymentTemplate: DeploymentTemplate, getOpenedTemplate?: OpenedTemplateProvider): Promise<language.Issue[]> {
+    const errors: language.Issue[] = [];
+
+    for (const linkedTemplate of deploymentTemplate.linkedTemplates) {
+        const loadedTemplate: DeploymentTemplate | undefined = await loadLinkedTemplate(deploymentTemplate, linkedTemplate, getOpenedTemplate);
+        if (loadedTemplate) {
+            errors.push(...linkedTemplate.getParameterErrors(loadedTemplate.topLevelScope, value => deploymentTemplate.getValueType(value)));
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * If the given location is on the name of a parameter value passed to a linked template, finds that
+ * parameter's definition in the linked template
+ */
+export async function getLinkedParameterDefinition(
+    deploymentTemplate: DeploymentTemplate,
+    documentCharacterIndex: number,
+    getOpenedTemplate?: OpenedTemplateProvider
+): Promise<ILinkedParameterDefinition | undefined> {
+    for (const linkedTemplate of deploymentTemplate.linkedTemplates) {
+        const parameterValue = linkedTemplate.parameterValues.find(pv => pv.nameValue.span.contains(documentCharacterIndex, true));
+        if (parameterValue) {
+            const loadedTemplate: DeploymentTemplate | undefined = await loadLinkedTemplate(deploymentTemplate, linkedTemplate, getOpenedTemplate);
+            const parameterDefinition: IParameterDefinition | null = loadedTemplate ? loadedTemplate.topLevelScope.getParameterDefinition(parameterValue.nameValue.unquotedValue) : null;
+            if (loadedTemplate && parameterDefinition) {
+                return { linkedTemplate: loadedTemplate, parameterDefinition };
+            }
+
+            return undefined;
+        }
+    }
+
+    return undefined;
+}
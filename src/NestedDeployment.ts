@@ -0,0 +1,168 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { CachedValue } from './CachedValue';
+import { templateKeys } from './constants';
+import { assert } from './fixed_assert';
+import * as Json from "./JSON";
+import { getTemplateOutputDefinitions, TemplateOutputDefinition } from './OutputDefinition';
+import { getTemplateParameterDefinitions } from './ParameterDefinition';
+import { ScopeContext, TemplateScope } from './TemplateScope';
+import { getTemplateNamespaceDefinitions } from './UserFunctionNamespaceDefinition';
+import { getTemplateVariableDefinitions } from './VariableDefinition';
+
+/**
+ * This class represents a nested deployment resource with an inline template, e.g.
+ *
+ *   {  << This is a NestedDeployment
+ *     "type": "Microsoft.Resources/deployments",
+ *     "name": "nestedDeployment",
+ *     "properties": {
+ *       "expressionEvaluationOptions": {
+ *         "scope": "inner"  << Optional, the default ("outer") evaluates expressions in the parent template's scope
+ *       },
+ *       "template": {
+ *         ...
+ *         "outputs": { ... }
+ *       }
+ *     }
+ *   }
+ */
+export class NestedDeployment {
+    private _outputDefinitions: CachedValue<TemplateOutputDefinition[]> = new CachedValue<TemplateOutputDefinition[]>();
+    private _innerScope: CachedValue<TemplateScope | undefined> = new CachedValue<TemplateScope | undefined>();
+
+    private constructor(
+        private readonly _resourceObject: Json.ObjectValue,
+        public readonly templateObject: Json.ObjectValue
+    ) {
+        assert(_resourceObject);
+        assert(templateObject);
+    }
+
+    /**
+     * Creates a NestedDeployment if the given resource is a deployment resource with an inline template
+     */
+    public static createIfValid(resourceObject: Json.ObjectValue): NestedDeployment | null {
+        const resourceType: Json.StringValue | null = Json.asStringValue(resourceObject.getPropertyValue(templateKeys.resourceType));
+        if (resourceType && resourceType.unquotedValue.toLowerCase() === templateKeys.nestedDeploymentResourceType.toLowerCase()) {
+            const properties: Json.ObjectValue | null = Json.asObjectValue(resourceObject.getPropertyValue(templateKeys.resourceProperties));
+            const templateObject: Json.ObjectValue | null = properties ? Json.asObjectValue(properties.getPropertyValue(templateKeys.nestedDeploymentTemplate)) : null;
+            if (templateObject) {
+                return new NestedDeployment(resourceObject, templateObject);
+            }
+        }
+
+        return null;
+    }
+
+    public get nameValue(): Json.StringValue | null {
+        return Json.asStringValue(this._resourceObject.getPropertyValue(templateKeys.resourceName));
+    }
+
+    /**
+     * The outputs of the nested template
+     */
+    public get outputDefinitions(): TemplateOutputDefinition[] {
+        return this._outputDefinitions.getOrCacheValue(() => getTemplateOutputDefinitions(this.templateObject));
+    }
+
+    /**
+     * Whether expressions in the nested template are evaluated in its own scope rather than the parent template's
+     */
+    public get hasInnerScope(): boolean {
+        const properties: Json.ObjectValue | null = Json.asObjectValue(this._resourceObject.getPropertyValue(templateKeys.resourceProperties));
+        const options: Json.ObjectValue | null = properties ? Json.asObjectValue(properties.getPropertyValue(templateKeys.nestedDeploymentExprEvalOptions)) : null;
+        const scope: Json.StringValue | null = options ? Json.asStringValue(options.getPropertyValue(templateKeys.nestedDeploymentExprEvalScope)) : null;
+        return !!scope && scope.unquotedValue.toLowerCase() === templateKeys.nestedDeploymentExprEvalInner;
+    }
+
+    /**
+     * The scope of the nested template's own parameters, variables and functions, if it has an inner scope
+     * (otherwise its expressions use the parent template's scope)
+     */
+    public get innerScope(): TemplateScope | undefined {
+        return this._innerScope.getOrCacheValue(() => {
+            if (!this.hasInnerScope) {
+                return undefined;
+            }
+
+            return new TemplateScope(
+                ScopeContext.NestedDeploymentInnerScope,
+                getTemplateParameterDefinitions(this.templateObject),
+                getTemplateVariableDefinitions(this.templateObject),
+                getTemplateNamespaceDefinitions(this.templateObject),
+                this.outputDefinitions,
+                getNestedDeployments(Json.asArrayValue(this.templateObject.getPropertyValue(templateKeys.resources))),
+                `'${this.__debugDisplay}' (nested deployment) scope`);
+        });
+    }
+
+    // Search is case-insensitive
+    public getOutputDefinition(outputName: string): TemplateOutputDefinition | null {
+        const outputNameLC = outputName.toLowerCase();
+
+        // Find the last definition that matches, because that's what Azure does if there are matching names
+        for (let i = this.outputDefinitions.length - 1; i >= 0; --i) {
+            const output = this.outputDefinitions[i];
+            if (output.nameValue.unquotedValue.toLowerCase() === outputNameLC) {
+                return output;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Convenient way of seeing what this object represents in the debugger, shouldn't be used for production code
+     */
+    public get __debugDisplay(): string {
+        const nameValue = this.nameValue;
+        return nameValue ? nameValue.toString() : "(unnamed deployment)";
+    }
+}
+
+/**
+ * Finds all nested deployments with inline templates in the given resources array (including child resources)
+ */
+export function getNestedDeployments(resources: Json.ArrayValue | null): NestedDeployment[] {
+    const deployments: NestedDeployment[] = [];
+
+    if (resources) {
+        for (const resource of resources.elements) {
+            const resourceObject: Json.ObjectValue | null = Json.asObjectValue(resource);
+            if (resourceObject) {
+                const deployment: NestedDeployment | null = NestedDeployment.createIfValid(resourceObject);
+                if (deployment) {
+                    deployments.push(deployment);
+                }
+
+                // Child resources
+                deployments.push(...getNestedDeployments(Json.asArrayValue(resourceObject.getPropertyValue(templateKeys.resources))));
+            }
+        }
+    }
+
+    return deployments;
+}
+
+/**
+ * Finds all nested deployments with inline templates that have an inner scope, at any depth under the given
+ * template object (including inside other nested templates). Deployments come before any nested inside them.
+ */
+export function getInnerScopedNestedDeployments(templateObject: Json.ObjectValue | null): NestedDeployment[] {
+    const deployments: NestedDeployment[] = [];
+
+    if (templateObject) {
+        for (const deployment of getNestedDeployments(Json.asArrayValue(templateObject.getPropertyValue(templateKeys.resources)))) {
+            if (deployment.hasInnerScope) {
+                deployments.push(deployment);
+            }
+
+            deployments.push(...getInnerScopedNestedDeployments(deployment.templateObject));
+        }
+    }
+
+    return deployments;
+}
@@ -2,9 +2,17 @@
 // Copyright (c) Microsoft Corporation.  All rights reserved.
 // ----------------------------------------------------------------------------
 
+import { templateKeys } from './constants';
 import { ExpressionType, toValidExpressionType } from './ExpressionType';
 import { assert } from './fixed_assert';
+import { IUsageInfo } from './Hover';
+import { DefinitionKind, INamedDefinition } from './INamedDefinition';
 import * as Json from "./JSON";
+import * as language from "./Language";
+
+export function isTemplateOutputDefinition(definition: INamedDefinition): definition is TemplateOutputDefinition {
+    return definition.definitionKind === DefinitionKind.Output;
+}
 
 /**
  * This class represents the definition of a user-defined output in a deployment template.
@@ -23,7 +31,95 @@ export class OutputDefinition {
         return toValidExpressionType(this.outputType && this.outputType.unquotedValue);
     }
 
-    public get value(): Json.StringValue | null {
-        return Json.asStringValue(this._value.getPropertyValue("value"));
+    public get value(): Json.Value | null {
+        return this._value.getPropertyValue("value");
+    }
+}
+
+/**
+ * This class represents a named output in the "outputs" section of a deployment template (or of
+ * a nested template), e.g.
+ *
+ *   "outputs": {
+ *     "storageEndpoint": { << This is a TemplateOutputDefinition
+ *       "type": "string",
+ *       "value": "[reference('storage').primaryEndpoints.blob]"
+ *     }
+ *   }
+ */
+export class TemplateOutputDefinition extends OutputDefinition implements INamedDefinition {
+    public readonly definitionKind: DefinitionKind = DefinitionKind.Output;
+
+    private constructor(private readonly _property: Json.Property, outputObject: Json.ObjectValue) {
+        super(outputObject);
+    }
+
+    public static createIfValid(outputProperty: Json.Property): TemplateOutputDefinition | null {
+        const outputObject: Json.ObjectValue | null = Json.asObjectValue(outputProperty.value);
+        if (outputObject) {
+            return new TemplateOutputDefinition(outputProperty, outputObject);
+        }
+
+        return null;
+    }
+
+    public get nameValue(): Json.StringValue {
+        return this._property.nameValue;
+    }
+
+    public get fullSpan(): language.Span {
+        return this._property.span;
     }
+
+    public get description(): string | null {
+        const outputObject: Json.ObjectValue | null = Json.asObjectValue(this._property.value);
+        if (outputObject) {
+            const metadata: Json.ObjectValue | null = Json.asObjectValue(outputObject.getPropertyValue("metadata"));
+            if (metadata) {
+                const description: Json.StringValue | null = Json.asStringValue(metadata.getPropertyValue("description"));
+                if (description) {
+                    return description.toString();
+                }
+            }
+        }
+
+        return null;
+    }
+
+    public get usageInfo(): IUsageInfo {
+        const outputType: ExpressionType | null = this.validOutputType;
+        return {
+            usage: outputType ? `${this.nameValue.unquotedValue} [${outputType}]` : this.nameValue.unquotedValue,
+            friendlyType: "output",
+            description: this.description
+        };
+    }
+
+    /**
+     * Convenient way of seeing what this object represents in the debugger, shouldn't be used for production code
+     */
+    public get __debugDisplay(): string {
+        return this.nameValue.toString();
+    }
+}
+
+/**
+ * Retrieves the output definitions from the "outputs" section of a template object
+ */
+export function getTemplateOutputDefinitions(templateObject: Json.ObjectValue | null): TemplateOutputDefinition[] {
+    const outputDefinitions: TemplateOutputDefinition[] = [];
+
+    if (templateObject) {
+        const outputs: Json.ObjectValue | null = Json.asObjectValue(templateObject.getPropertyValue(templateKeys.outputs));
+        if (outputs) {
+            for (const output of outputs.properties) {
+                const outputDefinition = TemplateOutputDefinition.createIfValid(output);
+                if (outputDefinition) {
+                    outputDefinitions.push(outputDefinition);
+                }
+            }
+        }
+    }
+
+    return outputDefinitions;
 }
@@ -2,6 +2,7 @@
 // Copyright (c) Microsoft Corporation.  All rights reserved.
 // ----------------------------------------------------------------------------
 
+import { templateKeys } from './constants';
 import { ExpressionType, toValidExpressionType } from './ExpressionType';
 import { assert } from './fixed_assert';
 import { IUsageInfo } from './Hover';
@@ -86,3 +87,21 @@ export class ParameterDefinition implements IParameterDefinition {
         return this.nameValue.toString();
     }
 }
+
+/**
+ * Retrieves the parameter definitions from the "parameters" section of a template object
+ */
+export function getTemplateParameterDefinitions(templateObject: Json.ObjectValue | null): ParameterDefinition[] {
+    const parameterDefinitions: ParameterDefinition[] = [];
+
+    if (templateObject) {
+        const parameters: Json.ObjectValue | null = Json.asObjectValue(templateObject.getPropertyValue(templateKeys.parameters));
+        if (parameters) {
+            for (const parameter of parameters.properties) {
+                parameterDefinitions.push(new ParameterDefinition(parameter));
+            }
+        }
+    }
+
+    return parameterDefinitions;
+}
@@ -4,27 +4,33 @@
 
 // tslint:disable:max-line-length
 
-import { Language } from "../extension.bundle";
 import { AzureRMAssets, BuiltinFunctionMetadata } from "./AzureRMAssets";
 import { CachedValue } from "./CachedValue";
 import * as Completion from "./Completion";
 import { templateKeys } from "./constants";
 import { __debugMarkPositionInString } from "./debugMarkStrings";
 import { DeploymentTemplate } from "./DeploymentTemplate";
+import { EvaluationResult, ExpressionEvaluator } from "./ExpressionEvaluator";
 import { assert } from './fixed_assert';
 import { HoverInfo } from "./Hover";
 import { IFunctionMetadata, IFunctionParameterMetadata } from "./IFunctionMetadata";
-import { INamedDefinition } from "./INamedDefinition";
+import { DefinitionKind, INamedDefinition } from "./INamedDefinition";
 import { IParameterDefinition } from "./IParameterDefinition";
 import * as Json from "./JSON";
 import * as language from "./Language";
+import { TemplateOutputDefinition } from "./OutputDefinition";
 import * as Reference from "./ReferenceList";
+import { flattenResourceDefinitions, ResourceDefinition } from "./ResourceDefinition";
+import { IResourceDependency, isResourceIdCall, ResourceDependencyGraph } from "./ResourceDependencies";
+import { ResourceProvidersMetadata, ResourceTypeMetadata } from "./ResourceProvidersMetadata";
 import { TemplateScope } from "./TemplateScope";
 import * as TLE from "./TLE";
 import { UserFunctionDefinition } from "./UserFunctionDefinition";
 import { UserFunctionMetadata } from "./UserFunctionMetadata";
 import { UserFunctionNamespaceDefinition } from "./UserFunctionNamespaceDefinition";
 import { IVariableDefinition } from "./VariableDefinition";
+import { ICopyLoop } from "./visitors/CopyLoopVisitor";
+import { getDeclaredResources, isReferenceOrListCall } from "./visitors/ResourceReferenceVisitor";
 
 /**
  * Information about the TLE expression (if position is at an expression string)
@@ -46,7 +52,7 @@ export interface IReferenceSite {
     /**
      * Where the reference occurs in the template
      */
-    referenceSpan: Language.Span;
+    referenceSpan: language.Span;
 
     /**
      * The definition that the reference refers to
@@ -192,6 +198,7 @@ export class PositionContext {
      * If this position is inside an expression, inside a reference to an interesting function/parameter/etc, then
      * return an object with information about this reference and the corresponding definition
      */
+    // tslint:disable-next-line: cyclomatic-complexity // Straightforward sequence of checks
     public getReferenceSiteInfo(): null | IReferenceSite {
         const tleInfo = this.tleInfo;
         if (tleInfo) {
@@ -230,6 +237,16 @@ export class PositionContext {
                 }
             }
 
+            const tlePropertyAccess: TLE.PropertyAccess | null = TLE.asPropertyAccessValue(tleInfo.tleValue);
+            if (tlePropertyAccess && tlePropertyAccess.nameToken && tlePropertyAccess.nameToken.span.contains(tleCharacterIndex, true)) {
+                // Inside the 'xxx' of a reference('nestedDeployment').outputs.xxx reference
+                const outputDefinition: TemplateOutputDefinition | null = scope.getOutputDefinitionFromPropertyAccess(tlePropertyAccess);
+                if (outputDefinition) {
+                    const referenceSpan: language.Span = tlePropertyAccess.nameToken.span.translate(this.jsonTokenStartIndex);
+                    return { definition: outputDefinition, referenceSpan };
+                }
+            }
+
             const tleStringValue: TLE.StringValue | null = TLE.asStringValue(tleInfo.tleValue);
             if (tleStringValue instanceof TLE.StringValue) {
                 if (tleStringValue.isParametersArgument()) {
@@ -246,8 +263,47 @@ export class PositionContext {
                         const referenceSpan: language.Span = tleStringValue.getSpan().translate(this.jsonTokenStartIndex);
                         return { definition: variableDefinition, referenceSpan };
                     }
+                } else {
+                    const resourceReference: IReferenceSite | null = this.getResourceReferenceSiteInfo(tleStringValue, scope);
+                    if (resourceReference) {
+                        return resourceReference;
+                    }
                 }
             }
+
+            // Inside a "dependsOn" entry
+            const jsonStringValue: Json.StringValue | null = Json.asStringValue(this.jsonValue);
+            const dependency: IResourceDependency | undefined = jsonStringValue ?
+                this._deploymentTemplate.resourceDependencyGraph.dependencies.find(d => d.dependsOnValue === jsonStringValue) : undefined;
+            if (dependency && dependency.targets.length > 0) {
+                return { definition: dependency.targets[0], referenceSpan: dependency.dependsOnValue.span };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Gets the resource that a string argument of resourceId() (or a similar function), reference() or
+     * list*() refers to, e.g. the 'xxx' of resourceId('Microsoft.Network/virtualNetworks', 'xxx')
+     */
+    private getResourceReferenceSiteInfo(tleStringValue: TLE.StringValue, scope: TemplateScope): IReferenceSite | null {
+        const tleFuncCall: TLE.FunctionCallValue | null = TLE.asFunctionCallValue(tleStringValue.parent);
+        if (!tleFuncCall) {
+            return null;
+        }
+
+        const graph: ResourceDependencyGraph = this._deploymentTemplate.resourceDependencyGraph;
+        let targets: ResourceDefinition[] = [];
+        if (isResourceIdCall(tleFuncCall)) {
+            targets = graph.findResourcesFromResourceIdCall(tleFuncCall, scope);
+        } else if (isReferenceOrListCall(tleFuncCall) && tleFuncCall.argumentExpressions[0] === tleStringValue) {
+            targets = graph.findResourcesFromExpression(tleStringValue, scope);
+        }
+
+        if (targets.length > 0) {
+            const referenceSpan: language.Span = tleStringValue.getSpan().translate(this.jsonTokenStartIndex);
+            return { definition: targets[0], referenceSpan };
         }
 
         return null;
@@ -258,10 +314,58 @@ export class PositionContext {
         if (reference) {
             const span = reference.referenceSpan;
             const definition = reference.definition;
-            return new HoverInfo(definition.usageInfo, span);
+            // A namespace has no value of its own
+            const evaluatedValue: string | undefined = definition.definitionKind === DefinitionKind.Namespace ? undefined : this.getEvaluatedValueDisplayText();
+            return new HoverInfo(definition.usageInfo, span, evaluatedValue);
         }
 
-        return null;
+        return this.getResourceTypeHoverInfo();
+    }
+
+    /**
+     * Evaluates the innermost function call containing this position, returning the display text of its
+     * value, or undefined if it can't be evaluated offline
+     */
+    private getEvaluatedValueDisplayText(): string | undefined {
+        const tleInfo = this.tleInfo;
+        let value: TLE.Value | null = tleInfo ? tleInfo.tleValue : null;
+        while (value && !(value instanceof TLE.FunctionCallValue)) {
+            value = value.parent;
+        }
+
+        if (tleInfo && value) {
+            const result: EvaluationResult = new ExpressionEvaluator(tleInfo.scope).evaluateTleValue(value);
+            if (result.isEvaluated) {
+                return JSON.stringify(result.value);
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Get hover info for a resource's "type" value when the resource gets its apiVersion from the
+     * template's apiProfile
+     */
+    private getResourceTypeHoverInfo(): HoverInfo | null {
+        const jsonValue: Json.Value | null = this.jsonValue;
+        if (!(jsonValue instanceof Json.StringValue)) {
+            return null;
+        }
+
+        const resource: ResourceDefinition | undefined = flattenResourceDefinitions(this._deploymentTemplate.resources).find(r => r.typeValue === jsonValue);
+        const apiVersion: string | undefined = resource ? this._deploymentTemplate.getApiProfileApiVersion(resource) : undefined;
+        if (!resource || apiVersion === undefined) {
+            return null;
+        }
+
+        return new HoverInfo(
+            {
+                usage: resource.typeDisplayName,
+                friendlyType: "resource type",
+                description: `apiVersion ${apiVersion} (from apiProfile '${this._deploymentTemplate.apiProfile}')`
+            },
+            jsonValue.span);
     }
 
     /**
@@ -274,6 +378,16 @@ export class PositionContext {
             return [];
         }
 
+        const resourcePropertyCompletions: Completion.Item[] | undefined = this.getResourcePropertyCompletions(tleInfo);
+        if (resourcePropertyCompletions) {
+            return resourcePropertyCompletions;
+        }
+
+        const apiProfileCompletions: Completion.Item[] | undefined = this.getApiProfileCompletions(tleInfo);
+        if (apiProfileCompletions) {
+            return apiProfileCompletions;
+        }
+
         // We're inside a JSON string. It may or may not contain square brackets.
 
         // The function/string/number/etc at the current position inside the string expression,
@@ -304,6 +418,60 @@ export class PositionContext {
         return [];
     }
 
+    /**
+     * Get completions from the resource providers catalog if we're inside the (non-expression) value of a
+     * resource's "type" or "apiVersion" property, otherwise undefined
+     */
+    private getResourcePropertyCompletions(tleInfo: TleInfo): Completion.Item[] | undefined {
+        const jsonValue: Json.Value | null = this.jsonValue;
+        if (!(jsonValue instanceof Json.StringValue) || tleInfo.tleParseResult.leftSquareBracketToken || tleInfo.tleCharacterIndex < 1) {
+            return undefined;
+        }
+
+        const resource: ResourceDefinition | undefined = flattenResourceDefinitions(this._deploymentTemplate.resources)
+            .find(r => r.typeValue === jsonValue || r.apiVersionValue === jsonValue);
+        if (!resource) {
+            return undefined;
+        }
+
+        const resourceProviders: ResourceProvidersMetadata = AzureRMAssets.getResourceProvidersMetadata();
+        const replaceSpan: language.Span = jsonValue.unquotedSpan;
+        if (resource.typeValue === jsonValue) {
+            if (resource.parent) {
+                // Child resources use types relative to their parent's type
+                const parentResourceType: string | undefined = this.getFullResourceType(resource.parent);
+                return parentResourceType === undefined ? [] :
+                    resourceProviders.getChildResourceTypes(parentResourceType).map(resourceType => Completion.Item.fromResourceType(resourceType, resourceType.childName, replaceSpan));
+            }
+
+            return resourceProviders.resourceTypes.map(resourceType => Completion.Item.fromResourceType(resourceType, resourceType.name, replaceSpan));
+        }
+
+        const fullResourceType: string | undefined = this.getFullResourceType(resource);
+        const resourceTypeMetadata: ResourceTypeMetadata | undefined = fullResourceType !== undefined ? resourceProviders.findResourceType(fullResourceType) : undefined;
+        return resourceTypeMetadata ?
+            resourceTypeMetadata.apiVersions.map((apiVersion, index) => Completion.Item.fromApiVersion(resourceTypeMetadata, apiVersion, index, replaceSpan)) :
+            [];
+    }
+
+    /**
+     * Get completions from the API profiles catalog if we're inside the (non-expression) value of the
+     * template's "apiProfile" property, otherwise undefined
+     */
+    private getApiProfileCompletions(tleInfo: TleInfo): Completion.Item[] | undefined {
+        const jsonValue: Json.Value | null = this.jsonValue;
+        if (!(jsonValue instanceof Json.StringValue) || jsonValue !== this._deploymentTemplate.apiProfileValue
+            || tleInfo.tleParseResult.leftSquareBracketToken || tleInfo.tleCharacterIndex < 1) {
+            return undefined;
+        }
+
+        return AzureRMAssets.getApiProfilesMetadata().profiles.map(profile => Completion.Item.fromApiProfile(profile, jsonValue.unquotedSpan));
+    }
+
+    private getFullResourceType(resource: ResourceDefinition): string | undefined {
+        return getDeclaredResources([resource], new ExpressionEvaluator(this._deploymentTemplate.topLevelScope))[0].resourceType;
+    }
+
     /**
      * Given position in expression is past the left square bracket and before the right square bracket,
      * *or* there is no square bracket yet
@@ -333,6 +501,9 @@ export class PositionContext {
         } else if (tleValue.isVariablesArgument()) {
             // The string is a variable name inside a variables('xxx') function
             return this.getMatchingVariableCompletions(prefix, tleValue, tleCharacterIndex, scope);
+        } else if (tleValue.isCopyIndexArgument()) {
+            // The string is a loop name inside a copyIndex('xxx') function
+            return this.getMatchingCopyLoopCompletions(prefix, tleValue, tleCharacterIndex);
         }
 
         return [];
@@ -592,6 +763,20 @@ export class PositionContext {
                     return this._deploymentTemplate.findReferences(namespaceDefinition);
                 }
 
+                // Is it an output definition, either top-level or inside a nested template?
+                const outputDefinitions: TemplateOutputDefinition[] = scope.outputDefinitions.concat(
+                    ...scope.nestedDeployments.map(deployment => deployment.outputDefinitions));
+                const outputDefinition: TemplateOutputDefinition | undefined = outputDefinitions.find(od => od.nameValue === jsonStringValue);
+                if (outputDefinition) {
+                    return this._deploymentTemplate.findReferences(outputDefinition);
+                }
+
+                // Is it the name of a resource?
+                const resource: ResourceDefinition | undefined = this._deploymentTemplate.resourceDependencyGraph.resources.find(r => r.nameValue === jsonStringValue);
+                if (resource) {
+                    return this._deploymentTemplate.findReferences(resource);
+                }
+
                 // Is it a user function definition inside any namespace?
                 for (let ns of scope.namespaceDefinitions) {
                     const userFunctionDefinition: UserFunctionDefinition | null = scope.getUserFunctionDefinition(ns.nameValue.unquotedValue, unquotedString);
@@ -702,6 +887,23 @@ export class PositionContext {
         return variableCompletions;
     }
 
+    /**
+     * Get completions for the names of the copy loops that contain the current position, innermost first
+     */
+    private getMatchingCopyLoopCompletions(prefix: string, tleValue: TLE.StringValue, tleCharacterIndex: number): Completion.Item[] {
+        const replaceSpanInfo: ReplaceSpanInfo = this.getReplaceSpanInfo(tleValue, tleCharacterIndex);
+        const prefixLC: string = prefix.toLowerCase();
+
+        const loopCompletions: Completion.Item[] = [];
+        const loops: ICopyLoop[] = this._deploymentTemplate.copyLoops.getLoopsContainingIndex(this.documentCharacterIndex).reverse();
+        for (const loop of loops) {
+            if (loop.nameValue && loop.nameValue.unquotedValue.toLowerCase().startsWith(prefixLC)) {
+                loopCompletions.push(Completion.Item.fromCopyLoop(loop, replaceSpanInfo.replaceSpan, replaceSpanInfo.includeRightParenthesisInCompletion, loopCompletions.length));
+            }
+        }
+        return loopCompletions;
+    }
+
     private getReplaceSpanInfo(tleValue: TLE.StringValue | TLE.FunctionCallValue, tleCharacterIndex: number): ReplaceSpanInfo {
         let includeRightParenthesisInCompletion: boolean = true;
         let replaceSpan: language.Span;
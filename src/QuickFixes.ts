@@ -0,0 +1,196 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { AzureRMAssets, BuiltinFunctionMetadata } from "./AzureRMAssets";
+import { templateKeys } from "./constants";
+import { DeploymentTemplate } from "./DeploymentTemplate";
+import { IncorrectArgumentsCountIssue } from "./IncorrectArgumentsCountIssue";
+import * as Json from "./JSON";
+import * as language from "./Language";
+import { ResourceReferenceIssue } from "./ResourceReferenceIssue";
+import { ScopeContext } from "./TemplateScope";
+import * as TLE from "./TLE";
+import { UnrecognizedBuiltinFunctionIssue } from "./UnrecognizedFunctionIssues";
+import { UserFunctionDefinition } from "./UserFunctionDefinition";
+import { findPropertyByNameSpan, formatJsonValue, getInsertTemplateSectionPropertyEdit, getRemovePropertyEdit, TextEdit } from "./util/jsonEdits";
+import * as Utilities from "./Utilities";
+
+// The maximum number of "Did you mean" suggestions for an unrecognized function
+const maxFunctionNameSuggestions: number = 3;
+
+/**
+ * A fix for an issue in a deployment template
+ */
+export class QuickFix {
+    constructor(
+        public readonly title: string,
+        public readonly issue: language.Issue,
+        public readonly edits: TextEdit[],
+        public readonly isPreferred: boolean = false
+    ) {
+    }
+}
+
+/**
+ * Gets the available fixes for an issue reported for the given deployment template
+ */
+export function getQuickFixes(deploymentTemplate: DeploymentTemplate, issue: language.Issue): QuickFix[] {
+    switch (issue.kind) {
+        case language.IssueKind.undefinedParam:
+            return getAddDefinitionFixes(deploymentTemplate, issue, templateKeys.parameters, "Add parameter definition", { type: "string" });
+
+        case language.IssueKind.undefinedVar:
+            return getAddDefinitionFixes(deploymentTemplate, issue, templateKeys.variables, "Add variable", "");
+
+        case language.IssueKind.undefinedFunc:
+            return issue instanceof UnrecognizedBuiltinFunctionIssue ? getDidYouMeanFixes(issue) : [];
+
+        case language.IssueKind.unusedParam:
+        case language.IssueKind.unusedVar:
+        case language.IssueKind.unusedUdf:
+            return getRemoveDefinitionFixes(deploymentTemplate, issue);
+
+        case language.IssueKind.badArgsCount:
+            return issue instanceof IncorrectArgumentsCountIssue ? getInsertMissingArgumentsFixes(deploymentTemplate, issue) : [];
+
+        case language.IssueKind.resourceTypeCasing:
+        case language.IssueKind.resourceNameSegments:
+        case language.IssueKind.undeclaredResource:
+            return issue instanceof ResourceReferenceIssue ? getClosestResourceFixes(issue) : [];
+
+        default:
+            return [];
+    }
+}
+
+/**
+ * Adds a definition for an undefined parameter or variable reference, e.g. parameters('newParam')
+ */
+function getAddDefinitionFixes(
+    deploymentTemplate: DeploymentTemplate,
+    issue: language.Issue,
+    sectionName: string,
+    title: string,
+    definitionValue: unknown
+): QuickFix[] {
+    const topLevelValue: Json.ObjectValue | null = Json.asObjectValue(deploymentTemplate.jsonParseResult.value);
+    const tleInfo = deploymentTemplate.getContextFromDocumentCharacterIndex(issue.span.startIndex + 1).tleInfo;
+    const tleString: TLE.StringValue | null = tleInfo ? TLE.asStringValue(tleInfo.tleValue) : null;
+    if (!topLevelValue || !tleInfo || !tleString || tleInfo.scope.scopeContext !== ScopeContext.TopLevel) {
+        // User functions have their own parameters and can't use variables
+        return [];
+    }
+
+    const name: string = Utilities.unquote(tleString.toString()).replace(/''/g, "'");
+    if (!name) {
+        return [];
+    }
+
+    const edit: TextEdit = getInsertTemplateSectionPropertyEdit(
+        deploymentTemplate.documentText,
+        topLevelValue,
+        sectionName,
+        name,
+        (indentation: string, indentationUnit: string) => formatJsonValue(definitionValue, indentation, indentationUnit));
+    return [new QuickFix(title, issue, [edit], true)];
+}
+
+/**
+ * Suggests built-in functions with similar names to an unrecognized one
+ */
+function getDidYouMeanFixes(issue: UnrecognizedBuiltinFunctionIssue): QuickFix[] {
+    const functionName: string = issue.functionName.toLowerCase();
+    const maxDistance: number = Math.max(2, Math.floor(functionName.length / 3));
+
+    const suggestions: { metadata: BuiltinFunctionMetadata; distance: number }[] = [];
+    for (const metadata of AzureRMAssets.getFunctionsMetadata().functionMetadata) {
+        const distance: number = Utilities.getEditDistance(functionName, metadata.lowerCaseName);
+        if (distance <= maxDistance) {
+            suggestions.push({ metadata, distance });
+        }
+    }
+
+    suggestions.sort((a, b) => a.distance !== b.distance ? a.distance - b.distance : a.metadata.lowerCaseName.localeCompare(b.metadata.lowerCaseName));
+    return suggestions.slice(0, maxFunctionNameSuggestions).map((suggestion, index) =>
+        new QuickFix(`Did you mean '${suggestion.metadata.fullName}'?`, issue, [new TextEdit(issue.span, suggestion.metadata.fullName)], index === 0));
+}
+
+/**
+ * Removes the definition of an unused parameter, variable or user function
+ */
+function getRemoveDefinitionFixes(deploymentTemplate: DeploymentTemplate, issue: language.Issue): QuickFix[] {
+    // The issue is reported at the name of the definition
+    const found = findPropertyByNameSpan(deploymentTemplate.jsonParseResult.value, issue.span);
+    if (!found) {
+        // e.g. variables defined in a copy block
+        return [];
+    }
+
+    return [new QuickFix("Remove unused definition", issue, [getRemovePropertyEdit(deploymentTemplate.documentText, found.objectValue, found.property)])];
+}
+
+/**
+ * Changes a resourceId(), reference() or list*() call to refer to the closest declared resource
+ */
+function getClosestResourceFixes(issue: ResourceReferenceIssue): QuickFix[] {
+    if (issue.suggestion === undefined || issue.edits.length === 0) {
+        return [];
+    }
+
+    return [new QuickFix(`Change to '${issue.suggestion}'`, issue, issue.edits, true)];
+}
+
+/**
+ * Inserts placeholders for arguments that are missing from a function call
+ */
+function getInsertMissingArgumentsFixes(deploymentTemplate: DeploymentTemplate, issue: IncorrectArgumentsCountIssue): QuickFix[] {
+    if (issue.actual >= issue.minExpected) {
+        return [];
+    }
+
+    const context = deploymentTemplate.getContextFromDocumentCharacterIndex(issue.span.startIndex);
+    const tleInfo = context.tleInfo;
+    if (!tleInfo) {
+        return [];
+    }
+
+    // Find the function call that the issue is about
+    const jsonTokenStartIndex: number = context.jsonTokenStartIndex;
+    let tleFunction: TLE.FunctionCallValue | null = null;
+    for (let tleValue: TLE.Value | null = tleInfo.tleValue; tleValue; tleValue = tleValue.parent) {
+        const call: TLE.FunctionCallValue | null = TLE.asFunctionCallValue(tleValue);
+        if (call && call.getSpan().translate(jsonTokenStartIndex).startIndex === issue.span.startIndex) {
+            tleFunction = call;
+            break;
+        }
+    }
+    if (!tleFunction || !tleFunction.rightParenthesisToken) {
+        return [];
+    }
+
+    const parameterNames: string[] = getParameterNames(tleFunction);
+    const placeholders: string[] = [];
+    for (let i = issue.actual; i < issue.minExpected; ++i) {
+        // tslint:disable-next-line: strict-boolean-expressions
+        const parameterName: string = (parameterNames[i] || "").replace(/[\[\]\.]/g, "").trim() || `arg${i + 1}`;
+        placeholders.push(`'${parameterName}'`);
+    }
+
+    const insertIndex: number = tleFunction.rightParenthesisToken.span.startIndex + jsonTokenStartIndex;
+    const newText: string = (issue.actual > 0 ? ", " : "") + placeholders.join(", ");
+    return [new QuickFix("Insert missing arguments", issue, [new TextEdit(new language.Span(insertIndex, 0), newText)], true)];
+}
+
+function getParameterNames(tleFunction: TLE.FunctionCallValue): string[] {
+    if (tleFunction.isUserDefinedFunction) {
+        const namespaceName: string | null = tleFunction.namespace;
+        const functionName: string | null = tleFunction.name;
+        const functionDefinition: UserFunctionDefinition | null = namespaceName && functionName
+            ? tleFunction.scope.getUserFunctionDefinition(namespaceName, functionName) : null;
+        return functionDefinition ? functionDefinition.parameterDefinitions.map(p => p.nameValue.unquotedValue) : [];
+    }
+
+    const metadata: BuiltinFunctionMetadata | undefined = tleFunction.name ? AzureRMAssets.getFunctionMetadataFromName(tleFunction.name) : undefined;
+    return metadata ? metadata.parameters.map(p => p.name) : [];
+}
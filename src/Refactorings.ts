@@ -0,0 +1,355 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { AzureRMAssets } from "./AzureRMAssets";
+import { templateKeys } from "./constants";
+import { DeploymentTemplate } from "./DeploymentTemplate";
+import { ExpressionType, getExpressionTypeFromJsonValue } from "./ExpressionType";
+import * as Json from "./JSON";
+import * as language from "./Language";
+import { IReferenceSite } from "./PositionContext";
+import { ReferenceList } from "./ReferenceList";
+import { ScopeContext } from "./TemplateScope";
+import * as TLE from "./TLE";
+import { findPropertyByNameSpan, getInsertTemplateSectionPropertyEdit, getLineIndentation, getRemovePropertyEdit, reindentText, TextEdit } from "./util/jsonEdits";
+import * as Utilities from "./Utilities";
+import { isVariableDefinition, IVariableDefinition, TopLevelCopyBlockVariableDefinition } from "./VariableDefinition";
+import { TypeInferenceVisitor } from "./visitors/TypeInferenceVisitor";
+
+/**
+ * The kinds of refactorings (these match the values of vscode.CodeActionKind)
+ */
+export enum RefactoringKind {
+    extract = "refactor.extract",
+    inline = "refactor.inline"
+}
+
+/**
+ * A refactoring of a deployment template
+ */
+export class Refactoring {
+    constructor(
+        public readonly title: string,
+        public readonly kind: RefactoringKind,
+        public readonly edits: TextEdit[],
+        // If set, the refactoring can't be applied, and this explains why
+        public readonly errorMessage?: string
+    ) {
+    }
+}
+
+/**
+ * The value being extracted, either a sub-expression inside a TLE string or an entire JSON value
+ */
+interface IExtractedValue {
+    // The span in the document that will be replaced by a reference to the new definition
+    span: language.Span;
+    // Creates the JSON text of the new definition's value
+    getValueText(indentation: string): string;
+    // Whether the reference will be inside an expression or replaces the whole JSON value
+    isInsideExpression: boolean;
+    // The inferred type of the value
+    valueType: ExpressionType | null;
+}
+
+/**
+ * Gets the refactorings that extract the selected sub-expression or JSON value into a new variable or parameter
+ */
+export function getExtractRefactorings(deploymentTemplate: DeploymentTemplate, selection: language.Span): Refactoring[] {
+    const topLevelValue: Json.ObjectValue | null = Json.asObjectValue(deploymentTemplate.jsonParseResult.value);
+    const span: language.Span | null = trimSpan(deploymentTemplate.documentText, selection);
+    if (!topLevelValue || !span || isInsideSection(topLevelValue, templateKeys.functions, span)) {
+        // User functions can't reference parameters or variables of the template
+        return [];
+    }
+
+    const extracted: IExtractedValue | null = getExtractedSubExpression(deploymentTemplate, span) || getExtractedJsonValue(deploymentTemplate, topLevelValue, span);
+    if (!extracted) {
+        return [];
+    }
+
+    const refactorings: Refactoring[] = [];
+    const documentText: string = deploymentTemplate.documentText;
+
+    if (!isInsideSection(topLevelValue, templateKeys.parameters, span)) {
+        // Variables can't be used in the parameters section
+        const variableName: string = getUniqueName(topLevelValue, templateKeys.variables, "newVariable");
+        refactorings.push(new Refactoring(
+            "Extract to variable",
+            RefactoringKind.extract,
+            [
+                getReplaceWithReferenceEdit(extracted, templateKeys.variables, variableName),
+                getInsertTemplateSectionPropertyEdit(documentText, topLevelValue, templateKeys.variables, variableName, extracted.getValueText)
+            ]));
+    }
+
+    const parameterName: string = getUniqueName(topLevelValue, templateKeys.parameters, "newParameter");
+    // tslint:disable-next-line: strict-boolean-expressions
+    const parameterType: ExpressionType = extracted.valueType || "string";
+    refactorings.push(new Refactoring(
+        "Extract to parameter",
+        RefactoringKind.extract,
+        [
+            getReplaceWithReferenceEdit(extracted, templateKeys.parameters, parameterName),
+            getInsertTemplateSectionPropertyEdit(
+                documentText,
+                topLevelValue,
+                templateKeys.parameters,
+                parameterName,
+                (indentation: string, indentationUnit: string) => {
+                    const propertyIndentation: string = indentation + indentationUnit;
+                    const typeText: string = `"type": ${JSON.stringify(parameterType)}`;
+                    const defaultValueText: string = `"defaultValue": ${extracted.getValueText(propertyIndentation)}`;
+                    return `{\n${propertyIndentation}${typeText},\n${propertyIndentation}${defaultValueText}\n${indentation}}`;
+                })
+        ]));
+
+    return refactorings;
+}
+
+/**
+ * Finds the smallest TLE expression inside a single JSON string that contains the selection
+ */
+function getExtractedSubExpression(deploymentTemplate: DeploymentTemplate, span: language.Span): IExtractedValue | null {
+    const context = deploymentTemplate.getContextFromDocumentCharacterIndex(span.startIndex);
+    const jsonToken: Json.Token | null = context.jsonToken;
+    const tleInfo = context.tleInfo;
+    if (!jsonToken || !tleInfo || !tleInfo.tleParseResult.leftSquareBracketToken || tleInfo.scope.scopeContext !== ScopeContext.TopLevel) {
+        return null;
+    }
+
+    const tleStartIndex: number = span.startIndex - jsonToken.span.startIndex;
+    const tleEndIndex: number = span.endIndex - jsonToken.span.startIndex;
+    let tleValue: TLE.Value | null = tleInfo.tleParseResult.getValueAtCharacterIndex(tleStartIndex);
+    while (tleValue && !(tleValue.getSpan().startIndex <= tleStartIndex && tleEndIndex <= tleValue.getSpan().endIndex)) {
+        tleValue = tleValue.parent;
+    }
+    if (!tleValue) {
+        return null;
+    }
+
+    const valueSpan: language.Span = tleValue.getSpan().translate(jsonToken.span.startIndex);
+    const valueText: string = deploymentTemplate.documentText.substr(valueSpan.startIndex, valueSpan.length);
+    let jsonText: string;
+    if (tleValue instanceof TLE.StringValue) {
+        // A string literal becomes a plain JSON string (escaping a leading bracket so it's not treated as an expression)
+        jsonText = `"${Utilities.unquote(valueText).replace(/''/g, "'").replace(/^\[/, "[[")}"`;
+    } else if (tleValue instanceof TLE.NumberValue) {
+        jsonText = valueText;
+    } else {
+        jsonText = `"[${valueText}]"`;
+    }
+
+    return {
+        span: valueSpan,
+        getValueText: (): string => jsonText,
+        isInsideExpression: true,
+        valueType: new TypeInferenceVisitor(AzureRMAssets.getFunctionsMetadata()).getType(tleValue)
+    };
+}
+
+/**
+ * Finds the JSON value that matches the selection (for strings, the selection may or may not include the quotes)
+ */
+function getExtractedJsonValue(deploymentTemplate: DeploymentTemplate, topLevelValue: Json.ObjectValue, span: language.Span): IExtractedValue | null {
+    const jsonParseResult: Json.ParseResult = deploymentTemplate.jsonParseResult;
+    const value: Json.Value | null = jsonParseResult.getValueAtCharacterIndex(span.startIndex);
+    if (!value || value === topLevelValue || value instanceof Json.Property || findPropertyByNameSpan(topLevelValue, value.span)) {
+        return null;
+    }
+
+    const matchesSelection: boolean = value.span.startIndex === span.startIndex && value.span.endIndex === span.endIndex;
+    const matchesStringContents: boolean = value instanceof Json.StringValue
+        && value.span.startIndex + 1 === span.startIndex && value.span.endIndex - 1 === span.endIndex;
+    if (!matchesSelection && !matchesStringContents) {
+        return null;
+    }
+
+    // Top-level sections (e.g. all of "resources") can't be extracted
+    if (topLevelValue.properties.some(p => p.value === value)) {
+        return null;
+    }
+
+    const documentText: string = deploymentTemplate.documentText;
+    // Copy the original text (including any comments), adjusted to its new indentation
+    const valueText: string = documentText.substr(value.span.startIndex, value.span.length);
+    const originalIndentation: string = getLineIndentation(documentText, value.span.startIndex);
+
+    return {
+        span: value.span,
+        getValueText: (indentation: string): string => reindentText(valueText, originalIndentation, indentation),
+        isInsideExpression: false,
+        valueType: getJsonValueType(deploymentTemplate, value)
+    };
+}
+
+function getJsonValueType(deploymentTemplate: DeploymentTemplate, value: Json.Value): ExpressionType | null {
+    const stringValue: Json.StringValue | null = Json.asStringValue(value);
+    if (stringValue) {
+        const tleParseResult: TLE.ParseResult = deploymentTemplate.getTLEParseResultFromJsonStringValue(stringValue);
+        if (tleParseResult.leftSquareBracketToken && tleParseResult.expression) {
+            return new TypeInferenceVisitor(AzureRMAssets.getFunctionsMetadata()).getType(tleParseResult.expression);
+        }
+    }
+
+    return getExpressionTypeFromJsonValue(value);
+}
+
+/**
+ * Gets the refactoring that replaces all references to the variable at the given position (either a
+ * variables('x') reference or the variable's definition) with the variable's value, and removes the definition
+ */
+export function getInlineRefactorings(deploymentTemplate: DeploymentTemplate, documentCharacterIndex: number): Refactoring[] {
+    const topLevelValue: Json.ObjectValue | null = Json.asObjectValue(deploymentTemplate.jsonParseResult.value);
+    const variableDefinition: IVariableDefinition | null = getVariableDefinitionAtPosition(deploymentTemplate, documentCharacterIndex);
+    if (!topLevelValue || !variableDefinition) {
+        return [];
+    }
+
+    const title: string = "Inline variable";
+    const variableName: string = variableDefinition.nameValue.unquotedValue;
+    const refuse = (message: string): Refactoring[] => [new Refactoring(title, RefactoringKind.inline, [], message)];
+
+    if (variableDefinition instanceof TopLevelCopyBlockVariableDefinition) {
+        return refuse(`Variable '${variableName}' is defined in a copy block and can't be inlined.`);
+    }
+
+    const found = findPropertyByNameSpan(topLevelValue, variableDefinition.nameValue.span);
+    const value: Json.Value | null = found ? found.property.value : null;
+    if (!found || !value) {
+        return refuse(`Variable '${variableName}' has no value to inline.`);
+    }
+
+    const documentText: string = deploymentTemplate.documentText;
+    const edits: TextEdit[] = [];
+    const references: ReferenceList = deploymentTemplate.findReferences(variableDefinition);
+    for (const referenceSpan of references.spans) {
+        if (referenceSpan.startIndex === variableDefinition.nameValue.unquotedSpan.startIndex) {
+            // The definition itself
+            continue;
+        }
+
+        const context = deploymentTemplate.getContextFromDocumentCharacterIndex(referenceSpan.startIndex);
+        const tleInfo = context.tleInfo;
+        const jsonToken: Json.Token | null = context.jsonToken;
+        const tleFunction: TLE.FunctionCallValue | null = tleInfo && tleInfo.tleValue ? TLE.asFunctionCallValue(tleInfo.tleValue.parent) : null;
+        if (!jsonToken || !tleInfo || !tleFunction) {
+            return refuse(`Couldn't find a reference to variable '${variableName}'.`);
+        }
+
+        const isWholeString: boolean = tleInfo.tleParseResult.expression === tleFunction;
+        const edit: TextEdit | undefined = isWholeString
+            // Replace the entire JSON string, e.g. "[variables('x')]"
+            ? new TextEdit(jsonToken.span, getInlinedJsonText(deploymentTemplate, value, getLineIndentation(documentText, jsonToken.span.startIndex)))
+            // Replace just the variables('x') call inside the expression
+            : getInlinedExpressionEdit(deploymentTemplate, value, tleFunction.getSpan().translate(jsonToken.span.startIndex));
+        if (!edit) {
+            return refuse(`Variable '${variableName}' can't be inlined because its value is an object or array and it's referenced inside a larger expression.`);
+        }
+
+        edits.push(edit);
+    }
+
+    edits.push(getRemovePropertyEdit(deploymentTemplate.documentText, found.objectValue, found.property));
+    return [new Refactoring(title, RefactoringKind.inline, edits)];
+}
+
+function getVariableDefinitionAtPosition(deploymentTemplate: DeploymentTemplate, documentCharacterIndex: number): IVariableDefinition | null {
+    const context = deploymentTemplate.getContextFromDocumentCharacterIndex(documentCharacterIndex);
+    if (!context.tleInfo || context.tleInfo.scope.scopeContext !== ScopeContext.TopLevel) {
+        return null;
+    }
+
+    // A variables('x') reference
+    const referenceSite: IReferenceSite | null = context.getReferenceSiteInfo();
+    if (referenceSite) {
+        return isVariableDefinition(referenceSite.definition) ? referenceSite.definition : null;
+    }
+
+    // The name of the variable's definition
+    const jsonStringValue: Json.StringValue | null = Json.asStringValue(context.jsonValue);
+    const variableDefinition: IVariableDefinition | null = jsonStringValue ? context.tleInfo.scope.getVariableDefinition(jsonStringValue.unquotedValue) : null;
+    return variableDefinition && variableDefinition.nameValue === jsonStringValue ? variableDefinition : null;
+}
+
+/**
+ * Gets the JSON text that replaces an entire JSON string that references a variable
+ */
+function getInlinedJsonText(deploymentTemplate: DeploymentTemplate, value: Json.Value, indentation: string): string {
+    const documentText: string = deploymentTemplate.documentText;
+    const valueText: string = documentText.substr(value.span.startIndex, value.span.length);
+    return reindentText(valueText, getLineIndentation(documentText, value.span.startIndex), indentation);
+}
+
+/**
+ * Gets the edit that replaces a variables('x') call inside an expression with the equivalent expression,
+ * or undefined if the value can't be represented inside an expression
+ */
+function getInlinedExpressionEdit(deploymentTemplate: DeploymentTemplate, value: Json.Value, callSpan: language.Span): TextEdit | undefined {
+    const documentText: string = deploymentTemplate.documentText;
+    const valueText: string = documentText.substr(value.span.startIndex, value.span.length);
+
+    const stringValue: Json.StringValue | null = Json.asStringValue(value);
+    if (stringValue) {
+        const tleParseResult: TLE.ParseResult = deploymentTemplate.getTLEParseResultFromJsonStringValue(stringValue);
+        const leftBracket: TLE.Token | null = tleParseResult.leftSquareBracketToken;
+        const rightBracket: TLE.Token | null = tleParseResult.rightSquareBracketToken;
+        if (leftBracket && rightBracket) {
+            // An expression, use it without the brackets
+            const expressionText: string = valueText.substring(leftBracket.span.afterEndIndex, rightBracket.span.startIndex).trim();
+            return new TextEdit(callSpan, expressionText);
+        }
+
+        // A string literal, which needs to be quoted (a leading "[[" is the escape for a literal "[")
+        const literalText: string = Utilities.unquote(valueText).replace(/^\[\[/, "[");
+        return new TextEdit(callSpan, `'${literalText.replace(/'/g, "''")}'`);
+    }
+
+    if (value instanceof Json.NumberValue && /^-?\d+$/.test(valueText)) {
+        return new TextEdit(callSpan, valueText);
+    } else if (value instanceof Json.BooleanValue) {
+        return new TextEdit(callSpan, `${valueText}()`);
+    }
+
+    return undefined;
+}
+
+function getReplaceWithReferenceEdit(extracted: IExtractedValue, sectionName: string, name: string): TextEdit {
+    const reference: string = `${sectionName}('${name}')`;
+    return new TextEdit(extracted.span, extracted.isInsideExpression ? reference : `"[${reference}]"`);
+}
+
+/**
+ * Gets a name based on the given one that isn't already used in the given top-level section
+ */
+function getUniqueName(topLevelValue: Json.ObjectValue, sectionName: string, baseName: string): string {
+    const section: Json.ObjectValue | null = Json.asObjectValue(topLevelValue.getPropertyValue(sectionName));
+    let name: string = baseName;
+    for (let i = 2; section && section.hasProperty(name); ++i) {
+        name = `${baseName}${i}`;
+    }
+
+    return name;
+}
+
+function isInsideSection(topLevelValue: Json.ObjectValue, sectionName: string, span: language.Span): boolean {
+    const section: Json.Value | null = topLevelValue.getPropertyValue(sectionName);
+    return !!section && section.span.contains(span.startIndex);
+}
+
+/**
+ * Removes whitespace from the ends of a selection, returning null if nothing is left
+ */
+function trimSpan(documentText: string, span: language.Span): language.Span | null {
+    let startIndex: number = span.startIndex;
+    let afterEndIndex: number = span.afterEndIndex;
+    while (startIndex < afterEndIndex && Utilities.isWhitespaceCharacter(documentText[startIndex])) {
+        ++startIndex;
+    }
+    while (afterEndIndex > startIndex && Utilities.isWhitespaceCharacter(documentText[afterEndIndex - 1])) {
+        --afterEndIndex;
+    }
+
+    return startIndex < afterEndIndex ? new language.Span(startIndex, afterEndIndex - startIndex) : null;
+}
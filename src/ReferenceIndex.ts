@@ -0,0 +1,59 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { BuiltinFunctionMetadata } from "./AzureRMAssets";
+import { INamedDefinition } from "./INamedDefinition";
+import * as language from "./Language";
+import { ReferenceList } from "./ReferenceList";
+
+/**
+ * The references to each parameter, variable, user function, namespace, output and built-in function
+ * in a template, collected in a single pass over the template's expressions
+ */
+export class ReferenceIndex {
+    private _references: Map<INamedDefinition, language.Span[]> = new Map<INamedDefinition, language.Span[]>();
+
+    // Built-in function metadata is not guaranteed to be the same object each time it's retrieved, so calls
+    // to built-in functions are indexed by their lower-cased name instead
+    private _builtinFunctionReferences: Map<string, language.Span[]> = new Map<string, language.Span[]>();
+
+    public add(definition: INamedDefinition, span: language.Span): void {
+        addSpan(this._references, definition, span);
+    }
+
+    public addBuiltinFunctionCall(lowerCaseName: string, span: language.Span): void {
+        addSpan(this._builtinFunctionReferences, lowerCaseName, span);
+    }
+
+    /**
+     * Gets the places where the given definition is used (not including the definition itself)
+     */
+    public getReferences(definition: INamedDefinition): ReferenceList {
+        // tslint:disable-next-line: strict-boolean-expressions
+        const spans: language.Span[] = this.getSpans(definition) || [];
+        return new ReferenceList(definition.definitionKind, spans.slice());
+    }
+
+    public getReferenceCount(definition: INamedDefinition): number {
+        const spans: language.Span[] | undefined = this.getSpans(definition);
+        return spans ? spans.length : 0;
+    }
+
+    private getSpans(definition: INamedDefinition): language.Span[] | undefined {
+        if (definition instanceof BuiltinFunctionMetadata) {
+            return this._builtinFunctionReferences.get(definition.lowerCaseName);
+        }
+
+        return this._references.get(definition);
+    }
+}
+
+function addSpan<TKey>(map: Map<TKey, language.Span[]>, key: TKey, span: language.Span): void {
+    const spans: language.Span[] | undefined = map.get(key);
+    if (spans) {
+        spans.push(span);
+    } else {
+        map.set(key, [span]);
+    }
+}
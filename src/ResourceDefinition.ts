@@ -0,0 +1,164 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { templateKeys } from './constants';
+import { assert } from './fixed_assert';
+import { IUsageInfo } from './Hover';
+import { DefinitionKind, INamedDefinition } from './INamedDefinition';
+import * as Json from "./JSON";
+
+/**
+ * This class represents the declaration of a resource in a template's "resources" array, or in the
+ * "resources" array of a parent resource, e.g.
+ *
+ *   "resources": [
+ *     {  << This is a ResourceDefinition
+ *       "type": "Microsoft.Network/virtualNetworks",
+ *       "name": "vnet",
+ *       "dependsOn": [ ... ],
+ *       "resources": [
+ *         {  << So is this (a child resource, with a type and name relative to its parent)
+ *           "type": "subnets",
+ *           "name": "subnet1"
+ *         }
+ *       ]
+ *     }
+ *   ]
+ */
+export class ResourceDefinition implements INamedDefinition {
+    public readonly definitionKind: DefinitionKind = DefinitionKind.Resource;
+    private _children: ResourceDefinition[] = [];
+
+    constructor(
+        public readonly resourceObject: Json.ObjectValue,
+        public readonly parent: ResourceDefinition | undefined
+    ) {
+        assert(resourceObject);
+
+        const childResources: Json.ArrayValue | null = Json.asArrayValue(resourceObject.getPropertyValue(templateKeys.resources));
+        this._children = getResourceDefinitions(childResources, this);
+    }
+
+    /**
+     * Child resources declared inside this resource
+     */
+    public get children(): ResourceDefinition[] {
+        return this._children;
+    }
+
+    public get typeValue(): Json.StringValue | null {
+        return Json.asStringValue(this.resourceObject.getPropertyValue(templateKeys.resourceType));
+    }
+
+    public get nameValue(): Json.StringValue | undefined {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return Json.asStringValue(this.resourceObject.getPropertyValue(templateKeys.resourceName)) || undefined;
+    }
+
+    public get apiVersionValue(): Json.StringValue | null {
+        return Json.asStringValue(this.resourceObject.getPropertyValue(templateKeys.resourceApiVersion));
+    }
+
+    /**
+     * The string entries in the resource's "dependsOn" array
+     */
+    public get dependsOnValues(): Json.StringValue[] {
+        const dependsOn: Json.ArrayValue | null = Json.asArrayValue(this.resourceObject.getPropertyValue(templateKeys.resourceDependsOn));
+        const values: Json.StringValue[] = [];
+        if (dependsOn) {
+            for (const element of dependsOn.elements) {
+                const stringValue: Json.StringValue | null = Json.asStringValue(element);
+                if (stringValue) {
+                    values.push(stringValue);
+                }
+            }
+        }
+
+        return values;
+    }
+
+    /**
+     * The name of the copy loop the resource is deployed in, if any (other resources can depend on
+     * all of the copies by using the loop's name)
+     */
+    public get copyName(): string | undefined {
+        const copy: Json.ObjectValue | null = Json.asObjectValue(this.resourceObject.getPropertyValue(templateKeys.loopVarCopy));
+        const name: Json.StringValue | null = copy ? Json.asStringValue(copy.getPropertyValue(templateKeys.loopVarName)) : null;
+        return name ? name.unquotedValue : undefined;
+    }
+
+    /**
+     * Whether the type is relative to the parent resource's type (e.g. "subnets" inside a virtual network)
+     */
+    public get hasRelativeType(): boolean {
+        const typeValue = this.typeValue;
+        return !!this.parent && !!typeValue && !typeValue.unquotedValue.includes("/");
+    }
+
+    /**
+     * The full name of the resource for display, e.g. "vnet/subnet1" for a child resource
+     */
+    public get displayName(): string {
+        const nameValue: Json.StringValue | undefined = this.nameValue;
+        const name: string = nameValue ? nameValue.unquotedValue : "(unnamed)";
+        return this.parent && this.hasRelativeType ? `${this.parent.displayName}/${name}` : name;
+    }
+
+    /**
+     * The full type of the resource for display, e.g. "Microsoft.Network/virtualNetworks/subnets" for a
+     * child resource with type "subnets"
+     */
+    public get typeDisplayName(): string {
+        const typeValue: Json.StringValue | null = this.typeValue;
+        const resourceType: string = typeValue ? typeValue.unquotedValue : "(unknown type)";
+        return this.parent && this.hasRelativeType ? `${this.parent.typeDisplayName}/${resourceType}` : resourceType;
+    }
+
+    public get usageInfo(): IUsageInfo {
+        return {
+            usage: this.displayName,
+            friendlyType: "resource",
+            description: this.typeDisplayName
+        };
+    }
+
+    /**
+     * Convenient way of seeing what this object represents in the debugger, shouldn't be used for production code
+     */
+    public get __debugDisplay(): string {
+        const nameValue = this.nameValue;
+        return nameValue ? nameValue.toString() : "(unnamed resource)";
+    }
+}
+
+/**
+ * Gets the resources declared in the given resources array (child resources are available from each
+ * resource's children)
+ */
+export function getResourceDefinitions(resources: Json.ArrayValue | null, parent?: ResourceDefinition): ResourceDefinition[] {
+    const definitions: ResourceDefinition[] = [];
+
+    if (resources) {
+        for (const resource of resources.elements) {
+            const resourceObject: Json.ObjectValue | null = Json.asObjectValue(resource);
+            if (resourceObject) {
+                definitions.push(new ResourceDefinition(resourceObject, parent));
+            }
+        }
+    }
+
+    return definitions;
+}
+
+/**
+ * Lists the given resources and all of their descendants, with parents before their children
+ */
+export function flattenResourceDefinitions(resources: ResourceDefinition[]): ResourceDefinition[] {
+    const flattened: ResourceDefinition[] = [];
+    for (const resource of resources) {
+        flattened.push(resource, ...flattenResourceDefinitions(resource.children));
+    }
+
+    return flattened;
+}
@@ -0,0 +1,531 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { CachedValue } from './CachedValue';
+import { templateKeys } from './constants';
+import { DeploymentTemplate } from './DeploymentTemplate';
+import { assert } from './fixed_assert';
+import * as Json from "./JSON";
+import * as language from "./Language";
+import { flattenResourceDefinitions, ResourceDefinition } from './ResourceDefinition';
+import { TemplateScope } from './TemplateScope';
+import * as TLE from "./TLE";
+import * as Utilities from "./Utilities";
+import { IVariableDefinition } from './VariableDefinition';
+import { GenericStringVisitor } from './visitors/GenericStringVisitor';
+import { isReferenceOrListCall } from './visitors/ResourceReferenceVisitor';
+
+// Functions that create a resource ID from a resource type and name segments, optionally preceded by
+// scope arguments (subscription ID, resource group name or parent resource ID)
+const resourceIdFunctions: string[] = ["resourceId", "subscriptionResourceId", "tenantResourceId", "extensionResourceId"];
+
+// Functions that can be compared by their text when matching resource names
+const simpleNameFunctions: string[] = ["concat", "parameters", "variables", "copyIndex"];
+
+/**
+ * An entry in a resource's "dependsOn" array
+ */
+export interface IResourceDependency {
+    resource: ResourceDefinition;
+    dependsOnValue: Json.StringValue;
+    // The resources the entry refers to (empty if it couldn't be resolved)
+    targets: ResourceDefinition[];
+    // Whether the entry is certain not to refer to a resource in this template if there are no targets
+    isDefinitelyUnresolved: boolean;
+}
+
+/**
+ * A call to reference() inside a resource that refers to another resource in the template
+ */
+export interface IResourceReference {
+    resource: ResourceDefinition;
+    // The span of the call in the document
+    span: language.Span;
+    targets: ResourceDefinition[];
+}
+
+/**
+ * A comparable form of a resource's full type and name. Literal text is lower-cased, and expressions that
+ * can't be evaluated offline are represented by their (normalized) text in braces.
+ */
+interface IResourceKey {
+    typeKey: string;
+    nameKey: string;
+    // Whether the name is made up only of literals, parameters, variables and copy indices (so that any
+    // reference to the resource by an equivalent name will have the same key)
+    isSimpleName: boolean;
+}
+
+interface IExpressionKey {
+    key: string;
+    isSimple: boolean;
+}
+
+/**
+ * The resources in a template and the dependencies between them
+ */
+export class ResourceDependencyGraph {
+    private _resources: ResourceDefinition[];
+    private _keys: Map<ResourceDefinition, IResourceKey> = new Map<ResourceDefinition, IResourceKey>();
+    private _dependencies: CachedValue<IResourceDependency[]> = new CachedValue<IResourceDependency[]>();
+    private _references: CachedValue<IResourceReference[]> = new CachedValue<IResourceReference[]>();
+    private _referenceSpans: CachedValue<Map<ResourceDefinition, language.Span[]>> = new CachedValue<Map<ResourceDefinition, language.Span[]>>();
+
+    constructor(private readonly _deploymentTemplate: DeploymentTemplate, topLevelResources: ResourceDefinition[]) {
+        assert(_deploymentTemplate);
+
+        this._resources = flattenResourceDefinitions(topLevelResources);
+    }
+
+    /**
+     * All resources in the template, including child resources (parents come before their children)
+     */
+    public get resources(): ResourceDefinition[] {
+        return this._resources;
+    }
+
+    /**
+     * All "dependsOn" entries of all resources
+     */
+    public get dependencies(): IResourceDependency[] {
+        return this._dependencies.getOrCacheValue(() => {
+            const dependencies: IResourceDependency[] = [];
+            for (const resource of this._resources) {
+                for (const dependsOnValue of resource.dependsOnValues) {
+                    dependencies.push(this.resolveDependency(resource, dependsOnValue));
+                }
+            }
+
+            return dependencies;
+        });
+    }
+
+    /**
+     * Finds the resources identified by a resourceId() (or similar) function call
+     */
+    public findResourcesFromResourceIdCall(resourceIdCall: TLE.FunctionCallValue, scope: TemplateScope): ResourceDefinition[] {
+        const resourceIdKey: { typeKey: string; nameKey: string } | undefined = this.getResourceIdKey(resourceIdCall, scope);
+        if (!resourceIdKey) {
+            return [];
+        }
+
+        return this._resources.filter(resource => {
+            const key: IResourceKey = this.getResourceKey(resource);
+            return key.typeKey === resourceIdKey.typeKey && key.nameKey === resourceIdKey.nameKey;
+        });
+    }
+
+    /**
+     * Finds the resources that a string identifying a resource refers to. The string can be a resource name,
+     * a type and name ("Microsoft.Storage/storageAccounts/mystorage"), the name of a copy loop, or an
+     * expression for any of these (including resourceId()).
+     */
+    public findResources(value: Json.StringValue): ResourceDefinition[] {
+        const tleParseResult: TLE.ParseResult = this._deploymentTemplate.getTLEParseResultFromJsonStringValue(value);
+        if (tleParseResult.leftSquareBracketToken) {
+            return this.findResourcesFromExpression(tleParseResult.expression, tleParseResult.scope);
+        }
+
+        return this.findResourcesFromKey(this.getJsonStringKey(value).key);
+    }
+
+    /**
+     * Finds the resources that an expression identifying a resource refers to (e.g. the argument to reference())
+     */
+    public findResourcesFromExpression(value: TLE.Value | null, scope: TemplateScope): ResourceDefinition[] {
+        const functionCall: TLE.FunctionCallValue | null = TLE.asFunctionCallValue(value);
+        if (functionCall && isResourceIdCall(functionCall)) {
+            return this.findResourcesFromResourceIdCall(functionCall, scope);
+        }
+
+        return this.findResourcesFromKey(this.getExpressionKey(value, scope, 0).key);
+    }
+
+    /**
+     * All calls to reference() in resources that refer to other resources in the template (implicit
+     * dependencies)
+     */
+    public get references(): IResourceReference[] {
+        return this._references.getOrCacheValue(() => {
+            const references: IResourceReference[] = [];
+            for (const resource of this._resources) {
+                for (const property of resource.resourceObject.properties) {
+                    if (property.nameValue.unquotedValue.toLowerCase() === templateKeys.resources.toLowerCase()) {
+                        // Child resources have their own references
+                        continue;
+                    }
+
+                    if (property.value) {
+                        GenericStringVisitor.visit(property.value, stringValue => {
+                            references.push(...this.getReferences(resource, stringValue));
+                        });
+                    }
+                }
+            }
+
+            return references;
+        });
+    }
+
+    /**
+     * Gets warnings for unresolved dependencies, redundant dependencies on parent resources and dependency cycles
+     */
+    public getIssues(): language.Issue[] {
+        const issues: language.Issue[] = [];
+
+        for (const dependency of this.dependencies) {
+            const dependencyText: string = dependency.dependsOnValue.unquotedValue;
+            if (dependency.targets.length === 0) {
+                if (dependency.isDefinitelyUnresolved) {
+                    issues.push(new language.Issue(
+                        dependency.dependsOnValue.span,
+                        `The dependency '${dependencyText}' does not match any resource in this template.`,
+                        language.IssueKind.unresolvedDependency));
+                }
+            } else if (dependency.resource.parent && dependency.targets.every(target => target === dependency.resource.parent)) {
+                issues.push(new language.Issue(
+                    dependency.dependsOnValue.span,
+                    `The dependency on parent resource '${dependency.resource.parent.displayName}' is redundant because nested child resources are deployed after their parent.`,
+                    language.IssueKind.redundantParentDependency));
+            }
+        }
+
+        issues.push(...this.findDependencyCycles());
+        return issues;
+    }
+
+    /**
+     * Finds the spans of all resourceId(), reference() and list*() calls and "dependsOn" entries that refer
+     * to the given resource
+     */
+    public findReferences(resource: ResourceDefinition): language.Span[] {
+        // tslint:disable-next-line: strict-boolean-expressions
+        const spans: language.Span[] = this.referenceSpans.get(resource) || [];
+        return spans.slice().sort((a, b) => a.startIndex - b.startIndex);
+    }
+
+    /**
+     * The spans referring to each resource, found in a single pass over the template's expressions
+     */
+    private get referenceSpans(): Map<ResourceDefinition, language.Span[]> {
+        return this._referenceSpans.getOrCacheValue(() => {
+            const referenceSpans = new Map<ResourceDefinition, language.Span[]>();
+            const add = (resources: ResourceDefinition[], span: language.Span): void => {
+                for (const resource of new Set<ResourceDefinition>(resources)) {
+                    const spans: language.Span[] | undefined = referenceSpans.get(resource);
+                    if (spans) {
+                        spans.push(span);
+                    } else {
+                        referenceSpans.set(resource, [span]);
+                    }
+                }
+            };
+
+            const topLevelValue: Json.Value | null = this._deploymentTemplate.jsonParseResult.value;
+            if (topLevelValue) {
+                GenericStringVisitor.visit(topLevelValue, stringValue => {
+                    const tleParseResult: TLE.ParseResult = this._deploymentTemplate.getTLEParseResultFromJsonStringValue(stringValue);
+                    const visitor: ResourceCallVisitor = ResourceCallVisitor.visit(tleParseResult.expression);
+                    for (const resourceIdCall of visitor.resourceIdCalls) {
+                        add(this.findResourcesFromResourceIdCall(resourceIdCall, tleParseResult.scope), resourceIdCall.getSpan().translate(stringValue.startIndex));
+                    }
+                    for (const referenceCall of visitor.referenceCalls) {
+                        // Resource IDs passed to reference() are found as resourceId() calls
+                        const resourceArgument: TLE.Value | null = referenceCall.argumentExpressions[0];
+                        const argumentCall: TLE.FunctionCallValue | null = TLE.asFunctionCallValue(resourceArgument);
+                        if (resourceArgument && !(argumentCall && isResourceIdCall(argumentCall))) {
+                            add(this.findResourcesFromExpression(resourceArgument, tleParseResult.scope), resourceArgument.getSpan().translate(stringValue.startIndex));
+                        }
+                    }
+                });
+            }
+
+            for (const dependency of this.dependencies) {
+                const tleParseResult: TLE.ParseResult = this._deploymentTemplate.getTLEParseResultFromJsonStringValue(dependency.dependsOnValue);
+                if (!this.asResourceIdCall(tleParseResult)) {
+                    add(dependency.targets, dependency.dependsOnValue.span);
+                }
+            }
+
+            return referenceSpans;
+        });
+    }
+
+    private resolveDependency(resource: ResourceDefinition, dependsOnValue: Json.StringValue): IResourceDependency {
+        const targets: ResourceDefinition[] = this.findResources(dependsOnValue);
+        return {
+            resource,
+            dependsOnValue,
+            targets,
+            isDefinitelyUnresolved: targets.length === 0 && this.isDefinitelyUnresolvable(dependsOnValue)
+        };
+    }
+
+    /**
+     * Determines whether a dependency that matches no resources can't refer to a resource in this template
+     * (as opposed to just being written differently than the resource's name in a way we can't compare)
+     */
+    private isDefinitelyUnresolvable(dependsOnValue: Json.StringValue): boolean {
+        const tleParseResult: TLE.ParseResult = this._deploymentTemplate.getTLEParseResultFromJsonStringValue(dependsOnValue);
+        if (tleParseResult.errors.length > 0) {
+            return false;
+        }
+
+        const resourceIdCall: TLE.FunctionCallValue | null = this.asResourceIdCall(tleParseResult);
+        if (resourceIdCall) {
+            const resourceIdKey = this.getResourceIdKey(resourceIdCall, tleParseResult.scope);
+            const typeIndex: number = this.getResourceTypeArgumentIndex(resourceIdCall);
+            if (!resourceIdKey || typeIndex !== 0 || !resourceIdCall.isCallToBuiltinWithName("resourceId")) {
+                // Could be a resource in another resource group or scope
+                return false;
+            }
+
+            const nameArgs = resourceIdCall.argumentExpressions.slice(typeIndex + 1);
+            return nameArgs.every(arg => this.getExpressionKey(arg, tleParseResult.scope, 0).isSimple) &&
+                this._resources.every(resource => {
+                    const key: IResourceKey = this.getResourceKey(resource);
+                    return key.typeKey !== resourceIdKey.typeKey || key.isSimpleName;
+                });
+        }
+
+        // Literal names can only be compared if all resource names can
+        return !tleParseResult.leftSquareBracketToken && this._resources.every(resource => this.getResourceKey(resource).isSimpleName);
+    }
+
+    private findDependencyCycles(): language.Issue[] {
+        const issues: language.Issue[] = [];
+
+        // Child resources implicitly depend on their parent
+        const edges: Map<ResourceDefinition, ResourceDefinition[]> = new Map<ResourceDefinition, ResourceDefinition[]>();
+        for (const resource of this._resources) {
+            edges.set(resource, resource.parent ? [resource.parent] : []);
+        }
+        for (const dependency of this.dependencies) {
+            // tslint:disable-next-line: no-non-null-assertion // All resources were added above
+            edges.get(dependency.resource)!.push(...dependency.targets);
+        }
+
+        // Report each dependsOn entry that is part of a cycle, showing the cycle
+        for (const dependency of this.dependencies) {
+            for (const target of dependency.targets) {
+                const path: ResourceDefinition[] | undefined = findPath(edges, target, dependency.resource);
+                if (path) {
+                    const cycle: string = [dependency.resource].concat(path)
+                        .map(resource => `'${resource.displayName}'`)
+                        .join(" -> ");
+                    issues.push(new language.Issue(
+                        dependency.dependsOnValue.span,
+                        `This dependency creates a cycle: ${cycle}`,
+                        language.IssueKind.dependencyCycle));
+                    break;
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    private getResourceKey(resource: ResourceDefinition): IResourceKey {
+        let key: IResourceKey | undefined = this._keys.get(resource);
+        if (!key) {
+            const typeValue: Json.StringValue | null = resource.typeValue;
+            const nameValue: Json.StringValue | undefined = resource.nameValue;
+            const typeKey: IExpressionKey = typeValue ? this.getJsonStringKey(typeValue) : { key: "", isSimple: false };
+            const nameKey: IExpressionKey = nameValue ? this.getJsonStringKey(nameValue) : { key: "", isSimple: false };
+
+            if (resource.parent && resource.hasRelativeType) {
+                const parentKey: IResourceKey = this.getResourceKey(resource.parent);
+                key = {
+                    typeKey: `${parentKey.typeKey}/${typeKey.key}`,
+                    nameKey: `${parentKey.nameKey}/${nameKey.key}`,
+                    isSimpleName: parentKey.isSimpleName && nameKey.isSimple
+                };
+            } else {
+                key = {
+                    typeKey: typeKey.key,
+                    nameKey: nameKey.key,
+                    isSimpleName: nameKey.isSimple
+                };
+            }
+
+            this._keys.set(resource, key);
+        }
+
+        return key;
+    }
+
+    private getJsonStringKey(value: Json.StringValue, depth: number = 0): IExpressionKey {
+        const tleParseResult: TLE.ParseResult = this._deploymentTemplate.getTLEParseResultFromJsonStringValue(value);
+        if (!tleParseResult.leftSquareBracketToken) {
+            // Not an expression ("[[" at the start escapes a literal "[")
+            const unquoted: string = value.unquotedValue;
+            return { key: (unquoted.startsWith("[[") ? unquoted.substr(1) : unquoted).toLowerCase(), isSimple: true };
+        }
+
+        return this.getExpressionKey(tleParseResult.expression, tleParseResult.scope, depth);
+    }
+
+    private getExpressionKey(value: TLE.Value | null, scope: TemplateScope, depth: number): IExpressionKey {
+        const stringValue: TLE.StringValue | null = TLE.asStringValue(value);
+        if (stringValue) {
+            return { key: Utilities.unquote(stringValue.toString()).replace(/''/g, "'").toLowerCase(), isSimple: true };
+        }
+
+        const functionCall: TLE.FunctionCallValue | null = TLE.asFunctionCallValue(value);
+        if (functionCall && functionCall.isCallToBuiltinWithName("concat")) {
+            const argKeys: IExpressionKey[] = functionCall.argumentExpressions.map(arg => this.getExpressionKey(arg, scope, depth));
+            return { key: argKeys.map(k => k.key).join(""), isSimple: argKeys.every(k => k.isSimple) };
+        }
+
+        // Use the value of variables that are defined as strings, so that names given directly and names
+        // given through a variable can be compared (the depth limit protects against circular variables)
+        const variableDefinition: IVariableDefinition | null = functionCall && functionCall.isCallToBuiltinWithName("variables") ?
+            scope.getVariableDefinitionFromFunctionCall(functionCall) : null;
+        const variableValue: Json.StringValue | null = variableDefinition ? Json.asStringValue(variableDefinition.value) : null;
+        if (variableValue && depth < 10) {
+            return this.getJsonStringKey(variableValue, depth + 1);
+        }
+
+        return {
+            key: `{${value ? value.toString().toLowerCase() : ""}}`,
+            isSimple: !!functionCall && simpleNameFunctions.some(name => functionCall.isCallToBuiltinWithName(name))
+        };
+    }
+
+    private asResourceIdCall(tleParseResult: TLE.ParseResult): TLE.FunctionCallValue | null {
+        const functionCall: TLE.FunctionCallValue | null = tleParseResult.leftSquareBracketToken ? TLE.asFunctionCallValue(tleParseResult.expression) : null;
+        return functionCall && isResourceIdCall(functionCall) ? functionCall : null;
+    }
+
+    private findResourcesFromKey(valueKey: string): ResourceDefinition[] {
+        // The name of a copy loop refers to all the resources deployed in it
+        const inCopyLoop = this._resources.filter(resource => {
+            const copyName: string | undefined = resource.copyName;
+            return !!copyName && copyName.toLowerCase() === valueKey;
+        });
+        if (inCopyLoop.length > 0) {
+            return inCopyLoop;
+        }
+
+        // If the value starts with the type of a resource in the template ("Microsoft.Network/virtualNetworks/vnet1"),
+        // it must match both the type and the name, otherwise it's just a name
+        const keys: IResourceKey[] = this._resources.map(resource => this.getResourceKey(resource));
+        const hasType: boolean = keys.some(key => !!key.typeKey && valueKey.startsWith(`${key.typeKey}/`));
+        return this._resources.filter((resource, i) => {
+            const key: IResourceKey = keys[i];
+            return hasType ? valueKey === `${key.typeKey}/${key.nameKey}` : valueKey === key.nameKey;
+        });
+    }
+
+    private getReferences(resource: ResourceDefinition, stringValue: Json.StringValue): IResourceReference[] {
+        const references: IResourceReference[] = [];
+        const tleParseResult: TLE.ParseResult = this._deploymentTemplate.getTLEParseResultFromJsonStringValue(stringValue);
+        if (tleParseResult.expression) {
+            const referenceCalls: TLE.FunctionCallValue[] = ResourceCallVisitor.visit(tleParseResult.expression).referenceCalls
+                .filter(call => call.isCallToBuiltinWithName(templateKeys.reference));
+            for (const referenceCall of referenceCalls) {
+                const targets: ResourceDefinition[] = this.findResourcesFromExpression(referenceCall.argumentExpressions[0], tleParseResult.scope);
+                if (targets.length > 0) {
+                    references.push({
+                        resource,
+                        span: referenceCall.getSpan().translate(stringValue.startIndex),
+                        targets
+                    });
+                }
+            }
+        }
+
+        return references;
+    }
+
+    /**
+     * The index of the resource type argument in a resourceId() call (the first literal containing a "/"),
+     * or -1 if it can't be determined
+     */
+    private getResourceTypeArgumentIndex(resourceIdCall: TLE.FunctionCallValue): number {
+        return resourceIdCall.argumentExpressions.findIndex(arg => {
+            const stringValue: TLE.StringValue | null = TLE.asStringValue(arg);
+            return !!stringValue && stringValue.toString().includes("/");
+        });
+    }
+
+    private getResourceIdKey(resourceIdCall: TLE.FunctionCallValue, scope: TemplateScope): { typeKey: string; nameKey: string } | undefined {
+        const typeIndex: number = this.getResourceTypeArgumentIndex(resourceIdCall);
+        if (typeIndex < 0) {
+            return undefined;
+        }
+
+        const args: (TLE.Value | null)[] = resourceIdCall.argumentExpressions;
+        return {
+            typeKey: this.getExpressionKey(args[typeIndex], scope, 0).key,
+            nameKey: args.slice(typeIndex + 1).map(arg => this.getExpressionKey(arg, scope, 0).key).join("/")
+        };
+    }
+}
+
+/**
+ * Whether the function call is to resourceId() or one of the similar functions that create a resource ID
+ */
+export function isResourceIdCall(functionCall: TLE.FunctionCallValue): boolean {
+    return resourceIdFunctions.some(name => functionCall.isCallToBuiltinWithName(name));
+}
+
+/**
+ * Finds all calls to resourceId() (and similar functions), reference() and list*() in an expression
+ */
+class ResourceCallVisitor extends TLE.Visitor {
+    public readonly resourceIdCalls: TLE.FunctionCallValue[] = [];
+    // Calls to reference() and list*() with at least one argument
+    public readonly referenceCalls: TLE.FunctionCallValue[] = [];
+
+    public visitFunctionCall(tleFunction: TLE.FunctionCallValue | null): void {
+        if (tleFunction) {
+            if (isResourceIdCall(tleFunction)) {
+                this.resourceIdCalls.push(tleFunction);
+            } else if (isReferenceOrListCall(tleFunction) && tleFunction.argumentExpressions.length > 0) {
+                this.referenceCalls.push(tleFunction);
+            }
+        }
+
+        super.visitFunctionCall(tleFunction);
+    }
+
+    public static visit(tleValue: TLE.Value | null): ResourceCallVisitor {
+        const visitor = new ResourceCallVisitor();
+        if (tleValue) {
+            tleValue.accept(visitor);
+        }
+        return visitor;
+    }
+}
+
+/**
+ * Finds a path of dependencies from one resource to another, if there is one (including both ends)
+ */
+function findPath(edges: Map<ResourceDefinition, ResourceDefinition[]>, start: ResourceDefinition, end: ResourceDefinition): ResourceDefinition[] | undefined {
+    // Breadth-first, so that the shortest cycle is shown
+    const previous: Map<ResourceDefinition, ResourceDefinition | undefined> = new Map<ResourceDefinition, ResourceDefinition | undefined>([[start, undefined]]);
+    const queue: ResourceDefinition[] = [start];
+    while (queue.length > 0) {
+        // tslint:disable-next-line: no-non-null-assertion // Queue is not empty
+        const current: ResourceDefinition = queue.shift()!;
+        if (current === end) {
+            const path: ResourceDefinition[] = [];
+            for (let node: ResourceDefinition | undefined = current; node; node = previous.get(node)) {
+                path.unshift(node);
+            }
+            return path;
+        }
+
+        // tslint:disable-next-line: strict-boolean-expressions
+        for (const next of edges.get(current) || []) {
+            if (!previous.has(next)) {
+                previous.set(next, current);
+                queue.push(next);
+            }
+        }
+    }
+
+    return undefined;
+}
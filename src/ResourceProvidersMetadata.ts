@@ -0,0 +1,139 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+/**
+ * Metadata for the resource types of all resource providers in the bundled catalog (so that it's
+ * available offline)
+ */
+export class ResourceProvidersMetadata {
+    private readonly _resourceTypesByLowerCaseName: Map<string, ResourceTypeMetadata> = new Map<string, ResourceTypeMetadata>();
+
+    public constructor(
+        /**
+         * The version of the catalog (the date it was generated)
+         */
+        public readonly version: string,
+        public readonly resourceTypes: ResourceTypeMetadata[]
+    ) {
+        for (const resourceType of resourceTypes) {
+            this._resourceTypesByLowerCaseName.set(resourceType.name.toLowerCase(), resourceType);
+        }
+    }
+
+    /**
+     * Finds a resource type by its full name, e.g. "Microsoft.Network/virtualNetworks/subnets" (case-insensitive)
+     */
+    public findResourceType(resourceType: string): ResourceTypeMetadata | undefined {
+        return this._resourceTypesByLowerCaseName.get(resourceType.toLowerCase());
+    }
+
+    /**
+     * Whether an apiVersion is invalid for a resource type in the catalog. The catalog doesn't list every
+     * version that existed when it was created, so a missing version is only invalid if it's malformed or
+     * dated after the catalog.
+     */
+    public isInvalidApiVersion(resourceType: ResourceTypeMetadata, apiVersion: string): boolean {
+        if (resourceType.hasApiVersion(apiVersion)) {
+            return false;
+        }
+
+        const date: string | undefined = getApiVersionDate(apiVersion);
+        return date === undefined || date > this.version;
+    }
+
+    /**
+     * Gets the types of the child resources of the given type, e.g. "Microsoft.Network/virtualNetworks/subnets"
+     * for "Microsoft.Network/virtualNetworks"
+     */
+    public getChildResourceTypes(parentResourceType: string): ResourceTypeMetadata[] {
+        const parentSegmentCount: number = parentResourceType.split("/").length;
+        const prefix: string = `${parentResourceType.toLowerCase()}/`;
+        return this.resourceTypes.filter(resourceType =>
+            resourceType.name.toLowerCase().startsWith(prefix) && resourceType.name.split("/").length === parentSegmentCount + 1);
+    }
+
+    public static fromString(metadataString: string): ResourceProvidersMetadata {
+        let metadataJSON: ResourceProvidersMetadataContract;
+        try {
+            metadataJSON = <ResourceProvidersMetadataContract>JSON.parse(metadataString);
+        } catch (e) {
+            metadataJSON = { version: "", resourceTypes: {} };
+        }
+        return ResourceProvidersMetadata.fromJSON(metadataJSON);
+    }
+
+    public static fromJSON(metadataJSON: ResourceProvidersMetadataContract): ResourceProvidersMetadata {
+        const resourceTypes: ResourceTypeMetadata[] = [];
+
+        // tslint:disable-next-line: strict-boolean-expressions
+        if (metadataJSON && metadataJSON.resourceTypes) {
+            for (const name of Object.getOwnPropertyNames(metadataJSON.resourceTypes)) {
+                const apiVersions: unknown = metadataJSON.resourceTypes[name];
+                if (Array.isArray(apiVersions)) {
+                    resourceTypes.push(new ResourceTypeMetadata(name, apiVersions.filter(apiVersion => typeof apiVersion === "string")));
+                }
+            }
+        }
+
+        resourceTypes.sort((a, b) => a.name.localeCompare(b.name));
+        // tslint:disable-next-line: strict-boolean-expressions
+        return new ResourceProvidersMetadata((metadataJSON && metadataJSON.version) || "", resourceTypes);
+    }
+}
+
+/**
+ * Metadata for a resource type (e.g. "Microsoft.Storage/storageAccounts") and its API versions
+ */
+export class ResourceTypeMetadata {
+    private readonly _apiVersions: string[];
+
+    public constructor(
+        public readonly name: string,
+        apiVersions: string[]
+    ) {
+        // Newest first
+        this._apiVersions = apiVersions.slice().sort().reverse();
+    }
+
+    /**
+     * The type relative to a parent resource's type, e.g. "subnets" for "Microsoft.Network/virtualNetworks/subnets"
+     */
+    public get childName(): string {
+        return this.name.substr(this.name.lastIndexOf("/") + 1);
+    }
+
+    /**
+     * The valid API versions of the resource type, newest first
+     */
+    public get apiVersions(): string[] {
+        return this._apiVersions;
+    }
+
+    public hasApiVersion(apiVersion: string): boolean {
+        const apiVersionLC: string = apiVersion.toLowerCase();
+        return this._apiVersions.some(version => version.toLowerCase() === apiVersionLC);
+    }
+}
+
+/**
+ * Gets the date of an apiVersion as yyyy-mm-dd, e.g. "2019-06-01" for "2019-06-01-preview" (undefined if it's malformed)
+ */
+export function getApiVersionDate(apiVersion: string): string | undefined {
+    const match: RegExpMatchArray | null = apiVersion.match(/^(\d{4})-(\d{2})-(\d{2})(-[a-z0-9]+)*$/i);
+    if (!match) {
+        return undefined;
+    }
+
+    const month: number = Number(match[2]);
+    const day: number = Number(match[3]);
+    return month >= 1 && month <= 12 && day >= 1 && day <= 31 ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+interface ResourceProvidersMetadataContract {
+    // These are validated via the ResourceProviders.schema.json file when editing ResourceProviders.json
+    version: string;
+    resourceTypes: {
+        [resourceType: string]: string[];
+    };
+}
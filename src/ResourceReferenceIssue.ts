@@ -0,0 +1,43 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import * as language from "./Language";
+import { TextEdit } from "./util/jsonEdits";
+
+/**
+ * A resourceId(), reference() or list*() call whose arguments don't match the resources declared in the
+ * template. If a declared resource is close to what was given, the issue includes the edits to change the
+ * call to refer to it.
+ */
+export class ResourceReferenceIssue extends language.Issue {
+    constructor(
+        span: language.Span,
+        message: string,
+        kind: language.IssueKind,
+        private _suggestion?: string,
+        private _edits: TextEdit[] = []
+    ) {
+        super(span, message, kind);
+    }
+
+    public translate(movement: number): language.Issue {
+        return new ResourceReferenceIssue(
+            this.span.translate(movement),
+            this.message,
+            this.kind,
+            this.suggestion,
+            this.edits.map(edit => new TextEdit(edit.span.translate(movement), edit.newText)));
+    }
+
+    /**
+     * The declared resource type or name that the call most likely meant
+     */
+    public get suggestion(): string | undefined {
+        return this._suggestion;
+    }
+
+    public get edits(): TextEdit[] {
+        return this._edits;
+    }
+}
@@ -0,0 +1,144 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { AzureRMAssets } from "./AzureRMAssets";
+import { DeploymentTemplate } from "./DeploymentTemplate";
+import { ExpressionEvaluator } from "./ExpressionEvaluator";
+import * as Json from "./JSON";
+import * as language from "./Language";
+import { flattenResourceDefinitions, ResourceDefinition } from "./ResourceDefinition";
+import { getApiVersionDate, ResourceProvidersMetadata, ResourceTypeMetadata } from "./ResourceProvidersMetadata";
+import { getDeclaredResources, IDeclaredResource } from "./visitors/ResourceReferenceVisitor";
+
+export enum StaleApiVersionReason {
+    /**
+     * The apiVersion is older than the maximum age, and there's a newer version
+     */
+    old = "old",
+
+    /**
+     * The apiVersion is a preview version, and there's a stable version that's at least as new
+     */
+    preview = "preview"
+}
+
+/**
+ * A resource whose apiVersion should be updated
+ */
+export interface IStaleApiVersion {
+    resource: ResourceDefinition;
+    apiVersionValue: Json.StringValue;
+    /**
+     * The resource's full type, as given in the resource providers catalog
+     */
+    resourceType: string;
+    apiVersion: string;
+    newApiVersion: string;
+    reason: StaleApiVersionReason;
+}
+
+/**
+ * A resource type and the resources of that type whose apiVersion should be updated
+ */
+export interface IStaleApiVersionGroup {
+    resourceType: string;
+    staleApiVersions: IStaleApiVersion[];
+}
+
+/**
+ * Finds the resources whose apiVersion is either a preview version when a stable version is available,
+ * or is more than the given number of months older than the resource providers catalog (zero means any
+ * age is allowed). The catalog's date is used rather than today's date since the catalog doesn't know
+ * about versions released after it. Only apiVersions that aren't expressions and resource types in the
+ * catalog can be checked.
+ */
+export function getStaleApiVersions(deploymentTemplate: DeploymentTemplate, maxAgeInMonths: number): IStaleApiVersion[] {
+    const staleApiVersions: IStaleApiVersion[] = [];
+    const resourceProviders: ResourceProvidersMetadata = AzureRMAssets.getResourceProvidersMetadata();
+    const catalogDate: Date | undefined = toDate(getApiVersionDate(resourceProviders.version));
+    if (!catalogDate) {
+        return [];
+    }
+
+    const resources: ResourceDefinition[] = flattenResourceDefinitions(deploymentTemplate.resources);
+    const declaredResources: IDeclaredResource[] = getDeclaredResources(resources, new ExpressionEvaluator(deploymentTemplate.topLevelScope));
+    const oldestAllowedDate: Date = new Date(Date.UTC(catalogDate.getUTCFullYear(), catalogDate.getUTCMonth() - maxAgeInMonths, catalogDate.getUTCDate()));
+
+    resources.forEach((resource, index) => {
+        const apiVersionValue: Json.StringValue | null = resource.apiVersionValue;
+        const resourceType: string | undefined = declaredResources[index].resourceType;
+        const resourceTypeMetadata: ResourceTypeMetadata | undefined = resourceType !== undefined ? resourceProviders.findResourceType(resourceType) : undefined;
+        if (!apiVersionValue || !resourceTypeMetadata || deploymentTemplate.getTLEParseResultFromJsonStringValue(apiVersionValue).leftSquareBracketToken) {
+            return;
+        }
+
+        const apiVersion: string = apiVersionValue.unquotedValue;
+        const apiVersionDate: Date | undefined = toDate(getApiVersionDate(apiVersion));
+        if (!apiVersionDate || !resourceTypeMetadata.hasApiVersion(apiVersion)) {
+            // Invalid apiVersions are reported separately
+            return;
+        }
+
+        const newestStable: string | undefined = resourceTypeMetadata.apiVersions.find(version => !isPreviewApiVersion(version));
+        // tslint:disable-next-line: strict-boolean-expressions
+        const newest: string = newestStable || resourceTypeMetadata.apiVersions[0];
+        const newestDate: Date | undefined = toDate(getApiVersionDate(newest));
+        const stale = (reason: StaleApiVersionReason): IStaleApiVersion =>
+            ({ resource, apiVersionValue, resourceType: resourceTypeMetadata.name, apiVersion, newApiVersion: newest, reason });
+
+        if (isPreviewApiVersion(apiVersion) && newestStable !== undefined && newestDate && newestDate >= apiVersionDate) {
+            staleApiVersions.push(stale(StaleApiVersionReason.preview));
+        } else if (maxAgeInMonths > 0 && apiVersionDate < oldestAllowedDate && newestDate && newestDate > apiVersionDate) {
+            staleApiVersions.push(stale(StaleApiVersionReason.old));
+        }
+    });
+
+    return staleApiVersions;
+}
+
+/**
+ * Groups stale apiVersions by resource type, with the types in alphabetical order and the resources of each
+ * type in document order
+ */
+export function groupStaleApiVersionsByType(staleApiVersions: IStaleApiVersion[]): IStaleApiVersionGroup[] {
+    const groups: IStaleApiVersionGroup[] = [];
+    for (const stale of staleApiVersions) {
+        const group: IStaleApiVersionGroup | undefined = groups.find(g => g.resourceType === stale.resourceType);
+        if (group) {
+            group.staleApiVersions.push(stale);
+        } else {
+            groups.push({ resourceType: stale.resourceType, staleApiVersions: [stale] });
+        }
+    }
+
+    return groups.sort((a, b) => a.resourceType.localeCompare(b.resourceType));
+}
+
+/**
+ * Gets the warnings to show for the template's stale apiVersions
+ */
+export function getStaleApiVersionIssues(deploymentTemplate: DeploymentTemplate, maxAgeInMonths: number): language.Issue[] {
+    return getStaleApiVersions(deploymentTemplate, maxAgeInMonths).map(stale =>
+        new language.Issue(stale.apiVersionValue.span, getStaleApiVersionMessage(stale, maxAgeInMonths), language.IssueKind.staleApiVersion));
+}
+
+export function getStaleApiVersionMessage(stale: IStaleApiVersion, maxAgeInMonths: number): string {
+    switch (stale.reason) {
+        case StaleApiVersionReason.preview:
+            return `The apiVersion '${stale.apiVersion}' of resource type '${stale.resourceType}' is a preview version, but stable version '${stale.newApiVersion}' is available.`;
+        default:
+            return `The apiVersion '${stale.apiVersion}' of resource type '${stale.resourceType}' is more than ${maxAgeInMonths} month${maxAgeInMonths === 1 ? "" : "s"} old. The newest version is '${stale.newApiVersion}'.`;
+    }
+}
+
+export function isPreviewApiVersion(apiVersion: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}-/.test(apiVersion);
+}
+
+/**
+ * Converts a yyyy-mm-dd date to a UTC date
+ */
+function toDate(date: string | undefined): Date | undefined {
+    return date !== undefined ? new Date(`${date}T00:00:00Z`) : undefined;
+}
@@ -111,6 +111,13 @@ export class StringValue extends Value {
         return new language.Span(this.getSpan().startIndex + 1, this.length - (this.hasCloseQuote() ? 2 : 1));
     }
 
+    /**
+     * The string's value without its quotes, and with escaped (doubled) single quotes unescaped
+     */
+    public get unquotedValue(): string {
+        return Utilities.unquote(this.toString()).replace(/''/g, "'");
+    }
+
     public contains(characterIndex: number): boolean {
         return this.getSpan().contains(characterIndex, true);
     }
@@ -133,6 +140,13 @@ export class StringValue extends Value {
         return this.isBuiltinFunctionArgument(templateKeys.variables);
     }
 
+    /**
+     * Checks whether the current position is at the loop name argument of a 'copyIndex' function call
+     */
+    public isCopyIndexArgument(): boolean {
+        return this.isBuiltinFunctionArgument(templateKeys.copyIndex);
+    }
+
     /**
      * Checks whether the current position is at the argument of a call to the
      * built-in function with the given name
@@ -1041,6 +1055,19 @@ export class ParseResult {
         return this._errors;
     }
 
+    /**
+     * Gets the result of parsing the same string in a different scope. Parsing doesn't depend on the scope,
+     * so the tokens and errors are reused and only the expression's values are recreated.
+     */
+    public withScope(scope: TemplateScope): ParseResult {
+        if (scope === this.scope) {
+            return this;
+        }
+
+        const expression: Value | null = this._expression ? copyValueWithScope(this._expression, scope) : null;
+        return new ParseResult(this._leftSquareBracketToken, expression, this._rightSquareBracketToken, this._errors, scope);
+    }
+
     public getValueAtCharacterIndex(characterIndex: number): Value | null {
         let result: Value | null = null;
 
@@ -1086,6 +1113,34 @@ export class ParseResult {
     }
 }
 
+/**
+ * Creates a copy of a TLE value tree whose function calls are in the given scope
+ */
+function copyValueWithScope(value: Value, scope: TemplateScope): Value {
+    const copy = (v: Value | null): Value | null => v ? copyValueWithScope(v, scope) : null;
+
+    if (value instanceof FunctionCallValue) {
+        return new FunctionCallValue(
+            value.namespaceToken,
+            value.periodToken,
+            value.nameToken,
+            value.leftParenthesisToken,
+            value.commaTokens,
+            value.argumentExpressions.map(copy),
+            value.rightParenthesisToken,
+            scope);
+    } else if (value instanceof PropertyAccess) {
+        return new PropertyAccess(copyValueWithScope(value.source, scope), value.periodToken, value.nameToken);
+    } else if (value instanceof ArrayAccessValue) {
+        return new ArrayAccessValue(copyValueWithScope(value.source, scope), value.leftSquareBracketToken, copy(value.indexValue), value.rightSquareBracketToken);
+    } else if (value instanceof StringValue) {
+        return new StringValue(value.token);
+    } else {
+        assert(value instanceof NumberValue, "Unexpected TLE value type");
+        return new NumberValue((<NumberValue>value).token);
+    }
+}
+
 /**
  * A TLE tokenizer that generates tokens from a TLE string.
  */
@@ -3,18 +3,22 @@
 // ----------------------------------------------------------------------------
 
 import * as assert from 'assert';
-import { Utilities } from '../extension.bundle';
 import { templateKeys } from './constants';
 import { IParameterDefinition } from "./IParameterDefinition";
+import { NestedDeployment } from './NestedDeployment';
+import { TemplateOutputDefinition } from './OutputDefinition';
 import * as TLE from "./TLE";
 import { UserFunctionDefinition } from './UserFunctionDefinition';
 import { UserFunctionNamespaceDefinition } from "./UserFunctionNamespaceDefinition";
+import * as Utilities from './Utilities';
 import { IVariableDefinition } from './VariableDefinition';
 
 export enum ScopeContext {
     TopLevel = "TopLevel",
     ParameterDefaultValue = "ParameterDefaultValue",
-    UserFunction = "UserFunction"
+    UserFunction = "UserFunction",
+    // The template of a nested deployment whose expressions are evaluated in its own scope (expressionEvaluationOptions.scope = "inner")
+    NestedDeploymentInnerScope = "NestedDeploymentInnerScope"
 }
 
 /**
@@ -29,6 +33,8 @@ export class TemplateScope {
         private readonly _parameterDefinitions: IParameterDefinition[] | undefined, // undefined means not supported in this context
         private readonly _variableDefinitions: IVariableDefinition[] | undefined, // undefined means not supported in this context
         private readonly _namespaceDefinitions: UserFunctionNamespaceDefinition[] | undefined, // undefined means not supported in this context
+        private readonly _outputDefinitions: TemplateOutputDefinition[] | undefined, // undefined means not supported in this context
+        private readonly _nestedDeployments: NestedDeployment[] | undefined, // undefined means not supported in this context
         // tslint:disable-next-line:variable-name
         public readonly __debugDisplay: string // Convenience for debugging
     ) {
@@ -49,6 +55,19 @@ export class TemplateScope {
         return this._namespaceDefinitions || [];
     }
 
+    public get outputDefinitions(): TemplateOutputDefinition[] {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return this._outputDefinitions || [];
+    }
+
+    /**
+     * Deployment resources with inline templates whose outputs can be accessed via reference()
+     */
+    public get nestedDeployments(): NestedDeployment[] {
+        // tslint:disable-next-line: strict-boolean-expressions
+        return this._nestedDeployments || [];
+    }
+
     // parameterName can be surrounded with single quotes or not.  Search is case-insensitive
     public getParameterDefinition(parameterName: string): IParameterDefinition | null {
         assert(parameterName, "parameterName cannot be null, undefined, or empty");
@@ -103,6 +122,81 @@ export class TemplateScope {
         return null;
     }
 
+    // Search is case-insensitive
+    public getOutputDefinition(outputName: string): TemplateOutputDefinition | null {
+        assert(outputName, "outputName cannot be null, undefined, or empty");
+        const outputNameLC = outputName.toLowerCase();
+
+        // Find the last definition that matches, because that's what Azure does
+        for (let i = this.outputDefinitions.length - 1; i >= 0; --i) {
+            let od = this.outputDefinitions[i];
+            if (od.nameValue.unquotedValue.toLowerCase() === outputNameLC) {
+                return od;
+            }
+        }
+
+        return null;
+    }
+
+    // Search is case-insensitive
+    public getNestedDeployment(deploymentName: string): NestedDeployment | null {
+        assert(deploymentName, "deploymentName cannot be null, undefined, or empty");
+        const deploymentNameLC = deploymentName.toLowerCase();
+
+        for (let i = this.nestedDeployments.length - 1; i >= 0; --i) {
+            const deployment = this.nestedDeployments[i];
+            const nameValue = deployment.nameValue;
+            if (nameValue && nameValue.unquotedValue.toLowerCase() === deploymentNameLC) {
+                return deployment;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * If the function call is a reference() to a nested deployment, either by name or by
+     * resourceId('Microsoft.Resources/deployments', name), return the nested deployment
+     */
+    public getNestedDeploymentFromReferenceCall(tleFunction: TLE.FunctionCallValue): NestedDeployment | null {
+        if (tleFunction.isCallToBuiltinWithName(templateKeys.reference) && tleFunction.argumentExpressions.length >= 1) {
+            let nameArgument: TLE.StringValue | null = TLE.asStringValue(tleFunction.argumentExpressions[0]);
+
+            const resourceIdCall: TLE.FunctionCallValue | null = TLE.asFunctionCallValue(tleFunction.argumentExpressions[0]);
+            if (resourceIdCall && resourceIdCall.isCallToBuiltinWithName(templateKeys.resourceId) && resourceIdCall.argumentExpressions.length === 2) {
+                const resourceType: TLE.StringValue | null = TLE.asStringValue(resourceIdCall.argumentExpressions[0]);
+                if (resourceType && resourceType.unquotedValue.toLowerCase() === templateKeys.nestedDeploymentResourceType.toLowerCase()) {
+                    nameArgument = TLE.asStringValue(resourceIdCall.argumentExpressions[1]);
+                }
+            }
+
+            const deploymentName: string = nameArgument ? nameArgument.unquotedValue : "";
+            if (deploymentName) {
+                return this.getNestedDeployment(deploymentName);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * If the property access is of the form reference(<nested deployment>).outputs.<name>, return the
+     * related output definition from the nested template
+     */
+    public getOutputDefinitionFromPropertyAccess(tlePropertyAccess: TLE.PropertyAccess): TemplateOutputDefinition | null {
+        const outputsAccess: TLE.PropertyAccess | null = TLE.asPropertyAccessValue(tlePropertyAccess.source);
+        if (tlePropertyAccess.nameToken && outputsAccess && outputsAccess.nameToken
+            && outputsAccess.nameToken.stringValue.toLowerCase() === templateKeys.outputs.toLowerCase()) {
+            const referenceCall: TLE.FunctionCallValue | null = TLE.asFunctionCallValue(outputsAccess.source);
+            const deployment: NestedDeployment | null = referenceCall ? this.getNestedDeploymentFromReferenceCall(referenceCall) : null;
+            if (deployment) {
+                return deployment.getOutputDefinition(tlePropertyAccess.nameToken.stringValue);
+            }
+        }
+
+        return null;
+    }
+
     /**
      * If the function call is a variables() reference, return the related variable definition
      */
@@ -164,43 +164,7 @@ export class JsonOutlineProvider implements vscode.TreeDataProvider<string> {
 
         // Key is an object (e.g. a resource object)
         if (keyNode instanceof Json.ObjectValue) {
-            let foundName = false;
-            // Object contains no elements
-            if (keyNode.properties.length === 0) {
-                return "{}";
-            } else {
-                // Object contains elements, look for displayName tag first
-                // tslint:disable-next-line: strict-boolean-expressions
-                let tags = keyNode.properties.find(p => p.nameValue && p.nameValue.toString().toLowerCase() === 'tags');
-                if (tags && tags.value instanceof Json.ObjectValue) {
-                    // tslint:disable-next-line: strict-boolean-expressions
-                    let displayNameProp = tags.value.properties.find(p => p.nameValue && p.nameValue.toString().toLowerCase() === 'displayname');
-                    if (displayNameProp) {
-                        let displayName = displayNameProp.value && displayNameProp.value.toString();
-                        if (displayName) {
-                            return displayName;
-                        }
-                    }
-                }
-
-                // Look for name element
-                // tslint:disable-next-line:one-variable-per-declaration
-                for (var i = 0, l = keyNode.properties.length; i < l; i++) {
-                    let props = keyNode.properties[i];
-                    // If name element is found
-                    if (props.nameValue instanceof Json.StringValue && props.nameValue.toString().toUpperCase() === "name".toUpperCase()) {
-                        let name = toFriendlyString(props.value);
-
-                        return shortenTreeLabel(name);
-                    }
-                }
-
-                // Object contains elements, but not a name element
-                if (!foundName) {
-                    return "{...}";
-                }
-            }
-
+            return getObjectTreeLabel(keyNode);
         } else if (elementInfo.current.value.kind === Json.ValueKind.ArrayValue || elementInfo.current.value.kind === Json.ValueKind.ObjectValue) {
             // The value of the node is an array or object (e.g. properties or resources) - return key as the node label
             return toFriendlyString(keyNode);
@@ -415,6 +379,44 @@ export interface IElementInfo {
     };
 }
 
+/**
+ * Gets the label for an object that is an array element (e.g. a resource), based on its displayName tag
+ * or its name
+ */
+export function getObjectTreeLabel(objectValue: Json.ObjectValue): string {
+    // Object contains no elements
+    if (objectValue.properties.length === 0) {
+        return "{}";
+    }
+
+    // Object contains elements, look for displayName tag first
+    // tslint:disable-next-line: strict-boolean-expressions
+    let tags = objectValue.properties.find(p => p.nameValue && p.nameValue.toString().toLowerCase() === 'tags');
+    if (tags && tags.value instanceof Json.ObjectValue) {
+        // tslint:disable-next-line: strict-boolean-expressions
+        let displayNameProp = tags.value.properties.find(p => p.nameValue && p.nameValue.toString().toLowerCase() === 'displayname');
+        if (displayNameProp) {
+            let displayName = displayNameProp.value && displayNameProp.value.toString();
+            if (displayName) {
+                return displayName;
+            }
+        }
+    }
+
+    // Look for name element
+    for (const props of objectValue.properties) {
+        // If name element is found
+        if (props.nameValue instanceof Json.StringValue && props.nameValue.toString().toUpperCase() === "name".toUpperCase()) {
+            let name = toFriendlyString(props.value);
+
+            return shortenTreeLabel(name);
+        }
+    }
+
+    // Object contains elements, but not a name element
+    return "{...}";
+}
+
 /**
  * Shortens a label in a way intended to keep the important information but make it easier to read
  * and shorter (so you can read more in the limited horizontal space)
@@ -52,6 +52,10 @@ export class UserFunctionDefinition implements INamedDefinition {
                 undefined,
                 // nested user functions not supported in user functions
                 undefined,
+                // outputs not supported in user functions
+                undefined,
+                // reference() not supported in user functions
+                undefined,
                 `'${this.fullName}' (UDF) scope`
             );
         });
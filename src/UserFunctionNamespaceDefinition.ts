@@ -4,6 +4,7 @@
 
 import * as os from 'os';
 import { CachedValue } from './CachedValue';
+import { templateKeys } from './constants';
 import { assert } from './fixed_assert';
 import { IUsageInfo } from './Hover';
 import { DefinitionKind, INamedDefinition } from './INamedDefinition';
@@ -121,3 +122,49 @@ export class UserFunctionNamespaceDefinition implements INamedDefinition {
         };
     }
 }
+
+/**
+ * Retrieves the user function namespace definitions from the "functions" section of a template object
+ */
+export function getTemplateNamespaceDefinitions(templateObject: Json.ObjectValue | null): UserFunctionNamespaceDefinition[] {
+    const namespaceDefinitions: UserFunctionNamespaceDefinition[] = [];
+
+    // Example of function definitions
+    //
+    // "functions": [
+    //     { << This is a UserFunctionNamespaceDefinition
+    //       "namespace": "<namespace-for-functions>",
+    //       "members": { << This is a UserFunctionDefinition
+    //         "<function-name>": {
+    //           "parameters": [
+    //             {
+    //               "name": "<parameter-name>",
+    //               "type": "<type-of-parameter-value>"
+    //             }
+    //           ],
+    //           "output": {
+    //             "type": "<type-of-output-value>",
+    //             "value": "<function-return-value>"
+    //           }
+    //         }
+    //       }
+    //     }
+    //   ],
+
+    if (templateObject) {
+        const functionNamespacesArray: Json.ArrayValue | null = Json.asArrayValue(templateObject.getPropertyValue(templateKeys.functions));
+        if (functionNamespacesArray) {
+            for (let namespaceElement of functionNamespacesArray.elements) {
+                const namespaceObject = Json.asObjectValue(namespaceElement);
+                if (namespaceObject) {
+                    let namespace = UserFunctionNamespaceDefinition.createIfValid(namespaceObject);
+                    if (namespace) {
+                        namespaceDefinitions.push(namespace);
+                    }
+                }
+            }
+        }
+    }
+
+    return namespaceDefinitions;
+}
@@ -155,6 +155,28 @@ export function getCombinedText(values: { toString(): string }[]): string {
     return result;
 }
 
+/**
+ * Get the Levenshtein edit distance between two strings (the number of single-character insertions,
+ * deletions or substitutions needed to turn one into the other).
+ */
+export function getEditDistance(a: string, b: string): number {
+    let previousRow: number[] = [];
+    for (let j = 0; j <= b.length; ++j) {
+        previousRow.push(j);
+    }
+
+    for (let i = 1; i <= a.length; ++i) {
+        const currentRow: number[] = [i];
+        for (let j = 1; j <= b.length; ++j) {
+            const substitutionCost: number = a[i - 1] === b[j - 1] ? 0 : 1;
+            currentRow.push(Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + substitutionCost));
+        }
+        previousRow = currentRow;
+    }
+
+    return previousRow[b.length];
+}
+
 /**
  * An interface for an object that iterates through a sequence of values.
  */
@@ -2,13 +2,13 @@
 // Copyright (c) Microsoft Corporation.  All rights reserved.
 // ----------------------------------------------------------------------------
 
-import { Language } from '../extension.bundle';
 import { CachedValue } from './CachedValue';
 import { templateKeys } from './constants';
 import { assert } from './fixed_assert';
 import { IUsageInfo } from './Hover';
 import { DefinitionKind, INamedDefinition } from './INamedDefinition';
 import * as Json from "./JSON";
+import * as Language from './Language';
 import { mapJsonObjectValue } from './util/mapJsonObjectValue';
 
 /**
@@ -236,3 +236,48 @@ export class TopLevelCopyBlockVariableDefinition extends VariableDefinition {
         return `${this.nameValue.toString()} (iter var)`;
     }
 }
+
+/**
+ * Retrieves the variable definitions (including those in a "copy" block) from the "variables" section of a template object
+ */
+export function getTemplateVariableDefinitions(templateObject: Json.ObjectValue | null): IVariableDefinition[] {
+    if (templateObject) {
+        const variables: Json.ObjectValue | null = Json.asObjectValue(templateObject.getPropertyValue(templateKeys.variables));
+        if (variables) {
+            const varDefs: IVariableDefinition[] = [];
+            for (let prop of variables.properties) {
+                if (prop.nameValue.unquotedValue.toLowerCase() === templateKeys.loopVarCopy) {
+                    // We have a top-level copy block, e.g.:
+                    //
+                    // "copy": [
+                    //   {
+                    //     "name": "top-level-object-array",
+                    //     "count": 5,
+                    //     "input": {
+                    //       "name": "[concat('myDataDisk', copyIndex('top-level-object-array', 1))]",
+                    //       "diskSizeGB": "1",
+                    //       "diskIndex": "[copyIndex('top-level-object-array')]"
+                    //     }
+                    //   },
+                    // ]
+                    //
+                    // Each element of the array is a TopLevelCopyBlockVariableDefinition
+                    const varsArray: Json.ArrayValue | null = Json.asArrayValue(prop.value);
+                    // tslint:disable-next-line: strict-boolean-expressions
+                    for (let varElement of (varsArray && varsArray.elements) || []) {
+                        const def = TopLevelCopyBlockVariableDefinition.createIfValid(varElement);
+                        if (def) {
+                            varDefs.push(def);
+                        }
+                    }
+                } else {
+                    varDefs.push(new TopLevelVariableDefinition(prop));
+                }
+            }
+
+            return varDefs;
+        }
+    }
+
+    return [];
+}
@@ -0,0 +1,299 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import * as fse from 'fs-extra';
+import * as vscode from "vscode";
+import { DeploymentTemplate } from "./DeploymentTemplate";
+import { getDocumentSymbols, TemplateSymbol, TemplateSymbolKind } from "./DocumentSymbols";
+import * as language from "./Language";
+import { startOfTextContainsArmSchema } from "./supported";
+
+// Files that might be deployment templates
+const templateFilesGlob: string = "**/*.{json,jsonc}";
+const excludedFilesGlob: string = "**/node_modules/**";
+// How many files are read at a time while indexing, before giving other work a chance to run
+const indexingBatchSize: number = 10;
+
+/**
+ * A parameter, variable, user function, resource or output defined in a deployment template in the workspace
+ */
+export interface IIndexedSymbol {
+    name: string;
+    kind: TemplateSymbolKind;
+    // The name of the section, namespace or parent resource containing the symbol
+    containerName: string;
+    documentUri: string;
+    start: language.Position;
+    end: language.Position;
+}
+
+/**
+ * A template that is open in an editor, along with the version of its document
+ */
+export interface IOpenTemplate {
+    deploymentTemplate: DeploymentTemplate;
+    documentVersion: number;
+}
+
+/**
+ * An index of the symbols defined in all the deployment templates in the workspace, whether or not they are
+ * open. Only the symbols are kept, not the parsed templates. Files are re-parsed in the background when they change.
+ */
+export class WorkspaceTemplateIndex implements vscode.Disposable {
+    // Document URI -> symbols, or undefined if the file needs to be (re-)read
+    private _templates: Map<string, IIndexedSymbol[] | undefined> = new Map<string, IIndexedSymbol[] | undefined>();
+    // Document URI -> symbols of the open template with that URI, and the document version they're from
+    private _openTemplateSymbols: Map<string, { documentVersion: number; symbols: IIndexedSymbol[] }> = new Map<string, { documentVersion: number; symbols: IIndexedSymbol[] }>();
+    private _initializePromise: Promise<void> | undefined;
+    private _indexingPromise: Promise<void> | undefined;
+    private _isDisposed: boolean = false;
+    private _disposables: vscode.Disposable[] = [];
+
+    /**
+     * Finds all JSON files in the workspace, starts watching them for changes, and starts reading them
+     * in the background.
+     */
+    public async initialize(): Promise<void> {
+        if (!this._initializePromise) {
+            this._initializePromise = this.scanWorkspace();
+        }
+
+        await this._initializePromise;
+    }
+
+    public dispose(): void {
+        this._isDisposed = true;
+        for (const disposable of this._disposables) {
+            disposable.dispose();
+        }
+        this._disposables = [];
+    }
+
+    /**
+     * Adds or updates a file using the given text, removing it from the index if it's not a deployment template
+     */
+    public updateTemplate(documentUri: string, text: string): void {
+        if (startOfTextContainsArmSchema(text)) {
+            const deploymentTemplate = new DeploymentTemplate(text, documentUri);
+            if (deploymentTemplate.hasArmSchemaUri()) {
+                this._templates.set(documentUri, getIndexedSymbols(deploymentTemplate));
+                return;
+            }
+        }
+
+        this._templates.delete(documentUri);
+    }
+
+    /**
+     * Marks a file as needing to be read again before its symbols are used
+     */
+    public invalidate(documentUri: string): void {
+        this._templates.set(documentUri, undefined);
+    }
+
+    public remove(documentUri: string): void {
+        this._templates.delete(documentUri);
+    }
+
+    /**
+     * Finds the symbols whose names match the query. Open templates are used instead of the versions on disk
+     * since they may have unsaved changes. Waits for files that haven't been read yet to be indexed, unless the
+     * request is cancelled first.
+     */
+    public async findSymbols(query: string, openTemplates: IOpenTemplate[] = [], token?: vscode.CancellationToken): Promise<IIndexedSymbol[]> {
+        if (!await this.waitForIndexing(token)) {
+            return [];
+        }
+
+        const openTemplateUris: Set<string> = new Set<string>(openTemplates.map(openTemplate => openTemplate.deploymentTemplate.documentId));
+        const symbols: IIndexedSymbol[] = [];
+
+        for (const openTemplate of openTemplates) {
+            symbols.push(...this.getOpenTemplateSymbols(openTemplate));
+        }
+
+        // Forget the symbols of templates that have been closed
+        for (const documentUri of Array.from(this._openTemplateSymbols.keys())) {
+            if (!openTemplateUris.has(documentUri)) {
+                this._openTemplateSymbols.delete(documentUri);
+            }
+        }
+
+        for (const [documentUri, templateSymbols] of this._templates) {
+            if (!openTemplateUris.has(documentUri)) {
+                // tslint:disable-next-line: strict-boolean-expressions
+                symbols.push(...(templateSymbols || []));
+            }
+        }
+
+        return symbols.filter(indexedSymbol => matchesSymbolQuery(query, indexedSymbol.name));
+    }
+
+    private getOpenTemplateSymbols(openTemplate: IOpenTemplate): IIndexedSymbol[] {
+        const documentUri: string = openTemplate.deploymentTemplate.documentId;
+        const cached: { documentVersion: number; symbols: IIndexedSymbol[] } | undefined = this._openTemplateSymbols.get(documentUri);
+        if (cached && cached.documentVersion === openTemplate.documentVersion) {
+            return cached.symbols;
+        }
+
+        const symbols: IIndexedSymbol[] = getIndexedSymbols(openTemplate.deploymentTemplate);
+        this._openTemplateSymbols.set(documentUri, { documentVersion: openTemplate.documentVersion, symbols });
+        return symbols;
+    }
+
+    private async scanWorkspace(): Promise<void> {
+        const watcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher(templateFilesGlob);
+        this._disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => this.invalidateAndReindex(uri.toString())),
+            watcher.onDidChange(uri => this.invalidateAndReindex(uri.toString())),
+            watcher.onDidDelete(uri => this.remove(uri.toString())));
+
+        const uris: vscode.Uri[] = await vscode.workspace.findFiles(templateFilesGlob, excludedFilesGlob);
+        for (const uri of uris) {
+            const documentUri: string = uri.toString();
+            if (!this._templates.has(documentUri)) {
+                this.invalidate(documentUri);
+            }
+        }
+
+        // Don't wait
+        // tslint:disable-next-line: no-floating-promises
+        this.startIndexing();
+    }
+
+    private invalidateAndReindex(documentUri: string): void {
+        this.invalidate(documentUri);
+
+        // Don't wait
+        // tslint:disable-next-line: no-floating-promises
+        this.startIndexing();
+    }
+
+    /**
+     * Waits for any files that need to be (re-)read to be indexed. Returns false if the token was cancelled first.
+     */
+    private async waitForIndexing(token?: vscode.CancellationToken): Promise<boolean> {
+        const indexing: Promise<void> = this.startIndexing();
+        if (!token) {
+            await indexing;
+            return true;
+        }
+
+        let cancellation: vscode.Disposable | undefined;
+        // tslint:disable-next-line:typedef
+        const cancelled: Promise<void> = new Promise<void>(resolve => {
+            cancellation = token.onCancellationRequested(() => {
+                resolve();
+            });
+        });
+        try {
+            await Promise.race([indexing, cancelled]);
+        } finally {
+            if (cancellation) {
+                cancellation.dispose();
+            }
+        }
+
+        return !token.isCancellationRequested;
+    }
+
+    /**
+     * Starts reading the files that need to be (re-)read, if not already doing so
+     */
+    private async startIndexing(): Promise<void> {
+        if (!this._indexingPromise) {
+            this._indexingPromise = this.indexInvalidatedTemplates();
+        }
+
+        await this._indexingPromise;
+    }
+
+    private async indexInvalidatedTemplates(): Promise<void> {
+        try {
+            // Files may be invalidated again while we're reading others, so keep going until there are none left
+            let documentUris: string[] = this.getInvalidatedTemplateUris();
+            while (documentUris.length > 0 && !this._isDisposed) {
+                for (let i = 0; i < documentUris.length && !this._isDisposed; i += indexingBatchSize) {
+                    await Promise.all(documentUris.slice(i, i + indexingBatchSize).map(async documentUri => this.readTemplate(documentUri)));
+
+                    // Let other work run between batches
+                    await yieldToOtherWork();
+                }
+
+                documentUris = this.getInvalidatedTemplateUris();
+            }
+        } finally {
+            this._indexingPromise = undefined;
+        }
+    }
+
+    private getInvalidatedTemplateUris(): string[] {
+        return Array.from(this._templates.keys()).filter(documentUri => this._templates.get(documentUri) === undefined);
+    }
+
+    private async readTemplate(documentUri: string): Promise<void> {
+        try {
+            const text: string = await fse.readFile(vscode.Uri.parse(documentUri).fsPath, 'utf8');
+            this.updateTemplate(documentUri, text);
+        } catch (err) {
+            // The file may have been deleted or can't be read
+            this.remove(documentUri);
+        }
+    }
+}
+
+async function yieldToOtherWork(): Promise<void> {
+    // tslint:disable-next-line:typedef
+    return new Promise(resolve => {
+        setImmediate(() => {
+            resolve();
+        });
+    });
+}
+
+/**
+ * Gets the symbols of a template (without the section symbols themselves)
+ */
+export function getIndexedSymbols(deploymentTemplate: DeploymentTemplate): IIndexedSymbol[] {
+    const symbols: IIndexedSymbol[] = [];
+
+    const addSymbols = (templateSymbols: TemplateSymbol[], containerName: string): void => {
+        for (const templateSymbol of templateSymbols) {
+            if (templateSymbol.kind !== TemplateSymbolKind.Section) {
+                symbols.push({
+                    name: templateSymbol.name,
+                    kind: templateSymbol.kind,
+                    containerName,
+                    documentUri: deploymentTemplate.documentId,
+                    start: deploymentTemplate.getDocumentPosition(templateSymbol.selectionSpan.startIndex),
+                    end: deploymentTemplate.getDocumentPosition(templateSymbol.selectionSpan.afterEndIndex)
+                });
+            }
+
+            addSymbols(templateSymbol.children, templateSymbol.name);
+        }
+    };
+    addSymbols(getDocumentSymbols(deploymentTemplate), "");
+
+    return symbols;
+}
+
+/**
+ * Whether a symbol name matches a workspace symbol query, i.e. the query's characters appear in the name in
+ * the same order (ignoring case)
+ */
+export function matchesSymbolQuery(query: string, name: string): boolean {
+    const lowerCaseName: string = name.toLowerCase();
+    let nameIndex: number = 0;
+    for (const c of query.toLowerCase()) {
+        nameIndex = lowerCaseName.indexOf(c, nameIndex);
+        if (nameIndex < 0) {
+            return false;
+        }
+        ++nameIndex;
+    }
+
+    return true;
+}
@@ -0,0 +1,130 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// Template validation for use outside of VS Code (e.g. in CI pipelines). Nothing in here (or anything it
+// imports) may depend on the vscode module.
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { DeploymentTemplate } from "../DeploymentTemplate";
+import * as language from "../Language";
+import { getLinkedTemplateErrors } from "../LinkedTemplateLoader";
+import { DeploymentParameters } from "../parameterFiles/DeploymentParameters";
+import { expandFilePatterns, IExpandedFilePatterns } from "./expandFilePatterns";
+
+export enum LintSeverity {
+    error = "error",
+    warning = "warning"
+}
+
+export interface ILintDiagnostic {
+    severity: LintSeverity;
+    kind: language.IssueKind;
+    message: string;
+    // Zero-based positions
+    start: language.Position;
+    end: language.Position;
+}
+
+export interface ILintFileResult {
+    // Path relative to the folder the linter was run from
+    displayPath: string;
+    documentUri: string;
+    diagnostics: ILintDiagnostic[];
+}
+
+export interface ILintResults {
+    // Results for each deployment template that was checked, in path order
+    files: ILintFileResult[];
+    // Files that were found but aren't deployment templates
+    filesSkipped: number;
+    errorCount: number;
+    warningCount: number;
+    // Patterns that didn't match any file, or files that couldn't be read
+    failures: string[];
+}
+
+/**
+ * Converts issues found in a document into diagnostics with line and column positions
+ */
+export function getLintDiagnostics(document: DeploymentTemplate | DeploymentParameters, issues: language.Issue[], severity: LintSeverity): ILintDiagnostic[] {
+    return issues.map(issue => ({
+        severity,
+        kind: issue.kind,
+        message: issue.message,
+        start: document.getDocumentPosition(issue.span.startIndex),
+        end: document.getDocumentPosition(issue.span.afterEndIndex)
+    }));
+}
+
+/**
+ * Gets the expression errors and warnings for a deployment template (the same ones reported in the editor),
+ * including errors in the parameters passed to linked templates, sorted by position
+ */
+export async function lintTemplate(deploymentTemplate: DeploymentTemplate): Promise<ILintDiagnostic[]> {
+    const errors: language.Issue[] = (await deploymentTemplate.errorsPromise).concat(await getLinkedTemplateErrors(deploymentTemplate));
+    const diagnostics: ILintDiagnostic[] = getLintDiagnostics(deploymentTemplate, errors, LintSeverity.error)
+        .concat(getLintDiagnostics(deploymentTemplate, deploymentTemplate.warnings, LintSeverity.warning));
+
+    return diagnostics.sort((a, b) =>
+        a.start.line !== b.start.line ? a.start.line - b.start.line : a.start.column - b.start.column);
+}
+
+/**
+ * Formats a diagnostic as "file:line:column - severity kind: message", with one-based line and column
+ */
+export function formatLintDiagnostic(filePath: string, diagnostic: ILintDiagnostic): string {
+    return `${filePath}:${diagnostic.start.line + 1}:${diagnostic.start.column + 1} - ${diagnostic.severity} ${diagnostic.kind}: ${diagnostic.message}`;
+}
+
+/**
+ * Validates all deployment templates matching the given files or globs. JSON files that aren't deployment
+ * templates are skipped.
+ */
+export async function lintFiles(patterns: string[], cwd: string): Promise<ILintResults> {
+    const results: ILintResults = {
+        files: [],
+        filesSkipped: 0,
+        errorCount: 0,
+        warningCount: 0,
+        failures: []
+    };
+
+    const expanded: IExpandedFilePatterns = await expandFilePatterns(patterns, cwd);
+    for (const pattern of expanded.unmatchedPatterns) {
+        results.failures.push(`No files found matching '${pattern}'`);
+    }
+
+    for (const filePath of expanded.files) {
+        const displayPath: string = path.relative(cwd, filePath);
+
+        let text: string;
+        try {
+            text = await fse.readFile(filePath, "utf8");
+        } catch (err) {
+            results.failures.push(`Unable to read '${displayPath}': ${err instanceof Error ? err.message : String(err)}`);
+            continue;
+        }
+
+        const documentUri: string = pathToFileURL(filePath).toString();
+        const deploymentTemplate: DeploymentTemplate = new DeploymentTemplate(text, documentUri);
+        if (!deploymentTemplate.hasArmSchemaUri()) {
+            ++results.filesSkipped;
+            continue;
+        }
+
+        const diagnostics: ILintDiagnostic[] = await lintTemplate(deploymentTemplate);
+        for (const diagnostic of diagnostics) {
+            if (diagnostic.severity === LintSeverity.error) {
+                ++results.errorCount;
+            } else {
+                ++results.warningCount;
+            }
+        }
+        results.files.push({ displayPath, documentUri, diagnostics });
+    }
+
+    return results;
+}
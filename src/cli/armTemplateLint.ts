@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// Command-line entry point for validating deployment template expressions, e.g.:
+//   node out/src/cli/armTemplateLint.js azuredeploy.json "templates/**/*.json"
+//   node out/src/cli/armTemplateLint.js --format sarif "**/*.json" > results.sarif
+//
+// Exit codes:
+//   0 - No errors (there may be warnings)
+//   1 - One or more templates have errors
+//   2 - Bad arguments, or files that couldn't be found or read
+
+// This runs from the compiled sources rather than the webpack bundle, which changes where the assets
+// are found (see constants.ts), so this must be set before anything else is loaded.
+process.env.AZCODE_ARM_IGNORE_BUNDLE = "1";
+
+import("./runLintCommand")
+    .then(async ({ runLintCommand }) => runLintCommand(
+        process.argv.slice(2),
+        line => process.stdout.write(`${line}\n`),
+        line => process.stderr.write(`${line}\n`)))
+    .then(
+        exitCode => {
+            process.exitCode = exitCode;
+        },
+        err => {
+            process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+            process.exitCode = 2;
+        });
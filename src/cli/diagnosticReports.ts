@@ -0,0 +1,161 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// Machine-readable reports of template diagnostics, for uploading to code scanning dashboards and for
+// comparing results between builds
+
+import * as language from "../Language";
+import { ILintDiagnostic, ILintFileResult } from "./TemplateLinter";
+
+export const sarifSchemaUri: string = "https://schemastore.azurewebsites.net/schemas/json/sarif-2.1.0-rtm.5.json";
+export const jsonReportVersion: number = 1;
+
+const toolName: string = "armTemplateLint";
+const toolInformationUri: string = "https://github.com/Microsoft/vscode-azurearmtools";
+
+/**
+ * A one-based line and column range
+ */
+export interface IReportRange {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+export interface IJsonReport {
+    version: number;
+    files: {
+        uri: string;
+        issues: {
+            ruleId: string;
+            severity: string;
+            message: string;
+            range: IReportRange;
+        }[];
+    }[];
+}
+
+// The subset of the SARIF 2.1.0 format that we produce (see https://docs.oasis-open.org/sarif/sarif/v2.1.0/)
+export interface ISarifLog {
+    $schema: string;
+    version: "2.1.0";
+    runs: {
+        tool: {
+            driver: {
+                name: string;
+                informationUri: string;
+                rules: { id: string }[];
+            };
+        };
+        results: ISarifResult[];
+    }[];
+}
+
+export interface ISarifResult {
+    ruleId: string;
+    ruleIndex: number;
+    level: string;
+    message: { text: string };
+    locations: {
+        physicalLocation: {
+            artifactLocation: { uri: string };
+            region: IReportRange;
+        };
+    }[];
+}
+
+/**
+ * Creates a JSON report of the diagnostics. Files are sorted by URI and issues by position, rule id and
+ * message, so the output for unchanged templates is identical between runs.
+ */
+export function createJsonReport(files: ILintFileResult[]): IJsonReport {
+    return {
+        version: jsonReportVersion,
+        files: sortFiles(files).map(file => ({
+            uri: file.documentUri,
+            issues: sortDiagnostics(file.diagnostics).map(diagnostic => ({
+                ruleId: diagnostic.kind,
+                severity: diagnostic.severity,
+                message: diagnostic.message,
+                range: getReportRange(diagnostic)
+            }))
+        }))
+    };
+}
+
+/**
+ * Creates a SARIF 2.1.0 log of the diagnostics, with one rule for each kind of issue found
+ */
+export function createSarifLog(files: ILintFileResult[]): ISarifLog {
+    const kinds: Set<language.IssueKind> = new Set<language.IssueKind>();
+    for (const file of files) {
+        for (const diagnostic of file.diagnostics) {
+            kinds.add(diagnostic.kind);
+        }
+    }
+    const ruleIds: language.IssueKind[] = Array.from(kinds).sort();
+
+    const results: ISarifResult[] = [];
+    for (const file of sortFiles(files)) {
+        for (const diagnostic of sortDiagnostics(file.diagnostics)) {
+            results.push({
+                ruleId: diagnostic.kind,
+                ruleIndex: ruleIds.indexOf(diagnostic.kind),
+                level: diagnostic.severity,
+                message: { text: diagnostic.message },
+                locations: [
+                    {
+                        physicalLocation: {
+                            artifactLocation: { uri: file.documentUri },
+                            region: getReportRange(diagnostic)
+                        }
+                    }
+                ]
+            });
+        }
+    }
+
+    return {
+        $schema: sarifSchemaUri,
+        version: "2.1.0",
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: toolName,
+                        informationUri: toolInformationUri,
+                        rules: ruleIds.map(id => ({ id }))
+                    }
+                },
+                results
+            }
+        ]
+    };
+}
+
+function getReportRange(diagnostic: ILintDiagnostic): IReportRange {
+    return {
+        startLine: diagnostic.start.line + 1,
+        startColumn: diagnostic.start.column + 1,
+        endLine: diagnostic.end.line + 1,
+        endColumn: diagnostic.end.column + 1
+    };
+}
+
+function sortFiles(files: ILintFileResult[]): ILintFileResult[] {
+    return files.slice().sort((a, b) => compareStrings(a.documentUri, b.documentUri));
+}
+
+function sortDiagnostics(diagnostics: ILintDiagnostic[]): ILintDiagnostic[] {
+    return diagnostics.slice().sort((a, b) =>
+        a.start.line !== b.start.line ? a.start.line - b.start.line :
+            a.start.column !== b.start.column ? a.start.column - b.start.column :
+                a.kind !== b.kind ? compareStrings(a.kind, b.kind) :
+                    compareStrings(a.message, b.message));
+}
+
+function compareStrings(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
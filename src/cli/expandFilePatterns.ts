@@ -0,0 +1,151 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+
+// Folders that are never searched when expanding a glob
+const excludedFolderNames: string[] = ["node_modules", ".git"];
+
+export interface IExpandedFilePatterns {
+    // Absolute paths of the matching files, sorted and without duplicates
+    files: string[];
+    // Patterns that didn't match any file (or files that don't exist)
+    unmatchedPatterns: string[];
+}
+
+/**
+ * Expands a list of file paths and glob patterns (relative to cwd) into the list of files they refer to.
+ * Supported wildcards are "*", "?", "**" (any number of folders) and "{a,b}".
+ */
+export async function expandFilePatterns(patterns: string[], cwd: string): Promise<IExpandedFilePatterns> {
+    const files: Set<string> = new Set<string>();
+    const unmatchedPatterns: string[] = [];
+
+    for (const pattern of patterns) {
+        let matches: string[];
+        if (isGlobPattern(pattern)) {
+            matches = await findGlobMatches(pattern, cwd);
+        } else {
+            const filePath: string = path.resolve(cwd, pattern);
+            matches = (await isFile(filePath)) ? [filePath] : [];
+        }
+
+        if (matches.length === 0) {
+            unmatchedPatterns.push(pattern);
+        }
+        for (const match of matches) {
+            files.add(match);
+        }
+    }
+
+    return {
+        files: Array.from(files).sort(),
+        unmatchedPatterns
+    };
+}
+
+export function isGlobPattern(pattern: string): boolean {
+    return /[*?{]/.test(pattern);
+}
+
+/**
+ * Converts a glob pattern using forward slashes as separators into a regular expression which matches
+ * the whole of a relative path (also using forward slashes)
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let regExp: string = "";
+    let inAlternatives: boolean = false;
+
+    for (let i = 0; i < pattern.length; ++i) {
+        const c: string = pattern[i];
+        switch (c) {
+            case "*":
+                if (pattern[i + 1] === "*") {
+                    if (pattern[i + 2] === "/") {
+                        // "**/" matches zero or more folders
+                        regExp += "(?:.*/)?";
+                        i += 2;
+                    } else {
+                        regExp += ".*";
+                        i += 1;
+                    }
+                } else {
+                    regExp += "[^/]*";
+                }
+                break;
+
+            case "?":
+                regExp += "[^/]";
+                break;
+
+            case "{":
+                inAlternatives = true;
+                regExp += "(?:";
+                break;
+
+            case "}":
+                if (inAlternatives) {
+                    inAlternatives = false;
+                    regExp += ")";
+                } else {
+                    regExp += "\\}";
+                }
+                break;
+
+            case ",":
+                regExp += inAlternatives ? "|" : ",";
+                break;
+
+            default:
+                regExp += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+                break;
+        }
+    }
+
+    return new RegExp(`^${regExp}$`, process.platform === "win32" ? "i" : "");
+}
+
+async function findGlobMatches(pattern: string, cwd: string): Promise<string[]> {
+    // Search from the folder made of the leading segments without wildcards
+    const segments: string[] = pattern.replace(/\\/g, "/").split("/");
+    const firstGlobSegment: number = segments.findIndex(isGlobPattern);
+    const baseFolder: string = path.resolve(cwd, segments.slice(0, firstGlobSegment).join("/"));
+    const regExp: RegExp = globToRegExp(segments.slice(firstGlobSegment).join("/"));
+
+    const matches: string[] = [];
+    for (const filePath of await getFilesRecursively(baseFolder)) {
+        const relativePath: string = path.relative(baseFolder, filePath).replace(/\\/g, "/");
+        if (regExp.test(relativePath)) {
+            matches.push(filePath);
+        }
+    }
+
+    return matches;
+}
+
+async function getFilesRecursively(folder: string): Promise<string[]> {
+    if (!(await fse.pathExists(folder))) {
+        return [];
+    }
+
+    const files: string[] = [];
+    for (const name of await fse.readdir(folder)) {
+        const fullPath: string = path.join(folder, name);
+        const stats: fse.Stats = await fse.stat(fullPath);
+        if (stats.isDirectory()) {
+            if (!excludedFolderNames.includes(name)) {
+                files.push(...await getFilesRecursively(fullPath));
+            }
+        } else if (stats.isFile()) {
+            files.push(fullPath);
+        }
+    }
+
+    return files;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+    return (await fse.pathExists(filePath)) && (await fse.stat(filePath)).isFile();
+}
@@ -0,0 +1,72 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { createJsonReport, createSarifLog } from "./diagnosticReports";
+import { formatLintDiagnostic, ILintResults, lintFiles } from "./TemplateLinter";
+
+enum OutputFormat {
+    text = "text",
+    json = "json",
+    sarif = "sarif"
+}
+
+const usage: string = "Usage: armTemplateLint [--format text|json|sarif] <file or glob> [<file or glob>...]";
+
+/**
+ * Runs the linter with the given command-line arguments, returning the process exit code. The report goes
+ * to writeOutput, and problems with the arguments or files to writeError.
+ */
+export async function runLintCommand(args: string[], writeOutput: (line: string) => void, writeError: (line: string) => void): Promise<number> {
+    if (args.includes("--help") || args.includes("-h")) {
+        writeOutput(usage);
+        return 0;
+    }
+
+    let format: OutputFormat = OutputFormat.text;
+    const patterns: string[] = [];
+    for (let i = 0; i < args.length; ++i) {
+        if (args[i] === "--format") {
+            const formatArg: string | undefined = args[++i];
+            if (formatArg !== OutputFormat.text && formatArg !== OutputFormat.json && formatArg !== OutputFormat.sarif) {
+                writeError(`Unknown format '${formatArg}'. ${usage}`);
+                return 2;
+            }
+            format = formatArg;
+        } else {
+            patterns.push(args[i]);
+        }
+    }
+
+    if (patterns.length === 0) {
+        writeError(usage);
+        return 2;
+    }
+
+    const results: ILintResults = await lintFiles(patterns, process.cwd());
+    switch (format) {
+        case OutputFormat.json:
+            writeOutput(JSON.stringify(createJsonReport(results.files), undefined, 2));
+            break;
+        case OutputFormat.sarif:
+            writeOutput(JSON.stringify(createSarifLog(results.files), undefined, 2));
+            break;
+        default:
+            for (const file of results.files) {
+                for (const diagnostic of file.diagnostics) {
+                    writeOutput(formatLintDiagnostic(file.displayPath, diagnostic));
+                }
+            }
+            writeOutput(`Checked ${results.files.length} template(s), skipped ${results.filesSkipped} other file(s): ${results.errorCount} error(s), ${results.warningCount} warning(s)`);
+            break;
+    }
+
+    for (const failure of results.failures) {
+        writeError(failure);
+    }
+
+    if (results.failures.length > 0) {
+        return 2;
+    }
+    return results.errorCount > 0 ? 1 : 0;
+}
@@ -32,6 +32,9 @@ export namespace configKeys {
     export const waitForDebugger = 'languageServer.waitForDebugger';
     export const langServerPath = 'languageServer.path';
     export const checkForLatestSchema = 'checkForLatestSchema';
+    export const parameterFiles = 'parameterFiles';
+    export const checkForStaleApiVersions = 'checkForStaleApiVersions';
+    export const apiVersionMaxAgeInMonths = 'apiVersionMaxAgeInMonths';
 }
 
 export namespace storageKeys {
@@ -42,11 +45,18 @@ export namespace storageKeys {
 export const diagnosticsCompletePrefix = "Diagnostics complete: ";
 export const expressionsDiagnosticsCompletionMessage = diagnosticsCompletePrefix + expressionsDiagnosticsSource;
 
+// How long to wait after the last edit to a template before recalculating its diagnostics
+export const diagnosticsDelayInMilliseconds = 300;
+
 export namespace templateKeys {
     // Top-level
+    export const schema = '$schema';
+    export const contentVersion = 'contentVersion';
     export const parameters = 'parameters';
     export const resources = 'resources';
     export const variables = 'variables';
+    export const functions = 'functions';
+    export const outputs = 'outputs';
     export const apiProfile = 'apiProfile';
 
     // Copy blocks
@@ -55,7 +65,28 @@ export namespace templateKeys {
     export const loopVarInput = 'input';
     export const loopVarCount = 'count';
 
+    // Functions
+    export const reference = 'reference';
+    export const resourceId = 'resourceId';
+    export const copyIndex = 'copyIndex';
+
     // Resources
     export const resourceType = 'type';
     export const resourceApiVersion = 'apiVersion';
+    export const resourceName = 'name';
+    export const resourceProperties = 'properties';
+    export const resourceDependsOn = 'dependsOn';
+
+    // Nested deployments
+    export const nestedDeploymentResourceType = 'Microsoft.Resources/deployments';
+    export const nestedDeploymentTemplate = 'template';
+    export const nestedDeploymentExprEvalOptions = 'expressionEvaluationOptions';
+    export const nestedDeploymentExprEvalScope = 'scope';
+    export const nestedDeploymentExprEvalInner = 'inner';
+
+    // Linked deployments
+    export const linkedDeploymentTemplateLink = 'templateLink';
+    export const linkedDeploymentUri = 'uri';
+    export const linkedDeploymentRelativePath = 'relativePath';
+    export const linkedDeploymentParametersLink = 'parametersLink';
 }
@@ -0,0 +1,98 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as vscode from "vscode";
+import { callWithTelemetryAndErrorHandling, IActionContext } from "vscode-azureextensionui";
+import { DeploymentTemplate } from "../DeploymentTemplate";
+import { getVSCodeRangeFromSpan } from "../util/vscodePosition";
+import { getDependencyGraph, IDependencyGraph, IDependencyGraphNode } from "./dependencyGraph";
+import { getDependencyGraphHtml, goToResourceCommand } from "./dependencyGraphView";
+
+/**
+ * A webview showing the resource dependency graph of a deployment template. Only one is shown at a time,
+ * and it follows changes to the template.
+ */
+export class DependencyGraphPanel {
+    public static readonly viewType: string = "azurerm-vscode-tools.dependencyGraph";
+    private static _current: DependencyGraphPanel | undefined;
+
+    private _graph: IDependencyGraph = { nodes: [], edges: [] };
+
+    private constructor(
+        private readonly _panel: vscode.WebviewPanel,
+        private _document: vscode.TextDocument,
+        private _deploymentTemplate: DeploymentTemplate
+    ) {
+        this._panel.onDidDispose(() => { DependencyGraphPanel._current = undefined; });
+        this._panel.webview.onDidReceiveMessage(async (message: { command: string; id: string }) => {
+            if (message.command === goToResourceCommand) {
+                await callWithTelemetryAndErrorHandling('dependencyGraph.goToResource', async (actionContext: IActionContext): Promise<void> => {
+                    actionContext.telemetry.suppressIfSuccessful = true;
+                    await this.goToResource(message.id);
+                });
+            }
+        });
+
+        this.update(_document, _deploymentTemplate);
+    }
+
+    /**
+     * Shows the dependency graph for the given template
+     */
+    public static show(document: vscode.TextDocument, deploymentTemplate: DeploymentTemplate): void {
+        const current: DependencyGraphPanel | undefined = DependencyGraphPanel._current;
+        if (current) {
+            current.update(document, deploymentTemplate);
+            current._panel.reveal(undefined, true);
+        } else {
+            const panel: vscode.WebviewPanel = vscode.window.createWebviewPanel(
+                DependencyGraphPanel.viewType,
+                DependencyGraphPanel.getTitle(document),
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: true });
+            DependencyGraphPanel._current = new DependencyGraphPanel(panel, document, deploymentTemplate);
+        }
+    }
+
+    /**
+     * Updates the graph if it's showing the given template
+     */
+    public static refresh(document: vscode.TextDocument, deploymentTemplate: DeploymentTemplate): void {
+        const current: DependencyGraphPanel | undefined = DependencyGraphPanel._current;
+        if (current && current._document.uri.toString() === document.uri.toString()) {
+            current.update(document, deploymentTemplate);
+        }
+    }
+
+    private static getTitle(document: vscode.TextDocument): string {
+        return `Dependencies: ${path.basename(document.uri.fsPath)}`;
+    }
+
+    private update(document: vscode.TextDocument, deploymentTemplate: DeploymentTemplate): void {
+        this._document = document;
+        this._deploymentTemplate = deploymentTemplate;
+        this._graph = getDependencyGraph(deploymentTemplate);
+
+        const title: string = DependencyGraphPanel.getTitle(document);
+        this._panel.title = title;
+        this._panel.webview.html = getDependencyGraphHtml(this._graph, title, crypto.randomBytes(16).toString('hex'));
+    }
+
+    private async goToResource(id: string): Promise<void> {
+        const node: IDependencyGraphNode | undefined = this._graph.nodes.find(n => n.id === id);
+        if (node) {
+            // Use the editor the template is already open in, if any
+            const existingEditor: vscode.TextEditor | undefined = vscode.window.visibleTextEditors.find(e => e.document === this._document);
+            const editor: vscode.TextEditor = await vscode.window.showTextDocument(
+                this._document,
+                existingEditor && existingEditor.viewColumn !== undefined ? existingEditor.viewColumn : vscode.ViewColumn.One);
+
+            const range: vscode.Range = getVSCodeRangeFromSpan(this._deploymentTemplate, node.span);
+            editor.revealRange(range, vscode.TextEditorRevealType.Default);
+            editor.selection = new vscode.Selection(range.start, range.end);
+        }
+    }
+}
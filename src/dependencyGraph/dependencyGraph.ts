@@ -0,0 +1,134 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// A diagram-friendly view of the dependencies between a template's resources, and its export to text
+// formats. Nothing in here may depend on the vscode module.
+
+import { DeploymentTemplate } from "../DeploymentTemplate";
+import * as language from "../Language";
+import { ResourceDefinition } from "../ResourceDefinition";
+import { ResourceDependencyGraph } from "../ResourceDependencies";
+
+export enum DependencyKind {
+    // An explicit entry in "dependsOn"
+    dependsOn = "dependsOn",
+    // An implicit dependency from a call to reference()
+    reference = "reference"
+}
+
+export interface IDependencyGraphNode {
+    id: string;
+    label: string;
+    resourceType: string;
+    // The resource's name in the document (or the whole resource if it has no name), for navigation
+    span: language.Span;
+}
+
+/**
+ * An edge from a resource to a resource it depends on
+ */
+export interface IDependencyGraphEdge {
+    source: string;
+    target: string;
+    kind: DependencyKind;
+}
+
+export interface IDependencyGraph {
+    nodes: IDependencyGraphNode[];
+    edges: IDependencyGraphEdge[];
+}
+
+/**
+ * Creates a graph with a node for each resource in the template (including child resources) and an edge
+ * for each resolved "dependsOn" entry and reference() call
+ */
+export function getDependencyGraph(deploymentTemplate: DeploymentTemplate): IDependencyGraph {
+    const resourceGraph: ResourceDependencyGraph = deploymentTemplate.resourceDependencyGraph;
+    const ids: Map<ResourceDefinition, string> = new Map<ResourceDefinition, string>();
+
+    const nodes: IDependencyGraphNode[] = resourceGraph.resources.map((resource, index) => {
+        const id = `resource${index}`;
+        ids.set(resource, id);
+
+        const nameValue = resource.nameValue;
+        return {
+            id,
+            label: resource.displayName,
+            resourceType: resource.typeDisplayName,
+            span: nameValue ? nameValue.span : resource.resourceObject.span
+        };
+    });
+
+    const edges: IDependencyGraphEdge[] = [];
+    const edgesSeen: Set<string> = new Set<string>();
+    function addEdges(resource: ResourceDefinition, targets: ResourceDefinition[], kind: DependencyKind): void {
+        for (const target of targets) {
+            // tslint:disable-next-line: no-non-null-assertion // All resources were given ids above
+            const edge: IDependencyGraphEdge = { source: ids.get(resource)!, target: ids.get(target)!, kind };
+            const edgeKey = `${edge.source} ${edge.target} ${edge.kind}`;
+            if (!edgesSeen.has(edgeKey)) {
+                edgesSeen.add(edgeKey);
+                edges.push(edge);
+            }
+        }
+    }
+
+    for (const dependency of resourceGraph.dependencies) {
+        addEdges(dependency.resource, dependency.targets, DependencyKind.dependsOn);
+    }
+    for (const reference of resourceGraph.references) {
+        addEdges(reference.resource, reference.targets, DependencyKind.reference);
+    }
+
+    return { nodes, edges };
+}
+
+/**
+ * Converts the graph to Graphviz DOT format. Implicit dependencies from reference() are dashed.
+ */
+export function toDot(graph: IDependencyGraph): string {
+    const lines: string[] = [
+        "digraph resources {",
+        "    node [shape=box];"
+    ];
+
+    for (const node of graph.nodes) {
+        lines.push(`    ${node.id} [label="${escapeDot(node.label)}\\n${escapeDot(node.resourceType)}"];`);
+    }
+    for (const edge of graph.edges) {
+        const attributes: string = edge.kind === DependencyKind.reference ? ` [style=dashed, label="${DependencyKind.reference}"]` : "";
+        lines.push(`    ${edge.source} -> ${edge.target}${attributes};`);
+    }
+
+    lines.push("}");
+    return lines.join("\n");
+}
+
+/**
+ * Converts the graph to a Mermaid flowchart. Implicit dependencies from reference() are dotted.
+ */
+export function toMermaid(graph: IDependencyGraph): string {
+    const lines: string[] = [
+        "graph TD"
+    ];
+
+    for (const node of graph.nodes) {
+        lines.push(`    ${node.id}["${escapeMermaid(node.label)}<br/>${escapeMermaid(node.resourceType)}"]`);
+    }
+    for (const edge of graph.edges) {
+        const arrow: string = edge.kind === DependencyKind.reference ? `-.->|${DependencyKind.reference}|` : "-->";
+        lines.push(`    ${edge.source} ${arrow} ${edge.target}`);
+    }
+
+    return lines.join("\n");
+}
+
+function escapeDot(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function escapeMermaid(text: string): string {
+    // Mermaid uses HTML entity codes (without the ampersand) inside quoted labels
+    return text.replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+}
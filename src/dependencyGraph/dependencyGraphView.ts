@@ -0,0 +1,163 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// Renders a dependency graph as an SVG diagram for the graph webview. The diagram is laid out here rather
+// than with a graph library so that the webview works offline and loads no external resources.
+
+import { DependencyKind, IDependencyGraph, IDependencyGraphNode } from "./dependencyGraph";
+
+// Message posted by the webview when a node is clicked
+export const goToResourceCommand: string = "goToResource";
+
+const nodeWidth: number = 220;
+const nodeHeight: number = 48;
+const horizontalGap: number = 40;
+const verticalGap: number = 70;
+const margin: number = 20;
+const maxLabelLength: number = 32;
+
+export interface INodeLayout {
+    node: IDependencyGraphNode;
+    x: number;
+    y: number;
+}
+
+export interface IDependencyGraphLayout {
+    width: number;
+    height: number;
+    nodes: INodeLayout[];
+}
+
+/**
+ * Lays out the graph in rows, with resources that depend on nothing in the top row and every other
+ * resource in a row below all of its dependencies (as far as cycles allow)
+ */
+export function layoutDependencyGraph(graph: IDependencyGraph): IDependencyGraphLayout {
+    const dependencies: Map<string, string[]> = new Map<string, string[]>();
+    for (const node of graph.nodes) {
+        dependencies.set(node.id, []);
+    }
+    for (const edge of graph.edges) {
+        // tslint:disable-next-line: no-non-null-assertion // Edges are between nodes of the graph
+        dependencies.get(edge.source)!.push(edge.target);
+    }
+
+    const rows: Map<string, number> = new Map<string, number>();
+    const inProgress: Set<string> = new Set<string>();
+    function getRow(id: string): number {
+        let row: number | undefined = rows.get(id);
+        if (row === undefined) {
+            row = 0;
+            inProgress.add(id);
+            // tslint:disable-next-line: no-non-null-assertion // All nodes were added above
+            for (const target of dependencies.get(id)!) {
+                if (!inProgress.has(target)) {
+                    row = Math.max(row, getRow(target) + 1);
+                }
+            }
+            inProgress.delete(id);
+            rows.set(id, row);
+        }
+
+        return row;
+    }
+
+    const columnsUsed: number[] = [];
+    const nodes: INodeLayout[] = graph.nodes.map(node => {
+        const row: number = getRow(node.id);
+        // tslint:disable-next-line: strict-boolean-expressions
+        const column: number = columnsUsed[row] || 0;
+        columnsUsed[row] = column + 1;
+        return {
+            node,
+            x: margin + column * (nodeWidth + horizontalGap),
+            y: margin + row * (nodeHeight + verticalGap)
+        };
+    });
+
+    const columnCount: number = Math.max(1, ...columnsUsed);
+    const rowCount: number = Math.max(1, columnsUsed.length);
+    return {
+        width: 2 * margin + columnCount * nodeWidth + (columnCount - 1) * horizontalGap,
+        height: 2 * margin + rowCount * nodeHeight + (rowCount - 1) * verticalGap,
+        nodes
+    };
+}
+
+/**
+ * Gets the HTML for the graph webview. Clicking a node posts a message with the node's id.
+ */
+export function getDependencyGraphHtml(graph: IDependencyGraph, title: string, nonce: string): string {
+    const layout: IDependencyGraphLayout = layoutDependencyGraph(graph);
+    const positions: Map<string, INodeLayout> = new Map<string, INodeLayout>(layout.nodes.map((n): [string, INodeLayout] => [n.node.id, n]));
+
+    const edgeElements: string[] = graph.edges.map(edge => {
+        // tslint:disable-next-line: no-non-null-assertion // Edges are between nodes of the graph
+        const source: INodeLayout = positions.get(edge.source)!;
+        // tslint:disable-next-line: no-non-null-assertion
+        const target: INodeLayout = positions.get(edge.target)!;
+        const x1: number = source.x + nodeWidth / 2;
+        const y1: number = source.y;
+        const x2: number = target.x + nodeWidth / 2;
+        const y2: number = target.y + nodeHeight;
+        const dashed: string = edge.kind === DependencyKind.reference ? ` class="reference"` : "";
+        return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"${dashed} marker-end="url(#arrow)"><title>${edge.kind}</title></line>`;
+    });
+
+    const nodeElements: string[] = layout.nodes.map(({ node, x, y }) =>
+        `<g class="node" data-id="${node.id}" transform="translate(${x}, ${y})">` +
+        `<title>${escapeHtml(node.label)}&#10;${escapeHtml(node.resourceType)}</title>` +
+        `<rect width="${nodeWidth}" height="${nodeHeight}" rx="4"></rect>` +
+        `<text x="10" y="20">${escapeHtml(truncate(node.label))}</text>` +
+        `<text x="10" y="38" class="type">${escapeHtml(truncate(node.resourceType))}</text>` +
+        `</g>`);
+
+    const emptyMessage: string = graph.nodes.length === 0 ? "<p>This template has no resources.</p>" : "";
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body { color: var(--vscode-editor-foreground); font-family: var(--vscode-font-family); }
+        rect { fill: var(--vscode-editor-background); stroke: var(--vscode-editor-foreground); }
+        .node { cursor: pointer; }
+        .node:hover rect { stroke: var(--vscode-focusBorder); stroke-width: 2; }
+        text { fill: var(--vscode-editor-foreground); font-size: 12px; }
+        text.type { opacity: 0.7; font-size: 11px; }
+        line { stroke: var(--vscode-editor-foreground); }
+        line.reference { stroke-dasharray: 4 3; }
+        #arrow path { fill: var(--vscode-editor-foreground); }
+    </style>
+</head>
+<body>
+    ${emptyMessage}
+    <svg width="${layout.width}" height="${layout.height}" xmlns="http://www.w3.org/2000/svg">
+        <defs>
+            <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z"></path>
+            </marker>
+        </defs>
+        ${edgeElements.join("\n        ")}
+        ${nodeElements.join("\n        ")}
+    </svg>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        for (const node of document.querySelectorAll(".node")) {
+            node.addEventListener("click", () => vscode.postMessage({ command: "${goToResourceCommand}", id: node.getAttribute("data-id") }));
+        }
+    </script>
+</body>
+</html>`;
+}
+
+function truncate(text: string): string {
+    return text.length > maxLabelLength ? `${text.substr(0, maxLabelLength - 1)}…` : text;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
@@ -0,0 +1,251 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { CachedValue } from "../CachedValue";
+import * as Completion from "../Completion";
+import { templateKeys } from "../constants";
+import { DeploymentTemplate } from "../DeploymentTemplate";
+import { ExpressionType, getExpressionTypeFromJsonValue, isExpressionTypeAssignable } from "../ExpressionType";
+import { assert } from "../fixed_assert";
+import { IParameterDefinition } from "../IParameterDefinition";
+import * as Json from "../JSON";
+import * as language from "../Language";
+import * as utilities from "../Utilities";
+import { ParameterValueDefinition } from "./ParameterValueDefinition";
+
+/**
+ * Represents a deployment parameter file (e.g. azuredeploy.parameters.json), which supplies values
+ * for the parameters of a deployment template
+ */
+export class DeploymentParameters {
+    // Parse result for the parameter file JSON document as a whole
+    private _jsonParseResult: Json.ParseResult;
+
+    // The JSON node for the top-level JSON object (if the JSON is not empty or malformed)
+    private _topLevelValue: Json.ObjectValue | null;
+
+    private _parameterValues: CachedValue<ParameterValueDefinition[]> = new CachedValue<ParameterValueDefinition[]>();
+
+    /**
+     * Create a new DeploymentParameters object.
+     *
+     * @param _documentText The string text of the document.
+     * @param _documentId A unique identifier for this document. Usually this will be a URI to the document.
+     */
+    constructor(private _documentText: string, private _documentId: string) {
+        assert(_documentText !== null);
+        assert(_documentText !== undefined);
+        assert(_documentId);
+
+        this._jsonParseResult = Json.parse(_documentText);
+        this._topLevelValue = Json.asObjectValue(this._jsonParseResult.value);
+    }
+
+    /**
+     * Get the document text as a string.
+     */
+    public get documentText(): string {
+        return this._documentText;
+    }
+
+    /**
+     * The unique identifier for this parameter file. Usually this will be a URI to the document.
+     */
+    public get documentId(): string {
+        return this._documentId;
+    }
+
+    public get jsonParseResult(): Json.ParseResult {
+        return this._jsonParseResult;
+    }
+
+    /**
+     * The JSON property named "parameters" at the top level of the parameter file, if any
+     */
+    public get parametersProperty(): Json.Property | null {
+        if (this._topLevelValue) {
+            const lowerCasedName = templateKeys.parameters.toLowerCase();
+            // Last one wins, just like in Azure
+            const matches = this._topLevelValue.properties.filter(p => p.nameValue.unquotedValue.toLowerCase() === lowerCasedName);
+            return matches.length > 0 ? matches[matches.length - 1] : null;
+        }
+
+        return null;
+    }
+
+    /**
+     * The JSON object containing the parameter values, if any
+     */
+    public get parametersObjectValue(): Json.ObjectValue | null {
+        const parametersProperty = this.parametersProperty;
+        return parametersProperty ? Json.asObjectValue(parametersProperty.value) : null;
+    }
+
+    public get parameterValues(): ParameterValueDefinition[] {
+        return this._parameterValues.getOrCacheValue(() => {
+            const parameterValues: ParameterValueDefinition[] = [];
+
+            const parametersObject = this.parametersObjectValue;
+            if (parametersObject) {
+                for (const property of parametersObject.properties) {
+                    parameterValues.push(new ParameterValueDefinition(property));
+                }
+            }
+
+            return parameterValues;
+        });
+    }
+
+    // Search is case-insensitive
+    public getParameterValue(parameterName: string): ParameterValueDefinition | null {
+        const parameterNameLC = parameterName.toLowerCase();
+
+        // Find the last definition that matches, because that's what Azure does if there are matching names
+        for (let i = this.parameterValues.length - 1; i >= 0; --i) {
+            const pv = this.parameterValues[i];
+            if (pv.nameValue.unquotedValue.toLowerCase() === parameterNameLC) {
+                return pv;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Validates the parameter values in this file against the parameter definitions in the given template
+     */
+    public getErrors(template: DeploymentTemplate): language.Issue[] {
+        const errors: language.Issue[] = [];
+        const parameterDefinitions: IParameterDefinition[] = template.topLevelScope.parameterDefinitions;
+
+        // Parameters that are required by the template but have no value
+        const missingSpan: language.Span = this.getMissingParametersSpan();
+        for (const parameterDefinition of parameterDefinitions) {
+            const parameterName = parameterDefinition.nameValue.unquotedValue;
+            if (!parameterDefinition.defaultValue && !this.getParameterValue(parameterName)) {
+                errors.push(new language.Issue(
+                    missingSpan,
+                    `The template parameter '${parameterName}' requires a value, but none is given in this parameter file.`,
+                    language.IssueKind.missingRequiredParam));
+            }
+        }
+
+        for (const parameterValue of this.parameterValues) {
+            const parameterName = parameterValue.nameValue.unquotedValue;
+            const parameterDefinition: IParameterDefinition | null = template.topLevelScope.getParameterDefinition(parameterName);
+
+            if (!parameterDefinition) {
+                // Parameters that aren't defined in the template
+                errors.push(new language.Issue(
+                    parameterValue.nameValue.span,
+                    `The parameter '${parameterName}' is not defined in the template.`,
+                    language.IssueKind.unknownParamValue));
+            } else {
+                // Values of the wrong type (references to Key Vault secrets are resolved at deployment time)
+                const expectedType: ExpressionType | null = parameterDefinition.validType;
+                const value: Json.Value | null = parameterValue.value;
+                const actualType: ExpressionType | null = getExpressionTypeFromJsonValue(value);
+                if (value && expectedType && actualType && !isExpressionTypeAssignable(expectedType, actualType)) {
+                    errors.push(new language.Issue(
+                        value.span,
+                        `The value of parameter '${parameterName}' should be of type '${expectedType}', but is of type '${actualType}'.`,
+                        language.IssueKind.paramValueTypeMismatch));
+                }
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Gets completions for parameter names from the template at the given location (must be where a new
+     * property in the "parameters" object can be added)
+     */
+    public getCompletionItems(documentCharacterIndex: number, template: DeploymentTemplate): Completion.Item[] {
+        const parametersObject = this.parametersObjectValue;
+        if (!parametersObject || !this.isInsideObjectButNotInPropertyValue(parametersObject, documentCharacterIndex)) {
+            return [];
+        }
+
+        // If we're inside a property name (or a string that will become one), replace the whole string
+        let replaceSpan = new language.Span(documentCharacterIndex, 0);
+        let currentName: string | undefined;
+        const token: Json.Token | null = this._jsonParseResult.getTokenAtCharacterIndex(documentCharacterIndex);
+        if (token && token.type === Json.TokenType.QuotedString && documentCharacterIndex > token.span.startIndex) {
+            replaceSpan = token.span;
+            currentName = utilities.unquote(token.toString());
+        }
+
+        const completions: Completion.Item[] = [];
+        for (const parameterDefinition of template.topLevelScope.parameterDefinitions) {
+            const parameterName = parameterDefinition.nameValue.unquotedValue;
+            if (parameterName !== currentName && this.getParameterValue(parameterName)) {
+                // Already has a value
+                continue;
+            }
+
+            completions.push(new Completion.Item(
+                parameterName,
+                `"${parameterName}": {\n\t"value": ${getDefaultValueSnippet(parameterDefinition.validType)}\n}`,
+                replaceSpan,
+                `(parameter)${parameterDefinition.defaultValue ? "" : " (required)"}`,
+                parameterDefinition.description,
+                Completion.CompletionKind.Parameter));
+        }
+
+        return completions;
+    }
+
+    public getDocumentCharacterIndex(documentLineIndex: number, documentColumnIndex: number): number {
+        return this._jsonParseResult.getCharacterIndex(documentLineIndex, documentColumnIndex);
+    }
+
+    public getDocumentPosition(documentCharacterIndex: number): language.Position {
+        return this._jsonParseResult.getPositionFromCharacterIndex(documentCharacterIndex);
+    }
+
+    private getMissingParametersSpan(): language.Span {
+        const parametersProperty = this.parametersProperty;
+        if (parametersProperty) {
+            return parametersProperty.nameValue.span;
+        }
+
+        // No "parameters" property, use the start of the document
+        return new language.Span(this._topLevelValue ? this._topLevelValue.span.startIndex : 0, 1);
+    }
+
+    private isInsideObjectButNotInPropertyValue(objectValue: Json.ObjectValue, documentCharacterIndex: number): boolean {
+        // Must be inside the braces
+        if (documentCharacterIndex <= objectValue.span.startIndex || documentCharacterIndex > objectValue.span.endIndex) {
+            return false;
+        }
+
+        for (const property of objectValue.properties) {
+            if (property.value && property.value.span.contains(documentCharacterIndex, false)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+}
+
+function getDefaultValueSnippet(parameterType: ExpressionType | null): string {
+    switch (parameterType) {
+        case "string":
+        case "securestring":
+            return `"$0"`;
+        case "int":
+            return `\${0:0}`;
+        case "bool":
+            return `\${0:false}`;
+        case "object":
+        case "secureobject":
+            return "{\n\t\t$0\n\t}";
+        case "array":
+            return "[\n\t\t$0\n\t]";
+        default:
+            return "$0";
+    }
+}
@@ -0,0 +1,53 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { assert } from '../fixed_assert';
+import * as Json from "../JSON";
+import * as language from "../Language";
+
+/**
+ * This class represents the value given to a parameter in a deployment parameter file, e.g.
+ *
+ *   "parameters": {
+ *     "storageName": { << This is a ParameterValueDefinition
+ *       "value": "mystorage"
+ *     }
+ *   }
+ */
+export class ParameterValueDefinition {
+    constructor(private readonly _property: Json.Property) {
+        assert(_property);
+    }
+
+    public get nameValue(): Json.StringValue {
+        return this._property.nameValue;
+    }
+
+    /**
+     * The "value" property of the parameter, if any
+     */
+    public get value(): Json.Value | null {
+        const parameterObject: Json.ObjectValue | null = Json.asObjectValue(this._property.value);
+        return parameterObject ? parameterObject.getPropertyValue("value") : null;
+    }
+
+    /**
+     * The "reference" property of the parameter (e.g. a Key Vault secret), if any
+     */
+    public get reference(): Json.ObjectValue | null {
+        const parameterObject: Json.ObjectValue | null = Json.asObjectValue(this._property.value);
+        return parameterObject ? Json.asObjectValue(parameterObject.getPropertyValue("reference")) : null;
+    }
+
+    public get fullSpan(): language.Span {
+        return this._property.span;
+    }
+
+    /**
+     * Convenient way of seeing what this object represents in the debugger, shouldn't be used for production code
+     */
+    public get __debugDisplay(): string {
+        return this.nameValue.toString();
+    }
+}
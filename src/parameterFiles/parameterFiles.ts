@@ -0,0 +1,115 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { TextDocument, Uri, workspace } from "vscode";
+import { configKeys, configPrefix } from "../constants";
+
+// E.g. "azuredeploy.parameters.json"
+const parameterFileNameRegex = /^(.+)\.parameters\.jsonc?$/i;
+
+export interface IParameterFileAssociation {
+    templatePath: string;
+    parameterFilePath: string;
+}
+
+function isJsonOrJsoncLangId(textDocument: TextDocument): boolean {
+    return textDocument.languageId === 'json' || textDocument.languageId === 'jsonc';
+}
+
+/**
+ * Whether the file name follows the naming convention for parameter files (<template-name>.parameters.json)
+ */
+export function isParameterFileName(filePath: string): boolean {
+    return parameterFileNameRegex.test(path.basename(filePath));
+}
+
+/**
+ * Gets the template file paths that a parameter file might belong to by naming convention,
+ * e.g. "azuredeploy.parameters.json" => "azuredeploy.json", "azuredeploy.jsonc"
+ */
+export function getTemplateFileCandidates(parameterFilePath: string): string[] {
+    const match = path.basename(parameterFilePath).match(parameterFileNameRegex);
+    if (!match) {
+        return [];
+    }
+
+    const folder = path.dirname(parameterFilePath);
+    return [
+        path.join(folder, `${match[1]}.json`),
+        path.join(folder, `${match[1]}.jsonc`)
+    ];
+}
+
+/**
+ * Retrieves the explicit template/parameter file associations from the user's settings, with
+ * relative paths resolved against the first workspace folder
+ */
+export function getParameterFileAssociations(): IParameterFileAssociation[] {
+    // tslint:disable-next-line: strict-boolean-expressions
+    const setting = workspace.getConfiguration(configPrefix).get<{ [templatePath: string]: string }>(configKeys.parameterFiles) || {};
+    const folders = workspace.workspaceFolders;
+    const root: string | undefined = folders && folders.length > 0 ? folders[0].uri.fsPath : undefined;
+
+    const associations: IParameterFileAssociation[] = [];
+    for (const templatePath of Object.getOwnPropertyNames(setting)) {
+        const parameterFilePath = setting[templatePath];
+        if (typeof parameterFilePath === "string" && parameterFilePath) {
+            associations.push({
+                templatePath: resolvePath(templatePath, root),
+                parameterFilePath: resolvePath(parameterFilePath, root)
+            });
+        }
+    }
+
+    return associations;
+}
+
+/**
+ * Whether a document should be treated as a parameter file, either by naming convention or because it
+ * has been associated with a template in the user's settings
+ */
+export function mightBeParameterFile(document: TextDocument): boolean {
+    if (document.uri.scheme !== 'file' || !isJsonOrJsoncLangId(document)) {
+        return false;
+    }
+
+    const filePath = document.uri.fsPath;
+    return isParameterFileName(filePath) ||
+        getParameterFileAssociations().some(association => arePathsEqual(association.parameterFilePath, filePath));
+}
+
+/**
+ * Finds the template that a parameter file belongs to. Explicit associations in the user's settings take
+ * precedence over the naming convention.
+ */
+export async function findTemplateForParameterFile(parameterFileUri: Uri): Promise<Uri | undefined> {
+    const parameterFilePath = parameterFileUri.fsPath;
+
+    const association = getParameterFileAssociations().find(a => arePathsEqual(a.parameterFilePath, parameterFilePath));
+    if (association) {
+        return Uri.file(association.templatePath);
+    }
+
+    for (const candidate of getTemplateFileCandidates(parameterFilePath)) {
+        if (await fse.pathExists(candidate)) {
+            return Uri.file(candidate);
+        }
+    }
+
+    return undefined;
+}
+
+function resolvePath(filePath: string, root: string | undefined): string {
+    return path.normalize(root && !path.isAbsolute(filePath) ? path.join(root, filePath) : filePath);
+}
+
+export function arePathsEqual(path1: string, path2: string): boolean {
+    const normalized1 = path.normalize(path1);
+    const normalized2 = path.normalize(path2);
+    return process.platform === 'win32' ?
+        normalized1.toLowerCase() === normalized2.toLowerCase() :
+        normalized1 === normalized2;
+}
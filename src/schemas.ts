@@ -28,6 +28,50 @@ export function isArmSchema(json: string | undefined | null): boolean {
 // Tenant:
 //   https://schema.management.azure.com/schemas/2019-08-01/tenantDeploymentTemplate.json#
 
+/**
+ * The scope that a template is deployed at, which determines the resources and functions it can use
+ */
+export enum DeploymentScope {
+    resourceGroup = "resourceGroup",
+    subscription = "subscription",
+    managementGroup = "managementGroup",
+    tenant = "tenant"
+}
+
+/**
+ * Given a template's schema, returns the scope it's deployed at (see the root schemas above), or undefined if
+ * the schema is not valid or its scope isn't known
+ */
+export function getDeploymentScope(schema: string | undefined | null): DeploymentScope | undefined {
+    const match: RegExpMatchArray | null = isArmSchema(schema) ? (<string>schema).match(/\/([a-z]*)deploymentTemplate\.json#?$/i) : null;
+    switch (match ? match[1].toLowerCase() : undefined) {
+        case "":
+            return DeploymentScope.resourceGroup;
+        case "subscription":
+            return DeploymentScope.subscription;
+        case "managementgroup":
+            return DeploymentScope.managementGroup;
+        case "tenant":
+            return DeploymentScope.tenant;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Gets the name of a deployment scope for display, e.g. "management group"
+ */
+export function getDeploymentScopeDisplayName(scope: DeploymentScope): string {
+    switch (scope) {
+        case DeploymentScope.resourceGroup:
+            return "resource group";
+        case DeploymentScope.managementGroup:
+            return "management group";
+        default:
+            return scope;
+    }
+}
+
 /**
  * Given a schema, returns the recommended one (most recent) for the same scope.
  * If the schema is not valid or there is no better schema, returns undefined
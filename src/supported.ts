@@ -10,6 +10,12 @@ export const armDeploymentDocumentSelector = [
     { language: languageId, scheme: 'file' }
 ];
 
+// Parameter files are plain JSON files, whether they are actually associated with a template is determined when opened
+export const parameterFileDocumentSelector = [
+    { language: 'json', scheme: 'file' },
+    { language: 'jsonc', scheme: 'file' }
+];
+
 const maxLinesToDetectSchemaIn = 500;
 
 function isJsonOrJsoncLangId(textDocument: TextDocument): boolean {
@@ -46,11 +52,19 @@ export function mightBeDeploymentTemplate(textDocument: TextDocument): boolean {
 
     if (isJsonOrJsoncLangId(textDocument)) {
         let startOfDocument = textDocument.getText(new Range(new Position(0, 0), new Position(maxLinesToDetectSchemaIn - 1, 0)));
-
-        // Do a quick dirty check if the first portion of the JSON contains a schema string that we're interested in
-        // (might not actually be in a $schema property, though)
-        return !!startOfDocument && containsArmSchema(startOfDocument);
+        return startOfTextContainsArmSchema(startOfDocument);
     }
 
     return false;
 }
+
+/**
+ * Whether the text of a JSON file (e.g. one that isn't open) might be a deployment template, using
+ * the same check as for opened JSON documents
+ */
+export function startOfTextContainsArmSchema(text: string): boolean {
+    // Do a quick dirty check if the first portion of the JSON contains a schema string that we're interested in
+    // (might not actually be in a $schema property, though)
+    const startOfText: string = text.split("\n", maxLinesToDetectSchemaIn - 1).join("\n");
+    return !!startOfText && containsArmSchema(startOfText);
+}
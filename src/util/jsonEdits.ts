@@ -0,0 +1,238 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { templateKeys } from "../constants";
+import * as Json from "../JSON";
+import * as language from "../Language";
+
+/**
+ * A replacement of the text at a span of a document with new text (an empty span means an insertion)
+ */
+export class TextEdit {
+    constructor(public readonly span: language.Span, public readonly newText: string) {
+    }
+}
+
+/**
+ * Gets the whitespace that the line containing the given character index starts with
+ */
+export function getLineIndentation(documentText: string, characterIndex: number): string {
+    const lineStartIndex: number = documentText.lastIndexOf("\n", characterIndex - 1) + 1;
+    const match: RegExpMatchArray | null = documentText.substr(lineStartIndex).match(/^[ \t]*/);
+    return match ? match[0] : "";
+}
+
+/**
+ * Guesses the whitespace used for a single level of indentation in the document (defaults to four spaces)
+ */
+export function getIndentationUnit(documentText: string): string {
+    const match: RegExpMatchArray | null = documentText.match(/\n([ \t]+)\S/);
+    return match ? match[1] : "    ";
+}
+
+/**
+ * Formats a value as JSON, with nested lines indented to fit in at the given indentation
+ */
+export function formatJsonValue(value: unknown, indentation: string, indentationUnit: string): string {
+    return JSON.stringify(value, null, indentationUnit).replace(/\n/g, `\n${indentation}`);
+}
+
+/**
+ * Changes the indentation of all but the first line of some text (the first line is assumed to be placed
+ * after existing text)
+ */
+export function reindentText(text: string, oldIndentation: string, newIndentation: string): string {
+    return text.split("\n").map((line, index) => {
+        if (index > 0 && line.startsWith(oldIndentation)) {
+            return newIndentation + line.slice(oldIndentation.length);
+        }
+        return line;
+    }).join("\n");
+}
+
+/**
+ * Creates an edit that adds a new property to a JSON object.
+ *
+ * @param precedingProperty The property after which to insert the new one. If undefined, the new property
+ *   is added at the end, if null, it's added at the beginning
+ */
+export function getInsertPropertyEdit(
+    documentText: string,
+    objectValue: Json.ObjectValue,
+    propertyName: string,
+    propertyValue: unknown,
+    precedingProperty?: Json.Property | null
+): TextEdit {
+    return getInsertPropertyTextEdit(
+        documentText,
+        objectValue,
+        propertyName,
+        (indentation: string, indentationUnit: string) => formatJsonValue(propertyValue, indentation, indentationUnit),
+        precedingProperty);
+}
+
+/**
+ * Creates an edit that adds a new property to a JSON object, given a function that creates the text of the
+ * property's value from the indentation of the property and of a single level of indentation
+ */
+export function getInsertPropertyTextEdit(
+    documentText: string,
+    objectValue: Json.ObjectValue,
+    propertyName: string,
+    getPropertyValueText: (indentation: string, indentationUnit: string) => string,
+    precedingProperty?: Json.Property | null
+): TextEdit {
+    const properties: Json.Property[] = objectValue.properties;
+    const objectIndentation: string = getLineIndentation(documentText, objectValue.span.startIndex);
+    const indentationUnit: string = getIndentationUnit(documentText);
+    let propertyIndentation: string = objectIndentation + indentationUnit;
+    if (properties.length > 0 && documentText.lastIndexOf("\n", properties[0].span.startIndex) > objectValue.span.startIndex) {
+        // Match the existing properties
+        propertyIndentation = getLineIndentation(documentText, properties[0].span.startIndex);
+    }
+
+    const propertyText = `${JSON.stringify(propertyName)}: ${getPropertyValueText(propertyIndentation, indentationUnit)}`;
+
+    if (properties.length === 0) {
+        // Replace everything between the braces
+        const interiorSpan = new language.Span(objectValue.span.startIndex + 1, Math.max(0, objectValue.span.endIndex - objectValue.span.startIndex - 1));
+        return new TextEdit(interiorSpan, `\n${propertyIndentation}${propertyText}\n${objectIndentation}`);
+    }
+
+    if (precedingProperty === null) {
+        return new TextEdit(new language.Span(properties[0].span.startIndex, 0), `${propertyText},\n${propertyIndentation}`);
+    }
+
+    // tslint:disable-next-line: strict-boolean-expressions
+    const afterProperty: Json.Property = precedingProperty || properties[properties.length - 1];
+    return new TextEdit(new language.Span(afterProperty.span.afterEndIndex, 0), `,\n${propertyIndentation}${propertyText}`);
+}
+
+/**
+ * Creates an edit that adds a new property to a top-level section of a deployment template (e.g. a new
+ * parameter or variable), creating the section if it doesn't exist yet
+ */
+export function getInsertTemplateSectionPropertyEdit(
+    documentText: string,
+    topLevelValue: Json.ObjectValue,
+    sectionName: string,
+    propertyName: string,
+    getPropertyValueText: (indentation: string, indentationUnit: string) => string
+): TextEdit {
+    const section: Json.ObjectValue | null = Json.asObjectValue(topLevelValue.getPropertyValue(sectionName));
+    if (section) {
+        return getInsertPropertyTextEdit(documentText, section, propertyName, getPropertyValueText);
+    }
+
+    // Add the section, keeping the usual order of $schema, contentVersion, parameters, variables
+    const precedingKeys: string[] = [templateKeys.variables, templateKeys.parameters, templateKeys.contentVersion, templateKeys.schema];
+    const precedingProperties: Json.Property[] = topLevelValue.properties.filter(p => {
+        const key: string = p.nameValue.unquotedValue.toLowerCase();
+        return precedingKeys.slice(precedingKeys.indexOf(sectionName) + 1).some(k => k.toLowerCase() === key);
+    });
+    const precedingProperty: Json.Property | null = precedingProperties.length > 0 ? precedingProperties[precedingProperties.length - 1] : null;
+    return getInsertPropertyTextEdit(
+        documentText,
+        topLevelValue,
+        sectionName,
+        (indentation: string, indentationUnit: string) => {
+            const propertyIndentation: string = indentation + indentationUnit;
+            return `{\n${propertyIndentation}${JSON.stringify(propertyName)}: ${getPropertyValueText(propertyIndentation, indentationUnit)}\n${indentation}}`;
+        },
+        precedingProperty);
+}
+
+/**
+ * Creates an edit that removes a property (and its separating comma) from a JSON object. Comments before
+ * and after the property are left in place.
+ */
+export function getRemovePropertyEdit(documentText: string, objectValue: Json.ObjectValue, property: Json.Property): TextEdit {
+    const properties: Json.Property[] = objectValue.properties;
+    const index: number = properties.indexOf(property);
+
+    if (properties.length === 1 || index < 0) {
+        const interiorStartIndex: number = objectValue.span.startIndex + 1;
+        const textBefore: string = documentText.substring(interiorStartIndex, property.span.startIndex);
+        const textAfter: string = documentText.substring(property.span.afterEndIndex, objectValue.span.endIndex);
+        if (index < 0 || (textBefore.trim() === "" && textAfter.trim() === "")) {
+            // Leave an empty object
+            return new TextEdit(new language.Span(interiorStartIndex, objectValue.span.endIndex - interiorStartIndex), "");
+        }
+
+        // Keep the comments, removing the property along with the whitespace between it and the comment after
+        // it (or if there isn't one, the comment before it)
+        if (textAfter.trim() === "") {
+            const whitespaceLength: number = textBefore.length - textBefore.replace(/\s*$/, "").length;
+            return new TextEdit(new language.Span(property.span.startIndex - whitespaceLength, property.span.length + whitespaceLength), "");
+        } else {
+            const whitespaceLength: number = textAfter.length - textAfter.replace(/^\s*/, "").length;
+            return new TextEdit(new language.Span(property.span.startIndex, property.span.length + whitespaceLength), "");
+        }
+    } else if (index < properties.length - 1) {
+        // Remove the property, the comma after it and the whitespace up to whatever follows (the next property
+        // or a comment)
+        const commaIndex: number | undefined = findComma(documentText, property.span.afterEndIndex, properties[index + 1].span.startIndex);
+        if (commaIndex === undefined) {
+            return new TextEdit(new language.Span(property.span.startIndex, properties[index + 1].span.startIndex - property.span.startIndex), "");
+        }
+
+        const textAfterComma: string = documentText.substring(commaIndex + 1, properties[index + 1].span.startIndex);
+        const afterEndIndex: number = commaIndex + 1 + textAfterComma.length - textAfterComma.replace(/^\s*/, "").length;
+
+        // Keep any comments between the property and its comma
+        const commentsText: string = documentText.substring(property.span.afterEndIndex, commaIndex).replace(/^\s*/, "");
+        return new TextEdit(new language.Span(property.span.startIndex, afterEndIndex - property.span.startIndex), commentsText);
+    } else {
+        // Last property, remove from the comma after the previous property, keeping any comments after that comma
+        const previousProperty: Json.Property = properties[index - 1];
+        const commaIndex: number | undefined = findComma(documentText, previousProperty.span.afterEndIndex, property.span.startIndex);
+        if (commaIndex === undefined) {
+            return new TextEdit(new language.Span(previousProperty.span.afterEndIndex, property.span.afterEndIndex - previousProperty.span.afterEndIndex), "");
+        }
+
+        const commentsText: string = documentText.substring(commaIndex + 1, property.span.startIndex).replace(/\s*$/, "");
+        return new TextEdit(new language.Span(commaIndex, property.span.afterEndIndex - commaIndex), commentsText);
+    }
+}
+
+/**
+ * Finds the comma between two JSON values, which may also be separated by whitespace and comments
+ */
+function findComma(documentText: string, startIndex: number, afterEndIndex: number): number | undefined {
+    const tokenizer = new Json.Tokenizer(documentText.substring(startIndex, afterEndIndex), startIndex);
+    while (tokenizer.moveNext()) {
+        // tslint:disable-next-line: no-non-null-assertion // Guaranteed by tokenizer.moveNext() returning true
+        const token: Json.Token = tokenizer.current!;
+        if (token.type === Json.TokenType.Comma) {
+            return token.span.startIndex;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Finds the property (and the object containing it) whose name is at the given span
+ */
+export function findPropertyByNameSpan(value: Json.Value | null, nameSpan: language.Span): { objectValue: Json.ObjectValue; property: Json.Property } | null {
+    if (value instanceof Json.ObjectValue) {
+        for (const property of value.properties) {
+            if (property.nameValue.span.startIndex === nameSpan.startIndex) {
+                return { objectValue: value, property };
+            }
+
+            if (property.span.contains(nameSpan.startIndex)) {
+                return findPropertyByNameSpan(property.value, nameSpan);
+            }
+        }
+    } else if (value instanceof Json.ArrayValue) {
+        for (const element of value.elements) {
+            if (element.span.contains(nameSpan.startIndex)) {
+                return findPropertyByNameSpan(element, nameSpan);
+            }
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,128 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-bitwise // Hashing requires bitwise operations
+
+const base32Characters: string = "abcdefghijklmnopqrstuvwxyz234567";
+const uniqueStringLength: number = 13;
+
+/**
+ * Computes the value of the ARM uniqueString() function for the given arguments, i.e. a
+ * 13-character base-32 string derived from a 64-bit Murmur hash of the arguments joined by "-".
+ */
+export function uniqueString(values: string[]): string {
+    const [high, low] = murmurHash64(Buffer.from(values.join("-"), "utf8"));
+
+    let result: string = "";
+    for (let i = 0; i < uniqueStringLength; ++i) {
+        // Take the next 5 bits, starting with the most significant (the last character is padded with zeros)
+        let index = 0;
+        for (let bit = i * 5; bit < i * 5 + 5; ++bit) {
+            index = (index << 1) | getBit(high, low, bit);
+        }
+        result += base32Characters[index];
+    }
+
+    return result;
+}
+
+/**
+ * Returns the given bit (0 = most significant) of the 64-bit number made up of high and low 32-bit halves
+ */
+function getBit(high: number, low: number, bit: number): number {
+    if (bit >= 64) {
+        return 0;
+    }
+
+    return bit < 32 ? (high >>> (31 - bit)) & 1 : (low >>> (63 - bit)) & 1;
+}
+
+/**
+ * 64-bit variant of MurmurHash3 (x86) used by ARM. Returns the result as [high, low] unsigned 32-bit halves.
+ */
+function murmurHash64(data: Buffer): [number, number] {
+    const c1 = 0x239B961B;
+    const c2 = 0xAB0E9789;
+
+    const length = data.length;
+    let h1 = 0;
+    let h2 = 0;
+    let index = 0;
+
+    while (index + 7 < length) {
+        let k1 = data.readUInt32LE(index);
+        let k2 = data.readUInt32LE(index + 4);
+
+        k1 = Math.imul(k1, c1);
+        k1 = rotateLeft(k1, 15);
+        k1 = Math.imul(k1, c2);
+        h1 ^= k1;
+        h1 = rotateLeft(h1, 19);
+        h1 = (h1 + h2) | 0;
+        h1 = (Math.imul(h1, 5) + 0x561CCD1B) | 0;
+
+        k2 = Math.imul(k2, c2);
+        k2 = rotateLeft(k2, 17);
+        k2 = Math.imul(k2, c1);
+        h2 ^= k2;
+        h2 = rotateLeft(h2, 13);
+        h2 = (h2 + h1) | 0;
+        h2 = (Math.imul(h2, 5) + 0x0BCAA747) | 0;
+
+        index += 8;
+    }
+
+    const tail = length - index;
+    if (tail > 0) {
+        let k1 = readPartialUInt32LE(data, index, Math.min(tail, 4));
+        k1 = Math.imul(k1, c1);
+        k1 = rotateLeft(k1, 15);
+        k1 = Math.imul(k1, c2);
+        h1 ^= k1;
+
+        if (tail > 4) {
+            let k2 = readPartialUInt32LE(data, index + 4, tail - 4);
+            k2 = Math.imul(k2, c2);
+            k2 = rotateLeft(k2, 17);
+            k2 = Math.imul(k2, c1);
+            h2 ^= k2;
+        }
+    }
+
+    h1 ^= length;
+    h2 ^= length;
+
+    h1 = (h1 + h2) | 0;
+    h2 = (h2 + h1) | 0;
+
+    h1 = finalMix(h1);
+    h2 = finalMix(h2);
+
+    h1 = (h1 + h2) | 0;
+    h2 = (h2 + h1) | 0;
+
+    return [h2 >>> 0, h1 >>> 0];
+}
+
+function readPartialUInt32LE(data: Buffer, index: number, byteCount: number): number {
+    let result = 0;
+    for (let i = 0; i < byteCount; ++i) {
+        result |= data[index + i] << (8 * i);
+    }
+
+    return result;
+}
+
+function rotateLeft(value: number, count: number): number {
+    return (value << count) | (value >>> (32 - count));
+}
+
+function finalMix(h: number): number {
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85EBCA6B);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xC2B2AE35);
+    h ^= h >>> 16;
+    return h;
+}
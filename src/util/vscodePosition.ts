@@ -7,20 +7,30 @@ import * as vscode from 'vscode';
 import { DeploymentTemplate } from '../DeploymentTemplate';
 import { assert } from "../fixed_assert";
 import * as language from "../Language";
+import { DeploymentParameters } from '../parameterFiles/DeploymentParameters';
 
-export function getVSCodeRangeFromSpan(deploymentTemplate: DeploymentTemplate, span: language.Span): vscode.Range {
+export function getVSCodeRangeFromSpan(document: DeploymentTemplate | DeploymentParameters, span: language.Span): vscode.Range {
     assert(span);
-    assert(deploymentTemplate);
+    assert(document);
 
-    const startPosition: language.Position = deploymentTemplate.getContextFromDocumentCharacterIndex(span.startIndex).documentPosition;
+    const startPosition: language.Position = document.getDocumentPosition(span.startIndex);
     const vscodeStartPosition = new vscode.Position(startPosition.line, startPosition.column);
 
-    const endPosition: language.Position = deploymentTemplate.getContextFromDocumentCharacterIndex(span.afterEndIndex).documentPosition;
+    const endPosition: language.Position = document.getDocumentPosition(span.afterEndIndex);
     const vscodeEndPosition = new vscode.Position(endPosition.line, endPosition.column);
 
     return new vscode.Range(vscodeStartPosition, vscodeEndPosition);
 }
 
+export function getSpanFromVSCodeRange(document: DeploymentTemplate | DeploymentParameters, range: vscode.Range): language.Span {
+    assert(range);
+    assert(document);
+
+    const startIndex: number = document.getDocumentCharacterIndex(range.start.line, range.start.character);
+    const afterEndIndex: number = document.getDocumentCharacterIndex(range.end.line, range.end.character);
+    return new language.Span(startIndex, afterEndIndex - startIndex);
+}
+
 export function getVSCodePositionFromPosition(position: language.Position): vscode.Position {
     return new vscode.Position(position.line, position.column);
 }
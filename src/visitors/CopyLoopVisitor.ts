@@ -0,0 +1,314 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { templateKeys } from "../constants";
+import { DeploymentTemplate } from "../DeploymentTemplate";
+import { ExpressionType } from "../ExpressionType";
+import * as Json from "../JSON";
+import * as language from "../Language";
+import * as TLE from "../TLE";
+
+export enum CopyLoopKind {
+    /**
+     * A "copy" object in a resource, which deploys multiple instances of the resource
+     */
+    Resource = "resource",
+
+    /**
+     * A "copy" object in an output, which returns an array
+     */
+    Output = "output",
+
+    /**
+     * An element of a "copy" array inside a resource, which creates an array property
+     */
+    Property = "property",
+
+    /**
+     * An element of a "copy" array in the "variables" section, which creates an array variable
+     */
+    Variable = "variable"
+}
+
+/**
+ * A resource-level, property-level, variable-level or output-level copy loop
+ */
+export interface ICopyLoop {
+    kind: CopyLoopKind;
+    /**
+     * The loop's "name" property (output loops don't have names)
+     */
+    nameValue: Json.StringValue | undefined;
+    countValue: Json.Value | null;
+    /**
+     * The part of the template that is repeated by the loop, and in which copyIndex() refers to the
+     * loop (the resource or output object, or the "input" value of property and variable loops)
+     */
+    span: language.Span;
+}
+
+/**
+ * Finds the copy loops in a template and validates them and the calls to copyIndex() (copyIndex() outside
+ * of any copy loop, copyIndex('loopName') calls that name a loop which doesn't exist or which doesn't
+ * contain the call, duplicate copy loop names and counts that aren't integers)
+ */
+export class CopyLoopVisitor extends Json.Visitor {
+    private _loops: ICopyLoop[] = [];
+    private _duplicateNames: Json.StringValue[] = [];
+    private _copyIndexCalls: { call: TLE.FunctionCallValue; loopName: TLE.StringValue | undefined; jsonStringValue: Json.StringValue }[] = [];
+
+    // Resource and output objects (which can contain a "copy" object)
+    private _loopableObjects: Map<Json.ObjectValue, CopyLoopKind> = new Map<Json.ObjectValue, CopyLoopKind>();
+    // The names of the resource loops in each template (nested templates can reuse names)
+    private _resourceLoopNamesStack: Set<string>[] = [new Set<string>()];
+    private _variablesDepth: number = 0;
+
+    constructor(private _deploymentTemplate: DeploymentTemplate) {
+        super();
+    }
+
+    /**
+     * All copy loops in the template, in document order of their containing objects
+     */
+    public get loops(): ICopyLoop[] {
+        return this._loops;
+    }
+
+    public visitProperty(property: Json.Property | null): void {
+        if (!property) {
+            return;
+        }
+
+        const propertyName: string = property.nameValue.unquotedValue.toLowerCase();
+        if (propertyName === templateKeys.resources) {
+            const resources: Json.ArrayValue | null = Json.asArrayValue(property.value);
+            // tslint:disable-next-line: strict-boolean-expressions
+            for (const resource of (resources && resources.elements) || []) {
+                this.addLoopableObject(resource, CopyLoopKind.Resource);
+            }
+        } else if (propertyName === templateKeys.outputs) {
+            const outputs: Json.ObjectValue | null = Json.asObjectValue(property.value);
+            // tslint:disable-next-line: strict-boolean-expressions
+            for (const output of (outputs && outputs.properties) || []) {
+                this.addLoopableObject(output.value, CopyLoopKind.Output);
+            }
+        }
+
+        const isVariables: boolean = propertyName === templateKeys.variables;
+        const isNestedTemplate: boolean = propertyName === templateKeys.nestedDeploymentTemplate.toLowerCase() && !!Json.asObjectValue(property.value);
+        this._variablesDepth += isVariables ? 1 : 0;
+        if (isNestedTemplate) {
+            this._resourceLoopNamesStack.push(new Set<string>());
+        }
+
+        super.visitProperty(property);
+
+        this._variablesDepth -= isVariables ? 1 : 0;
+        if (isNestedTemplate) {
+            this._resourceLoopNamesStack.pop();
+        }
+    }
+
+    public visitObjectValue(objectValue: Json.ObjectValue | null): void {
+        if (!objectValue) {
+            return;
+        }
+
+        for (const property of objectValue.properties) {
+            if (property.nameValue.unquotedValue.toLowerCase() === templateKeys.loopVarCopy) {
+                const copyObject: Json.ObjectValue | null = Json.asObjectValue(property.value);
+                const copyArray: Json.ArrayValue | null = Json.asArrayValue(property.value);
+                const loopKind: CopyLoopKind | undefined = this._loopableObjects.get(objectValue);
+                if (copyObject && loopKind !== undefined) {
+                    this.addObjectLoop(objectValue, copyObject, loopKind);
+                } else if (copyArray) {
+                    this.addArrayLoops(copyArray);
+                }
+            }
+        }
+
+        super.visitObjectValue(objectValue);
+    }
+
+    public visitStringValue(value: Json.StringValue): void {
+        const tleParseResult: TLE.ParseResult = this._deploymentTemplate.getTLEParseResultFromJsonStringValue(value);
+        if (tleParseResult.expression) {
+            const tleVisitor = new CopyIndexTLEVisitor();
+            tleParseResult.expression.accept(tleVisitor);
+            for (const call of tleVisitor.copyIndexCalls) {
+                const firstArgument: TLE.Value | null = call.argumentExpressions.length > 0 ? call.argumentExpressions[0] : null;
+                // tslint:disable-next-line: strict-boolean-expressions
+                this._copyIndexCalls.push({ call, loopName: TLE.asStringValue(firstArgument) || undefined, jsonStringValue: value });
+            }
+        }
+    }
+
+    /**
+     * Gets the errors for the copy loops and copyIndex() calls that were found
+     */
+    public getErrors(): language.Issue[] {
+        const errors: language.Issue[] = [];
+
+        for (const nameValue of this._duplicateNames) {
+            errors.push(new language.Issue(nameValue.span, `The copy loop name '${nameValue.unquotedValue}' is already used by another copy loop.`, language.IssueKind.duplicateCopyName));
+        }
+
+        for (const loop of this._loops) {
+            if (loop.countValue && !this.isValidCount(loop.countValue)) {
+                errors.push(new language.Issue(loop.countValue.span, "The copy count must be an integer.", language.IssueKind.invalidCopyCount));
+            }
+        }
+
+        for (const { call, loopName, jsonStringValue } of this._copyIndexCalls) {
+            const nameToken: TLE.Token | null = call.nameToken;
+            if (!nameToken) {
+                continue;
+            }
+
+            const jsonTokenStartIndex: number = jsonStringValue.startIndex;
+            const callIndex: number = jsonTokenStartIndex + nameToken.span.startIndex;
+            const enclosingLoops: ICopyLoop[] = this.getLoopsContainingIndex(callIndex);
+
+            if (loopName) {
+                const name: string = loopName.unquotedValue;
+                const span: language.Span = loopName.getSpan().translate(jsonTokenStartIndex);
+                if (!enclosingLoops.some(loop => isLoopNamed(loop, name))) {
+                    const message: string = this._loops.some(loop => isLoopNamed(loop, name)) ?
+                        `The copy loop '${name}' can't be used here because this expression isn't inside of it.` :
+                        `Undefined copy loop '${name}'.`;
+                    errors.push(new language.Issue(span, message, language.IssueKind.undefinedCopyLoop));
+                }
+            } else if (!enclosingLoops.some(loop => loop.kind === CopyLoopKind.Resource || loop.kind === CopyLoopKind.Output)) {
+                const span: language.Span = nameToken.span.translate(jsonTokenStartIndex);
+                const innermostLoop: ICopyLoop | undefined = enclosingLoops.length > 0 ? enclosingLoops[enclosingLoops.length - 1] : undefined;
+                const message: string = innermostLoop && innermostLoop.nameValue ?
+                    `copyIndex() must be given the name of the ${innermostLoop.kind} copy loop, e.g. copyIndex('${innermostLoop.nameValue.unquotedValue}').` :
+                    "copyIndex() can only be used inside of a copy loop.";
+                errors.push(new language.Issue(span, message, language.IssueKind.copyIndexOutsideLoop));
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Gets the copy loops that contain the given document index, outermost first
+     */
+    public getLoopsContainingIndex(documentIndex: number): ICopyLoop[] {
+        return this._loops
+            .filter(loop => loop.span.contains(documentIndex))
+            .sort((a, b) => a.span.startIndex - b.span.startIndex);
+    }
+
+    private addLoopableObject(value: Json.Value | null, kind: CopyLoopKind): void {
+        const objectValue: Json.ObjectValue | null = Json.asObjectValue(value);
+        if (objectValue) {
+            this._loopableObjects.set(objectValue, kind);
+        }
+    }
+
+    /**
+     * Adds the loop for a resource or output's "copy" object, e.g.
+     *
+     *   "copy": {
+     *     "name": "storageLoop",
+     *     "count": 3
+     *   }
+     */
+    private addObjectLoop(loopableObject: Json.ObjectValue, copyObject: Json.ObjectValue, kind: CopyLoopKind): void {
+        const nameValue: Json.StringValue | null = Json.asStringValue(copyObject.getPropertyValue(templateKeys.loopVarName));
+        const loop: ICopyLoop = {
+            kind,
+            // tslint:disable-next-line: strict-boolean-expressions
+            nameValue: nameValue || undefined,
+            countValue: copyObject.getPropertyValue(templateKeys.loopVarCount),
+            span: loopableObject.span
+        };
+        this._loops.push(loop);
+
+        if (nameValue && loop.kind === CopyLoopKind.Resource) {
+            this.checkForDuplicateName(nameValue, this._resourceLoopNamesStack[this._resourceLoopNamesStack.length - 1]);
+        }
+    }
+
+    /**
+     * Adds the property or variable loops for the elements of a "copy" array, e.g.
+     *
+     *   "copy": [
+     *     {
+     *       "name": "dataDisks",
+     *       "count": 3,
+     *       "input": { ... }
+     *     }
+     *   ]
+     */
+    private addArrayLoops(copyArray: Json.ArrayValue): void {
+        const names: Set<string> = new Set<string>();
+        for (const element of copyArray.elements) {
+            const loopObject: Json.ObjectValue | null = Json.asObjectValue(element);
+            const nameValue: Json.StringValue | null = loopObject ? Json.asStringValue(loopObject.getPropertyValue(templateKeys.loopVarName)) : null;
+            if (loopObject && nameValue) {
+                const input: Json.Value | null = loopObject.getPropertyValue(templateKeys.loopVarInput);
+                this._loops.push({
+                    kind: this._variablesDepth > 0 ? CopyLoopKind.Variable : CopyLoopKind.Property,
+                    nameValue,
+                    countValue: loopObject.getPropertyValue(templateKeys.loopVarCount),
+                    span: input ? input.span : loopObject.span
+                });
+                this.checkForDuplicateName(nameValue, names);
+            }
+        }
+    }
+
+    private checkForDuplicateName(nameValue: Json.StringValue, names: Set<string>): void {
+        const nameLC: string = nameValue.unquotedValue.toLowerCase();
+        if (names.has(nameLC)) {
+            this._duplicateNames.push(nameValue);
+        } else {
+            names.add(nameLC);
+        }
+    }
+
+    private isValidCount(countValue: Json.Value): boolean {
+        if (countValue instanceof Json.NumberValue) {
+            return /^-?\d+$/.test(countValue.toString());
+        } else if (countValue instanceof Json.StringValue) {
+            if (!this._deploymentTemplate.getTLEParseResultFromJsonStringValue(countValue).leftSquareBracketToken) {
+                // ARM converts strings that contain integers
+                return /^\s*-?\d+\s*$/.test(countValue.unquotedValue);
+            }
+
+            // Only report expressions whose type is known and can't be converted to an integer
+            const valueType: ExpressionType | null = this._deploymentTemplate.getValueType(countValue);
+            return valueType === null || valueType === "int" || valueType === "string" || valueType === "securestring";
+        }
+
+        return false;
+    }
+
+    public static visit(deploymentTemplate: DeploymentTemplate): CopyLoopVisitor {
+        const visitor = new CopyLoopVisitor(deploymentTemplate);
+        const value: Json.Value | null = deploymentTemplate.jsonParseResult.value;
+        if (value) {
+            value.accept(visitor);
+        }
+        return visitor;
+    }
+}
+
+function isLoopNamed(loop: ICopyLoop, name: string): boolean {
+    return !!loop.nameValue && loop.nameValue.unquotedValue.toLowerCase() === name.toLowerCase();
+}
+
+class CopyIndexTLEVisitor extends TLE.Visitor {
+    public readonly copyIndexCalls: TLE.FunctionCallValue[] = [];
+
+    public visitFunctionCall(functionValue: TLE.FunctionCallValue | null): void {
+        if (functionValue && functionValue.isCallToBuiltinWithName(templateKeys.copyIndex)) {
+            this.copyIndexCalls.push(functionValue);
+        }
+
+        super.visitFunctionCall(functionValue);
+    }
+}
@@ -0,0 +1,50 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import * as assets from "../AzureRMAssets";
+import { InvalidFunctionContextIssue } from "../InvalidFunctionContextIssue";
+import { DeploymentScope, getDeploymentScopeDisplayName } from "../schemas";
+import { FunctionCallValue, Token, Value, Visitor } from "../TLE";
+
+/**
+ * A TLE visitor that creates errors for calls to built-in functions that aren't available at the
+ * template's deployment scope, e.g. resourceGroup() in a tenant deployment template.
+ */
+export class DeploymentScopeVisitor extends Visitor {
+    private _errors: InvalidFunctionContextIssue[] = [];
+
+    constructor(private _deploymentScope: DeploymentScope, private _tleFunctions: assets.FunctionsMetadata) {
+        super();
+    }
+
+    public get errors(): InvalidFunctionContextIssue[] {
+        return this._errors;
+    }
+
+    public visitFunctionCall(tleFunction: FunctionCallValue | null): void {
+        const nameToken: Token | null = tleFunction ? tleFunction.nameToken : null;
+        if (tleFunction && nameToken && !tleFunction.namespaceToken) {
+            const functionMetadata: assets.BuiltinFunctionMetadata | undefined = this._tleFunctions.findbyName(nameToken.stringValue);
+            const scopes: DeploymentScope[] | undefined = functionMetadata ? functionMetadata.scopes : undefined;
+            if (functionMetadata && scopes && !functionMetadata.isAvailableAtScope(this._deploymentScope)) {
+                const scopeNames: string = scopes.map(getDeploymentScopeDisplayName).join(" and ");
+                this._errors.push(
+                    new InvalidFunctionContextIssue(
+                        nameToken.span,
+                        functionMetadata.fullName,
+                        `Cannot use '${functionMetadata.fullName}' in a ${getDeploymentScopeDisplayName(this._deploymentScope)} deployment template. It can only be used at ${scopeNames} scope.`));
+            }
+        }
+
+        super.visitFunctionCall(tleFunction);
+    }
+
+    public static visit(tleValue: Value | null, deploymentScope: DeploymentScope, tleFunctions: assets.FunctionsMetadata): DeploymentScopeVisitor {
+        const visitor = new DeploymentScopeVisitor(deploymentScope, tleFunctions);
+        if (tleValue) {
+            tleValue.accept(visitor);
+        }
+        return visitor;
+    }
+}
@@ -0,0 +1,93 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { FunctionsMetadata } from "../AzureRMAssets";
+import { templateKeys } from "../constants";
+import { ReferenceIndex } from "../ReferenceIndex";
+import { FunctionCallValue, PropertyAccess, StringValue, Value, Visitor } from "../TLE";
+
+/**
+ * A TLE visitor that adds every reference to a parameter, variable, user function, namespace, output
+ * or built-in function in a TLE value tree to a ReferenceIndex
+ */
+export class ReferenceIndexVisitor extends Visitor {
+    constructor(
+        private readonly _index: ReferenceIndex,
+        private readonly _functionsMetadata: FunctionsMetadata,
+        // The document index of the start of the JSON string containing the TLE value tree
+        private readonly _startIndex: number
+    ) {
+        super();
+    }
+
+    public visitFunctionCall(tleFunction: FunctionCallValue): void {
+        if (tleFunction.namespace) {
+            if (tleFunction.nameToken && tleFunction.name) {
+                const userFunctionDefinition = tleFunction.scope.getUserFunctionDefinition(tleFunction.namespace, tleFunction.name);
+                if (userFunctionDefinition) {
+                    this._index.add(userFunctionDefinition, tleFunction.nameToken.span.translate(this._startIndex));
+                }
+            }
+
+            if (tleFunction.namespaceToken) {
+                const namespaceDefinition = tleFunction.scope.getFunctionNamespaceDefinition(tleFunction.namespace);
+                if (namespaceDefinition) {
+                    this._index.add(namespaceDefinition, tleFunction.namespaceToken.span.translate(this._startIndex));
+                }
+            }
+        }
+
+        if (tleFunction.name && tleFunction.nameToken && !tleFunction.namespaceToken) {
+            const metadata = this._functionsMetadata.findbyName(tleFunction.name);
+            if (metadata) {
+                this._index.addBuiltinFunctionCall(metadata.lowerCaseName, tleFunction.nameToken.span.translate(this._startIndex));
+            }
+
+            this.visitParametersOrVariablesCall(tleFunction);
+        }
+
+        super.visitFunctionCall(tleFunction);
+    }
+
+    public visitPropertyAccess(tlePropertyAccess: PropertyAccess): void {
+        // reference(<nested deployment>).outputs.<output name>
+        const functionSource: FunctionCallValue | null = tlePropertyAccess.functionSource;
+        if (functionSource && tlePropertyAccess.nameToken) {
+            const outputDefinition = functionSource.scope.getOutputDefinitionFromPropertyAccess(tlePropertyAccess);
+            if (outputDefinition) {
+                this._index.add(outputDefinition, tlePropertyAccess.nameToken.span.translate(this._startIndex));
+            }
+        }
+
+        super.visitPropertyAccess(tlePropertyAccess);
+    }
+
+    private visitParametersOrVariablesCall(tleFunction: FunctionCallValue): void {
+        if (tleFunction.argumentExpressions.length === 1) {
+            const arg = tleFunction.argumentExpressions[0];
+            if (arg instanceof StringValue) {
+                const argName = arg.toString();
+                if (tleFunction.isCallToBuiltinWithName(templateKeys.parameters)) {
+                    const paramDefinition = tleFunction.scope.getParameterDefinition(argName);
+                    if (paramDefinition) {
+                        this._index.add(paramDefinition, arg.unquotedSpan.translate(this._startIndex));
+                    }
+                } else if (tleFunction.isCallToBuiltinWithName(templateKeys.variables)) {
+                    const varDefinition = tleFunction.scope.getVariableDefinition(argName);
+                    if (varDefinition) {
+                        this._index.add(varDefinition, arg.unquotedSpan.translate(this._startIndex));
+                    }
+                }
+            }
+        }
+    }
+
+    public static visit(tleValue: Value | null, index: ReferenceIndex, functionsMetadata: FunctionsMetadata, startIndex: number): ReferenceIndexVisitor {
+        const visitor = new ReferenceIndexVisitor(index, functionsMetadata, startIndex);
+        if (tleValue) {
+            tleValue.accept(visitor);
+        }
+        return visitor;
+    }
+}
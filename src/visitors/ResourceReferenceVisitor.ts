@@ -0,0 +1,273 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import { EvaluatedValue, EvaluationResult, ExpressionEvaluator } from "../ExpressionEvaluator";
+import * as Json from "../JSON";
+import * as language from "../Language";
+import { ResourceDefinition } from "../ResourceDefinition";
+import { ResourceReferenceIssue } from "../ResourceReferenceIssue";
+import { TemplateScope } from "../TemplateScope";
+import { asStringValue, FunctionCallValue, Value, Visitor } from "../TLE";
+import { TextEdit } from "../util/jsonEdits";
+import * as Utilities from "../Utilities";
+
+/**
+ * The full type and name of a resource declared in the template, evaluated offline (undefined if they
+ * can't be evaluated, e.g. because they depend on copyIndex())
+ */
+export interface IDeclaredResource {
+    resourceType: string | undefined;
+    name: string | undefined;
+}
+
+/**
+ * Evaluates the full types and names of the given resources (child resources include their parents'
+ * types and names)
+ */
+export function getDeclaredResources(resources: ResourceDefinition[], evaluator: ExpressionEvaluator): IDeclaredResource[] {
+    const declaredResources: Map<ResourceDefinition, IDeclaredResource> = new Map<ResourceDefinition, IDeclaredResource>();
+
+    function getDeclaredResource(resource: ResourceDefinition): IDeclaredResource {
+        let declared: IDeclaredResource | undefined = declaredResources.get(resource);
+        if (!declared) {
+            const resourceType: string | undefined = asString(evaluator.evaluateJsonValue(resource.typeValue));
+            const nameValue: Json.StringValue | undefined = resource.nameValue;
+            const name: string | undefined = nameValue ? asString(evaluator.evaluateJsonValue(nameValue)) : undefined;
+            if (resource.parent && resource.hasRelativeType) {
+                const parent: IDeclaredResource = getDeclaredResource(resource.parent);
+                declared = {
+                    resourceType: parent.resourceType !== undefined && resourceType !== undefined ? `${parent.resourceType}/${resourceType}` : undefined,
+                    name: parent.name !== undefined && name !== undefined ? `${parent.name}/${name}` : undefined
+                };
+            } else {
+                declared = { resourceType, name };
+            }
+
+            declaredResources.set(resource, declared);
+        }
+
+        return declared;
+    }
+
+    return resources.map(getDeclaredResource);
+}
+
+/**
+ * A TLE visitor that checks the arguments of resourceId(), reference() and list*() calls against the
+ * resources declared in the template: the casing of the resource type, the number of name segments for
+ * the type, and whether a resource with the given name exists.
+ *
+ * Resources that aren't declared in the template can legitimately be referred to (e.g. existing
+ * resources), so a name is only reported as undeclared if it's close to the name of a declared resource.
+ */
+export class ResourceReferenceVisitor extends Visitor {
+    private _issues: ResourceReferenceIssue[] = [];
+    private _evaluator: ExpressionEvaluator;
+
+    constructor(scope: TemplateScope, private _declaredResources: IDeclaredResource[]) {
+        super();
+        this._evaluator = new ExpressionEvaluator(scope);
+    }
+
+    public get issues(): ResourceReferenceIssue[] {
+        return this._issues;
+    }
+
+    public visitFunctionCall(tleFunction: FunctionCallValue | null): void {
+        if (tleFunction) {
+            if (tleFunction.isCallToBuiltinWithName("resourceId")) {
+                this.checkResourceIdCall(tleFunction);
+            } else if (isReferenceOrListCall(tleFunction) && tleFunction.argumentExpressions.length > 0) {
+                // A resourceId() argument can't be evaluated, and is checked when it's visited
+                const resourceArgument: Value | null = tleFunction.argumentExpressions[0];
+                if (resourceArgument) {
+                    this.checkResourceName(resourceArgument);
+                }
+            }
+        }
+
+        super.visitFunctionCall(tleFunction);
+    }
+
+    public static visit(tleValue: Value | null, scope: TemplateScope, declaredResources: IDeclaredResource[]): ResourceReferenceVisitor {
+        const visitor = new ResourceReferenceVisitor(scope, declaredResources);
+        if (tleValue) {
+            tleValue.accept(visitor);
+        }
+        return visitor;
+    }
+
+    private checkResourceIdCall(resourceIdCall: FunctionCallValue): void {
+        const args: (Value | null)[] = resourceIdCall.argumentExpressions;
+        const typeArgument: Value | null = args[0];
+        const typeArgumentValue: string | undefined = this.evaluateString(typeArgument);
+        if (!typeArgument || typeArgumentValue === undefined || !typeArgumentValue.includes("/")) {
+            // Either the type can't be evaluated, or the call starts with a subscription or resource group
+            // (the resource may not be in this template's resource group)
+            return;
+        }
+
+        const nameArguments: (Value | null)[] = args.slice(1);
+        if (nameArguments.length === 0 || nameArguments.some(arg => !arg)) {
+            // Reported as an incorrect number of arguments
+            return;
+        }
+
+        // ARM ignores empty segments, e.g. from a trailing slash in 'Microsoft.Network/publicIPAddresses/'
+        const resourceType: string = getSegments(typeArgumentValue).join("/");
+        const sameType: IDeclaredResource[] = this._declaredResources.filter(resource =>
+            resource.resourceType !== undefined && resource.resourceType.toLowerCase() === resourceType.toLowerCase());
+        this.checkTypeCasing(typeArgument, resourceType, sameType);
+
+        const names: (string | undefined)[] = nameArguments.map(arg => this.evaluateString(arg));
+        if (this.checkNameSegments(<Value[]>nameArguments, names, resourceType, sameType)) {
+            this.checkNameIsDeclared(<Value[]>nameArguments, names, resourceType, sameType);
+        }
+    }
+
+    private checkTypeCasing(typeArgument: Value, resourceType: string, sameType: IDeclaredResource[]): void {
+        if (sameType.length > 0 && !sameType.some(resource => resource.resourceType === resourceType)) {
+            // tslint:disable-next-line: no-non-null-assertion // Filtered to resources with a type
+            const declaredType: string = sameType[0].resourceType!;
+            this._issues.push(new ResourceReferenceIssue(
+                typeArgument.getSpan(),
+                `The resource type '${resourceType}' doesn't match the casing of the declared type '${declaredType}'.`,
+                language.IssueKind.resourceTypeCasing,
+                declaredType,
+                asStringValue(typeArgument) ? [new TextEdit(typeArgument.getSpan(), toTleStringLiteral(declaredType))] : []));
+        }
+    }
+
+    /**
+     * Checks that the number of name segments matches the resource type (returns false if not)
+     */
+    private checkNameSegments(nameArguments: Value[], names: (string | undefined)[], resourceType: string, sameType: IDeclaredResource[]): boolean {
+        const expectedSegments: number = getSegments(resourceType).length - 1;
+        const actualSegments: number = names.reduce((count, name) => count + (name === undefined ? 1 : getSegments(name).length), 0);
+        if (actualSegments === expectedSegments) {
+            return true;
+        }
+
+        // Any declared resource of the type is closer than a name with the wrong number of segments
+        const closest: string | undefined = names.every(name => name !== undefined) ? getClosestName(names.join("/"), sameType, Number.MAX_VALUE) : undefined;
+        this._issues.push(new ResourceReferenceIssue(
+            getSpanOfValues(nameArguments),
+            `The resource type '${resourceType}' requires ${expectedSegments} name segment${expectedSegments === 1 ? "" : "s"}, but ${actualSegments} ${actualSegments === 1 ? "was" : "were"} given.`,
+            language.IssueKind.resourceNameSegments,
+            closest,
+            closest !== undefined ? getReplaceNamesEdits(nameArguments, closest.split("/")) : []));
+        return false;
+    }
+
+    private checkNameIsDeclared(nameArguments: Value[], names: (string | undefined)[], resourceType: string, sameType: IDeclaredResource[]): void {
+        if (names.some(n => n === undefined) || sameType.some(resource => resource.name === undefined)) {
+            return;
+        }
+
+        const name: string = getSegments(names.join("/")).join("/");
+        if (!sameType.some(resource => name.toLowerCase() === (<string>resource.name).toLowerCase())) {
+            const closest: string | undefined = getClosestName(name, sameType);
+            if (closest !== undefined) {
+                this._issues.push(new ResourceReferenceIssue(
+                    getSpanOfValues(nameArguments),
+                    `There is no resource of type '${resourceType}' named '${name}' in this template.`,
+                    language.IssueKind.undeclaredResource,
+                    closest,
+                    getReplaceNamesEdits(nameArguments, nameArguments.length === 1 ? [closest] : closest.split("/"))));
+            }
+        }
+    }
+
+    /**
+     * Checks the resource name passed to reference() or list*() (instead of a resource ID)
+     */
+    private checkResourceName(resourceArgument: Value): void {
+        const name: string | undefined = this.evaluateString(resourceArgument);
+        if (name === undefined || name.startsWith("/") || this._declaredResources.some(resource => resource.name === undefined)) {
+            // Can't be checked, or is a resource ID
+            return;
+        }
+
+        if (!this._declaredResources.some(resource => name.toLowerCase() === (<string>resource.name).toLowerCase())) {
+            const closest: string | undefined = getClosestName(name, this._declaredResources);
+            if (closest !== undefined) {
+                this._issues.push(new ResourceReferenceIssue(
+                    resourceArgument.getSpan(),
+                    `There is no resource named '${name}' in this template.`,
+                    language.IssueKind.undeclaredResource,
+                    closest,
+                    asStringValue(resourceArgument) ? [new TextEdit(resourceArgument.getSpan(), toTleStringLiteral(closest))] : []));
+            }
+        }
+    }
+
+    private evaluateString(value: Value | null): string | undefined {
+        return value ? asString(this._evaluator.evaluateTleValue(value)) : undefined;
+    }
+}
+
+/**
+ * Whether the function call is to reference() or one of the list*() functions (e.g. listKeys()), which
+ * take a resource name or ID as their first argument
+ */
+export function isReferenceOrListCall(tleFunction: FunctionCallValue): boolean {
+    const functionName: string | null = tleFunction.name;
+    return !tleFunction.isUserDefinedFunction && !!functionName &&
+        (functionName.toLowerCase() === "reference" || functionName.toLowerCase().startsWith("list"));
+}
+
+/**
+ * Splits a resource type or name into its segments, ignoring empty segments (e.g. from a trailing slash)
+ */
+function getSegments(typeOrName: string): string[] {
+    return typeOrName.split("/").filter(segment => segment !== "");
+}
+
+function asString(result: EvaluationResult): string | undefined {
+    const value: EvaluatedValue | undefined = result.value;
+    return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Finds the name of the given resources that is closest to the given name, if any are within the given
+ * edit distance (by default, close enough to be a typo)
+ */
+function getClosestName(name: string, resources: IDeclaredResource[], maxDistance: number = Math.max(2, Math.floor(name.length / 3))): string | undefined {
+    let closest: string | undefined;
+    let closestDistance: number = maxDistance + 1;
+    for (const resource of resources) {
+        if (resource.name !== undefined) {
+            const distance: number = Utilities.getEditDistance(name.toLowerCase(), resource.name.toLowerCase());
+            if (distance < closestDistance) {
+                closest = resource.name;
+                closestDistance = distance;
+            }
+        }
+    }
+
+    return closest;
+}
+
+/**
+ * Replaces the name arguments of a resourceId() call, if they're all literals
+ */
+function getReplaceNamesEdits(nameArguments: Value[], newNames: string[]): TextEdit[] {
+    if (!nameArguments.every(arg => !!asStringValue(arg))) {
+        return [];
+    }
+
+    return [new TextEdit(getSpanOfValues(nameArguments), newNames.map(toTleStringLiteral).join(", "))];
+}
+
+function getSpanOfValues(values: Value[]): language.Span {
+    return values[0].getSpan().union(values[values.length - 1].getSpan());
+}
+
+/**
+ * Creates a string literal for use in an expression inside a JSON string
+ */
+function toTleStringLiteral(value: string): string {
+    const tleLiteral: string = `'${value.replace(/'/g, "''")}'`;
+    return JSON.stringify(tleLiteral).slice(1, -1);
+}
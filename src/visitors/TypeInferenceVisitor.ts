@@ -0,0 +1,178 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+import * as assets from "../AzureRMAssets";
+import { templateKeys } from "../constants";
+import { ExpressionType, getExpressionTypeFromJsonValue, isExpressionTypeAssignable } from "../ExpressionType";
+import { IParameterDefinition } from "../IParameterDefinition";
+import * as Json from "../JSON";
+import * as language from "../Language";
+import { TemplateScope } from "../TemplateScope";
+import { FunctionCallValue, NumberValue, Parser, ParseResult, StringValue, Value, Visitor } from "../TLE";
+import { UserFunctionDefinition } from "../UserFunctionDefinition";
+import { IVariableDefinition } from "../VariableDefinition";
+
+/**
+ * A TLE visitor that infers the type of each expression (where it can be known without deploying) and
+ * creates errors for function arguments whose type doesn't match what the function expects.
+ */
+export class TypeInferenceVisitor extends Visitor {
+    private _errors: language.Issue[] = [];
+    private _types: Map<Value, ExpressionType | null> = new Map<Value, ExpressionType | null>();
+
+    constructor(
+        private _tleFunctions: assets.FunctionsMetadata,
+        // Variables whose values are currently being inferred (to guard against circular references)
+        private _variablesBeingInferred: IVariableDefinition[] = []
+    ) {
+        super();
+    }
+
+    public get errors(): language.Issue[] {
+        return this._errors;
+    }
+
+    /**
+     * Gets the inferred type of the given expression, or null if it isn't known
+     */
+    public getType(tleValue: Value): ExpressionType | null {
+        let expressionType: ExpressionType | null | undefined = this._types.get(tleValue);
+        if (expressionType === undefined) {
+            expressionType = this.inferType(tleValue);
+            this._types.set(tleValue, expressionType);
+        }
+
+        return expressionType;
+    }
+
+    public visitFunctionCall(tleFunction: FunctionCallValue): void {
+        const argumentExpressions: (Value | null)[] = tleFunction.argumentExpressions;
+        for (let i = 0; i < argumentExpressions.length; ++i) {
+            const argument: Value | null = argumentExpressions[i];
+            if (argument) {
+                const expectedTypes: ExpressionType[] | null = this.getExpectedArgumentTypes(tleFunction, i);
+                const actualType: ExpressionType | null = this.getType(argument);
+                if (expectedTypes && actualType && !expectedTypes.some(expectedType => isExpressionTypeAssignable(expectedType, actualType))) {
+                    const functionName: string = this.getFunctionDisplayName(tleFunction);
+                    const expected: string = expectedTypes.map(expectedType => `'${expectedType}'`).join(" or ");
+                    this._errors.push(new language.Issue(
+                        argument.getSpan(),
+                        `Argument ${i + 1} of function '${functionName}' should be of type ${expected}, but is of type '${actualType}'.`,
+                        language.IssueKind.badArgType));
+                }
+            }
+        }
+
+        super.visitFunctionCall(tleFunction);
+    }
+
+    private inferType(tleValue: Value): ExpressionType | null {
+        if (tleValue instanceof StringValue) {
+            return "string";
+        } else if (tleValue instanceof NumberValue) {
+            return "int";
+        } else if (tleValue instanceof FunctionCallValue) {
+            return this.inferFunctionCallType(tleValue);
+        }
+
+        // Property and array accesses could be anything
+        return null;
+    }
+
+    private inferFunctionCallType(tleFunction: FunctionCallValue): ExpressionType | null {
+        if (tleFunction.isUserDefinedFunction) {
+            const functionDefinition: UserFunctionDefinition | null = this.getUserFunctionDefinition(tleFunction);
+            const output = functionDefinition ? functionDefinition.output : null;
+            return output ? output.validOutputType : null;
+        }
+
+        // tslint:disable-next-line: strict-boolean-expressions
+        const functionName: string = (tleFunction.name || "").toLowerCase();
+        switch (functionName) {
+            case templateKeys.parameters:
+                const parameterDefinition: IParameterDefinition | null = tleFunction.scope.getParameterDefinitionFromFunctionCall(tleFunction);
+                return parameterDefinition ? parameterDefinition.validType : null;
+
+            case templateKeys.variables:
+                const variableDefinition: IVariableDefinition | null = tleFunction.scope.getVariableDefinitionFromFunctionCall(tleFunction);
+                return variableDefinition ? this.inferVariableType(variableDefinition, tleFunction.scope) : null;
+
+            case "if":
+                // Known only if both branches have the same type
+                const [, trueValue, falseValue] = tleFunction.argumentExpressions;
+                const trueType: ExpressionType | null = trueValue ? this.getType(trueValue) : null;
+                const falseType: ExpressionType | null = falseValue ? this.getType(falseValue) : null;
+                return trueType === falseType ? trueType : null;
+
+            default:
+                const functionMetadata: assets.BuiltinFunctionMetadata | undefined = this._tleFunctions.findbyName(functionName);
+                return functionMetadata ? functionMetadata.returnType : null;
+        }
+    }
+
+    private inferVariableType(variableDefinition: IVariableDefinition, scope: TemplateScope): ExpressionType | null {
+        const value: Json.Value | null = variableDefinition.value;
+        if (value instanceof Json.StringValue) {
+            if (this._variablesBeingInferred.indexOf(variableDefinition) >= 0) {
+                // Circular reference
+                return null;
+            }
+
+            // The string could be an expression, in which case the expression's type is the variable's type
+            const parseResult: ParseResult = Parser.parse(value.quotedValue, scope);
+            if (parseResult.errors.length > 0 || !parseResult.expression) {
+                return null;
+            }
+
+            const visitor = new TypeInferenceVisitor(this._tleFunctions, this._variablesBeingInferred.concat([variableDefinition]));
+            return visitor.getType(parseResult.expression);
+        }
+
+        return getExpressionTypeFromJsonValue(value);
+    }
+
+    private getExpectedArgumentTypes(tleFunction: FunctionCallValue, argumentIndex: number): ExpressionType[] | null {
+        if (tleFunction.isUserDefinedFunction) {
+            const functionDefinition: UserFunctionDefinition | null = this.getUserFunctionDefinition(tleFunction);
+            const parameterDefinition = functionDefinition ? functionDefinition.parameterDefinitions[argumentIndex] : undefined;
+            const parameterType: ExpressionType | null = parameterDefinition ? parameterDefinition.validType : null;
+            return parameterType ? [parameterType] : null;
+        }
+
+        const functionMetadata: assets.BuiltinFunctionMetadata | undefined =
+            tleFunction.name ? this._tleFunctions.findbyName(tleFunction.name) : undefined;
+        return functionMetadata ? functionMetadata.getParameterTypes(argumentIndex) : null;
+    }
+
+    private getUserFunctionDefinition(tleFunction: FunctionCallValue): UserFunctionDefinition | null {
+        const namespaceName: string | null = tleFunction.namespace;
+        const functionName: string | null = tleFunction.name;
+        return namespaceName && functionName ? tleFunction.scope.getUserFunctionDefinition(namespaceName, functionName) : null;
+    }
+
+    private getFunctionDisplayName(tleFunction: FunctionCallValue): string {
+        if (tleFunction.isUserDefinedFunction) {
+            const functionDefinition: UserFunctionDefinition | null = this.getUserFunctionDefinition(tleFunction);
+            if (functionDefinition) {
+                return functionDefinition.fullName;
+            }
+        } else if (tleFunction.name) {
+            const functionMetadata: assets.BuiltinFunctionMetadata | undefined = this._tleFunctions.findbyName(tleFunction.name);
+            if (functionMetadata) {
+                return functionMetadata.fullName;
+            }
+        }
+
+        // tslint:disable-next-line: strict-boolean-expressions
+        return tleFunction.name || "";
+    }
+
+    public static visit(tleValue: Value | null, tleFunctions: assets.FunctionsMetadata): TypeInferenceVisitor {
+        const visitor = new TypeInferenceVisitor(tleFunctions);
+        if (tleValue) {
+            tleValue.accept(visitor);
+        }
+        return visitor;
+    }
+}
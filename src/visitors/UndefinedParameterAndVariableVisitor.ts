@@ -2,16 +2,15 @@
 // Copyright (c) Microsoft Corporation.  All rights reserved.
 // ----------------------------------------------------------------------------
 
-import { TLE } from '../../extension.bundle';
 import { assert } from '../fixed_assert';
 import * as language from "../Language";
 import { TemplateScope } from "../TemplateScope";
-import { StringValue, Value } from '../TLE';
+import { StringValue, Value, Visitor } from '../TLE';
 
 /**
  * A TLE visitor that finds references to undefined parameters or variables.
  */
-export class UndefinedParameterAndVariableVisitor extends TLE.Visitor {
+export class UndefinedParameterAndVariableVisitor extends Visitor {
     private _errors: language.Issue[] = [];
 
     constructor(private _scope: TemplateScope) {
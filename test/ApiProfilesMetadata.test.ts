@@ -0,0 +1,183 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { ApiProfileMetadata, ApiProfilesMetadata, AzureRMAssets, Completion, DeploymentTemplate, flattenResourceDefinitions, getDocumentSymbols, HoverInfo, ResourceDefinition } from "../extension.bundle";
+import { parseTemplate, parseTemplateWithMarkers } from "./support/parseTemplate";
+
+suite("ApiProfilesMetadata", () => {
+    suite("fromString", () => {
+        test("Parses the profiles", () => {
+            const metadata = ApiProfilesMetadata.fromString(JSON.stringify({
+                profiles: {
+                    "2019-03-01-hybrid": {
+                        description: "Newer",
+                        resourceTypes: {
+                            "Microsoft.Storage/storageAccounts": "2017-10-01"
+                        }
+                    },
+                    "2018-03-01-hybrid": {
+                        resourceTypes: {
+                            "Microsoft.Storage/storageAccounts": "2016-01-01",
+                            "Microsoft.Network/virtualNetworks": "2017-10-01"
+                        }
+                    },
+                    "no-resource-types": {}
+                }
+            }));
+
+            assert.deepStrictEqual(metadata.profiles.map(p => [p.name, p.description]), [
+                ["2018-03-01-hybrid", ""],
+                ["2019-03-01-hybrid", "Newer"]
+            ]);
+
+            const profile: ApiProfileMetadata | undefined = metadata.findProfile("2018-03-01-HYBRID");
+            assert(profile);
+            assert.equal(profile!.getApiVersion("microsoft.storage/STORAGEACCOUNTS"), "2016-01-01");
+            assert.equal(profile!.getApiVersion("Microsoft.Web/sites"), undefined);
+            assert.equal(metadata.findProfile("latest"), undefined);
+        });
+
+        test("Invalid JSON", () => {
+            assert.deepStrictEqual(ApiProfilesMetadata.fromString("{").profiles, []);
+        });
+    });
+
+    test("Bundled profiles only use apiVersions from the resource providers catalog", () => {
+        const profiles: ApiProfileMetadata[] = AzureRMAssets.getApiProfilesMetadata().profiles;
+        assert(profiles.length > 0);
+        for (const profile of profiles) {
+            for (const [resourceType, apiVersion] of profile.apiVersions) {
+                const resourceTypeMetadata = AzureRMAssets.getResourceProvidersMetadata().findResourceType(resourceType);
+                assert(resourceTypeMetadata && resourceTypeMetadata.hasApiVersion(apiVersion), `${profile.name}: ${resourceType} ${apiVersion}`);
+            }
+        }
+    });
+
+    suite("Templates with an apiProfile", () => {
+        function createTemplate(apiProfile: string): {} {
+            return {
+                "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+                "contentVersion": "1.0.0.0",
+                "apiProfile": apiProfile,
+                "variables": {
+                    "vnetType": "Microsoft.Network/virtualNetworks"
+                },
+                "resources": [
+                    {
+                        "type": "<!asType!>Microsoft.Compute/availabilitySets",
+                        "name": "as",
+                        "location": "westus"
+                    },
+                    {
+                        "type": "<!storageType!>Microsoft.Storage/storageAccounts",
+                        "apiVersion": "2019-06-01",
+                        "name": "storage",
+                        "location": "westus"
+                    },
+                    {
+                        "type": "[variables('vnetType')]",
+                        "name": "vnet",
+                        "location": "westus",
+                        "resources": [
+                            {
+                                "type": "subnets",
+                                "name": "subnet1"
+                            }
+                        ]
+                    },
+                    {
+                        "type": "Microsoft.Web/sites",
+                        "name": "site",
+                        "location": "westus"
+                    }
+                ]
+            };
+        }
+
+        const hybrid: {} = createTemplate("2018-03-01-hybrid");
+        const sitesWarning: string = "Warning: The resource type 'Microsoft.Web/sites' is not supported by apiProfile '2018-03-01-hybrid'.";
+
+        function getApiProfileApiVersions(dt: DeploymentTemplate): string[] {
+            return flattenResourceDefinitions(dt.resources).map((resource: ResourceDefinition) => `${resource.displayName}: ${dt.getApiProfileApiVersion(resource)}`);
+        }
+
+        test("Resources without an apiVersion use the profile's apiVersion", async () => {
+            const dt: DeploymentTemplate = await parseTemplate(hybrid, [sitesWarning]);
+            assert.equal(dt.apiProfileMetadata!.name, "2018-03-01-hybrid");
+            assert.deepStrictEqual(getApiProfileApiVersions(dt), [
+                "as: 2017-03-30",
+                "storage: undefined",
+                "vnet: 2017-10-01",
+                "vnet/subnet1: 2017-10-01",
+                "site: undefined"
+            ]);
+        });
+
+        test("Resources with an explicit apiVersion don't need to be in the profile", async () => {
+            await parseTemplate(
+                {
+                    "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+                    "contentVersion": "1.0.0.0",
+                    "apiProfile": "2018-03-01-hybrid",
+                    "resources": [
+                        {
+                            "type": "Microsoft.Web/sites",
+                            "apiVersion": "2018-02-01",
+                            "name": "site",
+                            "location": "westus"
+                        }
+                    ]
+                },
+                []);
+        });
+
+        test("Unknown profiles aren't checked", async () => {
+            const dt: DeploymentTemplate = await parseTemplate(createTemplate("2099-01-01-hybrid"), []);
+            assert.equal(dt.apiProfileMetadata, undefined);
+            assert.deepStrictEqual(getApiProfileApiVersions(dt), [
+                "as: undefined",
+                "storage: undefined",
+                "vnet: undefined",
+                "vnet/subnet1: undefined",
+                "site: undefined"
+            ]);
+        });
+
+        test("Outline", async () => {
+            const dt: DeploymentTemplate = await parseTemplate(hybrid);
+            const resources = getDocumentSymbols(dt).find(s => s.name === "resources")!;
+            assert.deepStrictEqual(resources.children.map(s => s.detail), [
+                "Microsoft.Compute/availabilitySets (2017-03-30 from apiProfile)",
+                "Microsoft.Storage/storageAccounts",
+                "[variables('vnetType')] (2017-10-01 from apiProfile)",
+                "Microsoft.Web/sites"
+            ]);
+            assert.equal(resources.children[2].children[0].detail, "subnets (2017-10-01 from apiProfile)");
+        });
+
+        test("Hover", async () => {
+            const { dt, markers } = await parseTemplateWithMarkers(hybrid);
+            const hoverInfo: HoverInfo | null = dt.getContextFromDocumentCharacterIndex(markers.asType.index).getHoverInfo();
+            assert(hoverInfo);
+            assert.equal(hoverInfo!.usage, "Microsoft.Compute/availabilitySets");
+            assert.equal(hoverInfo!.description, "apiVersion 2017-03-30 (from apiProfile '2018-03-01-hybrid')");
+            assert.equal(dt.documentText.substr(hoverInfo!.span.startIndex, hoverInfo!.span.length), `"Microsoft.Compute/availabilitySets"`);
+
+            // The storage account has its own apiVersion
+            assert.equal(dt.getContextFromDocumentCharacterIndex(markers.storageType.index).getHoverInfo(), null);
+        });
+
+        test("Completions", async () => {
+            const { dt, markers } = await parseTemplateWithMarkers(createTemplate("<!apiProfile!>2018"));
+            const completions: Completion.Item[] = dt.getContextFromDocumentCharacterIndex(markers.apiProfile.index).getCompletionItems();
+            assert.deepStrictEqual(completions.map(c => c.name), ["2017-03-09-profile", "2018-03-01-hybrid", "2019-03-01-hybrid"]);
+            assert.equal(completions[1].kind, Completion.CompletionKind.ApiProfile);
+            assert.equal(completions[1].insertSpan.length, "2018".length);
+        });
+    });
+});
@@ -0,0 +1,110 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DeploymentTemplate, getReferenceCodeLenses, ReferenceCodeLens } from "../extension.bundle";
+import { parseTemplate } from "./support/parseTemplate";
+
+suite("CodeLenses", () => {
+    const template: {} = {
+        "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+        "contentVersion": "1.0.0.0",
+        "parameters": {
+            "prefix": { "type": "string" },
+            "unused": { "type": "string" }
+        },
+        "variables": {
+            "name": "[concat(parameters('prefix'), 'storage')]"
+        },
+        "functions": [
+            {
+                "namespace": "udf",
+                "members": {
+                    "storageName": {
+                        "parameters": [
+                            { "name": "name", "type": "string" }
+                        ],
+                        "output": {
+                            "type": "string",
+                            "value": "[toLower(parameters('name'))]"
+                        }
+                    }
+                }
+            }
+        ],
+        "resources": [
+            {
+                "type": "Microsoft.Storage/storageAccounts",
+                "apiVersion": "2019-06-01",
+                "name": "[udf.storageName(variables('name'))]",
+                "location": "[parameters('PREFIX')]"
+            }
+        ],
+        "outputs": {
+            "name": {
+                "type": "string",
+                "value": "[udf.storageName(variables('name'))]"
+            }
+        }
+    };
+
+    function getLensTitles(lenses: ReferenceCodeLens[]): string[] {
+        return lenses.map(lens => `${lens.definition.nameValue!.unquotedValue}: ${lens.title}`);
+    }
+
+    test("Reference counts in document order", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(template, ["Warning: The parameter 'unused' is never used."]);
+        assert.deepStrictEqual(getLensTitles(getReferenceCodeLenses(dt)), [
+            "prefix: 2 references",
+            "unused: 0 references",
+            "name: 2 references",
+            "udf: 2 references",
+            "storageName: 2 references",
+            "name: 1 reference"
+        ]);
+    });
+
+    test("Lenses are on the definition names and list the same references as findReferences", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(template, ["Warning: The parameter 'unused' is never used."]);
+        for (const lens of getReferenceCodeLenses(dt)) {
+            assert.equal(dt.documentText.substr(lens.span.startIndex, lens.span.length), lens.definition.nameValue!.quotedValue);
+
+            // findReferences also includes the definition itself
+            const references = dt.findReferences(lens.definition);
+            assert.deepStrictEqual(references.spans.slice(1).map(span => span.toString()), lens.references.spans.map(span => span.toString()));
+        }
+    });
+
+    test("Nested templates with inner scope", async () => {
+        const dt: DeploymentTemplate = await parseTemplate({
+            "resources": [
+                {
+                    "type": "Microsoft.Resources/deployments",
+                    "apiVersion": "2019-10-01",
+                    "name": "inner",
+                    "location": "westus",
+                    "properties": {
+                        "mode": "Incremental",
+                        "expressionEvaluationOptions": { "scope": "inner" },
+                        "template": {
+                            "parameters": {
+                                "innerParam": { "type": "string" }
+                            },
+                            "resources": [],
+                            "outputs": {
+                                "innerOutput": { "type": "string", "value": "[parameters('innerParam')]" }
+                            }
+                        }
+                    }
+                }
+            ]
+        });
+        assert.deepStrictEqual(getLensTitles(getReferenceCodeLenses(dt)), [
+            "innerParam: 1 reference"
+        ]);
+    });
+});
@@ -0,0 +1,194 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { Completion, CopyLoopKind, DeploymentTemplate } from "../extension.bundle";
+import { parseTemplate, parseTemplateWithMarkers } from "./support/parseTemplate";
+
+suite("CopyLoopVisitor", () => {
+    function createTemplate(resourceName: string, diskCount: number | string, outputValue: string = "[variables('names')]", lun: string = "[copyIndex('dataDisks')]"): {} {
+        return {
+            "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+            "contentVersion": "1.0.0.0",
+            "parameters": {
+                "isBig": { "type": "bool" }
+            },
+            "variables": {
+                "copy": [
+                    {
+                        "name": "names",
+                        "count": 3,
+                        "input": "[concat('vm', copyIndex('names'))]"
+                    }
+                ]
+            },
+            "resources": [
+                {
+                    "type": "Microsoft.Compute/virtualMachines",
+                    "apiVersion": "2019-07-01",
+                    "name": resourceName,
+                    "location": "westus",
+                    "tags": {
+                        "isBig": "[parameters('isBig')]"
+                    },
+                    "copy": {
+                        "name": "vmLoop",
+                        "count": 2
+                    },
+                    "properties": {
+                        "storageProfile": {
+                            "copy": [
+                                {
+                                    "name": "dataDisks",
+                                    "count": diskCount,
+                                    "input": {
+                                        "lun": lun,
+                                        "name": "[concat('disk', copyIndex('vmLoop'), '-', copyIndex('dataDisks'))]",
+                                        "vmIndex": "[copyIndex()]"
+                                    }
+                                }
+                            ]
+                        }
+                    }
+                }
+            ],
+            "outputs": {
+                "names": {
+                    "type": "array",
+                    "value": outputValue
+                }
+            }
+        };
+    }
+
+    test("Valid copy loops", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(createTemplate("[concat('vm', copyIndex(1))]", 2), []);
+        assert.deepStrictEqual(dt.copyLoops.loops.map(loop => `${loop.kind} ${loop.nameValue!.unquotedValue}`), [
+            "variable names",
+            "resource vmLoop",
+            "property dataDisks"
+        ]);
+    });
+
+    test("copyIndex() outside of a copy loop", async () => {
+        await parseTemplate(createTemplate("vm", 2, "[concat(variables('names'), copyIndex())]"), [
+            "Error: copyIndex() can only be used inside of a copy loop."
+        ]);
+    });
+
+    test("copyIndex() without a loop name inside a variable loop", async () => {
+        const template: {} = {
+            "variables": {
+                "copy": [
+                    { "name": "names", "count": 3, "input": "[concat('vm', copyIndex())]" }
+                ]
+            },
+            "outputs": {
+                "names": { "type": "array", "value": "[variables('names')]" }
+            }
+        };
+        await parseTemplate(template, [
+            "Error: copyIndex() must be given the name of the variable copy loop, e.g. copyIndex('names')."
+        ]);
+    });
+
+    test("copyIndex() with an undefined loop name", async () => {
+        await parseTemplate(createTemplate("[concat('vm', copyIndex('vmloops'))]", 2), [
+            "Error: Undefined copy loop 'vmloops'."
+        ]);
+    });
+
+    test("copyIndex() with a loop that doesn't contain the expression", async () => {
+        await parseTemplate(createTemplate("[concat('vm', copyIndex('dataDisks'))]", 2), [
+            "Error: The copy loop 'dataDisks' can't be used here because this expression isn't inside of it."
+        ]);
+    });
+
+    test("Loop names are case-insensitive", async () => {
+        await parseTemplate(createTemplate("[concat('vm', copyIndex('VMLOOP', 1))]", 2), []);
+    });
+
+    suite("Count", () => {
+        test("Integer strings", async () => {
+            await parseTemplate(createTemplate("vm", "2"), []);
+        });
+
+        test("Not an integer", async () => {
+            await parseTemplate(createTemplate("vm", 2.5), ["Error: The copy count must be an integer."]);
+            await parseTemplate(createTemplate("vm", "two"), ["Error: The copy count must be an integer."]);
+        });
+
+        test("Expressions", async () => {
+            await parseTemplate(createTemplate("vm", "[length(variables('names'))]"), []);
+            await parseTemplate(createTemplate("vm", "[parameters('isBig')]"), ["Error: The copy count must be an integer."]);
+        });
+    });
+
+    test("Duplicate copy names", async () => {
+        const template: {} = {
+            "resources": [
+                {
+                    "type": "Microsoft.Storage/storageAccounts",
+                    "apiVersion": "2019-06-01",
+                    "name": "[concat('storage', copyIndex())]",
+                    "location": "westus",
+                    "copy": { "name": "loop", "count": 2 }
+                },
+                {
+                    "type": "Microsoft.Storage/storageAccounts",
+                    "apiVersion": "2019-06-01",
+                    "name": "[concat('other', copyIndex())]",
+                    "location": "westus",
+                    "copy": { "name": "Loop", "count": 2 }
+                }
+            ]
+        };
+        const dt: DeploymentTemplate = await parseTemplate(template, [
+            "Error: The copy loop name 'Loop' is already used by another copy loop."
+        ]);
+        assert.equal(dt.copyLoops.loops[1].kind, CopyLoopKind.Resource);
+    });
+
+    test("Output loops", async () => {
+        const template: {} = {
+            "outputs": {
+                "indexes": {
+                    "type": "array",
+                    "copy": { "count": 2, "input": "[copyIndex()]" }
+                }
+            }
+        };
+        const dt: DeploymentTemplate = await parseTemplate(template, []);
+        assert.deepStrictEqual(dt.copyLoops.loops.map(loop => loop.kind), [CopyLoopKind.Output]);
+    });
+
+    suite("Completions", () => {
+        async function getCompletions(template: {}): Promise<Completion.Item[]> {
+            const { dt, markers } = await parseTemplateWithMarkers(template);
+            return dt.getContextFromDocumentCharacterIndex(markers.cursor.index).getCompletionItems();
+        }
+
+        test("Loops that contain the expression, innermost first", async () => {
+            const completions: Completion.Item[] = await getCompletions(createTemplate("vm", 2, undefined, "[copyIndex('<!cursor!>')]"));
+            assert.deepStrictEqual(completions.map(c => [c.name, c.detail]), [
+                ["'dataDisks'", "(property copy loop)"],
+                ["'vmLoop'", "(resource copy loop)"]
+            ]);
+            assert.equal(completions[0].kind, Completion.CompletionKind.CopyLoop);
+            assert.equal(completions[0].insertText, "'dataDisks')$0");
+        });
+
+        test("Prefix", async () => {
+            const completions: Completion.Item[] = await getCompletions(createTemplate("[concat('vm', copyIndex('v<!cursor!>'))]", 2));
+            assert.deepStrictEqual(completions.map(c => c.name), ["'vmLoop'"]);
+        });
+
+        test("Outside of any loop", async () => {
+            assert.deepStrictEqual(await getCompletions(createTemplate("vm", 2, "[copyIndex('<!cursor!>')]")), []);
+        });
+    });
+});
@@ -0,0 +1,177 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { DeploymentParameters, DeploymentTemplate, getTemplateFileCandidates, isParameterFileName, IssueKind } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { getDocumentMarkers, parseTemplate } from "./support/parseTemplate";
+import { stringify } from "./support/stringify";
+
+suite("DeploymentParameters", () => {
+    const template: Partial<IDeploymentTemplate> = {
+        "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+        "parameters": {
+            "storageName": {
+                "type": "string"
+            },
+            "adminPassword": {
+                "type": "securestring"
+            },
+            "count": {
+                "type": "int",
+                "defaultValue": 1
+            },
+            "tags": {
+                "type": "object",
+                "defaultValue": {}
+            }
+        },
+        "resources": []
+    };
+
+    function parseParameters(parameters: string | {}): DeploymentParameters {
+        const text = typeof parameters === "string" ? parameters : stringify(parameters);
+        return new DeploymentParameters(text, "parameters file");
+    }
+
+    async function getErrorMessages(parameters: {}): Promise<string[]> {
+        const dt: DeploymentTemplate = await parseTemplate(template);
+        return parseParameters(parameters).getErrors(dt).map(e => e.message);
+    }
+
+    suite("file names", () => {
+        test("isParameterFileName", () => {
+            assert(isParameterFileName("azuredeploy.parameters.json"));
+            assert(isParameterFileName(path.join("folder", "azuredeploy.Parameters.JSONC")));
+            assert(!isParameterFileName("azuredeploy.json"));
+            assert(!isParameterFileName("parameters.json"));
+        });
+
+        test("getTemplateFileCandidates", () => {
+            const folder = path.join("a", "b");
+            assert.deepStrictEqual(
+                getTemplateFileCandidates(path.join(folder, "azuredeploy.parameters.json")),
+                [path.join(folder, "azuredeploy.json"), path.join(folder, "azuredeploy.jsonc")]);
+            assert.deepStrictEqual(getTemplateFileCandidates("azuredeploy.json"), []);
+        });
+    });
+
+    suite("getParameterValue", () => {
+        test("is case-insensitive and last one wins", () => {
+            const dp = parseParameters(`{ "parameters": { "a": { "value": 1 }, "A": { "value": 2 } } }`);
+            assert.equal(dp.parameterValues.length, 2);
+            assert.equal(dp.getParameterValue("a")!.value!.toString(), "2");
+            assert.equal(dp.getParameterValue("b"), null);
+        });
+    });
+
+    suite("getErrors", () => {
+        test("no errors", async () => {
+            const messages = await getErrorMessages({
+                "parameters": {
+                    "storageName": { "value": "mystorage" },
+                    "adminPassword": { "value": "secret" },
+                    "count": { "value": 3 }
+                }
+            });
+            assert.deepStrictEqual(messages, []);
+        });
+
+        test("missing required parameters", async () => {
+            const messages = await getErrorMessages({
+                "parameters": {
+                    "STORAGENAME": { "value": "mystorage" }
+                }
+            });
+            assert.deepStrictEqual(messages, [
+                "The template parameter 'adminPassword' requires a value, but none is given in this parameter file."
+            ]);
+        });
+
+        test("unknown parameters", async () => {
+            const dt: DeploymentTemplate = await parseTemplate(template);
+            const dp = parseParameters({
+                "parameters": {
+                    "storageName": { "value": "mystorage" },
+                    "adminPassword": { "value": "secret" },
+                    "location": { "value": "westus" }
+                }
+            });
+            const errors = dp.getErrors(dt);
+            assert.deepStrictEqual(errors.map(e => e.message), ["The parameter 'location' is not defined in the template."]);
+            assert.equal(errors[0].kind, IssueKind.unknownParamValue);
+            assert.equal(dp.documentText.substr(errors[0].span.startIndex, errors[0].span.length), `"location"`);
+        });
+
+        test("type mismatches", async () => {
+            const messages = await getErrorMessages({
+                "parameters": {
+                    "storageName": { "value": 123 },
+                    "adminPassword": { "value": "secret" },
+                    "count": { "value": "3" },
+                    "tags": { "value": [] }
+                }
+            });
+            assert.deepStrictEqual(messages, [
+                "The value of parameter 'storageName' should be of type 'string', but is of type 'int'.",
+                "The value of parameter 'count' should be of type 'int', but is of type 'string'.",
+                "The value of parameter 'tags' should be of type 'object', but is of type 'array'."
+            ]);
+        });
+
+        test("Key Vault references are not type-checked", async () => {
+            const messages = await getErrorMessages({
+                "parameters": {
+                    "storageName": { "value": "mystorage" },
+                    "adminPassword": {
+                        "reference": {
+                            "keyVault": { "id": "/subscriptions/xxx/resourceGroups/rg/providers/Microsoft.KeyVault/vaults/vault" },
+                            "secretName": "adminPassword"
+                        }
+                    }
+                }
+            });
+            assert.deepStrictEqual(messages, []);
+        });
+    });
+
+    suite("getCompletionItems", () => {
+        async function getCompletionNames(parametersWithMarker: string): Promise<string[]> {
+            const dt: DeploymentTemplate = await parseTemplate(template);
+            const { text, markers } = getDocumentMarkers(parametersWithMarker);
+            const dp = parseParameters(text);
+            return dp.getCompletionItems(markers.bang.index, dt).map(c => c.name);
+        }
+
+        test("offers parameters that don't have values yet", async () => {
+            const names = await getCompletionNames(`{ "parameters": { "count": { "value": 1 }, ! } }`);
+            assert.deepStrictEqual(names, ["storageName", "adminPassword", "tags"]);
+        });
+
+        test("inside a parameter name", async () => {
+            const dt: DeploymentTemplate = await parseTemplate(template);
+            const { text, markers } = getDocumentMarkers(`{ "parameters": { "sto!" } }`);
+            const dp = parseParameters(text);
+            const completions = dp.getCompletionItems(markers.bang.index, dt);
+            assert.deepStrictEqual(completions.map(c => c.name), ["storageName", "adminPassword", "count", "tags"]);
+            assert.equal(dp.documentText.substr(completions[0].insertSpan.startIndex, completions[0].insertSpan.length), `"sto"`);
+            assert.equal(completions[0].detail, "(parameter) (required)");
+            assert.equal(completions[2].detail, "(parameter)");
+        });
+
+        test("not inside a parameter value", async () => {
+            const names = await getCompletionNames(`{ "parameters": { "count": { "value": ! } } }`);
+            assert.deepStrictEqual(names, []);
+        });
+
+        test("not outside the parameters object", async () => {
+            const names = await getCompletionNames(`{ ! "parameters": { } }`);
+            assert.deepStrictEqual(names, []);
+        });
+    });
+});
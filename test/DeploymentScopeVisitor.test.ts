@@ -0,0 +1,114 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DeploymentTemplate, InvalidFunctionContextIssue, Language } from "../extension.bundle";
+import { parseTemplate } from "./support/parseTemplate";
+
+suite("DeploymentScopeVisitor", () => {
+    const schemas = {
+        resourceGroup: "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+        subscription: "https://schema.management.azure.com/schemas/2018-05-01/subscriptionDeploymentTemplate.json#",
+        managementGroup: "https://schema.management.azure.com/schemas/2019-08-01/managementGroupDeploymentTemplate.json#",
+        tenant: "https://schema.management.azure.com/schemas/2019-08-01/tenantDeploymentTemplate.json#"
+    };
+
+    function createTemplate(schema: string, outputValue: string): {} {
+        return {
+            "$schema": schema,
+            "contentVersion": "1.0.0.0",
+            "outputs": {
+                "o1": {
+                    "type": "string",
+                    "value": outputValue
+                }
+            }
+        };
+    }
+
+    suite("resourceGroup()", () => {
+        test("Resource group", async () => {
+            await parseTemplate(createTemplate(schemas.resourceGroup, "[resourceGroup().id]"), []);
+        });
+
+        test("Subscription", async () => {
+            await parseTemplate(createTemplate(schemas.subscription, "[resourceGroup().id]"), [
+                "Error: Cannot use 'resourceGroup' in a subscription deployment template. It can only be used at resource group scope."
+            ]);
+        });
+
+        test("Tenant", async () => {
+            await parseTemplate(createTemplate(schemas.tenant, "[concat(resourceGroup().id, '/x')]"), [
+                "Error: Cannot use 'resourceGroup' in a tenant deployment template. It can only be used at resource group scope."
+            ]);
+        });
+    });
+
+    suite("subscription()", () => {
+        test("Resource group and subscription", async () => {
+            await parseTemplate(createTemplate(schemas.resourceGroup, "[subscription().id]"), []);
+            await parseTemplate(createTemplate(schemas.subscription, "[subscription().id]"), []);
+        });
+
+        test("Management group", async () => {
+            await parseTemplate(createTemplate(schemas.managementGroup, "[SUBSCRIPTION().id]"), [
+                "Error: Cannot use 'subscription' in a management group deployment template. It can only be used at resource group and subscription scope."
+            ]);
+        });
+    });
+
+    test("Functions without scope metadata are available at all scopes", async () => {
+        await parseTemplate(createTemplate(schemas.tenant, "[deployment().name]"), []);
+    });
+
+    test("Unknown schemas aren't checked", async () => {
+        await parseTemplate(createTemplate("https://schema.management.azure.com/schemas/2019-08-01/futureDeploymentTemplate.json#", "[resourceGroup().id]"), []);
+    });
+
+    test("Nested templates with inner scope aren't checked", async () => {
+        await parseTemplate(
+            {
+                "$schema": schemas.subscription,
+                "contentVersion": "1.0.0.0",
+                "resources": [
+                    {
+                        "type": "Microsoft.Resources/deployments",
+                        "apiVersion": "2019-10-01",
+                        "name": "nested",
+                        "resourceGroup": "rg",
+                        "properties": {
+                            "mode": "Incremental",
+                            "expressionEvaluationOptions": {
+                                "scope": "inner"
+                            },
+                            "template": {
+                                "$schema": schemas.resourceGroup,
+                                "contentVersion": "1.0.0.0",
+                                "outputs": {
+                                    "o1": {
+                                        "type": "string",
+                                        "value": "[resourceGroup().id]"
+                                    }
+                                }
+                            }
+                        }
+                    }
+                ]
+            },
+            []);
+    });
+
+    test("Issue span and function name", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(createTemplate(schemas.tenant, "[resourceGroup().id]"));
+        const errors: Language.Issue[] = await dt.errorsPromise;
+        assert.equal(errors.length, 1);
+        assert(errors[0] instanceof InvalidFunctionContextIssue);
+        assert.equal((<InvalidFunctionContextIssue>errors[0]).functionName, "resourceGroup");
+        assert.equal(errors[0].kind, Language.IssueKind.badFuncContext);
+        assert.equal(dt.documentText.substr(errors[0].span.startIndex, errors[0].span.length), "resourceGroup");
+    });
+});
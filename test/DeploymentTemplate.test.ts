@@ -8,7 +8,7 @@
 import * as assert from "assert";
 import { randomBytes } from "crypto";
 import { ISuiteCallbackContext, ITestCallbackContext } from "mocha";
-import { DefinitionKind, DeploymentTemplate, Histogram, INamedDefinition, IncorrectArgumentsCountIssue, IParameterDefinition, IVariableDefinition, Json, Language, ReferenceInVariableDefinitionsVisitor, ReferenceList, TemplateScope, UnrecognizedUserFunctionIssue, UnrecognizedUserNamespaceIssue } from "../extension.bundle";
+import { DefinitionKind, DeploymentTemplate, Histogram, INamedDefinition, IncorrectArgumentsCountIssue, IParameterDefinition, IVariableDefinition, Json, Language, ReferenceInVariableDefinitionsVisitor, ReferenceList, TemplateScope, TLE, UnrecognizedUserFunctionIssue, UnrecognizedUserNamespaceIssue } from "../extension.bundle";
 import { IDeploymentTemplate, sources, testDiagnostics } from "./support/diagnostics";
 import { parseTemplate } from "./support/parseTemplate";
 import { stringify } from "./support/stringify";
@@ -1521,4 +1521,101 @@ suite("DeploymentTemplate", () => {
             assert.equal(dt.apiProfile, "2018–03-01-hybrid");
         });
     });
+
+    suite("applyChange", () => {
+        const templateText: string = stringify({
+            "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+            "contentVersion": "1.0.0.0",
+            "parameters": {
+                "location": { "type": "string" }
+            },
+            "variables": {
+                "name": "[toLower('storage')]",
+                "unused": "[parameters('location')]"
+            },
+            "resources": [
+                {
+                    "type": "Microsoft.Storage/storageAccounts",
+                    "apiVersion": "2019-06-01",
+                    "name": "[variables('name')]",
+                    "location": "[parameters('location')]"
+                },
+                {
+                    "type": "Microsoft.Resources/deployments",
+                    "apiVersion": "2019-10-01",
+                    "name": "nested",
+                    "properties": {
+                        "mode": "Incremental",
+                        "expressionEvaluationOptions": { "scope": "inner" },
+                        "template": {
+                            "parameters": {
+                                "location": { "type": "string" }
+                            },
+                            "resources": [],
+                            "outputs": {
+                                "location": { "type": "string", "value": "[parameters('location')]" }
+                            }
+                        }
+                    }
+                }
+            ]
+        });
+
+        function applyChange(dt: DeploymentTemplate, startIndex: number, length: number, newText: string): DeploymentTemplate {
+            const text: string = dt.documentText.substr(0, startIndex) + newText + dt.documentText.substr(startIndex + length);
+            return dt.applyChange(text, { span: new Language.Span(startIndex, length), newLength: newText.length });
+        }
+
+        async function assertSameAsFullParse(dt: DeploymentTemplate): Promise<void> {
+            const expected = new DeploymentTemplate(dt.documentText, "id");
+            assert.deepStrictEqual((await dt.errorsPromise).map(issue => `${issue.span} ${issue.message}`), (await expected.errorsPromise).map(issue => `${issue.span} ${issue.message}`));
+            assert.deepStrictEqual(dt.warnings.map(issue => `${issue.span} ${issue.message}`), expected.warnings.map(issue => `${issue.span} ${issue.message}`));
+            assert.deepStrictEqual(
+                dt.findReferences(dt.topLevelScope.getParameterDefinition("location")!).spans.map(span => span.toString()),
+                expected.findReferences(expected.topLevelScope.getParameterDefinition("location")!).spans.map(span => span.toString()));
+        }
+
+        test("Same results as a full parse", async () => {
+            let dt = new DeploymentTemplate(templateText, "id");
+            await dt.errorsPromise;
+
+            // Rename the "name" variable everywhere, one edit at a time
+            dt = applyChange(dt, dt.documentText.indexOf(`"name": "[toLower`) + 1, 4, "storageName");
+            await assertSameAsFullParse(dt);
+            dt = applyChange(dt, dt.documentText.indexOf(`variables('name')`) + 11, 4, "storageName");
+            await assertSameAsFullParse(dt);
+
+            // Break and then fix an expression
+            dt = applyChange(dt, dt.documentText.indexOf(`toLower('storage')`) + 7, 1, "");
+            await assertSameAsFullParse(dt);
+            dt = applyChange(dt, dt.documentText.indexOf(`toLower'storage')`) + 7, 0, "(");
+            await assertSameAsFullParse(dt);
+        });
+
+        test("Reused expressions refer to the new template's scopes", async () => {
+            const dt = new DeploymentTemplate(templateText, "id");
+            await dt.errorsPromise;
+
+            const newDt = applyChange(dt, dt.documentText.indexOf("1.0.0.0"), 7, "2.0.0.0");
+            for (const expression of [`"name": "[variables('name')]"`, `"location": "[parameters('location')]"`]) {
+                const stringValue = <Json.StringValue>newDt.getJSONValueAtDocumentCharacterIndex(newDt.documentText.indexOf(expression) + expression.indexOf("[") + 1);
+                const tleValue = newDt.getTLEParseResultFromJsonStringValue(stringValue).expression;
+                assert(tleValue instanceof TLE.FunctionCallValue);
+                assert.strictEqual((<TLE.FunctionCallValue>tleValue).scope, newDt.topLevelScope);
+            }
+
+            const innerScope: TemplateScope = newDt.allScopes.filter(scope => scope !== newDt.topLevelScope && !!scope.getParameterDefinition("location"))[0];
+            const innerParameter: INamedDefinition = innerScope.getParameterDefinition("location")!;
+            assert.equal(newDt.findReferences(innerParameter).length, 2);
+        });
+
+        test("Falls back to a full parse if the change doesn't match the text", async () => {
+            const dt = new DeploymentTemplate(templateText, "id");
+            const newText = templateText.replace(`variables('name')`, `variables('nam')`);
+            const newDt = dt.applyChange(newText, { span: new Language.Span(0, 0), newLength: 0 });
+            assert.equal(newDt.documentText, newText);
+            await assertSameAsFullParse(newDt);
+            assert.equal((await newDt.errorsPromise).length, 1);
+        });
+    });
 });
@@ -0,0 +1,170 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DeploymentTemplate, getDocumentSymbols, TemplateSymbol } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate } from "./support/parseTemplate";
+
+suite("DocumentSymbols", () => {
+    // Simplify symbols to a "kind name (detail)" label with children
+    interface ISimpleSymbol {
+        label: string;
+        children?: ISimpleSymbol[];
+    }
+
+    function simplify(symbols: TemplateSymbol[]): ISimpleSymbol[] {
+        return symbols.map(s => {
+            const simple: ISimpleSymbol = { label: `${s.kind} ${s.name}${s.detail ? ` (${s.detail})` : ""}` };
+            if (s.children.length > 0) {
+                simple.children = simplify(s.children);
+            }
+            return simple;
+        });
+    }
+
+    const template: IDeploymentTemplate = {
+        "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+        "contentVersion": "1.0.0.0",
+        "parameters": {
+            "location": { "type": "string" },
+            "count": { "type": "int" }
+        },
+        "variables": {
+            "v1": "a",
+            "copy": [
+                { "name": "disks", "count": 2, "input": "[copyIndex('disks')]" }
+            ]
+        },
+        "functions": [
+            {
+                "namespace": "udf",
+                "members": {
+                    "double": {
+                        "parameters": [{ "name": "value", "type": "int" }],
+                        "output": { "type": "int", "value": "[mul(parameters('value'), 2)]" }
+                    }
+                }
+            }
+        ],
+        "resources": [
+            {
+                "type": "Microsoft.Sql/servers",
+                "name": "[concat('server', parameters('location'))]",
+                "apiVersion": "2019-06-01-preview",
+                "location": "[parameters('location')]",
+                "resources": [
+                    {
+                        "type": "databases",
+                        "name": "db1",
+                        "apiVersion": "2019-06-01-preview",
+                        "location": "[parameters('location')]"
+                    }
+                ]
+            },
+            {
+                "type": "Microsoft.Storage/storageAccounts",
+                "name": "storage1",
+                "apiVersion": "2019-06-01",
+                "location": "[parameters('location')]",
+                "tags": { "displayName": "My storage" }
+            }
+        ],
+        "outputs": {
+            "o1": { "type": "int", "value": "[udf.double(parameters('count'))]" }
+        }
+    };
+
+    test("All sections", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(template);
+        assert.deepStrictEqual(simplify(getDocumentSymbols(dt)), [
+            {
+                label: "Section parameters",
+                children: [
+                    { label: "Parameter location (string)" },
+                    { label: "Parameter count (int)" }
+                ]
+            },
+            {
+                label: "Section variables",
+                children: [
+                    { label: "Variable v1" },
+                    { label: "Variable disks (copy)" }
+                ]
+            },
+            {
+                label: "Section functions",
+                children: [
+                    {
+                        label: "Namespace udf",
+                        children: [
+                            { label: "UserFunction double (int)" }
+                        ]
+                    }
+                ]
+            },
+            {
+                label: "Section resources",
+                children: [
+                    {
+                        label: "Resource 'server', <location> (Microsoft.Sql/servers)",
+                        children: [
+                            { label: "Resource db1 (databases)" }
+                        ]
+                    },
+                    { label: "Resource My storage (Microsoft.Storage/storageAccounts)" }
+                ]
+            },
+            {
+                label: "Section outputs",
+                children: [
+                    { label: "Output o1 (int)" }
+                ]
+            }
+        ]);
+    });
+
+    test("Spans", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(template);
+        const getText = (span: { startIndex: number; length: number }): string => dt.documentText.substr(span.startIndex, span.length);
+        const [parameters, , functions, resources] = getDocumentSymbols(dt);
+
+        assert.equal(getText(parameters.selectionSpan), `"parameters"`);
+        assert(getText(parameters.span).startsWith(`"parameters": {`));
+
+        const location: TemplateSymbol = parameters.children[0];
+        assert.equal(getText(location.selectionSpan), `"location"`);
+        assert.equal(getText(location.span).replace(/\s+/g, " "), `"location": { "type": "string" }`);
+
+        const double: TemplateSymbol = functions.children[0].children[0];
+        assert.equal(getText(double.selectionSpan), `"double"`);
+        assert(getText(double.span).startsWith(`"double": {`));
+
+        const server: TemplateSymbol = resources.children[0];
+        assert.equal(getText(server.selectionSpan), `"[concat('server', parameters('location'))]"`);
+        assert(getText(server.span).startsWith("{"));
+        assert(server.span.contains(server.children[0].span.startIndex));
+    });
+
+    test("Missing sections and malformed resources", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(`{ "resources": [ {}, 1, { "type": "a" } ], "other": {} }`);
+        assert.deepStrictEqual(simplify(getDocumentSymbols(dt)), [
+            {
+                label: "Section resources",
+                children: [
+                    { label: "Resource {}" },
+                    { label: "Resource {...} (a)" }
+                ]
+            }
+        ]);
+    });
+
+    test("Not an object", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(`[]`);
+        assert.deepStrictEqual(getDocumentSymbols(dt), []);
+    });
+});
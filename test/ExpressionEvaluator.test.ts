@@ -0,0 +1,184 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { CannotEvaluateReason, DeploymentTemplate, EvaluatedValue, EvaluationResult, ExpressionEvaluator, IParameterValues, Json, uniqueString } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate } from "./support/parseTemplate";
+
+suite("ExpressionEvaluator", () => {
+    const template: Partial<IDeploymentTemplate> = {
+        "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+        "parameters": {
+            "prefix": {
+                "type": "string",
+                "defaultValue": "stg"
+            },
+            "count": {
+                "type": "int"
+            },
+            "useSuffix": {
+                "type": "bool",
+                "defaultValue": true
+            }
+        },
+        "variables": {
+            "name": "[concat(parameters('prefix'), '-', string(parameters('count')))]",
+            "settings": {
+                "tier": "Standard",
+                "sizes": [1, 2, 3]
+            },
+            "selfReference": "[variables('selfReference')]"
+        },
+        "functions": [
+            {
+                "namespace": "udf",
+                "members": {
+                    "double": {
+                        "parameters": [
+                            {
+                                "name": "value",
+                                "type": "int"
+                            }
+                        ],
+                        "output": {
+                            "type": "int",
+                            "value": "[mul(parameters('value'), 2)]"
+                        }
+                    }
+                }
+            }
+        ],
+        "resources": [],
+        "outputs": {
+            "result": {
+                "type": "string",
+                "value": "[variables('name')]"
+            }
+        }
+    };
+
+    async function evaluate(expression: string | {}, parameterValues?: IParameterValues): Promise<EvaluationResult> {
+        const dt: DeploymentTemplate = await parseTemplate(template);
+        const jsonValue: Json.Value | null = Json.parse(JSON.stringify(expression)).value;
+        return new ExpressionEvaluator(dt.topLevelScope, parameterValues).evaluateJsonValue(jsonValue);
+    }
+
+    function testEvaluation(expression: string | {}, expected: EvaluatedValue, parameterValues?: IParameterValues): void {
+        test(JSON.stringify(expression), async () => {
+            const result = await evaluate(expression, parameterValues);
+            assert.equal(result.message, undefined);
+            assert(result.isEvaluated);
+            assert.deepStrictEqual(result.value, expected);
+        });
+    }
+
+    function testCannotEvaluate(expression: string, expectedReason: CannotEvaluateReason, parameterValues?: IParameterValues): void {
+        test(`${expression} cannot be evaluated`, async () => {
+            const result = await evaluate(expression, parameterValues);
+            assert(!result.isEvaluated);
+            assert.equal(result.reason, expectedReason);
+            assert(!!result.message);
+        });
+    }
+
+    suite("literals", () => {
+        testEvaluation("hello", "hello");
+        testEvaluation("[[not an expression]", "[not an expression]");
+        testEvaluation("[concat('it''s')]", "it's");
+        testEvaluation("[int('42')]", 42);
+        testEvaluation({ a: 1, b: [true, null] }, { a: 1, b: [true, null] });
+    });
+
+    suite("string functions", () => {
+        testEvaluation("[concat('a', 'b', 'c')]", "abc");
+        testEvaluation("[concat(createArray(1, 2), createArray(3))]", [1, 2, 3]);
+        testEvaluation("[format('{0}-{1}', 'a', 12)]", "a-12");
+        testEvaluation("[format('{{0}}')]", "{0}");
+        testEvaluation("[split('a,b;c', createArray(',', ';'))]", ["a", "b", "c"]);
+        testEvaluation("[replace('a-b-c', '-', '.')]", "a.b.c");
+        testEvaluation("[toUpper('abc')]", "ABC");
+        testEvaluation("[substring('abcdef', 1, 3)]", "bcd");
+        testEvaluation("[padLeft('7', 3, '0')]", "007");
+        testEvaluation("[string(true())]", "True");
+        testEvaluation("[base64ToString(base64('hello'))]", "hello");
+        testEvaluation("[startsWith('Hello', 'he')]", true);
+    });
+
+    suite("numeric and logical functions", () => {
+        testEvaluation("[add(1, 2)]", 3);
+        testEvaluation("[div(7, 2)]", 3);
+        testEvaluation("[max(createArray(3, 9, 2))]", 9);
+        testEvaluation("[if(equals(1, 1), 'yes', 'no')]", "yes");
+        testEvaluation("[if(false(), reference('x'), 'only the chosen branch is evaluated')]", "only the chosen branch is evaluated");
+        testEvaluation("[and(true(), not(false()))]", true);
+        testEvaluation("[length(range(5, 3))]", 3);
+        testEvaluation("[equals(json('{\"a\": 1, \"b\": [2]}'), json('{\"b\": [2], \"a\": 1}'))]", true);
+        testEvaluation("[equals(createArray(1, 2), createArray(2, 1))]", false);
+        testEvaluation("[contains(createArray(json('{\"a\": 1, \"b\": 2}')), json('{\"b\": 2, \"a\": 1}'))]", true);
+    });
+
+    suite("uniqueString", () => {
+        test("is deterministic and 13 characters", () => {
+            const value = uniqueString(["subscriptionId", "resourceGroup"]);
+            assert.equal(value.length, 13);
+            assert(/^[a-z2-7]+$/.test(value));
+            assert.equal(uniqueString(["subscriptionId", "resourceGroup"]), value);
+            assert.notEqual(uniqueString(["subscriptionId", "resourceGroup2"]), value);
+        });
+
+        test("known values", () => {
+            // Pinned from this implementation, not yet confirmed against the output of an actual deployment
+            assert.equal(uniqueString(["a"]), "eveiun73364hy");
+            assert.equal(uniqueString(["hello"]), "htpi75jfihg4e");
+            // The hash of no data is zero
+            assert.equal(uniqueString([""]), "aaaaaaaaaaaaa");
+        });
+
+        test("arguments are joined with a hyphen", async () => {
+            const result = await evaluate("[uniqueString('a', 'b')]");
+            assert.equal(result.value, uniqueString(["a-b"]));
+        });
+    });
+
+    suite("parameters and variables", () => {
+        testEvaluation("[parameters('prefix')]", "stg");
+        testEvaluation("[parameters('PREFIX')]", "override", { prefix: "override" });
+        testEvaluation("[variables('name')]", "stg-3", { count: 3 });
+        testEvaluation("[variables('settings').sizes[1]]", 2);
+        testEvaluation("[variables('settings')['TIER']]", "Standard");
+        testEvaluation("[udf.double(add(1, 2))]", 6);
+    });
+
+    suite("cannot evaluate", () => {
+        testCannotEvaluate("[reference('myStorage').primaryEndpoints]", CannotEvaluateReason.RequiresDeployment);
+        testCannotEvaluate("[listKeys('myStorage', '2019-06-01')]", CannotEvaluateReason.RequiresDeployment);
+        testCannotEvaluate("[resourceGroup().location]", CannotEvaluateReason.RequiresDeployment);
+        testCannotEvaluate("[parameters('count')]", CannotEvaluateReason.MissingParameterValue);
+        testCannotEvaluate("[parameters('undefined')]", CannotEvaluateReason.UndefinedReference);
+        testCannotEvaluate("[parameters('')]", CannotEvaluateReason.UndefinedReference);
+        testCannotEvaluate("[variables('')]", CannotEvaluateReason.UndefinedReference);
+        testCannotEvaluate("[variables('selfReference')]", CannotEvaluateReason.CircularReference);
+        testCannotEvaluate("[guid('a')]", CannotEvaluateReason.UnsupportedFunction);
+        testCannotEvaluate("[add('a', 1)]", CannotEvaluateReason.EvaluationError);
+        testCannotEvaluate("[variables('settings').missing]", CannotEvaluateReason.EvaluationError);
+        testCannotEvaluate("[concat('a'", CannotEvaluateReason.SyntaxError);
+
+        test("span of failing sub-expression", async () => {
+            const result = await evaluate("[concat('a', reference('x'))]");
+            assert(!result.isEvaluated);
+            // Relative to the start of the quoted JSON string
+            assert.equal(result.span!.startIndex, 14);
+        });
+
+        test("failures inside variables are reported at the reference", async () => {
+            const result = await evaluate("[concat('a', variables('name'))]");
+            assert.equal(result.reason, CannotEvaluateReason.MissingParameterValue);
+            assert.equal(result.span!.startIndex, 14);
+        });
+    });
+});
@@ -10,7 +10,7 @@ import { FunctionCountVisitor, Histogram, ScopeContext, TemplateScope, TLE } fro
 
 suite("FunctionCountVisitor", () => {
 
-    const emptyScope: TemplateScope = new TemplateScope(ScopeContext.TopLevel, [], [], [], "empty");
+    const emptyScope: TemplateScope = new TemplateScope(ScopeContext.TopLevel, [], [], [], [], [], "empty");
 
     function testFunctionCountsVisitor(expressionWithoutQuotes: string, expectedFunctionCounts: { [key: string]: number }): void {
         const tleParseResult = TLE.Parser.parse(`"${expressionWithoutQuotes}"`, emptyScope);
@@ -2,11 +2,12 @@
 // Copyright (c) Microsoft Corporation.  All rights reserved.
 // ----------------------------------------------------------------------------
 
-// tslint:disable: prefer-template
+// tslint:disable: prefer-template no-non-null-assertion object-literal-key-quotes
 
 import * as assert from "assert";
 import * as os from 'os';
 import { HoverInfo, Language } from "../extension.bundle";
+import { parseTemplateWithMarkers } from "./support/parseTemplate";
 
 suite("Hover", () => {
     suite("HoverInfo", () => {
@@ -44,4 +45,42 @@ suite("Hover", () => {
             assert.deepEqual(`**usage**${os.EOL}*(type)*`, info.getHoverText());
         });
     });
+
+    suite("evaluated values", () => {
+        const template = {
+            "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+            "contentVersion": "1.0.0.0",
+            "parameters": {
+                "prefix": {
+                    "type": "string",
+                    "defaultValue": "stg"
+                }
+            },
+            "resources": [],
+            "outputs": {
+                "name": {
+                    "type": "string",
+                    "value": "[<!concat!>concat(parameters('<!prefix!>prefix'), '-', <!reference!>reference('x').name)]"
+                }
+            }
+        };
+
+        test("hover shows the value of the innermost function call", async () => {
+            const { dt, markers } = await parseTemplateWithMarkers(template);
+            const info: HoverInfo | null = dt.getContextFromDocumentCharacterIndex(markers.prefix.index).getHoverInfo();
+            assert(info);
+            assert.equal(info!.evaluatedValue, '"stg"');
+            assert.equal(info!.getHoverText(), `**prefix**${os.EOL}*(parameter)*${os.EOL}${os.EOL}Value: \`"stg"\``);
+        });
+
+        test("no value if the expression can't be evaluated offline", async () => {
+            const { dt, markers } = await parseTemplateWithMarkers(template);
+            const concatInfo: HoverInfo | null = dt.getContextFromDocumentCharacterIndex(markers.concat.index).getHoverInfo();
+            assert(concatInfo);
+            assert.equal(concatInfo!.evaluatedValue, undefined);
+            const referenceInfo: HoverInfo | null = dt.getContextFromDocumentCharacterIndex(markers.reference.index).getHoverInfo();
+            assert(referenceInfo);
+            assert.equal(referenceInfo!.evaluatedValue, undefined);
+        });
+    });
 });
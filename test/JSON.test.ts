@@ -753,4 +753,51 @@ suite("JSON", () => {
         colonTest(0);
         colonTest(7);
     });
+
+    suite("reparse(ParseResult, string, ITextChange)", () => {
+        function reparseTest(previousText: string, startIndex: number, length: number, newText: string): void {
+            const text: string = previousText.substr(0, startIndex) + newText + previousText.substr(startIndex + length);
+            test(`${JSON.stringify(previousText)} => ${JSON.stringify(text)}`, () => {
+                const change: Json.ITextChange = { span: new Language.Span(startIndex, length), newLength: newText.length };
+                const result: Json.ParseResult = Json.reparse(Json.parse(previousText), text, change);
+
+                // Should be the same as parsing the new text from scratch
+                const expected: Json.ParseResult = Json.parse(text);
+                assert.deepStrictEqual(result.allTokens, expected.allTokens);
+                assert.deepStrictEqual(result.tokens, expected.tokens);
+                assert.deepStrictEqual(result.lineLengths, expected.lineLengths);
+                assert.deepStrictEqual(result.commentCount, expected.commentCount);
+                assert.deepStrictEqual(result.value, expected.value);
+            });
+        }
+
+        const template: string = `{\n    "a": "[concat('x', 'y')]", // comment\r\n    "b": [ 1, 2.5, true, null ],\n    /* block */ "c": { "d": "e" }\n}`;
+
+        reparseTest("", 0, 0, "");
+        reparseTest("", 0, 0, "{ 'a': 1 }");
+        reparseTest(template, 0, template.length, "");
+        reparseTest(template, 0, 0, " ");
+        reparseTest(template, template.length, 0, "\n");
+
+        // Edits inside strings and values
+        reparseTest(template, template.indexOf("concat"), 6, "toUpper");
+        reparseTest(template, template.indexOf("2.5") + 1, 0, "0");
+        reparseTest(template, template.indexOf("true"), 4, "false");
+        reparseTest(template, template.indexOf("null") + 2, 2, "");
+
+        // Edits that change how the rest of the document is tokenized
+        reparseTest(template, template.indexOf(`"a"`), 0, `"`);
+        reparseTest(template, template.indexOf(`"b"`), 0, "/*");
+        reparseTest(template, template.indexOf("/* block */"), 2, "");
+        reparseTest(template, template.indexOf("// comment"), 0, "/");
+        reparseTest(template, template.indexOf("// comment") + 1, 1, "");
+        reparseTest(template, template.indexOf("\r\n"), 1, "");
+        reparseTest(template, template.indexOf("\r\n") + 1, 0, "\r");
+
+        // Edits next to whitespace and other tokens
+        reparseTest(template, template.indexOf(`"c"`) - 1, 0, "  ");
+        reparseTest(template, template.indexOf("1,") + 1, 0, "2");
+        reparseTest(template, template.indexOf("[ 1"), 3, "[");
+        reparseTest(template, template.indexOf(`"d"`), template.indexOf("}\n}") - template.indexOf(`"d"`), "");
+    });
 });
@@ -0,0 +1,180 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { DeploymentTemplate, getLinkedParameterDefinition, getLinkedTemplateErrors, ILinkedParameterDefinition, Issue } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { getDocumentMarkers } from "./support/parseTemplate";
+import { stringify } from "./support/stringify";
+
+suite("LinkedTemplate", () => {
+    const schema = "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#";
+
+    const linkedTemplate: string = stringify({
+        "$schema": schema,
+        "contentVersion": "1.0.0.0",
+        "parameters": {
+            "storageName": { "type": "string" },
+            "count": { "type": "int" },
+            "location": { "type": "string", "defaultValue": "westus" }
+        },
+        "resources": []
+    });
+
+    let folder: string;
+    let parentUri: string;
+
+    suiteSetup(async () => {
+        folder = path.join(os.tmpdir(), `linkedTemplate${Date.now()}`);
+        parentUri = pathToFileURL(path.join(folder, "azuredeploy.json")).toString();
+        await fse.outputFile(path.join(folder, "nested", "storage.json"), linkedTemplate);
+    });
+
+    suiteTeardown(async () => {
+        await fse.remove(folder);
+    });
+
+    function createTemplate(templateLink: object, parameters: object | undefined): IDeploymentTemplate {
+        return {
+            "$schema": schema,
+            "contentVersion": "1.0.0.0",
+            "parameters": {
+                "outerCount": { "type": "int" }
+            },
+            "resources": [
+                {
+                    "type": "Microsoft.Resources/deployments",
+                    "apiVersion": "2020-06-01",
+                    "name": "linked",
+                    "location": "westus",
+                    "properties": {
+                        "mode": "Incremental",
+                        "templateLink": templateLink,
+                        "parameters": parameters
+                    }
+                }
+            ]
+        };
+    }
+
+    async function getErrorMessages(template: IDeploymentTemplate): Promise<string[]> {
+        const dt = new DeploymentTemplate(stringify(template), parentUri);
+        const errors: Issue[] = await getLinkedTemplateErrors(dt);
+        return errors.map(e => `${e.kind}: ${e.message}`);
+    }
+
+    suite("getLinkedTemplateErrors", () => {
+        test("Valid parameters", async () => {
+            assert.deepStrictEqual(
+                await getErrorMessages(createTemplate(
+                    { "relativePath": "nested/storage.json" },
+                    {
+                        "storageName": { "value": "mystorage" },
+                        "count": { "value": "[parameters('outerCount')]" }
+                    })),
+                []);
+        });
+
+        test("Missing, unknown and mistyped parameters", async () => {
+            assert.deepStrictEqual(
+                await getErrorMessages(createTemplate(
+                    { "relativePath": "nested/storage.json" },
+                    {
+                        "count": { "value": "three" },
+                        "sku": { "value": "Standard_LRS" }
+                    })),
+                [
+                    "missingRequiredParam: The linked template parameter 'storageName' requires a value, but none is given in this deployment.",
+                    "paramValueTypeMismatch: The value of parameter 'count' should be of type 'int', but is of type 'string'.",
+                    "unknownParamValue: The parameter 'sku' is not defined in the linked template."
+                ]);
+        });
+
+        test("Expression values are checked using their inferred type", async () => {
+            assert.deepStrictEqual(
+                await getErrorMessages(createTemplate(
+                    { "relativePath": "nested/storage.json" },
+                    {
+                        "storageName": { "value": "[parameters('outerCount')]" },
+                        "count": { "value": "[add(1, 2)]" }
+                    })),
+                [
+                    "paramValueTypeMismatch: The value of parameter 'storageName' should be of type 'string', but is of type 'int'."
+                ]);
+        });
+
+        test("Relative uri", async () => {
+            assert.deepStrictEqual(
+                await getErrorMessages(createTemplate({ "uri": "nested/storage.json" }, {})),
+                [
+                    "missingRequiredParam: The linked template parameter 'storageName' requires a value, but none is given in this deployment.",
+                    "missingRequiredParam: The linked template parameter 'count' requires a value, but none is given in this deployment."
+                ]);
+        });
+
+        test("File uri", async () => {
+            const uri: string = pathToFileURL(path.join(folder, "nested", "storage.json")).toString();
+            assert.equal((await getErrorMessages(createTemplate({ "uri": uri }, {}))).length, 2);
+        });
+
+        test("Links that can't be followed are ignored", async () => {
+            assert.deepStrictEqual(await getErrorMessages(createTemplate({ "uri": "https://contoso.com/storage.json" }, {})), []);
+            assert.deepStrictEqual(await getErrorMessages(createTemplate({ "uri": "[uri(deployment().properties.templateLink.uri, 'nested/storage.json')]" }, {})), []);
+            assert.deepStrictEqual(await getErrorMessages(createTemplate({ "relativePath": "nested/missing.json" }, {})), []);
+        });
+
+        test("Parameters from a parameters link aren't checked", async () => {
+            const template = createTemplate({ "relativePath": "nested/storage.json" }, undefined);
+            template.resources![0].properties!.parametersLink = { "uri": "https://contoso.com/storage.parameters.json" };
+            assert.deepStrictEqual(await getErrorMessages(template), []);
+        });
+    });
+
+    suite("getLinkedParameterDefinition", () => {
+        test("Passed parameter name goes to the linked template's definition", async () => {
+            const { text, markers: { nameRef } } = getDocumentMarkers(createTemplate(
+                { "relativePath": "nested/storage.json" },
+                {
+                    "<!nameRef!>storageName": { "value": "mystorage" }
+                }));
+            const dt = new DeploymentTemplate(text, parentUri);
+
+            const result: ILinkedParameterDefinition | undefined = await getLinkedParameterDefinition(dt, nameRef.index + 3);
+            assert(result);
+            assert.equal(result!.linkedTemplate.documentId, pathToFileURL(path.join(folder, "nested", "storage.json")).toString());
+            assert.equal(result!.parameterDefinition.nameValue.unquotedValue, "storageName");
+            assert.equal(result!.linkedTemplate.getDocumentPosition(result!.parameterDefinition.nameValue.span.startIndex).line, 4);
+        });
+
+        test("Unknown parameter name", async () => {
+            const { text, markers: { nameRef } } = getDocumentMarkers(createTemplate(
+                { "relativePath": "nested/storage.json" },
+                {
+                    "<!nameRef!>sku": { "value": "Standard_LRS" }
+                }));
+            const dt = new DeploymentTemplate(text, parentUri);
+            assert.equal(await getLinkedParameterDefinition(dt, nameRef.index + 1), undefined);
+        });
+
+        test("Opened templates are used instead of the file on disk", async () => {
+            const { text, markers: { nameRef } } = getDocumentMarkers(createTemplate(
+                { "relativePath": "nested/storage.json" },
+                {
+                    "<!nameRef!>sku": { "value": "Standard_LRS" }
+                }));
+            const dt = new DeploymentTemplate(text, parentUri);
+            const opened = new DeploymentTemplate(stringify({ "$schema": schema, "parameters": { "sku": { "type": "string" } } }), "file:///opened.json");
+            const result: ILinkedParameterDefinition | undefined = await getLinkedParameterDefinition(dt, nameRef.index + 1, () => opened);
+            assert(result);
+            assert.equal(result!.linkedTemplate, opened);
+        });
+    });
+});
@@ -0,0 +1,221 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DefinitionKind, IReferenceSite, ScopeContext } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate, parseTemplateWithMarkers } from "./support/parseTemplate";
+import { testGetReferences } from "./support/testGetReferences";
+
+suite("NestedDeployment", () => {
+    const schema = "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#";
+
+    function createTemplate(expressionEvaluationScope: string | undefined, nestedTemplate: object): IDeploymentTemplate {
+        const properties: { [key: string]: unknown } = {
+            "mode": "Incremental",
+            "parameters": {
+                "location": {
+                    "value": "[parameters('<!outerLocationRef!>location')]"
+                }
+            },
+            "template": nestedTemplate
+        };
+        if (expressionEvaluationScope) {
+            properties.expressionEvaluationOptions = { "scope": expressionEvaluationScope };
+        }
+
+        return {
+            "$schema": schema,
+            "contentVersion": "1.0.0.0",
+            "parameters": {
+                "<!outerLocationDef!>location": { "type": "string" }
+            },
+            "resources": [
+                {
+                    "type": "Microsoft.Resources/deployments",
+                    "apiVersion": "2019-10-01",
+                    "name": "nested",
+                    "location": "westus",
+                    "properties": properties
+                }
+            ]
+        };
+    }
+
+    const innerTemplate: object = {
+        "$schema": schema,
+        "contentVersion": "1.0.0.0",
+        "parameters": {
+            "<!innerLocationDef!>location": { "type": "string" }
+        },
+        "variables": {
+            "<!innerVarDef!>storageName": "[concat('storage', udf.suffix())]"
+        },
+        "functions": [
+            {
+                "namespace": "udf",
+                "members": {
+                    "suffix": {
+                        "output": { "type": "string", "value": "abc" }
+                    }
+                }
+            }
+        ],
+        "resources": [
+            {
+                "type": "Microsoft.Storage/storageAccounts",
+                "apiVersion": "2019-06-01",
+                "name": "[variables('<!innerVarRef!>storageName')]",
+                "location": "[parameters('<!innerLocationRef!>location')]"
+            }
+        ]
+    };
+
+    suite("Inner scope", () => {
+        test("Nested template's own parameters, variables and functions are used", async () => {
+            await parseTemplate(createTemplate("inner", innerTemplate), []);
+        });
+
+        test("Scope is case-insensitive", async () => {
+            await parseTemplate(createTemplate("INNER", innerTemplate), []);
+        });
+
+        test("Outer template's parameters and variables are not accessible", async () => {
+            await parseTemplate(
+                {
+                    "$schema": schema,
+                    "parameters": {
+                        "outerParam": { "type": "string" }
+                    },
+                    "variables": {
+                        "outerVar": "a"
+                    },
+                    "resources": [
+                        {
+                            "type": "Microsoft.Resources/deployments",
+                            "apiVersion": "2019-10-01",
+                            "name": "nested",
+                            "properties": {
+                                "expressionEvaluationOptions": { "scope": "inner" },
+                                "mode": "Incremental",
+                                "template": {
+                                    "outputs": {
+                                        "o1": { "type": "string", "value": "[concat(parameters('outerParam'), variables('outerVar'))]" }
+                                    }
+                                }
+                            }
+                        }
+                    ]
+                },
+                [
+                    "Error: Undefined parameter reference: 'outerParam'",
+                    "Error: Undefined variable reference: 'outerVar'",
+                    "Warning: The parameter 'outerParam' is never used.",
+                    "Warning: The variable 'outerVar' is never used."
+                ]);
+        });
+
+        test("Unused definitions in the nested template are reported", async () => {
+            await parseTemplate(
+                createTemplate("inner", {
+                    "parameters": {
+                        "location": { "type": "string" }
+                    },
+                    "variables": {
+                        "v1": "a"
+                    }
+                }),
+                [
+                    "Warning: The parameter 'location' is never used.",
+                    "Warning: The variable 'v1' is never used."
+                ]);
+        });
+
+        test("Scopes", async () => {
+            const dt = await parseTemplate(createTemplate("inner", innerTemplate));
+            assert.deepStrictEqual(dt.allScopes.map(s => s.scopeContext), [ScopeContext.TopLevel, ScopeContext.NestedDeploymentInnerScope]);
+
+            const innerScope = dt.topLevelScope.nestedDeployments[0].innerScope!;
+            assert.deepStrictEqual(innerScope.parameterDefinitions.map(p => p.nameValue.unquotedValue), ["location"]);
+            assert.deepStrictEqual(innerScope.variableDefinitions.map(v => v.nameValue.unquotedValue), ["storageName"]);
+            assert.deepStrictEqual(innerScope.namespaceDefinitions.map(ns => ns.nameValue.unquotedValue), ["udf"]);
+        });
+
+        test("Go to definition goes to the nested template's parameter", async () => {
+            const { dt, markers: { innerLocationDef, innerLocationRef } } = await parseTemplateWithMarkers(createTemplate("inner", innerTemplate));
+            const refInfo: IReferenceSite = dt.getContextFromDocumentCharacterIndex(innerLocationRef.index).getReferenceSiteInfo()!;
+            assert(refInfo);
+            assert.equal(refInfo.definition.definitionKind, DefinitionKind.Parameter);
+            assert.equal(refInfo.definition.nameValue!.unquotedSpan.startIndex, innerLocationDef.index);
+        });
+
+        test("References are kept separate from the outer template's", async () => {
+            const { dt, markers: { innerLocationDef, innerLocationRef, outerLocationDef, outerLocationRef, innerVarDef, innerVarRef } } =
+                await parseTemplateWithMarkers(createTemplate("inner", innerTemplate));
+            await testGetReferences(dt, innerLocationRef.index, [innerLocationDef.index, innerLocationRef.index]);
+            await testGetReferences(dt, innerLocationDef.index, [innerLocationDef.index, innerLocationRef.index]);
+            await testGetReferences(dt, outerLocationDef.index, [outerLocationDef.index, outerLocationRef.index]);
+            await testGetReferences(dt, innerVarRef.index, [innerVarDef.index, innerVarRef.index]);
+        });
+
+        test("Nested deployments inside nested templates", async () => {
+            const dt = await parseTemplate(
+                createTemplate("outer", {
+                    "resources": [
+                        {
+                            "type": "Microsoft.Resources/deployments",
+                            "apiVersion": "2019-10-01",
+                            "name": "nested2",
+                            "properties": {
+                                "expressionEvaluationOptions": { "scope": "inner" },
+                                "mode": "Incremental",
+                                "template": innerTemplate
+                            }
+                        }
+                    ]
+                }),
+                []);
+            assert.deepStrictEqual(dt.allScopes.map(s => s.scopeContext), [ScopeContext.TopLevel, ScopeContext.NestedDeploymentInnerScope]);
+        });
+    });
+
+    suite("Outer scope", () => {
+        test("Expressions use the outer template's scope by default", async () => {
+            const { dt, markers: { outerLocationDef, innerLocationRef } } = await parseTemplateWithMarkers(
+                createTemplate(undefined, {
+                    "resources": [
+                        {
+                            "type": "Microsoft.Storage/storageAccounts",
+                            "apiVersion": "2019-06-01",
+                            "name": "storage",
+                            "location": "[parameters('<!innerLocationRef!>location')]"
+                        }
+                    ]
+                }),
+                []);
+            const refInfo: IReferenceSite = dt.getContextFromDocumentCharacterIndex(innerLocationRef.index).getReferenceSiteInfo()!;
+            assert.equal(refInfo.definition.nameValue!.unquotedSpan.startIndex, outerLocationDef.index);
+            assert.deepStrictEqual(dt.allScopes.map(s => s.scopeContext), [ScopeContext.TopLevel]);
+            assert.equal(dt.topLevelScope.nestedDeployments[0].innerScope, undefined);
+        });
+
+        test("Nested template's own definitions are ignored with outer scope", async () => {
+            await parseTemplate(
+                createTemplate("outer", {
+                    "variables": {
+                        "v1": "a"
+                    },
+                    "outputs": {
+                        "o1": { "type": "string", "value": "[variables('v1')]" }
+                    }
+                }),
+                [
+                    "Error: Undefined variable reference: 'v1'"
+                ]);
+        });
+    });
+});
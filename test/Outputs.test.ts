@@ -0,0 +1,221 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DefinitionKind, DeploymentTemplate, HoverInfo, IReferenceSite, IssueKind } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate, parseTemplateWithMarkers } from "./support/parseTemplate";
+import { testGetReferences } from "./support/testGetReferences";
+
+suite("Outputs", () => {
+    const nestedTemplate: IDeploymentTemplate = {
+        "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+        "contentVersion": "1.0.0.0",
+        "resources": [
+            {
+                "type": "Microsoft.Resources/deployments",
+                "apiVersion": "2019-10-01",
+                "name": "nested",
+                "location": "westus",
+                "properties": {
+                    "mode": "Incremental",
+                    "template": {
+                        "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+                        "contentVersion": "1.0.0.0",
+                        "resources": [],
+                        "outputs": {
+                            "<!nestedOutputDef!>endpoint": {
+                                "type": "string",
+                                "value": "https://contoso.com",
+                                "metadata": {
+                                    "description": "The endpoint"
+                                }
+                            }
+                        }
+                    }
+                }
+            },
+            {
+                "type": "Microsoft.Storage/storageAccounts",
+                "apiVersion": "2019-06-01",
+                "name": "[reference('nested').outputs.<!ref1!>endpoint.value]",
+                "location": "[reference(resourceId('Microsoft.Resources/deployments', 'nested')).outputs.<!ref2!>ENDPOINT.value]"
+            }
+        ],
+        "outputs": {
+            "<!topLevelOutputDef!>result": {
+                "type": "string",
+                "value": "[reference('nested').outputs.<!ref3!>endpoint.value]"
+            }
+        }
+    };
+
+    suite("definitions", () => {
+        test("top-level and nested outputs", async () => {
+            const { dt } = await parseTemplateWithMarkers(nestedTemplate);
+            assert.deepStrictEqual(dt.topLevelScope.outputDefinitions.map(o => o.nameValue.unquotedValue), ["result"]);
+            assert.equal(dt.topLevelScope.outputDefinitions[0].validOutputType, "string");
+            assert.equal(dt.topLevelScope.outputDefinitions[0].definitionKind, DefinitionKind.Output);
+
+            assert.equal(dt.topLevelScope.nestedDeployments.length, 1);
+            const deployment = dt.topLevelScope.getNestedDeployment("NESTED")!;
+            assert(deployment);
+            assert.deepStrictEqual(deployment.outputDefinitions.map(o => o.nameValue.unquotedValue), ["endpoint"]);
+            assert.equal(deployment.getOutputDefinition("Endpoint")!.description, "The endpoint");
+        });
+
+        test("outputs that aren't objects are ignored", async () => {
+            const dt = await parseTemplate({
+                "outputs": {
+                    "a": "not an object",
+                    "b": { "type": "int", "value": 1 }
+                }
+            });
+            assert.deepStrictEqual(dt.topLevelScope.outputDefinitions.map(o => o.nameValue.unquotedValue), ["b"]);
+        });
+    });
+
+    suite("references", () => {
+        test("find references from output definition in nested template", async () => {
+            const { dt, markers: { nestedOutputDef, ref1, ref2, ref3 } } = await parseTemplateWithMarkers(nestedTemplate);
+            await testGetReferences(dt, nestedOutputDef.index, [nestedOutputDef.index, ref1.index, ref2.index, ref3.index]);
+        });
+
+        test("find references from reference().outputs access", async () => {
+            const { dt, markers: { nestedOutputDef, ref1, ref2, ref3 } } = await parseTemplateWithMarkers(nestedTemplate);
+            await testGetReferences(dt, ref2.index + 2, [nestedOutputDef.index, ref1.index, ref2.index, ref3.index]);
+        });
+
+        test("top-level output has only its definition", async () => {
+            const { dt, markers: { topLevelOutputDef } } = await parseTemplateWithMarkers(nestedTemplate);
+            await testGetReferences(dt, topLevelOutputDef.index, [topLevelOutputDef.index]);
+        });
+
+        test("reference site info and hover", async () => {
+            const { dt, markers: { nestedOutputDef, ref1 } } = await parseTemplateWithMarkers(nestedTemplate);
+            const pc = dt.getContextFromDocumentCharacterIndex(ref1.index + 1);
+
+            const refInfo: IReferenceSite = pc.getReferenceSiteInfo()!;
+            assert(refInfo);
+            assert.equal(refInfo.definition.definitionKind, DefinitionKind.Output);
+            assert.equal(refInfo.definition.nameValue!.unquotedSpan.startIndex, nestedOutputDef.index);
+            assert.equal(refInfo.referenceSpan.startIndex, ref1.index);
+
+            const hoverInfo: HoverInfo = pc.getHoverInfo()!;
+            assert.equal(hoverInfo.usage, "endpoint [string]");
+            assert.equal(hoverInfo.friendlyType, "output");
+            assert.equal(hoverInfo.description, "The endpoint");
+        });
+
+        test("outputs of unknown deployments are not references", async () => {
+            const { dt, markers: { bang } } = await parseTemplateWithMarkers({
+                "outputs": {
+                    "o": {
+                        "type": "string",
+                        "value": "[reference('other').outputs.e!ndpoint.value]"
+                    }
+                }
+            });
+            assert.equal(dt.getContextFromDocumentCharacterIndex(bang.index).getReferenceSiteInfo(), null);
+        });
+    });
+
+    suite("warnings", () => {
+        async function getWarnings(template: Partial<IDeploymentTemplate>): Promise<string[]> {
+            const dt: DeploymentTemplate = await parseTemplate(template);
+            return dt.warnings
+                .filter(w => w.kind === IssueKind.duplicateOutput || w.kind === IssueKind.outputTypeMismatch)
+                .map(w => w.message);
+        }
+
+        test("duplicate output names", async () => {
+            const warnings = await getWarnings(<Partial<IDeploymentTemplate>>JSON.parse(`{
+                "outputs": {
+                    "a": { "type": "string", "value": "x" },
+                    "A": { "type": "string", "value": "y" }
+                }
+            }`));
+            assert.deepStrictEqual(warnings, ["The output 'A' is defined more than once."]);
+        });
+
+        test("output values matching their types", async () => {
+            const warnings = await getWarnings({
+                "parameters": {
+                    "p": { "type": "securestring" },
+                    "count": { "type": "int", "defaultValue": 3 }
+                },
+                "variables": {
+                    "v": [1, 2]
+                },
+                "outputs": {
+                    "s": { "type": "string", "value": "[parameters('p')]" },
+                    "i": { "type": "int", "value": "[add(parameters('count'), 1)]" },
+                    "a": { "type": "array", "value": "[variables('v')]" },
+                    "o": { "type": "object", "value": { "a": "[reference('x')]" } },
+                    "unknown": { "type": "string", "value": "[reference('x').id]" }
+                }
+            });
+            assert.deepStrictEqual(warnings, []);
+        });
+
+        test("output values not matching their types", async () => {
+            const warnings = await getWarnings({
+                "parameters": {
+                    "p": { "type": "string" }
+                },
+                "outputs": {
+                    "i": { "type": "int", "value": "[parameters('p')]" },
+                    "b": { "type": "bool", "value": "[concat('a', 'b')]" },
+                    "o": { "type": "object", "value": [1] },
+                    "s": { "type": "string", "value": 1 }
+                }
+            });
+            assert.deepStrictEqual(warnings, [
+                "The value of output 'i' should be of type 'int', but is of type 'string'.",
+                "The value of output 'b' should be of type 'bool', but is of type 'string'.",
+                "The value of output 'o' should be of type 'object', but is of type 'array'.",
+                "The value of output 's' should be of type 'string', but is of type 'int'."
+            ]);
+        });
+
+        test("outputs of nested templates with inner scope", async () => {
+            const warnings = await getWarnings({
+                "resources": [
+                    {
+                        "name": "inner",
+                        "type": "Microsoft.Resources/deployments",
+                        "apiVersion": "2019-10-01",
+                        "location": "[resourceGroup().location]",
+                        "properties": {
+                            "expressionEvaluationOptions": {
+                                "scope": "inner"
+                            },
+                            "mode": "Incremental",
+                            "parameters": {
+                                "p": {
+                                    "value": "abc"
+                                }
+                            },
+                            "template": {
+                                "parameters": {
+                                    "p": { "type": "string" }
+                                },
+                                "outputs": {
+                                    "i": { "type": "int", "value": "[parameters('p')]" },
+                                    "s": { "type": "string", "value": "[parameters('p')]" }
+                                }
+                            }
+                        }
+                    }
+                ]
+            });
+            assert.deepStrictEqual(warnings, [
+                "The value of output 'i' should be of type 'int', but is of type 'string'."
+            ]);
+        });
+    });
+});
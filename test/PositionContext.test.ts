@@ -440,7 +440,7 @@ suite("PositionContext", () => {
         const pc: PositionContext = dt.getContextFromDocumentCharacterIndex("{ 'variables': { 'vName': 3 }, 'a': 'A', 'b': \"[variables('vNam".length);
         const hi: HoverInfo | null = pc.getHoverInfo()!;
         assert(hi);
-        assert.deepStrictEqual(`**vName**${os.EOL}*(variable)*`, hi.getHoverText());
+        assert.deepStrictEqual(`**vName**${os.EOL}*(variable)*${os.EOL}${os.EOL}Value: \`3\``, hi.getHoverText());
         assert.deepStrictEqual(new Language.Span("{ 'variables': { 'vName': 3 }, 'a': 'A', 'b': \"[variables(".length, 7), hi.span);
     });
 
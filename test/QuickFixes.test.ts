@@ -0,0 +1,326 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DeploymentTemplate, getQuickFixes, Issue, IssueKind, QuickFix, TextEdit } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate } from "./support/parseTemplate";
+import { stringify } from "./support/stringify";
+
+suite("QuickFixes", () => {
+    function applyEdits(text: string, edits: TextEdit[]): string {
+        // Apply from the end so earlier edits don't move later ones
+        const sortedEdits = edits.slice().sort((a, b) => b.span.startIndex - a.span.startIndex);
+        for (const edit of sortedEdits) {
+            text = text.slice(0, edit.span.startIndex) + edit.newText + text.slice(edit.span.afterEndIndex);
+        }
+        return text;
+    }
+
+    async function getFixes(template: string | Partial<IDeploymentTemplate>, kind: IssueKind): Promise<{ dt: DeploymentTemplate; fixes: QuickFix[] }> {
+        const dt: DeploymentTemplate = await parseTemplate(template);
+        const issues: Issue[] = (await dt.errorsPromise).concat(dt.warnings).filter(issue => issue.kind === kind);
+        assert.equal(issues.length, 1, `Expected a single issue of kind ${kind}`);
+        return { dt, fixes: getQuickFixes(dt, issues[0]) };
+    }
+
+    async function testFix(template: string | Partial<IDeploymentTemplate>, kind: IssueKind, expectedTitle: string, expectedTemplate: string | Partial<IDeploymentTemplate>): Promise<void> {
+        const { dt, fixes } = await getFixes(template, kind);
+        const fix: QuickFix | undefined = fixes.find(f => f.title === expectedTitle);
+        assert(fix, `Couldn't find fix "${expectedTitle}", found: ${fixes.map(f => f.title).join(", ")}`);
+
+        const expectedText: string = typeof expectedTemplate === "string" ? expectedTemplate : stringify(expectedTemplate);
+        assert.equal(applyEdits(dt.documentText, fix!.edits), expectedText);
+    }
+
+    suite("Add parameter definition", () => {
+        test("Existing parameters section", async () => {
+            await testFix(
+                {
+                    "parameters": { "p1": { "type": "int" } },
+                    "outputs": { "o1": { "type": "string", "value": "[parameters('p2')]" } }
+                },
+                IssueKind.undefinedParam,
+                "Add parameter definition",
+                {
+                    "parameters": { "p1": { "type": "int" }, "p2": { "type": "string" } },
+                    "outputs": { "o1": { "type": "string", "value": "[parameters('p2')]" } }
+                });
+        });
+
+        test("Empty parameters section", async () => {
+            await testFix(
+                `{\n    "parameters": {},\n    "outputs": { "o1": { "type": "string", "value": "[parameters('p1')]" } }\n}`,
+                IssueKind.undefinedParam,
+                "Add parameter definition",
+                `{\n    "parameters": {\n        "p1": {\n            "type": "string"\n        }\n    },\n    "outputs": { "o1": { "type": "string", "value": "[parameters('p1')]" } }\n}`);
+        });
+
+        test("No parameters section", async () => {
+            await testFix(
+                {
+                    "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+                    "contentVersion": "1.0.0.0",
+                    "outputs": { "o1": { "type": "string", "value": "[parameters('p1')]" } }
+                },
+                IssueKind.undefinedParam,
+                "Add parameter definition",
+                {
+                    "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+                    "contentVersion": "1.0.0.0",
+                    "parameters": { "p1": { "type": "string" } },
+                    "outputs": { "o1": { "type": "string", "value": "[parameters('p1')]" } }
+                });
+        });
+
+        test("Not offered inside user functions", async () => {
+            const { fixes } = await getFixes(
+                {
+                    "functions": [{
+                        "namespace": "udf",
+                        "members": {
+                            "f": { "output": { "type": "string", "value": "[parameters('p1')]" } }
+                        }
+                    }],
+                    "outputs": { "o1": { "type": "string", "value": "[udf.f()]" } }
+                },
+                IssueKind.undefinedParam);
+            assert.deepStrictEqual(fixes, []);
+        });
+    });
+
+    suite("Add variable", () => {
+        test("Existing variables section", async () => {
+            await testFix(
+                {
+                    "variables": { "v1": 1 },
+                    "outputs": { "o1": { "type": "string", "value": "[variables('v''2')]" } }
+                },
+                IssueKind.undefinedVar,
+                "Add variable",
+                {
+                    "variables": { "v1": 1, "v'2": "" },
+                    "outputs": { "o1": { "type": "string", "value": "[variables('v''2')]" } }
+                });
+        });
+
+        test("No variables section, placed after parameters", async () => {
+            await testFix(
+                {
+                    "outputs": { "o1": { "type": "string", "value": "[variables('v1')]" } },
+                    "parameters": {}
+                },
+                IssueKind.undefinedVar,
+                "Add variable",
+                {
+                    "outputs": { "o1": { "type": "string", "value": "[variables('v1')]" } },
+                    "parameters": {},
+                    "variables": { "v1": "" }
+                });
+        });
+
+        test("No other sections, placed first", async () => {
+            await testFix(
+                {
+                    "outputs": { "o1": { "type": "string", "value": "[variables('v1')]" } }
+                },
+                IssueKind.undefinedVar,
+                "Add variable",
+                {
+                    "variables": { "v1": "" },
+                    "outputs": { "o1": { "type": "string", "value": "[variables('v1')]" } }
+                });
+        });
+    });
+
+    suite("Did you mean", () => {
+        test("Suggests similar function names", async () => {
+            const { dt, fixes } = await getFixes(
+                { "outputs": { "o1": { "type": "string", "value": "[conact('a', 'b')]" } } },
+                IssueKind.undefinedFunc);
+            assert.deepStrictEqual(fixes.map(f => f.title), ["Did you mean 'concat'?"]);
+            assert.equal(fixes[0].isPreferred, true);
+            assert(applyEdits(dt.documentText, fixes[0].edits).includes(`"[concat('a', 'b')]"`));
+        });
+
+        test("Suggestions are ordered by distance", async () => {
+            const { fixes } = await getFixes(
+                { "outputs": { "o1": { "type": "int", "value": "[mud(1, 2)]" } } },
+                IssueKind.undefinedFunc);
+            assert.deepStrictEqual(fixes.map(f => f.title), ["Did you mean 'mod'?", "Did you mean 'mul'?", "Did you mean 'add'?"]);
+            assert.deepStrictEqual(fixes.map(f => f.isPreferred), [true, false, false]);
+        });
+
+        test("No suggestions for dissimilar names", async () => {
+            const { fixes } = await getFixes(
+                { "outputs": { "o1": { "type": "string", "value": "[completelyUnknown()]" } } },
+                IssueKind.undefinedFunc);
+            assert.deepStrictEqual(fixes, []);
+        });
+    });
+
+    suite("Remove unused definition", () => {
+        const outputs = { "o1": { "type": "int", "value": "[variables('used')]" } };
+
+        test("First definition", async () => {
+            await testFix(
+                { "variables": { "unused": 1, "used": 2 }, "outputs": outputs },
+                IssueKind.unusedVar,
+                "Remove unused definition",
+                { "variables": { "used": 2 }, "outputs": outputs });
+        });
+
+        test("Middle definition", async () => {
+            await testFix(
+                `{ "variables": { "used": 1, "unused": 2, "used2": 3 }, "outputs": { "o1": { "type": "int", "value": "[add(variables('used'), variables('used2'))]" } } }`,
+                IssueKind.unusedVar,
+                "Remove unused definition",
+                `{ "variables": { "used": 1, "used2": 3 }, "outputs": { "o1": { "type": "int", "value": "[add(variables('used'), variables('used2'))]" } } }`);
+        });
+
+        test("Last definition", async () => {
+            await testFix(
+                { "variables": { "used": 1, "unused": 2 }, "outputs": outputs },
+                IssueKind.unusedVar,
+                "Remove unused definition",
+                { "variables": { "used": 1 }, "outputs": outputs });
+        });
+
+        test("Only definition", async () => {
+            await testFix(
+                `{ "parameters": { "unused": { "type": "int" } } }`,
+                IssueKind.unusedParam,
+                "Remove unused definition",
+                `{ "parameters": {} }`);
+        });
+
+        suite("Comments are kept", () => {
+            const outputsText = `"outputs": { "o1": { "type": "int", "value": "[add(variables('used'), variables('used2'))]" } }`;
+
+            test("First definition", async () => {
+                await testFix(
+                    `{\n    "variables": {\n        "unused": 1, // after unused\n        // before used\n        "used": 2,\n        "used2": 3\n    },\n    ${outputsText}\n}`,
+                    IssueKind.unusedVar,
+                    "Remove unused definition",
+                    `{\n    "variables": {\n        // after unused\n        // before used\n        "used": 2,\n        "used2": 3\n    },\n    ${outputsText}\n}`);
+            });
+
+            test("Middle definition", async () => {
+                await testFix(
+                    `{\n    "variables": {\n        "used": 1, // after used\n        // before unused\n        "unused": 2, // after unused\n        // before used2\n        "used2": 3\n    },\n    ${outputsText}\n}`,
+                    IssueKind.unusedVar,
+                    "Remove unused definition",
+                    `{\n    "variables": {\n        "used": 1, // after used\n        // before unused\n        // after unused\n        // before used2\n        "used2": 3\n    },\n    ${outputsText}\n}`);
+            });
+
+            test("Last definition", async () => {
+                await testFix(
+                    `{\n    "variables": {\n        "used": 1,\n        "used2": 2, // after used2\n        // before unused\n        "unused": 3\n        // after unused\n    },\n    ${outputsText}\n}`,
+                    IssueKind.unusedVar,
+                    "Remove unused definition",
+                    `{\n    "variables": {\n        "used": 1,\n        "used2": 2 // after used2\n        // before unused\n        // after unused\n    },\n    ${outputsText}\n}`);
+            });
+
+            test("Only definition", async () => {
+                await testFix(
+                    `{\n    "parameters": {\n        // before unused\n        "unused": { "type": "int" } /* after unused */\n    }\n}`,
+                    IssueKind.unusedParam,
+                    "Remove unused definition",
+                    `{\n    "parameters": {\n        // before unused\n        /* after unused */\n    }\n}`);
+                await testFix(
+                    `{\n    "parameters": {\n        // before unused\n        "unused": { "type": "int" }\n    }\n}`,
+                    IssueKind.unusedParam,
+                    "Remove unused definition",
+                    `{\n    "parameters": {\n        // before unused\n    }\n}`);
+            });
+        });
+
+        test("Unused user function", async () => {
+            await testFix(
+                `{ "functions": [ { "namespace": "udf", "members": { "f": { "output": { "type": "int", "value": 1 } } } } ] }`,
+                IssueKind.unusedUdf,
+                "Remove unused definition",
+                `{ "functions": [ { "namespace": "udf", "members": {} } ] }`);
+        });
+    });
+
+    suite("Insert missing arguments", () => {
+        test("Built-in function", async () => {
+            await testFix(
+                `{ "outputs": { "o1": { "type": "int", "value": "[add(1)]" } } }`,
+                IssueKind.badArgsCount,
+                "Insert missing arguments",
+                `{ "outputs": { "o1": { "type": "int", "value": "[add(1, 'operand2')]" } } }`);
+        });
+
+        test("Nested call with no arguments", async () => {
+            await testFix(
+                `{ "outputs": { "o1": { "type": "int", "value": "[mul(2, add())]" } } }`,
+                IssueKind.badArgsCount,
+                "Insert missing arguments",
+                `{ "outputs": { "o1": { "type": "int", "value": "[mul(2, add('operand1', 'operand2'))]" } } }`);
+        });
+
+        test("User function", async () => {
+            await testFix(
+                `{ "functions": [ { "namespace": "udf", "members": { "f": { "parameters": [ { "name": "a", "type": "int" }, { "name": "b", "type": "int" } ], "output": { "type": "int", "value": "[add(parameters('a'), parameters('b'))]" } } } } ], "outputs": { "o1": { "type": "int", "value": "[udf.f(1)]" } } }`,
+                IssueKind.badArgsCount,
+                "Insert missing arguments",
+                `{ "functions": [ { "namespace": "udf", "members": { "f": { "parameters": [ { "name": "a", "type": "int" }, { "name": "b", "type": "int" } ], "output": { "type": "int", "value": "[add(parameters('a'), parameters('b'))]" } } } } ], "outputs": { "o1": { "type": "int", "value": "[udf.f(1, 'b')]" } } }`);
+        });
+
+        test("Not offered for too many arguments", async () => {
+            const { fixes } = await getFixes(
+                `{ "outputs": { "o1": { "type": "int", "value": "[add(1, 2, 3)]" } } }`,
+                IssueKind.badArgsCount);
+            assert.deepStrictEqual(fixes, []);
+        });
+    });
+
+    suite("Change to closest declared resource", () => {
+        const resources: string = `"resources": [ { "type": "Microsoft.Network/virtualNetworks", "apiVersion": "2019-11-01", "name": "vnet", "location": "westus", "resources": [ { "type": "subnets", "apiVersion": "2019-11-01", "name": "frontend", "location": "westus" } ] } ]`;
+
+        test("Resource type casing", async () => {
+            await testFix(
+                `{ ${resources}, "outputs": { "o1": { "type": "string", "value": "[resourceId('Microsoft.Network/VirtualNetworks', 'vnet')]" } } }`,
+                IssueKind.resourceTypeCasing,
+                "Change to 'Microsoft.Network/virtualNetworks'",
+                `{ ${resources}, "outputs": { "o1": { "type": "string", "value": "[resourceId('Microsoft.Network/virtualNetworks', 'vnet')]" } } }`);
+        });
+
+        test("Missing name segment", async () => {
+            await testFix(
+                `{ ${resources}, "outputs": { "o1": { "type": "string", "value": "[resourceId('Microsoft.Network/virtualNetworks/subnets', 'frontend')]" } } }`,
+                IssueKind.resourceNameSegments,
+                "Change to 'vnet/frontend'",
+                `{ ${resources}, "outputs": { "o1": { "type": "string", "value": "[resourceId('Microsoft.Network/virtualNetworks/subnets', 'vnet', 'frontend')]" } } }`);
+        });
+
+        test("Misspelled name in resourceId()", async () => {
+            await testFix(
+                `{ ${resources}, "outputs": { "o1": { "type": "string", "value": "[resourceId('Microsoft.Network/virtualNetworks/subnets', 'vnet', 'frontent')]" } } }`,
+                IssueKind.undeclaredResource,
+                "Change to 'vnet/frontend'",
+                `{ ${resources}, "outputs": { "o1": { "type": "string", "value": "[resourceId('Microsoft.Network/virtualNetworks/subnets', 'vnet', 'frontend')]" } } }`);
+        });
+
+        test("Misspelled name in reference()", async () => {
+            await testFix(
+                `{ ${resources}, "outputs": { "o1": { "type": "object", "value": "[reference('vnett')]" } } }`,
+                IssueKind.undeclaredResource,
+                "Change to 'vnet'",
+                `{ ${resources}, "outputs": { "o1": { "type": "object", "value": "[reference('vnet')]" } } }`);
+        });
+
+        test("Not offered for names from parameters", async () => {
+            const { fixes } = await getFixes(
+                `{ "parameters": { "vnetName": { "type": "string", "defaultValue": "vnett" } }, ${resources}, "outputs": { "o1": { "type": "object", "value": "[reference(parameters('vnetName'))]" } } }`,
+                IssueKind.undeclaredResource);
+            assert.deepStrictEqual(fixes, []);
+        });
+    });
+});
@@ -0,0 +1,230 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { getExtractRefactorings, getInlineRefactorings, Refactoring, RefactoringKind, Span, TextEdit } from "../extension.bundle";
+import { parseTemplateWithMarkers } from "./support/parseTemplate";
+import { testWithRealFunctionMetadata } from "./TestData";
+
+suite("Refactorings", () => {
+    function applyEdits(text: string, edits: TextEdit[]): string {
+        // Apply from the end so earlier edits don't move later ones
+        const sortedEdits = edits.slice().sort((a, b) => b.span.startIndex - a.span.startIndex);
+        for (const edit of sortedEdits) {
+            text = text.slice(0, edit.span.startIndex) + edit.newText + text.slice(edit.span.afterEndIndex);
+        }
+        return text;
+    }
+
+    // The selection is marked with <!start!> and <!end!>
+    async function getRefactorings(template: string): Promise<{ text: string; refactorings: Refactoring[] }> {
+        const { dt, markers } = await parseTemplateWithMarkers(template);
+        const selection = new Span(markers.start.index, markers.end.index - markers.start.index);
+        return { text: dt.documentText, refactorings: getExtractRefactorings(dt, selection) };
+    }
+
+    async function testExtract(template: string, title: string, expected: string | undefined): Promise<void> {
+        const { text, refactorings } = await getRefactorings(template);
+        const refactoring: Refactoring | undefined = refactorings.find(r => r.title === title);
+        if (expected === undefined) {
+            assert(!refactoring, `Did not expect "${title}" to be offered`);
+        } else {
+            assert(refactoring, `Couldn't find "${title}", found: ${refactorings.map(r => r.title).join(", ")}`);
+            assert.equal(refactoring!.kind, RefactoringKind.extract);
+            assert.equal(applyEdits(text, refactoring!.edits), expected);
+        }
+    }
+
+    suite("Extract to variable", () => {
+        test("Sub-expression", async () => {
+            await testExtract(
+                `{\n    "variables": {\n        "v1": "[concat(<!start!>toUpper('a')<!end!>, 'b')]"\n    }\n}`,
+                "Extract to variable",
+                `{\n    "variables": {\n        "v1": "[concat(variables('newVariable'), 'b')]",\n        "newVariable": "[toUpper('a')]"\n    }\n}`);
+        });
+
+        test("Partial selection extracts the enclosing expression", async () => {
+            await testExtract(
+                `{\n    "variables": {\n        "v1": "[concat(toUp<!start!>per('a'<!end!>), 'b')]"\n    }\n}`,
+                "Extract to variable",
+                `{\n    "variables": {\n        "v1": "[concat(variables('newVariable'), 'b')]",\n        "newVariable": "[toUpper('a')]"\n    }\n}`);
+        });
+
+        test("Whole expression", async () => {
+            await testExtract(
+                `{\n    "outputs": {\n        "o1": { "type": "string", "value": "[<!start!>toUpper('a')<!end!>]" }\n    }\n}`,
+                "Extract to variable",
+                `{\n    "variables": {\n        "newVariable": "[toUpper('a')]"\n    },\n    "outputs": {\n        "o1": { "type": "string", "value": "[variables('newVariable')]" }\n    }\n}`);
+        });
+
+        test("String literal becomes a plain string", async () => {
+            await testExtract(
+                `{\n    "variables": {\n        "v1": "[concat(<!start!>'it''s [here]'<!end!>, 'b')]"\n    }\n}`,
+                "Extract to variable",
+                `{\n    "variables": {\n        "v1": "[concat(variables('newVariable'), 'b')]",\n        "newVariable": "it's [here]"\n    }\n}`);
+        });
+
+        test("Leading bracket in string literal is escaped", async () => {
+            await testExtract(
+                `{\n    "variables": {\n        "v1": "[concat(<!start!>'[a]'<!end!>, 'b')]"\n    }\n}`,
+                "Extract to variable",
+                `{\n    "variables": {\n        "v1": "[concat(variables('newVariable'), 'b')]",\n        "newVariable": "[[a]"\n    }\n}`);
+        });
+
+        test("Whole JSON object keeps comments", async () => {
+            await testExtract(
+                `{\n    "variables": {\n        "v1": 1\n    },\n    "resources": [\n        {\n            "properties": <!start!>{\n                // The size\n                "size": 1\n            }<!end!>\n        }\n    ]\n}`,
+                "Extract to variable",
+                `{\n    "variables": {\n        "v1": 1,\n        "newVariable": {\n            // The size\n            "size": 1\n        }\n    },\n    "resources": [\n        {\n            "properties": "[variables('newVariable')]"\n        }\n    ]\n}`);
+        });
+
+        test("Unique name", async () => {
+            await testExtract(
+                `{\n    "variables": {\n        "newVariable": 1,\n        "v1": <!start!>2<!end!>\n    }\n}`,
+                "Extract to variable",
+                `{\n    "variables": {\n        "newVariable": 1,\n        "v1": "[variables('newVariable2')]",\n        "newVariable2": 2\n    }\n}`);
+        });
+
+        test("Not offered in the parameters section", async () => {
+            await testExtract(
+                `{\n    "parameters": {\n        "p1": { "type": "string", "defaultValue": "[<!start!>toUpper('a')<!end!>]" }\n    }\n}`,
+                "Extract to variable",
+                undefined);
+        });
+
+        test("Not offered for property names", async () => {
+            const { refactorings } = await getRefactorings(`{\n    "variables": {\n        <!start!>"v1"<!end!>: 1\n    }\n}`);
+            assert.deepStrictEqual(refactorings, []);
+        });
+
+        test("Not offered for top-level sections", async () => {
+            const { refactorings } = await getRefactorings(`{\n    "variables": <!start!>{\n        "v1": 1\n    }<!end!>\n}`);
+            assert.deepStrictEqual(refactorings, []);
+        });
+
+        test("Not offered inside user functions", async () => {
+            const { refactorings } = await getRefactorings(
+                `{ "functions": [ { "namespace": "udf", "members": { "f": { "output": { "type": "string", "value": "[concat(<!start!>'a'<!end!>, 'b')]" } } } } ] }`);
+            assert.deepStrictEqual(refactorings, []);
+        });
+
+        test("Not offered for an empty selection", async () => {
+            const { refactorings } = await getRefactorings(`{\n    "variables": {\n        "v1": <!start!><!end!>1\n    }\n}`);
+            assert.deepStrictEqual(refactorings, []);
+        });
+    });
+
+    suite("Extract to parameter", () => {
+        test("Number is an int", async () => {
+            await testExtract(
+                `{\n    "resources": [\n        {\n            "sku": { "capacity": <!start!>3<!end!> }\n        }\n    ]\n}`,
+                "Extract to parameter",
+                `{\n    "parameters": {\n        "newParameter": {\n            "type": "int",\n            "defaultValue": 3\n        }\n    },\n    "resources": [\n        {\n            "sku": { "capacity": "[parameters('newParameter')]" }\n        }\n    ]\n}`);
+        });
+
+        test("Array value", async () => {
+            await testExtract(
+                `{\n    "parameters": {\n        "p1": { "type": "string" }\n    },\n    "variables": {\n        "v1": <!start!>[\n            1,\n            2\n        ]<!end!>\n    }\n}`,
+                "Extract to parameter",
+                `{\n    "parameters": {\n        "p1": { "type": "string" },\n        "newParameter": {\n            "type": "array",\n            "defaultValue": [\n                1,\n                2\n            ]\n        }\n    },\n    "variables": {\n        "v1": "[parameters('newParameter')]"\n    }\n}`);
+        });
+
+        test("String contents", async () => {
+            await testExtract(
+                `{\n    "variables": {\n        "v1": "<!start!>westus<!end!>"\n    }\n}`,
+                "Extract to parameter",
+                `{\n    "parameters": {\n        "newParameter": {\n            "type": "string",\n            "defaultValue": "westus"\n        }\n    },\n    "variables": {\n        "v1": "[parameters('newParameter')]"\n    }\n}`);
+        });
+
+        testWithRealFunctionMetadata("Sub-expression type is inferred", async () => {
+            await testExtract(
+                `{\n    "parameters": {},\n    "variables": {\n        "v1": "[mul(<!start!>add(1, 2)<!end!>, 3)]"\n    }\n}`,
+                "Extract to parameter",
+                `{\n    "parameters": {\n        "newParameter": {\n            "type": "int",\n            "defaultValue": "[add(1, 2)]"\n        }\n    },\n    "variables": {\n        "v1": "[mul(parameters('newParameter'), 3)]"\n    }\n}`);
+        });
+    });
+
+    suite("Inline variable", () => {
+        // The position is marked with <!cursor!>
+        async function getInline(template: string): Promise<{ text: string; refactorings: Refactoring[] }> {
+            const { dt, markers } = await parseTemplateWithMarkers(template);
+            return { text: dt.documentText, refactorings: getInlineRefactorings(dt, markers.cursor.index) };
+        }
+
+        async function testInline(template: string, expected: string): Promise<void> {
+            const { text, refactorings } = await getInline(template);
+            assert.equal(refactorings.length, 1);
+            assert.equal(refactorings[0].kind, RefactoringKind.inline);
+            assert.equal(refactorings[0].errorMessage, undefined);
+            assert.equal(applyEdits(text, refactorings[0].edits), expected);
+        }
+
+        async function testRefused(template: string, expectedMessage: string): Promise<void> {
+            const { refactorings } = await getInline(template);
+            assert.equal(refactorings.length, 1);
+            assert.deepStrictEqual(refactorings[0].edits, []);
+            assert.equal(refactorings[0].errorMessage, expectedMessage);
+        }
+
+        test("Expression value, from a reference", async () => {
+            await testInline(
+                `{\n    "variables": {\n        "v1": "[toUpper('a')]",\n        "v2": "[concat(variables('<!cursor!>v1'), variables('v1'))]"\n    },\n    "outputs": { "o1": { "type": "string", "value": "[variables('v2')]" } }\n}`,
+                `{\n    "variables": {\n        "v2": "[concat(toUpper('a'), toUpper('a'))]"\n    },\n    "outputs": { "o1": { "type": "string", "value": "[variables('v2')]" } }\n}`);
+        });
+
+        test("Expression value, from the definition", async () => {
+            await testInline(
+                `{\n    "variables": {\n        "<!cursor!>v1": "[toUpper('a')]"\n    },\n    "outputs": { "o1": { "type": "string", "value": "[variables('v1')]" } }\n}`,
+                `{\n    "variables": {},\n    "outputs": { "o1": { "type": "string", "value": "[toUpper('a')]" } }\n}`);
+        });
+
+        test("String literal is quoted inside expressions", async () => {
+            await testInline(
+                `{\n    "variables": {\n        "<!cursor!>v1": "[[here] it's",\n        "v2": 1\n    },\n    "outputs": {\n        "o1": { "type": "string", "value": "[concat(variables('v1'), 'b')]" },\n        "o2": { "type": "string", "value": "[variables('v1')]" },\n        "o3": { "type": "int", "value": "[variables('v2')]" }\n    }\n}`,
+                `{\n    "variables": {\n        "v2": 1\n    },\n    "outputs": {\n        "o1": { "type": "string", "value": "[concat('[here] it''s', 'b')]" },\n        "o2": { "type": "string", "value": "[[here] it's" },\n        "o3": { "type": "int", "value": "[variables('v2')]" }\n    }\n}`);
+        });
+
+        test("Comments next to the definition are kept", async () => {
+            await testInline(
+                `{\n    "variables": {\n        // before v1\n        "<!cursor!>v1": "[toUpper('a')]", // after v1\n        "v2": 1\n    },\n    "outputs": {\n        "o1": { "type": "string", "value": "[variables('v1')]" },\n        "o2": { "type": "int", "value": "[variables('v2')]" }\n    }\n}`,
+                `{\n    "variables": {\n        // before v1\n        // after v1\n        "v2": 1\n    },\n    "outputs": {\n        "o1": { "type": "string", "value": "[toUpper('a')]" },\n        "o2": { "type": "int", "value": "[variables('v2')]" }\n    }\n}`);
+        });
+
+        test("Number and boolean literals", async () => {
+            await testInline(
+                `{\n    "variables": {\n        "<!cursor!>v1": 42\n    },\n    "outputs": {\n        "o1": { "type": "int", "value": "[add(variables('v1'), 1)]" }\n    }\n}`,
+                `{\n    "variables": {},\n    "outputs": {\n        "o1": { "type": "int", "value": "[add(42, 1)]" }\n    }\n}`);
+            await testInline(
+                `{\n    "variables": {\n        "<!cursor!>v1": false\n    },\n    "outputs": {\n        "o1": { "type": "bool", "value": "[not(variables('v1'))]" }\n    }\n}`,
+                `{\n    "variables": {},\n    "outputs": {\n        "o1": { "type": "bool", "value": "[not(false())]" }\n    }\n}`);
+        });
+
+        test("Object value as the whole string keeps comments", async () => {
+            await testInline(
+                `{\n    "variables": {\n        "<!cursor!>v1": {\n            // The size\n            "size": 1\n        }\n    },\n    "resources": [\n        {\n            "properties": "[variables('v1')]"\n        }\n    ]\n}`,
+                `{\n    "variables": {},\n    "resources": [\n        {\n            "properties": {\n                // The size\n                "size": 1\n            }\n        }\n    ]\n}`);
+        });
+
+        test("Object value inside an expression is refused", async () => {
+            await testRefused(
+                `{\n    "variables": {\n        "<!cursor!>v1": { "size": 1 }\n    },\n    "outputs": { "o1": { "type": "int", "value": "[variables('v1').size]" } }\n}`,
+                "Variable 'v1' can't be inlined because its value is an object or array and it's referenced inside a larger expression.");
+        });
+
+        test("Copy block variable is refused", async () => {
+            await testRefused(
+                `{\n    "variables": {\n        "copy": [\n            { "name": "disks", "count": 2, "input": "[copyIndex('disks')]" }\n        ]\n    },\n    "outputs": { "o1": { "type": "array", "value": "[variables('<!cursor!>disks')]" } }\n}`,
+                "Variable 'disks' is defined in a copy block and can't be inlined.");
+        });
+
+        test("Not offered for parameters", async () => {
+            const { refactorings } = await getInline(
+                `{\n    "parameters": { "p1": { "type": "int" } },\n    "outputs": { "o1": { "type": "int", "value": "[parameters('<!cursor!>p1')]" } }\n}`);
+            assert.deepStrictEqual(refactorings, []);
+        });
+    });
+});
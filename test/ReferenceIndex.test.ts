@@ -0,0 +1,137 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { AzureRMAssets, DefinitionKind, DeploymentTemplate, INamedDefinition, Language, ReferenceList } from "../extension.bundle";
+import { parseTemplate } from "./support/parseTemplate";
+
+suite("ReferenceIndex", () => {
+    const template: {} = {
+        "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+        "contentVersion": "1.0.0.0",
+        "parameters": {
+            "prefix": { "type": "string" }
+        },
+        "variables": {
+            "name": "[concat(parameters('prefix'), 'storage')]",
+            "upperName": "[toUpper(variables('name'))]"
+        },
+        "functions": [
+            {
+                "namespace": "udf",
+                "members": {
+                    "storageName": {
+                        "parameters": [
+                            { "name": "prefix", "type": "string" }
+                        ],
+                        "output": {
+                            "type": "string",
+                            "value": "[concat(parameters('prefix'), 'sa')]"
+                        }
+                    }
+                }
+            }
+        ],
+        "resources": [
+            {
+                "type": "Microsoft.Storage/storageAccounts",
+                "apiVersion": "2019-06-01",
+                "name": "[udf.storageName(variables('upperName'))]",
+                "location": "westus"
+            },
+            {
+                "type": "Microsoft.Resources/deployments",
+                "apiVersion": "2019-10-01",
+                "name": "nested",
+                "properties": {
+                    "mode": "Incremental",
+                    "expressionEvaluationOptions": { "scope": "inner" },
+                    "parameters": {
+                        "prefix": { "value": "[parameters('prefix')]" }
+                    },
+                    "template": {
+                        "parameters": {
+                            "prefix": { "type": "string" }
+                        },
+                        "resources": [],
+                        "outputs": {
+                            "innerName": { "type": "string", "value": "[concat(parameters('prefix'), 'inner')]" }
+                        }
+                    }
+                }
+            }
+        ],
+        "outputs": {
+            "name": {
+                "type": "string",
+                "value": "[concat(variables('name'), reference('nested').outputs.innerName.value)]"
+            }
+        }
+    };
+
+    function getDefinitions(dt: DeploymentTemplate): INamedDefinition[] {
+        const definitions: INamedDefinition[] = [];
+        for (const scope of dt.allScopes) {
+            definitions.push(...scope.parameterDefinitions, ...scope.variableDefinitions);
+            for (const ns of scope.namespaceDefinitions) {
+                definitions.push(ns);
+                for (const member of ns.members) {
+                    definitions.push(member, ...member.parameterDefinitions);
+                }
+            }
+        }
+
+        // Outputs are referred to through the nested deployment that defines them
+        definitions.push(...dt.topLevelScope.outputDefinitions);
+        for (const deployment of dt.topLevelScope.nestedDeployments) {
+            definitions.push(...deployment.outputDefinitions);
+        }
+        return definitions;
+    }
+
+    test("Reference counts", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(template, []);
+        const counts: string[] = getDefinitions(dt).map(definition => `${definition.definitionKind} ${definition.nameValue!.unquotedValue}: ${dt.referenceIndex.getReferenceCount(definition)}`);
+        assert.deepStrictEqual(counts, [
+            "Parameter prefix: 2",
+            "Variable name: 2",
+            "Variable upperName: 1",
+            "Namespace udf: 1",
+            "UserFunction storageName: 1",
+            "Parameter prefix: 1",
+            "Parameter prefix: 1",
+            "Output name: 0",
+            "Output innerName: 1"
+        ]);
+    });
+
+    test("Built-in functions are indexed by name", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(template, []);
+        const concat = AzureRMAssets.getFunctionMetadataFromName("concat")!;
+        const references: ReferenceList = dt.findReferences(concat);
+        assert.equal(references.kind, DefinitionKind.BuiltinFunction);
+        assert.deepStrictEqual(references.spans.map(span => dt.documentText.substr(span.startIndex, span.length)), ["concat", "concat", "concat", "concat"]);
+    });
+
+    test("findReferences returns the definition followed by its uses", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(template, []);
+        const variable: INamedDefinition = dt.topLevelScope.getVariableDefinition("name")!;
+        const references: ReferenceList = dt.findReferences(variable);
+        assert.deepStrictEqual(references.spans.map(span => dt.documentText.substr(span.startIndex, span.length)), ["name", "name", "name"]);
+        assert.equal(references.spans[0].startIndex, variable.nameValue!.unquotedSpan.startIndex);
+    });
+
+    test("The index is built once per template", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(template, []);
+        assert.strictEqual(dt.referenceIndex, dt.referenceIndex);
+
+        // Looking up references doesn't expose the index's own lists
+        const parameter: INamedDefinition = dt.topLevelScope.getParameterDefinition("prefix")!;
+        dt.referenceIndex.getReferences(parameter).add(new Language.Span(0, 1));
+        assert.equal(dt.referenceIndex.getReferenceCount(parameter), 2);
+    });
+});
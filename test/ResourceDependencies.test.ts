@@ -0,0 +1,362 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DefinitionKind, DeploymentTemplate, IReferenceSite, ReferenceList, ResourceDefinition, ResourceDependencyGraph } from "../extension.bundle";
+import { IDeploymentTemplate, IDeploymentTemplateResource } from "./support/diagnostics";
+import { parseTemplate, parseTemplateWithMarkers } from "./support/parseTemplate";
+
+suite("ResourceDependencies", () => {
+    const schema = "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#";
+
+    function createTemplate(resources: IDeploymentTemplateResource[]): IDeploymentTemplate {
+        return {
+            "$schema": schema,
+            "contentVersion": "1.0.0.0",
+            "parameters": {
+                "vnetName": { "type": "string" }
+            },
+            "variables": {
+                "storageName": "mystorage",
+                "nsgName": "[concat(parameters('vnetName'), '-nsg')]"
+            },
+            "resources": resources,
+            "outputs": {
+                "names": {
+                    "type": "string",
+                    "value": "[concat(variables('storageName'), variables('nsgName'))]"
+                }
+            }
+        };
+    }
+
+    const storage: IDeploymentTemplateResource = {
+        "type": "Microsoft.Storage/storageAccounts",
+        "apiVersion": "2019-06-01",
+        "name": "[variables('storageName')]",
+        "location": "westus"
+    };
+    const nsg: IDeploymentTemplateResource = {
+        "type": "Microsoft.Network/networkSecurityGroups",
+        "apiVersion": "2019-11-01",
+        "name": "[variables('nsgName')]",
+        "location": "westus"
+    };
+
+    function createVNet(dependsOn: string[], subnetDependsOn: string[]): IDeploymentTemplateResource {
+        return {
+            "type": "Microsoft.Network/virtualNetworks",
+            "apiVersion": "2019-11-01",
+            "name": "[parameters('vnetName')]",
+            "location": "westus",
+            "dependsOn": dependsOn,
+            "resources": [
+                {
+                    "type": "subnets",
+                    "apiVersion": "2019-11-01",
+                    "name": "subnet1",
+                    "location": "westus",
+                    "dependsOn": subnetDependsOn
+                }
+            ]
+        };
+    }
+
+    suite("Resolving dependencies", () => {
+        test("Literal names, resourceId() and variables", async () => {
+            const dt = await parseTemplate(
+                createTemplate([
+                    storage,
+                    nsg,
+                    createVNet(
+                        [
+                            "mystorage",
+                            "Microsoft.Storage/storageAccounts/mystorage",
+                            "[variables('storageName')]",
+                            "[resourceId('Microsoft.Storage/storageAccounts', 'MyStorage')]",
+                            "[resourceId('Microsoft.Network/networkSecurityGroups', concat(parameters('vnetName'), '-nsg'))]",
+                            "[concat('Microsoft.Network/networkSecurityGroups/', variables('nsgName'))]"
+                        ],
+                        [])
+                ]),
+                []);
+
+            const graph: ResourceDependencyGraph = dt.resourceDependencyGraph;
+            assert.deepStrictEqual(graph.resources.map(r => r.displayName), ["[variables('storageName')]", "[variables('nsgName')]", "[parameters('vnetName')]", "[parameters('vnetName')]/subnet1"]);
+            assert.deepStrictEqual(
+                graph.dependencies.map(d => d.targets.map(t => t.typeValue!.unquotedValue)),
+                [
+                    ["Microsoft.Storage/storageAccounts"],
+                    ["Microsoft.Storage/storageAccounts"],
+                    ["Microsoft.Storage/storageAccounts"],
+                    ["Microsoft.Storage/storageAccounts"],
+                    ["Microsoft.Network/networkSecurityGroups"],
+                    ["Microsoft.Network/networkSecurityGroups"]
+                ]);
+        });
+
+        test("Child resources", async () => {
+            const dt = await parseTemplate(
+                createTemplate([
+                    createVNet([], []),
+                    {
+                        "type": "Microsoft.Network/networkInterfaces",
+                        "apiVersion": "2019-11-01",
+                        "name": "nic",
+                        "location": "westus",
+                        "dependsOn": [
+                            "[resourceId('Microsoft.Network/virtualNetworks/subnets', parameters('vnetName'), 'subnet1')]"
+                        ]
+                    }
+                ]),
+                []);
+
+            const nicDependency = dt.resourceDependencyGraph.dependencies[0];
+            assert.deepStrictEqual(nicDependency.targets.map(t => t.displayName), ["[parameters('vnetName')]/subnet1"]);
+        });
+
+        test("Resources with the same name and different types", async () => {
+            const dt = await parseTemplate(
+                createTemplate([
+                    {
+                        "type": "Microsoft.Network/networkSecurityGroups",
+                        "apiVersion": "2019-11-01",
+                        "name": "web",
+                        "location": "westus"
+                    },
+                    {
+                        "type": "Microsoft.Network/publicIPAddresses",
+                        "apiVersion": "2019-11-01",
+                        "name": "web",
+                        "location": "westus"
+                    },
+                    createVNet(
+                        [
+                            "web",
+                            "Microsoft.Network/networkSecurityGroups/web",
+                            "[concat('Microsoft.Network/publicIPAddresses/', 'web')]",
+                            "[resourceId('Microsoft.Network/publicIPAddresses', 'web')]",
+                            "Microsoft.Network/loadBalancers/web"
+                        ],
+                        [])
+                ]),
+                [],
+                { ignoreWarnings: true });
+
+            assert.deepStrictEqual(
+                dt.resourceDependencyGraph.dependencies.map(d => d.targets.map(t => t.typeDisplayName)),
+                [
+                    ["Microsoft.Network/networkSecurityGroups", "Microsoft.Network/publicIPAddresses"],
+                    ["Microsoft.Network/networkSecurityGroups"],
+                    ["Microsoft.Network/publicIPAddresses"],
+                    ["Microsoft.Network/publicIPAddresses"],
+                    []
+                ]);
+        });
+
+        test("Copy loop names", async () => {
+            const dt = await parseTemplate(
+                createTemplate([
+                    {
+                        "type": "Microsoft.Storage/storageAccounts",
+                        "apiVersion": "2019-06-01",
+                        "name": "[concat('storage', copyIndex())]",
+                        "location": "westus",
+                        "copy": {
+                            "name": "storageLoop",
+                            "count": 3
+                        }
+                    },
+                    createVNet(["storageLoop"], [])
+                ]),
+                []);
+            assert.equal(dt.resourceDependencyGraph.dependencies[0].targets.length, 1);
+        });
+    });
+
+    suite("Issues", () => {
+        test("Unresolved dependencies", async () => {
+            await parseTemplate(
+                createTemplate([
+                    storage,
+                    createVNet(
+                        [
+                            "otherstorage",
+                            "[resourceId('Microsoft.Storage/storageAccounts', 'otherstorage')]",
+                            "[resourceId('Microsoft.Network/networkSecurityGroups', variables('nsgName'))]",
+                            // Can't be resolved, but might be in another resource group or come from elsewhere
+                            "[resourceId('otherGroup', 'Microsoft.Storage/storageAccounts', 'otherstorage')]",
+                            "[concat(resourceGroup().id, '/providers/Microsoft.Storage/storageAccounts/otherstorage')]"
+                        ],
+                        [])
+                ]),
+                [
+                    "Warning: The dependency 'otherstorage' does not match any resource in this template.",
+                    "Warning: The dependency '[resourceId('Microsoft.Storage/storageAccounts', 'otherstorage')]' does not match any resource in this template.",
+                    "Warning: The dependency '[resourceId('Microsoft.Network/networkSecurityGroups', variables('nsgName'))]' does not match any resource in this template."
+                ]);
+        });
+
+        test("Names that can't be compared aren't reported as unresolved", async () => {
+            await parseTemplate(
+                createTemplate([
+                    {
+                        "type": "Microsoft.Storage/storageAccounts",
+                        "apiVersion": "2019-06-01",
+                        "name": "[toLower(variables('storageName'))]",
+                        "location": "westus"
+                    },
+                    createVNet(["[resourceId('Microsoft.Storage/storageAccounts', variables('storageName'))]"], [])
+                ]),
+                []);
+        });
+
+        test("Redundant dependency on parent", async () => {
+            await parseTemplate(
+                createTemplate([
+                    storage,
+                    createVNet([], ["[parameters('vnetName')]", "mystorage"])
+                ]),
+                [
+                    "Warning: The dependency on parent resource '[parameters('vnetName')]' is redundant because nested child resources are deployed after their parent."
+                ]);
+        });
+
+        test("Dependency cycles", async () => {
+            await parseTemplate(
+                createTemplate([
+                    {
+                        "type": "Microsoft.Storage/storageAccounts",
+                        "apiVersion": "2019-06-01",
+                        "name": "[variables('storageName')]",
+                        "location": "westus",
+                        "dependsOn": [
+                            "[variables('nsgName')]"
+                        ]
+                    },
+                    {
+                        "type": "Microsoft.Network/networkSecurityGroups",
+                        "apiVersion": "2019-11-01",
+                        "name": "[variables('nsgName')]",
+                        "location": "westus",
+                        "dependsOn": [
+                            "[resourceId('Microsoft.Storage/storageAccounts', 'mystorage')]"
+                        ]
+                    }
+                ]),
+                [
+                    "Warning: This dependency creates a cycle: '[variables('storageName')]' -> '[variables('nsgName')]' -> '[variables('storageName')]'",
+                    "Warning: This dependency creates a cycle: '[variables('nsgName')]' -> '[variables('storageName')]' -> '[variables('nsgName')]'"
+                ]);
+        });
+
+        test("Parent depending on its child is a cycle", async () => {
+            await parseTemplate(
+                createTemplate([
+                    storage,
+                    nsg,
+                    createVNet(["[resourceId('Microsoft.Network/virtualNetworks/subnets', parameters('vnetName'), 'subnet1')]"], [])
+                ]),
+                [
+                    "Warning: This dependency creates a cycle: '[parameters('vnetName')]' -> '[parameters('vnetName')]/subnet1' -> '[parameters('vnetName')]'"
+                ]);
+        });
+
+        test("Self dependency", async () => {
+            await parseTemplate(
+                createTemplate([
+                    {
+                        "type": "Microsoft.Storage/storageAccounts",
+                        "apiVersion": "2019-06-01",
+                        "name": "mystorage",
+                        "location": "westus",
+                        "dependsOn": [
+                            "mystorage"
+                        ]
+                    }
+                ]),
+                [
+                    "Warning: This dependency creates a cycle: 'mystorage' -> 'mystorage'"
+                ]);
+        });
+    });
+
+    suite("Definitions and references", () => {
+        const template: IDeploymentTemplate = createTemplate([
+            {
+                "type": "Microsoft.Storage/storageAccounts",
+                "apiVersion": "2019-06-01",
+                "name": "<!storageName!>[variables('storageName')]",
+                "location": "westus"
+            },
+            createVNet(
+                [
+                    "<!dependsOnName!>mystorage",
+                    "[resourceId('Microsoft.Storage/storageAccounts', <!resourceIdArg!>variables('storageName'))]",
+                    "[resourceId(<!resourceIdType!>'Microsoft.Storage/storageAccounts', 'mystorage')]"
+                ],
+                []),
+            {
+                "type": "Microsoft.Network/networkInterfaces",
+                "apiVersion": "2019-11-01",
+                "name": "nic",
+                "location": "westus",
+                "dependsOn": [
+                    "[resourceId('Microsoft.Network/virtualNetworks/subnets', parameters('vnetName'), <!subnetArg!>'subnet1')]"
+                ],
+                "properties": {
+                    "storage": "[reference(<!referenceArg!>'mystorage').primaryEndpoints]",
+                    "<!notAReference!>other": "mystorage"
+                }
+            }
+        ]);
+
+        function getResourceAt(dt: DeploymentTemplate, index: number): ResourceDefinition | undefined {
+            const refInfo: IReferenceSite | null = dt.getContextFromDocumentCharacterIndex(index).getReferenceSiteInfo();
+            return refInfo && refInfo.definition instanceof ResourceDefinition ? refInfo.definition : undefined;
+        }
+
+        test("Definition of resourceId() arguments, reference() arguments and dependsOn entries", async () => {
+            const { dt, markers } = await parseTemplateWithMarkers(template, []);
+            const storageResource: ResourceDefinition = dt.resourceDependencyGraph.resources[0];
+            const subnetResource: ResourceDefinition = dt.resourceDependencyGraph.resources[2];
+
+            assert.equal(getResourceAt(dt, markers.dependsOnName.index), storageResource);
+            assert.equal(getResourceAt(dt, markers.resourceIdType.index + 1), storageResource);
+            assert.equal(getResourceAt(dt, markers.subnetArg.index + 1), subnetResource);
+            assert.equal(getResourceAt(dt, markers.referenceArg.index + 1), storageResource);
+            assert.equal(storageResource.definitionKind, DefinitionKind.Resource);
+        });
+
+        test("Parameters and variables inside resourceId() still refer to their definitions", async () => {
+            const { dt, markers } = await parseTemplateWithMarkers(template, []);
+            const refInfo: IReferenceSite | null = dt.getContextFromDocumentCharacterIndex(markers.resourceIdArg.index + "variables('".length).getReferenceSiteInfo();
+            assert.equal(refInfo!.definition.definitionKind, DefinitionKind.Variable);
+        });
+
+        test("Strings that aren't resource references", async () => {
+            const { dt, markers } = await parseTemplateWithMarkers(template, []);
+            assert.equal(getResourceAt(dt, markers.notAReference.index + 1), undefined);
+        });
+
+        test("References to a resource from its name", async () => {
+            const { dt, markers } = await parseTemplateWithMarkers(template, []);
+            const references: ReferenceList | null = dt.getContextFromDocumentCharacterIndex(markers.storageName.index).getReferences();
+            assert(references);
+            assert.equal(references!.kind, DefinitionKind.Resource);
+            assert.deepStrictEqual(
+                references!.spans.map(span => dt.documentText.substr(span.startIndex, span.length)),
+                [
+                    "[variables('storageName')]",
+                    "\"mystorage\"",
+                    "resourceId('Microsoft.Storage/storageAccounts', variables('storageName'))",
+                    "resourceId('Microsoft.Storage/storageAccounts', 'mystorage')",
+                    "'mystorage'"
+                ]);
+        });
+    });
+});
@@ -0,0 +1,220 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { AzureRMAssets, Completion, ResourceProvidersMetadata, ResourceTypeMetadata } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate, parseTemplateWithMarkers } from "./support/parseTemplate";
+
+suite("ResourceProvidersMetadata", () => {
+    suite("fromString", () => {
+        test("Parses the version and resource types", () => {
+            const metadata = ResourceProvidersMetadata.fromString(JSON.stringify({
+                version: "2020-03-01",
+                resourceTypes: {
+                    "Microsoft.Network/virtualNetworks/subnets": ["2019-11-01", "2020-03-01"],
+                    "Microsoft.Network/virtualNetworks": ["2019-11-01", "2018-01-01", "2020-03-01"],
+                    "Microsoft.Network/virtualNetworks/subnets/things": ["2020-03-01"]
+                }
+            }));
+
+            assert.equal(metadata.version, "2020-03-01");
+            assert.deepStrictEqual(metadata.resourceTypes.map(t => t.name), [
+                "Microsoft.Network/virtualNetworks",
+                "Microsoft.Network/virtualNetworks/subnets",
+                "Microsoft.Network/virtualNetworks/subnets/things"
+            ]);
+
+            const vnet: ResourceTypeMetadata | undefined = metadata.findResourceType("microsoft.network/VIRTUALNETWORKS");
+            assert(vnet);
+            assert.deepStrictEqual(vnet!.apiVersions, ["2020-03-01", "2019-11-01", "2018-01-01"]);
+            assert(vnet!.hasApiVersion("2019-11-01"));
+            assert(!vnet!.hasApiVersion("2019-11-02"));
+
+            assert.deepStrictEqual(metadata.getChildResourceTypes("Microsoft.Network/virtualNetworks").map(t => t.childName), ["subnets"]);
+        });
+
+        test("Invalid JSON", () => {
+            const metadata = ResourceProvidersMetadata.fromString("{");
+            assert.equal(metadata.version, "");
+            assert.deepStrictEqual(metadata.resourceTypes, []);
+        });
+    });
+
+    test("Bundled catalog", () => {
+        const metadata: ResourceProvidersMetadata = AzureRMAssets.getResourceProvidersMetadata();
+        assert(metadata.version);
+        assert(metadata.findResourceType("Microsoft.Storage/storageAccounts")!.hasApiVersion("2019-06-01"));
+    });
+
+    suite("Completions", () => {
+        const template: IDeploymentTemplate = {
+            "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+            "contentVersion": "1.0.0.0",
+            "variables": {
+                "vnetType": "Microsoft.Network/virtualNetworks"
+            },
+            "resources": [
+                {
+                    "type": "<!type!>Microsoft.Stor",
+                    "apiVersion": "2019-06-01",
+                    "name": "storage1",
+                    "location": "westus"
+                },
+                {
+                    "type": "Microsoft.Storage/storageAccounts",
+                    "apiVersion": "<!apiVersion!>",
+                    "name": "storage2",
+                    "location": "westus"
+                },
+                {
+                    "type": "[variables('vnetType')]",
+                    "apiVersion": "<!vnetApiVersion!>2019-11-01",
+                    "name": "vnet",
+                    "location": "westus",
+                    "resources": [
+                        {
+                            "type": "<!childType!>",
+                            "apiVersion": "2019-11-01",
+                            "name": "subnet1",
+                            "location": "westus"
+                        }
+                    ]
+                }
+            ],
+            "outputs": {
+                "notAResourceType": {
+                    "type": "string",
+                    "value": "<!output!>"
+                }
+            }
+        };
+
+        async function getCompletions(markerName: string): Promise<Completion.Item[]> {
+            const { dt, markers } = await parseTemplateWithMarkers(template);
+            return dt.getContextFromDocumentCharacterIndex(markers[markerName].index).getCompletionItems();
+        }
+
+        test("Resource types", async () => {
+            const completions: Completion.Item[] = await getCompletions("type");
+            assert(completions.length > 10);
+            const storage: Completion.Item | undefined = completions.find(c => c.name === "Microsoft.Storage/storageAccounts");
+            assert(storage);
+            assert.equal(storage!.kind, Completion.CompletionKind.ResourceType);
+            assert.equal(storage!.insertText, "Microsoft.Storage/storageAccounts$0");
+            assert.equal(storage!.insertSpan.length, "Microsoft.Stor".length);
+        });
+
+        test("Child resource types are relative to the parent's type", async () => {
+            const completions: Completion.Item[] = await getCompletions("childType");
+            assert.deepStrictEqual(completions.map(c => c.name), ["subnets", "virtualNetworkPeerings"]);
+            assert.equal(completions[0].description, "Microsoft.Network/virtualNetworks/subnets");
+        });
+
+        test("apiVersions of the resource's type, newest first", async () => {
+            const completions: Completion.Item[] = await getCompletions("apiVersion");
+            assert.deepStrictEqual(completions.slice(0, 2).map(c => [c.name, c.kind, c.sortText]), [
+                ["2019-06-01", Completion.CompletionKind.ApiVersion, "0000"],
+                ["2019-04-01", Completion.CompletionKind.ApiVersion, "0001"]
+            ]);
+        });
+
+        test("apiVersions when the type is an expression", async () => {
+            const completions: Completion.Item[] = await getCompletions("vnetApiVersion");
+            assert.equal(completions[0].name, "2020-03-01");
+            assert.equal(completions[0].insertSpan.length, "2019-11-01".length);
+        });
+
+        test("Not inside a resource's type or apiVersion", async () => {
+            assert.deepStrictEqual(await getCompletions("output"), []);
+        });
+    });
+
+    suite("Invalid apiVersions", () => {
+        function createTemplate(storageApiVersion: string, storageType: string = "Microsoft.Storage/storageAccounts"): IDeploymentTemplate {
+            return {
+                "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+                "contentVersion": "1.0.0.0",
+                "parameters": {
+                    "apiVersion": { "type": "string", "defaultValue": "2019-13-01" }
+                },
+                "resources": [
+                    {
+                        "type": storageType,
+                        "apiVersion": storageApiVersion,
+                        "name": "storage",
+                        "location": "westus"
+                    },
+                    {
+                        "type": "Microsoft.Network/virtualNetworks",
+                        "apiVersion": "2019-11-01",
+                        "name": "vnet",
+                        "location": "westus",
+                        "resources": [
+                            {
+                                "type": "subnets",
+                                "apiVersion": "2029-11-02",
+                                "name": "subnet1",
+                                "location": "westus"
+                            }
+                        ]
+                    }
+                ],
+                "outputs": {
+                    "apiVersion": {
+                        "type": "string",
+                        "value": "[parameters('apiVersion')]"
+                    }
+                }
+            };
+        }
+
+        const subnetWarning: string = "Warning: The apiVersion '2029-11-02' is not valid for resource type 'Microsoft.Network/virtualNetworks/subnets'.";
+
+        test("Valid and invalid apiVersions", async () => {
+            await parseTemplate(createTemplate("2019-06-01"), [subnetWarning]);
+            await parseTemplate(createTemplate("2023-09-01"), [
+                "Warning: The apiVersion '2023-09-01' is not valid for resource type 'Microsoft.Storage/storageAccounts'.",
+                subnetWarning
+            ]);
+        });
+
+        test("apiVersions newer than the catalog are invalid", async () => {
+            await parseTemplate(createTemplate("2020-03-02-preview"), [
+                "Warning: The apiVersion '2020-03-02-preview' is not valid for resource type 'Microsoft.Storage/storageAccounts'.",
+                subnetWarning
+            ]);
+        });
+
+        test("apiVersions missing from the catalog but no newer than it aren't checked", async () => {
+            // The catalog doesn't list every version
+            await parseTemplate(createTemplate("2020-03-01", "Microsoft.DocumentDB/databaseAccounts"), [subnetWarning]);
+            await parseTemplate(createTemplate("2019-06-02"), [subnetWarning]);
+        });
+
+        test("Malformed apiVersions", async () => {
+            for (const apiVersion of ["latest", "2023-9-1", "2023-13-01", "2023-09-01 preview"]) {
+                await parseTemplate(createTemplate(apiVersion), [
+                    `Warning: The apiVersion '${apiVersion}' is not valid for resource type 'Microsoft.Storage/storageAccounts'.`,
+                    subnetWarning
+                ]);
+            }
+        });
+
+        test("Types are case-insensitive", async () => {
+            await parseTemplate(createTemplate("2019-06-01", "microsoft.storage/STORAGEACCOUNTS"), [subnetWarning]);
+        });
+
+        test("Types that aren't in the catalog aren't checked", async () => {
+            await parseTemplate(createTemplate("2019-06-02", "Contoso.Widgets/widgets"), [subnetWarning]);
+        });
+
+        test("Expressions aren't checked", async () => {
+            await parseTemplate(createTemplate("[parameters('apiVersion')]"), [subnetWarning]);
+        });
+    });
+});
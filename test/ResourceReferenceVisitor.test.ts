@@ -0,0 +1,157 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate } from "./support/parseTemplate";
+
+suite("ResourceReferenceVisitor", () => {
+    function createTemplate(outputValue: string): IDeploymentTemplate {
+        return {
+            "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+            "contentVersion": "1.0.0.0",
+            "parameters": {
+                "storageName": { "type": "string", "defaultValue": "mystorage" }
+            },
+            "variables": {
+                "vnetName": "vnet",
+                "subnetType": "Microsoft.Network/virtualNetworks/subnets"
+            },
+            "resources": [
+                {
+                    "type": "Microsoft.Storage/storageAccounts",
+                    "apiVersion": "2019-06-01",
+                    "name": "[parameters('storageName')]",
+                    "location": "westus"
+                },
+                {
+                    "type": "Microsoft.Network/virtualNetworks",
+                    "apiVersion": "2019-11-01",
+                    "name": "[variables('vnetName')]",
+                    "location": "westus",
+                    "resources": [
+                        {
+                            "type": "subnets",
+                            "apiVersion": "2019-11-01",
+                            "name": "frontend",
+                            "location": "westus"
+                        }
+                    ]
+                }
+            ],
+            "outputs": {
+                "o1": {
+                    "type": "object",
+                    "value": outputValue
+                },
+                "subnetType": {
+                    "type": "string",
+                    "value": "[variables('subnetType')]"
+                }
+            }
+        };
+    }
+
+    async function testReference(outputValue: string, expected: string[]): Promise<void> {
+        await parseTemplate(createTemplate(outputValue), expected);
+    }
+
+    suite("Declared resources", () => {
+        test("resourceId() with literals", async () => {
+            await testReference("[reference(resourceId('Microsoft.Network/virtualNetworks/subnets', 'vnet', 'frontend'))]", []);
+        });
+
+        test("resourceId() with variables and parameters", async () => {
+            await testReference("[listKeys(resourceId('Microsoft.Storage/storageAccounts', parameters('storageName')), '2019-06-01')]", []);
+            await testReference("[reference(resourceId(variables('subnetType'), variables('vnetName'), 'FRONTEND'))]", []);
+        });
+
+        test("reference() by name", async () => {
+            await testReference("[reference('mystorage')]", []);
+            await testReference("[reference(parameters('storageName'))]", []);
+        });
+
+        test("Name segments in a single argument", async () => {
+            await testReference("[reference(resourceId('Microsoft.Network/virtualNetworks/subnets', 'vnet/frontend'))]", []);
+        });
+    });
+
+    suite("Type casing", () => {
+        test("Literal type", async () => {
+            await testReference(
+                "[reference(resourceId('microsoft.storage/storageaccounts', 'mystorage'))]",
+                ["Warning: The resource type 'microsoft.storage/storageaccounts' doesn't match the casing of the declared type 'Microsoft.Storage/storageAccounts'."]);
+        });
+    });
+
+    suite("Name segments", () => {
+        test("Too few", async () => {
+            await testReference(
+                "[reference(resourceId('Microsoft.Network/virtualNetworks/subnets', 'frontend'))]",
+                ["Warning: The resource type 'Microsoft.Network/virtualNetworks/subnets' requires 2 name segments, but 1 was given."]);
+        });
+
+        test("Too many", async () => {
+            await testReference(
+                "[reference(resourceId('Microsoft.Storage/storageAccounts', 'mystorage', 'blob'))]",
+                ["Warning: The resource type 'Microsoft.Storage/storageAccounts' requires 1 name segment, but 2 were given."]);
+        });
+
+        test("Empty segments are ignored", async () => {
+            await testReference("[reference(resourceId('Microsoft.Storage/storageAccounts/', 'mystorage'))]", []);
+            await testReference("[reference(resourceId('Microsoft.Network/virtualNetworks/subnets/', 'vnet/frontend/'))]", []);
+            await testReference(
+                "[reference(resourceId('Microsoft.Network/virtualNetworks/subnets/', 'frontend'))]",
+                ["Warning: The resource type 'Microsoft.Network/virtualNetworks/subnets' requires 2 name segments, but 1 was given."]);
+        });
+
+        test("Checked for types that aren't declared", async () => {
+            await testReference(
+                "[reference(resourceId('Microsoft.Sql/servers/databases', 'db'))]",
+                ["Warning: The resource type 'Microsoft.Sql/servers/databases' requires 2 name segments, but 1 was given."]);
+        });
+    });
+
+    suite("Undeclared names", () => {
+        test("Misspelled resourceId() name", async () => {
+            await testReference(
+                "[listKeys(resourceId('Microsoft.Storage/storageAccounts', 'mystorag'), '2019-06-01')]",
+                ["Warning: There is no resource of type 'Microsoft.Storage/storageAccounts' named 'mystorag' in this template."]);
+        });
+
+        test("Misspelled reference() name", async () => {
+            await testReference(
+                "[reference('mystorge')]",
+                ["Warning: There is no resource named 'mystorge' in this template."]);
+        });
+
+        test("Misspelled list*() name from a variable", async () => {
+            await testReference(
+                "[listKeys(variables('vnetName'), '2019-11-01')]",
+                []);
+            await testReference(
+                "[listKeys(concat(variables('vnetName'), 'x'), '2019-11-01')]",
+                ["Warning: There is no resource named 'vnetx' in this template."]);
+        });
+
+        test("Dissimilar names aren't reported (they may be existing resources)", async () => {
+            await testReference("[reference(resourceId('Microsoft.Storage/storageAccounts', 'existingaccount'))]", []);
+            await testReference("[reference('existingaccount')]", []);
+        });
+
+        test("Resource IDs passed to reference() aren't checked as names", async () => {
+            await testReference("[reference('/subscriptions/sub/resourceGroups/rg/providers/Microsoft.Storage/storageAccounts/mystorag')]", []);
+        });
+
+        test("Calls that name another resource group aren't checked", async () => {
+            await testReference("[reference(resourceId('otherGroup', 'Microsoft.Storage/storageAccounts', 'mystorag'))]", []);
+        });
+
+        test("Names that can't be evaluated aren't checked", async () => {
+            await testReference("[reference(resourceId('Microsoft.Storage/storageAccounts', uniqueString(resourceGroup().id)))]", []);
+        });
+    });
+});
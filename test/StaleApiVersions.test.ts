@@ -0,0 +1,108 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DeploymentTemplate, getStaleApiVersionIssues, getStaleApiVersions, groupStaleApiVersionsByType, isPreviewApiVersion, StaleApiVersionReason } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate } from "./support/parseTemplate";
+
+suite("StaleApiVersions", () => {
+    function createTemplate(...resources: [string, string][]): IDeploymentTemplate {
+        return {
+            "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+            "contentVersion": "1.0.0.0",
+            "parameters": {
+                "apiVersion": { "type": "string", "defaultValue": "2015-06-15" }
+            },
+            "resources": resources.map(([resourceType, apiVersion], index) => ({
+                "type": resourceType,
+                "apiVersion": apiVersion,
+                "name": `resource${index}`,
+                "location": "westus"
+            })),
+            "outputs": {
+                "apiVersion": {
+                    "type": "string",
+                    "value": "[parameters('apiVersion')]"
+                }
+            }
+        };
+    }
+
+    async function getStale(maxAgeInMonths: number, ...resources: [string, string][]): Promise<string[]> {
+        const dt: DeploymentTemplate = await parseTemplate(createTemplate(...resources), []);
+        return getStaleApiVersions(dt, maxAgeInMonths).map(stale =>
+            `${stale.resource.displayName} ${stale.resourceType} ${stale.apiVersion} -> ${stale.newApiVersion} (${stale.reason})`);
+    }
+
+    test("isPreviewApiVersion", () => {
+        assert(isPreviewApiVersion("2018-03-01-preview"));
+        assert(isPreviewApiVersion("2018-03-01-beta"));
+        assert(!isPreviewApiVersion("2018-03-01"));
+    });
+
+    test("Old apiVersions", async () => {
+        assert.deepStrictEqual(
+            await getStale(24, ["Microsoft.Storage/storageAccounts", "2018-02-01"], ["Microsoft.Storage/storageAccounts", "2019-06-01"], ["Microsoft.Web/sites", "2016-08-01"]),
+            [
+                "resource0 Microsoft.Storage/storageAccounts 2018-02-01 -> 2019-06-01 (old)",
+                "resource2 Microsoft.Web/sites 2016-08-01 -> 2019-08-01 (old)"
+            ]);
+    });
+
+    test("The maximum age is configurable", async () => {
+        assert.deepStrictEqual(
+            await getStale(36, ["Microsoft.Storage/storageAccounts", "2018-02-01"], ["Microsoft.Web/sites", "2016-08-01"]),
+            ["resource1 Microsoft.Web/sites 2016-08-01 -> 2019-08-01 (old)"]);
+        assert.deepStrictEqual(
+            await getStale(0, ["Microsoft.Storage/storageAccounts", "2015-06-15"]),
+            []);
+    });
+
+    test("Old apiVersions that are the newest stable version aren't stale", async () => {
+        assert.deepStrictEqual(await getStale(24, ["Microsoft.Sql/servers", "2014-04-01"]), []);
+    });
+
+    test("Preview apiVersions with a newer stable version", async () => {
+        assert.deepStrictEqual(
+            await getStale(0, ["Microsoft.Storage/storageAccounts", "2018-03-01-preview"], ["Microsoft.Sql/servers", "2015-05-01-preview"]),
+            ["resource0 Microsoft.Storage/storageAccounts 2018-03-01-preview -> 2019-06-01 (preview)"]);
+    });
+
+    test("Expressions, unknown types and apiVersions missing from the catalog aren't checked", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(
+            createTemplate(["Microsoft.Storage/storageAccounts", "[parameters('apiVersion')]"], ["Contoso.Widgets/widgets", "2015-01-01"], ["Microsoft.Web/sites", "2016-08-02"]),
+            []);
+        assert.deepStrictEqual(getStaleApiVersions(dt, 24), []);
+    });
+
+    test("getStaleApiVersionIssues", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(
+            createTemplate(["Microsoft.Storage/storageAccounts", "2018-02-01"], ["Microsoft.Storage/storageAccounts", "2018-03-01-preview"]),
+            []);
+        const issues = getStaleApiVersionIssues(dt, 1);
+        assert.deepStrictEqual(issues.map(issue => issue.message), [
+            "The apiVersion '2018-02-01' of resource type 'Microsoft.Storage/storageAccounts' is more than 1 month old. The newest version is '2019-06-01'.",
+            "The apiVersion '2018-03-01-preview' of resource type 'Microsoft.Storage/storageAccounts' is a preview version, but stable version '2019-06-01' is available."
+        ]);
+        assert.equal(dt.documentText.substr(issues[0].span.startIndex, issues[0].span.length), '"2018-02-01"');
+        assert.equal(getStaleApiVersions(dt, 1)[1].reason, StaleApiVersionReason.preview);
+    });
+
+    test("groupStaleApiVersionsByType", async () => {
+        const dt: DeploymentTemplate = await parseTemplate(
+            createTemplate(["Microsoft.Web/sites", "2016-08-01"], ["Microsoft.Storage/storageAccounts", "2018-02-01"], ["Microsoft.Web/sites", "2015-08-01"]),
+            []);
+        const groups = groupStaleApiVersionsByType(getStaleApiVersions(dt, 24));
+        assert.deepStrictEqual(
+            groups.map(group => `${group.resourceType}: ${group.staleApiVersions.map(stale => stale.resource.displayName).join(", ")}`),
+            [
+                "Microsoft.Storage/storageAccounts: resource1",
+                "Microsoft.Web/sites: resource0, resource2"
+            ]);
+    });
+});
@@ -6,7 +6,7 @@
 // tslint:disable:no-non-null-assertion
 
 import * as assert from "assert";
-import { AzureRMAssets, BuiltinFunctionMetadata, DefinitionKind, DeploymentTemplate, FindReferencesVisitor, FunctionsMetadata, IncorrectArgumentsCountIssue, IncorrectFunctionArgumentCountVisitor, Language, PositionContext, ReferenceList, ScopeContext, TemplateScope, TLE, UndefinedParameterAndVariableVisitor, UndefinedVariablePropertyVisitor, UnrecognizedBuiltinFunctionIssue, UnrecognizedFunctionVisitor } from "../extension.bundle";
+import { AzureRMAssets, BuiltinFunctionMetadata, DeploymentTemplate, FunctionsMetadata, IncorrectArgumentsCountIssue, IncorrectFunctionArgumentCountVisitor, Language, PositionContext, ReferenceIndex, ReferenceIndexVisitor, ScopeContext, TemplateScope, TLE, UndefinedParameterAndVariableVisitor, UndefinedVariablePropertyVisitor, UnrecognizedBuiltinFunctionIssue, UnrecognizedFunctionVisitor } from "../extension.bundle";
 import { assertNotNull } from "./support/assertNotNull";
 import { IDeploymentTemplate } from "./support/diagnostics";
 import { parseTemplate } from "./support/parseTemplate";
@@ -15,7 +15,7 @@ const IssueKind = Language.IssueKind;
 const tleSyntax = IssueKind.tleSyntax;
 
 suite("TLE", () => {
-    const emptyScope = new TemplateScope(ScopeContext.TopLevel, [], [], [], "empty scope");
+    const emptyScope = new TemplateScope(ScopeContext.TopLevel, [], [], [], [], [], "empty scope");
 
     function parseExpressionWithScope(stringValue: string, scope?: TemplateScope): TLE.ParseResult {
         scope = scope ? scope : emptyScope;
@@ -71,6 +71,23 @@ suite("TLE", () => {
                 assert(!value.contains(13));
             });
         });
+
+        suite("unquotedValue", () => {
+            test("with closing quote", () => {
+                const value: TLE.StringValue = new TLE.StringValue(TLE.Token.createQuotedString(5, "'hello'"));
+                assert.equal(value.unquotedValue, "hello");
+            });
+
+            test("without closing quote", () => {
+                const value: TLE.StringValue = new TLE.StringValue(TLE.Token.createQuotedString(5, "'hello"));
+                assert.equal(value.unquotedValue, "hello");
+            });
+
+            test("with escaped single quotes", () => {
+                const value: TLE.StringValue = new TLE.StringValue(TLE.Token.createQuotedString(5, "'it''s'"));
+                assert.equal(value.unquotedValue, "it's");
+            });
+        });
     });
 
     suite("NumberValue", () => {
@@ -2198,7 +2215,7 @@ suite("TLE", () => {
         });
     });
 
-    suite("FindReferencesVisitor", () => {
+    suite("ReferenceIndexVisitor", () => {
         const template: Partial<IDeploymentTemplate> = {
             parameters: {
                 pName: {
@@ -2214,24 +2231,26 @@ suite("TLE", () => {
         };
         const metadata = AzureRMAssets.getFunctionsMetadata();
 
-        suite("visit(tle.Value,string,string)", () => {
+        suite("visit(tle.Value,ReferenceIndex,FunctionsMetadata,number)", () => {
             test("with null TLE", async () => {
                 const dt = await parseTemplate(template);
                 const param = dt.topLevelScope.getParameterDefinition("pName")!;
                 assert(param);
-                const visitor = FindReferencesVisitor.visit(null, param, metadata);
+                const index = new ReferenceIndex();
+                const visitor = ReferenceIndexVisitor.visit(null, index, metadata, 0);
                 assert(visitor);
-                assert.deepStrictEqual(visitor.references, new ReferenceList(DefinitionKind.Parameter));
+                assert.equal(index.getReferenceCount(param), 0);
             });
 
             test("with undefined TLE", async () => {
                 const dt = await parseTemplate(template);
                 const param = dt.topLevelScope.getParameterDefinition("pName")!;
                 assert(param);
+                const index = new ReferenceIndex();
                 // tslint:disable-next-line:no-any
-                const visitor = FindReferencesVisitor.visit(<any>undefined, param, metadata);
+                const visitor = ReferenceIndexVisitor.visit(<any>undefined, index, metadata, 0);
                 assert(visitor);
-                assert.deepStrictEqual(visitor.references, new ReferenceList(DefinitionKind.Parameter));
+                assert.equal(index.getReferenceCount(param), 0);
             });
 
             test("with TLE", async () => {
@@ -2239,11 +2258,22 @@ suite("TLE", () => {
                 const param = dt.topLevelScope.getParameterDefinition("pName")!;
                 assert(param);
                 const pr: TLE.ParseResult = parseExpressionWithScope(`"[parameters('pName')]"`, dt.topLevelScope);
-                const visitor = FindReferencesVisitor.visit(pr.expression, param, metadata);
-                assert(visitor);
+                const index = new ReferenceIndex();
+                ReferenceIndexVisitor.visit(pr.expression, index, metadata, 0);
                 assert.deepStrictEqual(
-                    visitor.references,
-                    new ReferenceList(DefinitionKind.Parameter, [new Language.Span(14, 5)]));
+                    index.getReferences(param).spans,
+                    [new Language.Span(14, 5)]);
+            });
+
+            test("with TLE at a start index", async () => {
+                const dt = await parseTemplate(template);
+                const param = dt.topLevelScope.getParameterDefinition("pName")!;
+                const concat = AzureRMAssets.getFunctionMetadataFromName("concat")!;
+                const pr: TLE.ParseResult = parseExpressionWithScope(`"[concat(parameters('pName'))]"`, dt.topLevelScope);
+                const index = new ReferenceIndex();
+                ReferenceIndexVisitor.visit(pr.expression, index, metadata, 100);
+                assert.deepStrictEqual(index.getReferences(param).spans, [new Language.Span(121, 5)]);
+                assert.deepStrictEqual(index.getReferences(concat).spans, [new Language.Span(102, 6)]);
             });
         });
     });
@@ -0,0 +1,182 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { DeploymentTemplate, expandFilePatterns, formatLintDiagnostic, globToRegExp, ILintDiagnostic, lintFiles, lintTemplate, runLintCommand } from "../extension.bundle";
+import { stringify } from "./support/stringify";
+
+suite("TemplateLinter", () => {
+    const schema = "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#";
+
+    const templateWithErrors: string = stringify({
+        "$schema": schema,
+        "parameters": {
+            "unused": { "type": "string" }
+        },
+        "outputs": {
+            "o1": { "type": "string", "value": "[parameters('missing')]" }
+        }
+    });
+    const templateWithWarnings: string = stringify({
+        "$schema": schema,
+        "variables": {
+            "unused": "a"
+        }
+    });
+    const validTemplate: string = stringify({
+        "$schema": schema,
+        "outputs": {
+            "o1": { "type": "string", "value": "[concat('a', 'b')]" }
+        }
+    });
+
+    suite("lintTemplate", () => {
+        test("Errors and warnings sorted by position", async () => {
+            const dt = new DeploymentTemplate(templateWithErrors, "file:///a.json");
+            const diagnostics: ILintDiagnostic[] = await lintTemplate(dt);
+            assert.deepStrictEqual(
+                diagnostics.map(d => `${d.severity} ${d.kind} ${d.start.toFriendlyString()}-${d.end.toFriendlyString()}`),
+                [
+                    "warning unusedParam [4:5]-[4:13]",
+                    "error undefinedParam [11:29]-[11:38]"
+                ]);
+        });
+
+        test("Valid template", async () => {
+            const dt = new DeploymentTemplate(validTemplate, "file:///a.json");
+            assert.deepStrictEqual(await lintTemplate(dt), []);
+        });
+    });
+
+    test("formatLintDiagnostic", async () => {
+        const dt = new DeploymentTemplate(templateWithErrors, "file:///a.json");
+        const diagnostics: ILintDiagnostic[] = await lintTemplate(dt);
+        assert.equal(formatLintDiagnostic("a.json", diagnostics[1]), `a.json:11:29 - error undefinedParam: Undefined parameter reference: 'missing'`);
+    });
+
+    suite("globToRegExp", () => {
+        function testGlob(glob: string, relativePath: string, expected: boolean): void {
+            test(`"${glob}" and "${relativePath}"`, () => {
+                assert.equal(globToRegExp(glob).test(relativePath), expected);
+            });
+        }
+
+        testGlob("*.json", "a.json", true);
+        testGlob("*.json", "a.jsonc", false);
+        testGlob("*.json", "sub/a.json", false);
+        testGlob("**/*.json", "a.json", true);
+        testGlob("**/*.json", "sub/folder/a.json", true);
+        testGlob("sub/**", "sub/folder/a.json", true);
+        testGlob("a?.json", "ab.json", true);
+        testGlob("a?.json", "a/.json", false);
+        testGlob("*.{json,jsonc}", "a.jsonc", true);
+        testGlob("*.{json,jsonc}", "a.txt", false);
+        testGlob("a+(b).json", "a+(b).json", true);
+    });
+
+    suite("Files", () => {
+        let folder: string;
+
+        setup(async () => {
+            folder = path.join(os.tmpdir(), `armTemplateLint${Date.now()}`);
+            await fse.outputFile(path.join(folder, "errors.json"), templateWithErrors);
+            await fse.outputFile(path.join(folder, "sub", "warnings.json"), templateWithWarnings);
+            await fse.outputFile(path.join(folder, "sub", "valid.json"), validTemplate);
+            await fse.outputFile(path.join(folder, "sub", "package.json"), `{ "name": "not a template" }`);
+            await fse.outputFile(path.join(folder, "node_modules", "errors.json"), templateWithErrors);
+        });
+
+        teardown(async () => {
+            await fse.remove(folder);
+        });
+
+        test("expandFilePatterns", async () => {
+            const expanded = await expandFilePatterns(["**/*.json", "errors.json", "missing.json", "*.txt"], folder);
+            assert.deepStrictEqual(expanded.files.map(f => path.relative(folder, f).replace(/\\/g, "/")), [
+                "errors.json",
+                "sub/package.json",
+                "sub/valid.json",
+                "sub/warnings.json"
+            ]);
+            assert.deepStrictEqual(expanded.unmatchedPatterns, ["missing.json", "*.txt"]);
+        });
+
+        test("lintFiles", async () => {
+            const results = await lintFiles(["sub/*.json", "errors.json", "missing.json"], folder);
+            assert.deepStrictEqual(
+                {
+                    files: results.files.map(f => f.displayPath.replace(/\\/g, "/")),
+                    filesSkipped: results.filesSkipped,
+                    errorCount: results.errorCount,
+                    warningCount: results.warningCount,
+                    failures: results.failures
+                },
+                {
+                    files: ["errors.json", "sub/valid.json", "sub/warnings.json"],
+                    filesSkipped: 1,
+                    errorCount: 1,
+                    warningCount: 2,
+                    failures: ["No files found matching 'missing.json'"]
+                });
+            assert(results.files[0].documentUri.startsWith("file:///"));
+            assert(results.files[0].documentUri.endsWith("/errors.json"));
+        });
+
+        test("Text output", async () => {
+            const lines: string[] = [];
+            const cwd: string = process.cwd();
+            process.chdir(folder);
+            try {
+                await runLintCommand(["sub/*.json", "errors.json"], line => lines.push(line), () => { /* ignore errors */ });
+            } finally {
+                process.chdir(cwd);
+            }
+
+            assert.deepStrictEqual(lines.map(l => l.replace(/\\/g, "/")), [
+                "errors.json:4:5 - warning unusedParam: The parameter 'unused' is never used.",
+                "errors.json:11:29 - error undefinedParam: Undefined parameter reference: 'missing'",
+                "sub/warnings.json:4:5 - warning unusedVar: The variable 'unused' is never used.",
+                "Checked 3 template(s), skipped 1 other file(s): 1 error(s), 2 warning(s)"
+            ]);
+        });
+
+        suite("Exit code", () => {
+            async function getExitCode(args: string[]): Promise<number> {
+                const cwd: string = process.cwd();
+                process.chdir(folder);
+                try {
+                    return await runLintCommand(args, () => { /* ignore output */ }, () => { /* ignore errors */ });
+                } finally {
+                    process.chdir(cwd);
+                }
+            }
+
+            test("No arguments", async () => {
+                assert.equal(await getExitCode([]), 2);
+            });
+
+            test("Only warnings", async () => {
+                assert.equal(await getExitCode(["sub/**/*.json"]), 0);
+            });
+
+            test("Errors", async () => {
+                assert.equal(await getExitCode(["**/*.json"]), 1);
+            });
+
+            test("Bad format", async () => {
+                assert.equal(await getExitCode(["--format", "xml", "sub/valid.json"]), 2);
+            });
+
+            test("Missing file", async () => {
+                assert.equal(await getExitCode(["sub/valid.json", "missing.json"]), 2);
+            });
+        });
+    });
+});
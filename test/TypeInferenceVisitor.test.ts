@@ -0,0 +1,162 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { AzureRMAssets, BuiltinFunctionMetadata, DeploymentTemplate, ExpressionType, IssueKind, TLE, TypeInferenceVisitor } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate } from "./support/parseTemplate";
+import { testWithRealFunctionMetadata } from "./TestData";
+
+suite("TypeInferenceVisitor", () => {
+    const template: Partial<IDeploymentTemplate> = {
+        "parameters": {
+            "name": { "type": "string" },
+            "password": { "type": "securestring" },
+            "count": { "type": "int" },
+            "tags": { "type": "object" }
+        },
+        "variables": {
+            "literal": 1,
+            "array": [1, 2],
+            "expression": "[toUpper('a')]",
+            "viaVariable": "[variables('expression')]",
+            "circular1": "[variables('circular2')]",
+            "circular2": "[variables('circular1')]"
+        },
+        "functions": [
+            {
+                "namespace": "udf",
+                "members": {
+                    "double": {
+                        "parameters": [
+                            { "name": "value", "type": "int" }
+                        ],
+                        "output": {
+                            "type": "int",
+                            "value": "[mul(parameters('value'), 2)]"
+                        }
+                    }
+                }
+            }
+        ]
+    };
+
+    async function getTypeErrors(expression: string): Promise<string[]> {
+        const dt: DeploymentTemplate = await parseTemplate({ ...template, "outputs": { "o": { "type": "object", "value": expression } } });
+        return (await dt.errorsPromise)
+            .filter(e => e.kind === IssueKind.badArgType)
+            .map(e => e.message);
+    }
+
+    async function getInferredType(expression: string): Promise<ExpressionType | null> {
+        const dt: DeploymentTemplate = await parseTemplate(template);
+        const parseResult = TLE.Parser.parse(`"${expression}"`, dt.topLevelScope);
+        const visitor = TypeInferenceVisitor.visit(parseResult.expression, AzureRMAssets.getFunctionsMetadata());
+        return visitor.getType(parseResult.expression!);
+    }
+
+    suite("getType", () => {
+        function createTypeTest(expression: string, expectedType: ExpressionType | null): void {
+            testWithRealFunctionMetadata(`${expression}: ${expectedType}`, async () => {
+                assert.equal(await getInferredType(expression), expectedType);
+            });
+        }
+
+        createTypeTest("[parameters('name')]", "string");
+        createTypeTest("[parameters('password')]", "securestring");
+        createTypeTest("[parameters('undefined')]", null);
+        createTypeTest("[variables('literal')]", "int");
+        createTypeTest("[variables('array')]", "array");
+        createTypeTest("[variables('expression')]", "string");
+        createTypeTest("[variables('viaVariable')]", "string");
+        createTypeTest("[variables('circular1')]", null);
+        createTypeTest("[udf.double(1)]", "int");
+        createTypeTest("[add(1, 2)]", "int");
+        createTypeTest("[resourceGroup()]", "object");
+        createTypeTest("[resourceGroup().location]", null);
+        createTypeTest("[first(variables('array'))]", null);
+        createTypeTest("[if(equals(1, 2), 'a', 'b')]", "string");
+        createTypeTest("[if(equals(1, 2), 'a', 1)]", null);
+    });
+
+    suite("errors", () => {
+        testWithRealFunctionMetadata("no errors for matching types", async () => {
+            assert.deepStrictEqual(await getTypeErrors("[add(parameters('count'), length(concat(parameters('password'), 'a')))]"), []);
+            assert.deepStrictEqual(await getTypeErrors("[udf.double(variables('literal'))]"), []);
+            assert.deepStrictEqual(await getTypeErrors("[length(parameters('tags'))]"), []);
+        });
+
+        testWithRealFunctionMetadata("no errors when types aren't known", async () => {
+            assert.deepStrictEqual(await getTypeErrors("[add(resourceGroup().count, first(variables('array')))]"), []);
+            assert.deepStrictEqual(await getTypeErrors("[add(parameters('undefined'), variables('circular1'))]"), []);
+        });
+
+        testWithRealFunctionMetadata("add('a', 1)", async () => {
+            assert.deepStrictEqual(await getTypeErrors("[add('a', 1)]"), [
+                "Argument 1 of function 'add' should be of type 'int', but is of type 'string'."
+            ]);
+        });
+
+        testWithRealFunctionMetadata("length(5)", async () => {
+            assert.deepStrictEqual(await getTypeErrors("[length(5)]"), [
+                "Argument 1 of function 'length' should be of type 'string' or 'array' or 'object', but is of type 'int'."
+            ]);
+        });
+
+        testWithRealFunctionMetadata("nested and variadic arguments", async () => {
+            assert.deepStrictEqual(await getTypeErrors("[and(equals(1, 1), empty('a'), not(parameters('name')), variables('literal'))]"), [
+                "Argument 4 of function 'and' should be of type 'bool', but is of type 'int'.",
+                "Argument 1 of function 'not' should be of type 'bool', but is of type 'string'."
+            ]);
+        });
+
+        testWithRealFunctionMetadata("contains() accepts an item to find of any type", async () => {
+            assert.deepStrictEqual(await getTypeErrors("[contains(variables('array'), 1)]"), []);
+            assert.deepStrictEqual(await getTypeErrors("[contains(parameters('tags'), 'key')]"), []);
+            assert.deepStrictEqual(await getTypeErrors("[contains(parameters('name'), parameters('count'))]"), []);
+            assert.deepStrictEqual(await getTypeErrors("[contains(parameters('count'), 1)]"), [
+                "Argument 1 of function 'contains' should be of type 'string' or 'array' or 'object', but is of type 'int'."
+            ]);
+        });
+
+        testWithRealFunctionMetadata("user function arguments", async () => {
+            assert.deepStrictEqual(await getTypeErrors("[udf.double(variables('expression'))]"), [
+                "Argument 1 of function 'udf.double' should be of type 'int', but is of type 'string'."
+            ]);
+        });
+
+        testWithRealFunctionMetadata("span of the error", async () => {
+            const dt: DeploymentTemplate = await parseTemplate({ "outputs": { "o": { "type": "int", "value": "[add(1, 'two')]" } } });
+            const errors = (await dt.errorsPromise).filter(e => e.kind === IssueKind.badArgType);
+            assert.equal(errors.length, 1);
+            assert.equal(dt.documentText.substr(errors[0].span.startIndex, errors[0].span.length), "'two'");
+        });
+    });
+
+    suite("BuiltinFunctionMetadata.getParameterTypes", () => {
+        test("last entry applies to remaining arguments", () => {
+            const metadata: BuiltinFunctionMetadata = BuiltinFunctionMetadata.fromString(
+                `{ "functionSignatures": [ { "name": "f", "expectedUsage": "f(a, b, ...)", "returnType": "int", "parameterTypes": [ null, [ "string", "array" ] ] } ] }`)[0];
+            assert.equal(metadata.returnType, "int");
+            assert.equal(metadata.usage, "f(a, b, ...) [int]");
+            assert.equal(metadata.getParameterTypes(0), null);
+            assert.deepStrictEqual(metadata.getParameterTypes(1), ["string", "array"]);
+            assert.deepStrictEqual(metadata.getParameterTypes(5), ["string", "array"]);
+        });
+
+        testWithRealFunctionMetadata("bundled metadata", async () => {
+            const contains: BuiltinFunctionMetadata = AzureRMAssets.getFunctionMetadataFromName("contains")!;
+            assert.deepStrictEqual(contains.getParameterTypes(0), ["string", "array", "object"]);
+            assert.equal(contains.getParameterTypes(1), null);
+        });
+
+        test("no parameter types", () => {
+            const metadata = new BuiltinFunctionMetadata("a", "a(b)", "", 1, 1, []);
+            assert.equal(metadata.getParameterTypes(0), null);
+        });
+    });
+});
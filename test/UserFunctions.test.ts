@@ -607,7 +607,7 @@ suite("User functions", () => {
                 }],
                 "outputs": {
                     "output1": {
-                        "type": "object",
+                        "type": "bool",
                         "value": "[variables('v1')]"
                     }
                 }
@@ -764,7 +764,7 @@ suite("User functions", () => {
                 "$schema": "https://schema.management.azure.com/schemas/2015-01-01/deploymentTemplate.json#",
                 "contentVersion": "1.0.0.0",
                 "variables": {
-                    v1: "[udf1.oddSum(udf2.oddSum(2))]"
+                    v1: "[equals(udf1.oddSum(1), udf2.oddSum(2))]"
                 },
                 "functions": [
                     {
@@ -803,7 +803,7 @@ suite("User functions", () => {
                     }],
                 "outputs": {
                     "output1": {
-                        "type": "object",
+                        "type": "bool",
                         "value": "[variables('v1')]"
                     }
                 }
@@ -838,7 +838,7 @@ suite("User functions", () => {
                 }],
                 "outputs": {
                     "output1": {
-                        "type": "object",
+                        "type": "bool",
                         "value": "[variables('v1')]"
                     }
                 }
@@ -1321,7 +1321,7 @@ suite("User functions", () => {
 
         test("Hover over top-level parameter reference", async () => {
             const { dt, markers: { yearReference } } = await parseTemplateWithMarkers(userFuncsTemplate1, [], { ignoreWarnings: true });
-            await testHover(dt, yearReference.index, `**year**${os.EOL}*(parameter)*`);
+            await testHover(dt, yearReference.index, `**year**${os.EOL}*(parameter)*${os.EOL}${os.EOL}Value: \`2010\``);
         });
 
         test("Hover over UDF parameter reference", async () => {
@@ -1331,17 +1331,17 @@ suite("User functions", () => {
 
         test("Hover over top-level variable reference", async () => {
             const { dt, markers: { var1Reference1 } } = await parseTemplateWithMarkers(userFuncsTemplate1, [], { ignoreWarnings: true });
-            await testHover(dt, var1Reference1.index, `**var1**${os.EOL}*(variable)*`);
+            await testHover(dt, var1Reference1.index, `**var1**${os.EOL}*(variable)*${os.EOL}${os.EOL}Value: \`{"a":{"b":{"c":16180339887498949000},"d":42}}\``);
         });
 
         test("Hover over built-in function reference", async () => {
             const { dt, markers: { stringRef4 } } = await parseTemplateWithMarkers(userFuncsTemplate1, [], { ignoreWarnings: true });
-            await testHover(dt, stringRef4.index, `**string(valueToConvert)**${os.EOL}*(function)*${os.EOL}${os.EOL}Converts the specified value to String.`);
+            await testHover(dt, stringRef4.index, `**string(valueToConvert)**${os.EOL}*(function)*${os.EOL}${os.EOL}Converts the specified value to String.${os.EOL}${os.EOL}Value: \`"2019"\``);
         });
 
         test("Hover over user-defined function reference's name", async () => {
             const { dt, markers: { udfReferenceAtName } } = await parseTemplateWithMarkers(userFuncsTemplate1, [], { ignoreWarnings: true });
-            await testHover(dt, udfReferenceAtName.index, `**udf.string(year [int], month, day [int]) [string]**${os.EOL}*(user-defined function)*`);
+            await testHover(dt, udfReferenceAtName.index, `**udf.string(year [int], month, day [int]) [string]**${os.EOL}*(user-defined function)*${os.EOL}${os.EOL}Value: \`"2019-11-5"\``);
         });
 
         test("Hover over user-defined function reference's namespace", async () => {
@@ -327,4 +327,20 @@ suite("Utilities", () => {
             assert.deepStrictEqual(Utilities.escapeAndQuote("\very"), `"\\very"`);
         });
     });
+
+    suite("getEditDistance(string, string)", () => {
+        function testEditDistance(a: string, b: string, expected: number): void {
+            test(`"${a}" and "${b}"`, () => {
+                assert.equal(Utilities.getEditDistance(a, b), expected);
+                assert.equal(Utilities.getEditDistance(b, a), expected);
+            });
+        }
+
+        testEditDistance("", "", 0);
+        testEditDistance("", "abc", 3);
+        testEditDistance("concat", "concat", 0);
+        testEditDistance("concta", "concat", 2);
+        testEditDistance("subtring", "substring", 1);
+        testEditDistance("kitten", "sitting", 3);
+    });
 });
@@ -0,0 +1,127 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DeploymentTemplate, getIndexedSymbols, IIndexedSymbol, matchesSymbolQuery, WorkspaceTemplateIndex } from "../extension.bundle";
+import { stringify } from "./support/stringify";
+
+suite("WorkspaceTemplateIndex", () => {
+    const schema = "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#";
+
+    function createTemplateText(parameterName: string): string {
+        return stringify({
+            "$schema": schema,
+            "parameters": {
+                [parameterName]: { "type": "string" }
+            },
+            "variables": {
+                "storageName": "[parameters('location')]"
+            },
+            "resources": [
+                {
+                    "type": "Microsoft.Storage/storageAccounts",
+                    "name": "[variables('storageName')]",
+                    "resources": [
+                        { "type": "blobServices", "name": "default" }
+                    ]
+                }
+            ]
+        });
+    }
+
+    function toStrings(symbols: IIndexedSymbol[]): string[] {
+        return symbols.map(s => `${s.documentUri}: ${s.kind} ${s.name} in ${s.containerName} ${s.start.toFriendlyString()}`);
+    }
+
+    suite("getIndexedSymbols", () => {
+        test("Flattens symbols and skips sections", () => {
+            const dt = new DeploymentTemplate(createTemplateText("location"), "file:///a.json");
+            assert.deepStrictEqual(toStrings(getIndexedSymbols(dt)), [
+                "file:///a.json: Parameter location in parameters [4:5]",
+                "file:///a.json: Variable storageName in variables [9:5]",
+                "file:///a.json: Resource <storageName> in resources [14:15]",
+                "file:///a.json: Resource default in <storageName> [18:19]"
+            ]);
+        });
+    });
+
+    suite("matchesSymbolQuery", () => {
+        function testMatch(query: string, name: string, expected: boolean): void {
+            test(`"${query}" and "${name}"`, () => {
+                assert.equal(matchesSymbolQuery(query, name), expected);
+            });
+        }
+
+        testMatch("", "location", true);
+        testMatch("loc", "location", true);
+        testMatch("LOC", "location", true);
+        testMatch("stn", "storageName", true);
+        testMatch("nameStorage", "storageName", false);
+        testMatch("locations", "location", false);
+    });
+
+    suite("findSymbols", () => {
+        test("Indexes templates and ignores other JSON files", async () => {
+            const index = new WorkspaceTemplateIndex();
+            index.updateTemplate("file:///a.json", createTemplateText("location"));
+            index.updateTemplate("file:///b.json", createTemplateText("region"));
+            index.updateTemplate("file:///package.json", `{ "name": "location" }`);
+
+            const symbols = await index.findSymbols("loc");
+            assert.deepStrictEqual(symbols.map(s => `${s.documentUri}: ${s.name}`), [
+                "file:///a.json: location"
+            ]);
+            assert.equal((await index.findSymbols("storageName")).filter(s => s.kind === "Variable").length, 2);
+        });
+
+        test("Removing and updating templates", async () => {
+            const index = new WorkspaceTemplateIndex();
+            index.updateTemplate("file:///a.json", createTemplateText("location"));
+            index.updateTemplate("file:///b.json", createTemplateText("region"));
+
+            index.remove("file:///a.json");
+            assert.deepStrictEqual((await index.findSymbols("region")).map(s => s.documentUri), ["file:///b.json"]);
+            assert.deepStrictEqual(await index.findSymbols("location"), []);
+
+            // No longer a template
+            index.updateTemplate("file:///b.json", `{}`);
+            assert.deepStrictEqual(await index.findSymbols(""), []);
+        });
+
+        test("Open templates are used instead of the indexed versions", async () => {
+            const index = new WorkspaceTemplateIndex();
+            index.updateTemplate("file:///a.json", createTemplateText("location"));
+
+            const openTemplate = new DeploymentTemplate(createTemplateText("region"), "file:///a.json");
+            const symbols = await index.findSymbols("", [{ deploymentTemplate: openTemplate, documentVersion: 1 }]);
+            assert.deepStrictEqual(symbols.filter(s => s.kind === "Parameter").map(s => s.name), ["region"]);
+        });
+
+        test("Open template symbols are cached by document version", async () => {
+            const index = new WorkspaceTemplateIndex();
+            const version1 = new DeploymentTemplate(createTemplateText("location"), "file:///a.json");
+            const version2 = new DeploymentTemplate(createTemplateText("region"), "file:///a.json");
+
+            const symbols1 = await index.findSymbols("", [{ deploymentTemplate: version1, documentVersion: 1 }]);
+            assert.strictEqual(symbols1[0], (await index.findSymbols("", [{ deploymentTemplate: version1, documentVersion: 1 }]))[0]);
+
+            const symbols2 = await index.findSymbols("", [{ deploymentTemplate: version2, documentVersion: 2 }]);
+            assert.deepStrictEqual(symbols2.filter(s => s.kind === "Parameter").map(s => s.name), ["region"]);
+        });
+
+        test("Cancelled while indexing", async () => {
+            const index = new WorkspaceTemplateIndex();
+            index.invalidate("file:///doesNotExist.json");
+
+            const symbols = await index.findSymbols("", [], { isCancellationRequested: true, onCancellationRequested: (): { dispose(): void } => ({ dispose: (): void => undefined }) });
+            assert.deepStrictEqual(symbols, []);
+
+            // Unreadable files are dropped from the index once it's been read
+            assert.deepStrictEqual(await index.findSymbols(""), []);
+        });
+    });
+});
@@ -0,0 +1,142 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { DependencyKind, getDependencyGraph, getDependencyGraphHtml, IDependencyGraph, layoutDependencyGraph, toDot, toMermaid } from "../extension.bundle";
+import { IDeploymentTemplate } from "./support/diagnostics";
+import { parseTemplate } from "./support/parseTemplate";
+
+suite("dependencyGraph", () => {
+    const template: IDeploymentTemplate = {
+        "$schema": "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#",
+        "contentVersion": "1.0.0.0",
+        "resources": [
+            {
+                "type": "Microsoft.Storage/storageAccounts",
+                "apiVersion": "2019-06-01",
+                "name": "storage",
+                "location": "westus"
+            },
+            {
+                "type": "Microsoft.Network/virtualNetworks",
+                "apiVersion": "2019-11-01",
+                "name": "vnet",
+                "location": "westus",
+                "resources": [
+                    {
+                        "type": "subnets",
+                        "apiVersion": "2019-11-01",
+                        "name": "subnet1",
+                        "location": "westus"
+                    }
+                ]
+            },
+            {
+                "type": "Microsoft.Web/sites",
+                "apiVersion": "2019-08-01",
+                "name": "site<1>",
+                "location": "westus",
+                "dependsOn": [
+                    "storage",
+                    "[resourceId('Microsoft.Storage/storageAccounts', 'storage')]",
+                    "[resourceId('Microsoft.Network/virtualNetworks/subnets', 'vnet', 'subnet1')]"
+                ],
+                "properties": {
+                    "connection": "[reference('storage').primaryEndpoints.blob]",
+                    "vnet": "[reference(resourceId('Microsoft.Network/virtualNetworks', 'vnet')).addressSpace]"
+                }
+            }
+        ]
+    };
+
+    async function getGraph(): Promise<IDependencyGraph> {
+        return getDependencyGraph(await parseTemplate(template, []));
+    }
+
+    test("getDependencyGraph", async () => {
+        const graph: IDependencyGraph = await getGraph();
+        assert.deepStrictEqual(
+            graph.nodes.map(n => `${n.id} ${n.label} ${n.resourceType}`),
+            [
+                "resource0 storage Microsoft.Storage/storageAccounts",
+                "resource1 vnet Microsoft.Network/virtualNetworks",
+                "resource2 vnet/subnet1 Microsoft.Network/virtualNetworks/subnets",
+                "resource3 site<1> Microsoft.Web/sites"
+            ]);
+        assert.deepStrictEqual(graph.edges, [
+            { source: "resource3", target: "resource0", kind: DependencyKind.dependsOn },
+            { source: "resource3", target: "resource2", kind: DependencyKind.dependsOn },
+            { source: "resource3", target: "resource0", kind: DependencyKind.reference },
+            { source: "resource3", target: "resource1", kind: DependencyKind.reference }
+        ]);
+    });
+
+    test("toDot", async () => {
+        assert.equal(toDot(await getGraph()), [
+            'digraph resources {',
+            '    node [shape=box];',
+            '    resource0 [label="storage\\nMicrosoft.Storage/storageAccounts"];',
+            '    resource1 [label="vnet\\nMicrosoft.Network/virtualNetworks"];',
+            '    resource2 [label="vnet/subnet1\\nMicrosoft.Network/virtualNetworks/subnets"];',
+            '    resource3 [label="site<1>\\nMicrosoft.Web/sites"];',
+            '    resource3 -> resource0;',
+            '    resource3 -> resource2;',
+            '    resource3 -> resource0 [style=dashed, label="reference"];',
+            '    resource3 -> resource1 [style=dashed, label="reference"];',
+            '}'
+        ].join("\n"));
+    });
+
+    test("toMermaid", async () => {
+        assert.equal(toMermaid(await getGraph()), [
+            'graph TD',
+            '    resource0["storage<br/>Microsoft.Storage/storageAccounts"]',
+            '    resource1["vnet<br/>Microsoft.Network/virtualNetworks"]',
+            '    resource2["vnet/subnet1<br/>Microsoft.Network/virtualNetworks/subnets"]',
+            '    resource3["site#lt;1#gt;<br/>Microsoft.Web/sites"]',
+            '    resource3 --> resource0',
+            '    resource3 --> resource2',
+            '    resource3 -.->|reference| resource0',
+            '    resource3 -.->|reference| resource1',
+        ].join("\n"));
+    });
+
+    test("layoutDependencyGraph puts resources below their dependencies", async () => {
+        const layout = layoutDependencyGraph(await getGraph());
+        assert.deepStrictEqual(layout.nodes.map(n => [n.node.id, n.x, n.y]), [
+            ["resource0", 20, 20],
+            ["resource1", 280, 20],
+            ["resource2", 540, 20],
+            ["resource3", 20, 138]
+        ]);
+        assert.equal(layout.width, 780);
+        assert.equal(layout.height, 206);
+    });
+
+    test("layoutDependencyGraph with a cycle", () => {
+        const layout = layoutDependencyGraph({
+            nodes: [
+                { id: "a", label: "a", resourceType: "t", span: undefined! },
+                { id: "b", label: "b", resourceType: "t", span: undefined! }
+            ],
+            edges: [
+                { source: "a", target: "b", kind: DependencyKind.dependsOn },
+                { source: "b", target: "a", kind: DependencyKind.dependsOn }
+            ]
+        });
+        assert.equal(layout.nodes.length, 2);
+    });
+
+    test("getDependencyGraphHtml", async () => {
+        const html: string = getDependencyGraphHtml(await getGraph(), "Dependencies: <template>", "abc123");
+        assert(html.includes(`<script nonce="abc123">`));
+        assert(html.includes(`<title>Dependencies: &lt;template&gt;</title>`));
+        assert(html.includes(`data-id="resource3"`));
+        assert(html.includes(`site&lt;1&gt;`));
+        assert(html.includes(`class="reference"`));
+    });
+});
@@ -0,0 +1,142 @@
+// ----------------------------------------------------------------------------
+// Copyright (c) Microsoft Corporation.  All rights reserved.
+// ----------------------------------------------------------------------------
+
+// tslint:disable:no-unused-expression max-func-body-length promise-function-async max-line-length no-unnecessary-class
+// tslint:disable:no-non-null-assertion object-literal-key-quotes
+
+import * as assert from 'assert';
+import { createJsonReport, createSarifLog, DeploymentTemplate, ILintFileResult, lintTemplate } from "../extension.bundle";
+import { stringify } from "./support/stringify";
+
+suite("diagnosticReports", () => {
+    const schema = "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#";
+
+    async function getFileResult(documentUri: string, template: object): Promise<ILintFileResult> {
+        const dt = new DeploymentTemplate(stringify(template), documentUri);
+        return {
+            displayPath: documentUri,
+            documentUri,
+            diagnostics: await lintTemplate(dt)
+        };
+    }
+
+    async function getFileResults(): Promise<ILintFileResult[]> {
+        // Out of order to test sorting
+        return [
+            await getFileResult("file:///b.json", {
+                "$schema": schema,
+                "outputs": {
+                    "o1": { "type": "string", "value": "[parameters('missing')]" }
+                }
+            }),
+            await getFileResult("file:///a.json", {
+                "$schema": schema,
+                "variables": {
+                    "unused": "a"
+                }
+            }),
+            await getFileResult("file:///c.json", {
+                "$schema": schema
+            })
+        ];
+    }
+
+    test("createJsonReport", async () => {
+        assert.deepStrictEqual(createJsonReport(await getFileResults()), {
+            version: 1,
+            files: [
+                {
+                    uri: "file:///a.json",
+                    issues: [
+                        {
+                            ruleId: "unusedVar",
+                            severity: "warning",
+                            message: "The variable 'unused' is never used.",
+                            range: { startLine: 4, startColumn: 5, endLine: 4, endColumn: 13 }
+                        }
+                    ]
+                },
+                {
+                    uri: "file:///b.json",
+                    issues: [
+                        {
+                            ruleId: "undefinedParam",
+                            severity: "error",
+                            message: "Undefined parameter reference: 'missing'",
+                            range: { startLine: 6, startColumn: 29, endLine: 6, endColumn: 38 }
+                        }
+                    ]
+                },
+                {
+                    uri: "file:///c.json",
+                    issues: []
+                }
+            ]
+        });
+    });
+
+    test("createJsonReport is independent of input order", async () => {
+        const files: ILintFileResult[] = await getFileResults();
+        assert.equal(
+            JSON.stringify(createJsonReport(files)),
+            JSON.stringify(createJsonReport(files.slice().reverse())));
+    });
+
+    test("createSarifLog", async () => {
+        assert.deepStrictEqual(createSarifLog(await getFileResults()), {
+            $schema: "https://schemastore.azurewebsites.net/schemas/json/sarif-2.1.0-rtm.5.json",
+            version: "2.1.0",
+            runs: [
+                {
+                    tool: {
+                        driver: {
+                            name: "armTemplateLint",
+                            informationUri: "https://github.com/Microsoft/vscode-azurearmtools",
+                            rules: [
+                                { id: "undefinedParam" },
+                                { id: "unusedVar" }
+                            ]
+                        }
+                    },
+                    results: [
+                        {
+                            ruleId: "unusedVar",
+                            ruleIndex: 1,
+                            level: "warning",
+                            message: { text: "The variable 'unused' is never used." },
+                            locations: [
+                                {
+                                    physicalLocation: {
+                                        artifactLocation: { uri: "file:///a.json" },
+                                        region: { startLine: 4, startColumn: 5, endLine: 4, endColumn: 13 }
+                                    }
+                                }
+                            ]
+                        },
+                        {
+                            ruleId: "undefinedParam",
+                            ruleIndex: 0,
+                            level: "error",
+                            message: { text: "Undefined parameter reference: 'missing'" },
+                            locations: [
+                                {
+                                    physicalLocation: {
+                                        artifactLocation: { uri: "file:///b.json" },
+                                        region: { startLine: 6, startColumn: 29, endLine: 6, endColumn: 38 }
+                                    }
+                                }
+                            ]
+                        }
+                    ]
+                }
+            ]
+        });
+    });
+
+    test("createSarifLog with no files", () => {
+        const log = createSarifLog([]);
+        assert.deepStrictEqual(log.runs[0].tool.driver.rules, []);
+        assert.deepStrictEqual(log.runs[0].results, []);
+    });
+});
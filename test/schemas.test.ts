@@ -5,7 +5,7 @@
 // tslint:disable:max-func-body-length no-http-string
 
 import * as assert from "assert";
-import { getPreferredSchema } from "../extension.bundle";
+import { DeploymentScope, getDeploymentScope, getPreferredSchema } from "../extension.bundle";
 
 const mostRecentRGSchema = "https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#";
 
@@ -53,4 +53,22 @@ suite("Schemas", () => {
         // https://schema.management.azure.com/schemas/2019-08-01/tenantDeploymentTemplate.json# - already newest
         createTest("https://schema.management.azure.com/schemas/2019-08-01/tenantDeploymentTemplate.json#", undefined);
     });
+
+    suite("getDeploymentScope", () => {
+        function createTest(schema: string, expectedScope: DeploymentScope | undefined): void {
+            // tslint:disable-next-line: strict-boolean-expressions
+            test(schema || "(empty)", () => {
+                assert.equal(getDeploymentScope(schema), expectedScope);
+            });
+        }
+
+        createTest("", undefined);
+        createTest("https://schema.management.azure.com/schemas/2019-04-01/deploymentParameters.json#", undefined);
+        createTest("https://schema.management.azure.com/schemas/2019-08-01/somethingElseDeploymentTemplate.json#", undefined);
+        createTest("https://schema.management.azure.com/schemas/2015-01-01/deploymentTemplate.json#", DeploymentScope.resourceGroup);
+        createTest("https://schema.management.azure.com/schemas/2019-04-01/DeploymentTemplate.json", DeploymentScope.resourceGroup);
+        createTest("https://schema.management.azure.com/schemas/2018-05-01/subscriptionDeploymentTemplate.json#", DeploymentScope.subscription);
+        createTest("https://schema.management.azure.com/schemas/2019-08-01/managementGroupDeploymentTemplate.json#", DeploymentScope.managementGroup);
+        createTest("HTTPS://SCHEMA.MANAGEMENT.AZURE.COM/SCHEMAS/2019-08-01/TENANTDEPLOYMENTTEMPLATE.JSON#", DeploymentScope.tenant);
+    });
 });